@@ -0,0 +1,336 @@
+-- =============================================================================
+-- Nexus Billing Schema
+-- =============================================================================
+-- Customers, plans, payments, subscriptions and invoices for the payment
+-- service, plus a double-entry ledger of every money movement
+
+CREATE SCHEMA IF NOT EXISTS nexus_billing;
+
+-- =============================================================================
+-- Billing Tables
+-- =============================================================================
+-- Amounts are in the currency's minor unit (e.g. cents), as in the service
+
+CREATE TABLE IF NOT EXISTS nexus_billing.customers (
+    id VARCHAR(64) PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    phone VARCHAR(50),
+    address JSONB,
+    tax_id VARCHAR(50),
+    stripe_customer_id VARCHAR(255) UNIQUE,
+    paypal_customer_id VARCHAR(255),
+    default_payment_method VARCHAR(255),
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS nexus_billing.plans (
+    id VARCHAR(64) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    amount NUMERIC(20, 4) NOT NULL CHECK (amount >= 0),
+    currency CHAR(3) NOT NULL,
+    interval VARCHAR(10) NOT NULL CHECK (interval IN ('day', 'week', 'month', 'year')),
+    interval_count INTEGER NOT NULL DEFAULT 1,
+    trial_period_days INTEGER,
+    features JSONB NOT NULL DEFAULT '[]',
+    metered_components JSONB NOT NULL DEFAULT '[]',
+    late_fee JSONB,
+    tax_behavior VARCHAR(10) CHECK (tax_behavior IN ('inclusive', 'exclusive')),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    stripe_price_id VARCHAR(255),
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS nexus_billing.payments (
+    id VARCHAR(64) PRIMARY KEY,
+    customer_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.customers(id),
+    amount NUMERIC(20, 4) NOT NULL CHECK (amount > 0),
+    currency CHAR(3) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'processing', 'succeeded', 'failed', 'canceled', 'refunded', 'disputed')),
+    payment_method VARCHAR(20) NOT NULL CHECK (payment_method IN ('stripe', 'paypal', 'bank_transfer', 'crypto')),
+    payment_intent_id VARCHAR(255) UNIQUE,
+    description TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    failure_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS nexus_billing.subscriptions (
+    id VARCHAR(64) PRIMARY KEY,
+    customer_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.customers(id),
+    plan_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.plans(id),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('active', 'canceled', 'past_due', 'unpaid', 'trialing', 'paused')),
+    current_period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    current_period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- Start of the first period; monthly and yearly periods are counted from it
+    billing_anchor TIMESTAMP WITH TIME ZONE,
+    trial_end TIMESTAMP WITH TIME ZONE,
+    cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+    paused_at TIMESTAMP WITH TIME ZONE,
+    resume_at TIMESTAMP WITH TIME ZONE,
+    stripe_subscription_id VARCHAR(255) UNIQUE,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS nexus_billing.invoices (
+    id VARCHAR(64) PRIMARY KEY,
+    number VARCHAR(32) UNIQUE,
+    issued_at TIMESTAMP WITH TIME ZONE,
+    customer_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.customers(id),
+    subscription_id VARCHAR(64) REFERENCES nexus_billing.subscriptions(id),
+    amount NUMERIC(20, 4) NOT NULL,
+    currency CHAR(3) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('draft', 'open', 'paid', 'void', 'uncollectible')),
+    due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    items JSONB NOT NULL DEFAULT '[]',
+    tax_amount NUMERIC(20, 4) NOT NULL DEFAULT 0,
+    tax_behavior VARCHAR(10) NOT NULL DEFAULT 'exclusive' CHECK (tax_behavior IN ('inclusive', 'exclusive')),
+    tax JSONB,
+    discount_amount NUMERIC(20, 4) NOT NULL DEFAULT 0,
+    total_amount NUMERIC(20, 4) NOT NULL,
+    amount_due NUMERIC(20, 4) NOT NULL,
+    credit_applied NUMERIC(20, 4) NOT NULL DEFAULT 0,
+    stripe_invoice_id VARCHAR(255) UNIQUE,
+    pdf_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Metered usage; invoice_id is set once the usage has been billed
+CREATE TABLE IF NOT EXISTS nexus_billing.usage_records (
+    id VARCHAR(64) PRIMARY KEY,
+    subscription_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.subscriptions(id),
+    metric VARCHAR(100) NOT NULL,
+    quantity NUMERIC(20, 4) NOT NULL CHECK (quantity >= 0),
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    idempotency_key VARCHAR(255) UNIQUE,
+    invoice_id VARCHAR(64) REFERENCES nexus_billing.invoices(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS nexus_billing.refunds (
+    id VARCHAR(64) PRIMARY KEY,
+    payment_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.payments(id),
+    customer_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.customers(id),
+    amount NUMERIC(20, 4) NOT NULL CHECK (amount > 0),
+    currency CHAR(3) NOT NULL,
+    reason VARCHAR(30) NOT NULL CHECK (reason IN ('duplicate', 'fraudulent', 'requested_by_customer', 'service_issue', 'credit_note', 'other')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+    stripe_refund_id VARCHAR(255) UNIQUE,
+    credit_note_id VARCHAR(64),
+    notes TEXT,
+    failure_reason TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Line-level adjustments to an invoice; lines reference the invoice's items
+CREATE TABLE IF NOT EXISTS nexus_billing.credit_notes (
+    id VARCHAR(64) PRIMARY KEY,
+    number VARCHAR(32) UNIQUE,
+    invoice_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.invoices(id),
+    customer_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.customers(id),
+    amount NUMERIC(20, 4) NOT NULL CHECK (amount > 0),
+    tax_amount NUMERIC(20, 4) NOT NULL DEFAULT 0,
+    total_amount NUMERIC(20, 4) NOT NULL CHECK (total_amount > 0),
+    currency CHAR(3) NOT NULL,
+    reason TEXT NOT NULL,
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('amount_due', 'credit_balance', 'refund')),
+    -- Refund credit notes are pending until their refund settles; void ones no longer count against the invoice
+    status VARCHAR(20) NOT NULL DEFAULT 'issued' CHECK (status IN ('pending', 'issued', 'void')),
+    lines JSONB NOT NULL DEFAULT '[]',
+    refund_id VARCHAR(64) REFERENCES nexus_billing.refunds(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per scheduled collection attempt on an overdue invoice; the unique
+-- (invoice_id, attempt) pair stops two workers from retrying the same step
+CREATE TABLE IF NOT EXISTS nexus_billing.dunning_attempts (
+    id VARCHAR(64) PRIMARY KEY,
+    invoice_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.invoices(id),
+    attempt INTEGER NOT NULL CHECK (attempt > 0),
+    stage VARCHAR(20) NOT NULL CHECK (stage IN ('reminder', 'warning', 'final')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('processing', 'succeeded', 'failed')),
+    payment_id VARCHAR(64) REFERENCES nexus_billing.payments(id),
+    amount NUMERIC(20, 4) NOT NULL,
+    late_fee NUMERIC(20, 4) NOT NULL DEFAULT 0,
+    failure_reason TEXT,
+    attempted_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (invoice_id, attempt)
+);
+
+-- Gapless numbering for issued invoices and credit notes, one series per
+-- document type and year. The counter row stays locked until the issuing
+-- transaction commits, so a rolled-back document never consumes a number.
+CREATE TABLE IF NOT EXISTS nexus_billing.document_sequences (
+    series VARCHAR(20) NOT NULL,
+    year INTEGER NOT NULL,
+    next_value BIGINT NOT NULL DEFAULT 1,
+    PRIMARY KEY (series, year)
+);
+
+-- =============================================================================
+-- Tax Rates
+-- =============================================================================
+-- One rate per jurisdiction: a country, or a state/region within it. Rates
+-- are fractions (0.19 = 19%). Tax is collected only where the seller is
+-- registered, so a US state belongs here only where there is nexus.
+
+CREATE TABLE IF NOT EXISTS nexus_billing.tax_rates (
+    id VARCHAR(20) PRIMARY KEY,
+    country CHAR(2) NOT NULL,
+    region VARCHAR(10),
+    tax_type VARCHAR(10) NOT NULL CHECK (tax_type IN ('vat', 'gst', 'sales_tax')),
+    name VARCHAR(100) NOT NULL,
+    rate NUMERIC(7, 6) NOT NULL CHECK (rate >= 0 AND rate < 1),
+    reverse_charge BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- Stripe Webhook Events
+-- =============================================================================
+-- Every verified event is stored before it is handled, keyed by Stripe's event
+-- id, so redeliveries are recognised and stored events can be replayed
+
+CREATE TABLE IF NOT EXISTS nexus_billing.stripe_events (
+    id VARCHAR(255) PRIMARY KEY,
+    type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processing', 'processed', 'failed', 'ignored')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    -- Start of the current handling attempt; a 'processing' row older than the lease is taken over
+    processing_started_at TIMESTAMP WITH TIME ZONE,
+    stripe_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- =============================================================================
+-- Double-Entry Ledger
+-- =============================================================================
+-- One transaction per money movement; its entries must balance (debits equal
+-- credits per currency), which is checked when the database transaction commits
+
+CREATE TABLE IF NOT EXISTS nexus_billing.ledger_transactions (
+    id VARCHAR(64) PRIMARY KEY,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('charge', 'refund', 'credit', 'fee', 'adjustment')),
+    reference_type VARCHAR(20),
+    reference_id VARCHAR(64),
+    description TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS nexus_billing.ledger_entries (
+    id BIGSERIAL PRIMARY KEY,
+    transaction_id VARCHAR(64) NOT NULL REFERENCES nexus_billing.ledger_transactions(id),
+    account VARCHAR(50) NOT NULL,
+    customer_id VARCHAR(64) REFERENCES nexus_billing.customers(id),
+    direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+    amount NUMERIC(20, 4) NOT NULL CHECK (amount > 0),
+    currency CHAR(3) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE OR REPLACE FUNCTION nexus_billing.check_ledger_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1
+        FROM nexus_billing.ledger_entries
+        WHERE transaction_id = NEW.transaction_id
+        GROUP BY currency
+        HAVING SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END) <> 0
+    ) THEN
+        RAISE EXCEPTION 'Ledger transaction % is not balanced', NEW.transaction_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS ledger_entries_balanced ON nexus_billing.ledger_entries;
+CREATE CONSTRAINT TRIGGER ledger_entries_balanced
+    AFTER INSERT OR UPDATE ON nexus_billing.ledger_entries
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION nexus_billing.check_ledger_balance();
+
+-- The ledger is append-only; corrections are new transactions
+CREATE OR REPLACE FUNCTION nexus_billing.prevent_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Ledger entries cannot be modified or deleted';
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON nexus_billing.ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+    BEFORE UPDATE OR DELETE ON nexus_billing.ledger_entries
+    FOR EACH ROW EXECUTE FUNCTION nexus_billing.prevent_ledger_changes();
+
+-- =============================================================================
+-- Indexes for Performance
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_billing_customers_email ON nexus_billing.customers(email);
+CREATE INDEX IF NOT EXISTS idx_billing_payments_customer_id ON nexus_billing.payments(customer_id);
+CREATE INDEX IF NOT EXISTS idx_billing_payments_status ON nexus_billing.payments(status);
+CREATE INDEX IF NOT EXISTS idx_billing_payments_created_at ON nexus_billing.payments(created_at);
+CREATE INDEX IF NOT EXISTS idx_billing_subscriptions_customer_id ON nexus_billing.subscriptions(customer_id);
+CREATE INDEX IF NOT EXISTS idx_billing_subscriptions_renewal ON nexus_billing.subscriptions(status, current_period_end);
+CREATE INDEX IF NOT EXISTS idx_billing_invoices_customer_id ON nexus_billing.invoices(customer_id);
+CREATE INDEX IF NOT EXISTS idx_billing_invoices_overdue ON nexus_billing.invoices(status, due_date);
+CREATE INDEX IF NOT EXISTS idx_billing_usage_records_unbilled ON nexus_billing.usage_records(subscription_id, recorded_at) WHERE invoice_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_billing_refunds_payment_id ON nexus_billing.refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_billing_refunds_created_at ON nexus_billing.refunds(created_at);
+CREATE INDEX IF NOT EXISTS idx_billing_credit_notes_invoice_id ON nexus_billing.credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_billing_dunning_attempts_payment_id ON nexus_billing.dunning_attempts(payment_id);
+CREATE INDEX IF NOT EXISTS idx_billing_tax_rates_country ON nexus_billing.tax_rates(country, region);
+CREATE INDEX IF NOT EXISTS idx_billing_stripe_events_type ON nexus_billing.stripe_events(type, stripe_created_at);
+CREATE INDEX IF NOT EXISTS idx_billing_stripe_events_status ON nexus_billing.stripe_events(status);
+CREATE INDEX IF NOT EXISTS idx_billing_ledger_transactions_reference ON nexus_billing.ledger_transactions(reference_type, reference_id);
+CREATE INDEX IF NOT EXISTS idx_billing_ledger_entries_transaction_id ON nexus_billing.ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_billing_ledger_entries_account ON nexus_billing.ledger_entries(account, customer_id, currency);
+
+-- =============================================================================
+-- Triggers for Updated At
+-- =============================================================================
+
+DROP TRIGGER IF EXISTS update_billing_customers_updated_at ON nexus_billing.customers;
+CREATE TRIGGER update_billing_customers_updated_at BEFORE UPDATE ON nexus_billing.customers
+    FOR EACH ROW EXECUTE FUNCTION nexus_core.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_billing_payments_updated_at ON nexus_billing.payments;
+CREATE TRIGGER update_billing_payments_updated_at BEFORE UPDATE ON nexus_billing.payments
+    FOR EACH ROW EXECUTE FUNCTION nexus_core.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_billing_subscriptions_updated_at ON nexus_billing.subscriptions;
+CREATE TRIGGER update_billing_subscriptions_updated_at BEFORE UPDATE ON nexus_billing.subscriptions
+    FOR EACH ROW EXECUTE FUNCTION nexus_core.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_billing_refunds_updated_at ON nexus_billing.refunds;
+CREATE TRIGGER update_billing_refunds_updated_at BEFORE UPDATE ON nexus_billing.refunds
+    FOR EACH ROW EXECUTE FUNCTION nexus_core.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_billing_tax_rates_updated_at ON nexus_billing.tax_rates;
+CREATE TRIGGER update_billing_tax_rates_updated_at BEFORE UPDATE ON nexus_billing.tax_rates
+    FOR EACH ROW EXECUTE FUNCTION nexus_core.update_updated_at_column();
+
+GRANT USAGE ON SCHEMA nexus_billing TO PUBLIC;
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Nexus billing schema initialized';
+END $$;
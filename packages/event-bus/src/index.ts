@@ -0,0 +1,7 @@
+/**
+ * @nexus/event-bus
+ *
+ * Domain event publishing and saga orchestration for Nexus microservices
+ */
+
+export * from './event-bus.service';
@@ -7,6 +7,11 @@ import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
 import type { PostgreSQLConfig } from './config';
 import { getDatabaseConfig } from './config';
 
+/**
+ * Client handed to transaction callbacks, so callers need not depend on pg
+ */
+export type DatabaseClient = PoolClient;
+
 export class PostgreSQLConnection {
   private pool: Pool | null = null;
   private config: PostgreSQLConfig;
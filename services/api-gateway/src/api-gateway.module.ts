@@ -16,7 +16,6 @@ import { HealthModule } from './health/health.module';
 import { RequestLoggingMiddleware } from './middleware/request-logging.middleware';
 import { CorrelationIdMiddleware } from './middleware/correlation-id.middleware';
 import { ServiceMeshInterceptor } from './interceptors/service-mesh.interceptor';
-import { CircuitBreakerInterceptor } from './interceptors/circuit-breaker.interceptor';
 import { GlobalExceptionFilter } from './filters/global-exception.filter';
 
 // Guards
@@ -78,10 +77,6 @@ import { RateLimitGuard } from './guards/rate-limit.guard';
       provide: APP_INTERCEPTOR,
       useClass: ServiceMeshInterceptor,
     },
-    {
-      provide: APP_INTERCEPTOR,
-      useClass: CircuitBreakerInterceptor,
-    },
 
     // Global filters
     {
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthenticationService } from './authentication.service';
+
+@Module({
+  imports: [JwtModule.register({})],
+  providers: [AuthenticationService],
+  exports: [AuthenticationService],
+})
+export class AuthenticationModule {}
@@ -0,0 +1,56 @@
+import { JwtService } from '@nestjs/jwt';
+import { AuthenticationService } from './authentication.service';
+
+describe('AuthenticationService', () => {
+  const secret = 'test-jwt-secret';
+  const jwtService = new JwtService();
+  let service: AuthenticationService;
+
+  beforeAll(() => {
+    process.env.GATEWAY_JWT_SECRET = secret;
+    process.env.GATEWAY_IDENTITY_SIGNING_SECRET = 'test-identity-secret';
+    service = new AuthenticationService(jwtService);
+  });
+
+  afterAll(() => {
+    delete process.env.GATEWAY_JWT_SECRET;
+    delete process.env.GATEWAY_IDENTITY_SIGNING_SECRET;
+  });
+
+  describe('identity signing secret', () => {
+    afterEach(() => {
+      process.env.GATEWAY_IDENTITY_SIGNING_SECRET = 'test-identity-secret';
+    });
+
+    it('is required', () => {
+      delete process.env.GATEWAY_IDENTITY_SIGNING_SECRET;
+
+      expect(() => new AuthenticationService(jwtService)).toThrow('GATEWAY_IDENTITY_SIGNING_SECRET must be set');
+    });
+
+    it('cannot be the JWT secret', () => {
+      process.env.GATEWAY_IDENTITY_SIGNING_SECRET = secret;
+
+      expect(() => new AuthenticationService(jwtService)).toThrow('must not be the JWT secret');
+    });
+  });
+
+  it('accepts access tokens', async () => {
+    const token = jwtService.sign({ sub: 'user-1', roles: ['user'] }, { secret });
+
+    await expect(service.verifyToken(token)).resolves.toMatchObject({ subject: 'user-1', roles: ['user'] });
+  });
+
+  it.each(['refresh', 'mfa_enrollment', 'mfa_challenge', 'mfa_recovery'])('rejects %s tokens', async (type) => {
+    const token = jwtService.sign({ sub: 'user-1', type }, { secret });
+
+    await expect(service.verifyToken(token)).rejects.toThrow('cannot be used for API access');
+  });
+
+  it('answers a protected route called with a refresh token with 401', async () => {
+    const token = jwtService.sign({ sub: 'user-1', type: 'refresh' }, { secret });
+    const req = { headers: { authorization: `Bearer ${token}` } } as any;
+
+    await expect(service.authenticate(req, { required: true })).resolves.toMatchObject({ allowed: false, status: 401 });
+  });
+});
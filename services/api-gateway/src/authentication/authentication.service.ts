@@ -0,0 +1,313 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Request } from 'express';
+import { createHmac, createPublicKey, KeyObject } from 'crypto';
+import { promises as fs } from 'fs';
+import axios from 'axios';
+
+export interface RouteAuthConfig {
+  required: boolean;
+  roles?: string[];
+  scopes?: string[];
+}
+
+export interface AuthenticatedPrincipal {
+  subject: string;
+  tenantId?: string;
+  roles: string[];
+  scopes: string[];
+  expiresAt?: Date;
+  claims: Record<string, any>;
+}
+
+export interface AuthenticationResult {
+  allowed: boolean;
+  status?: 401 | 403;
+  error?: string;
+  message?: string;
+  principal?: AuthenticatedPrincipal;
+}
+
+interface JwksKey {
+  kid?: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+  [key: string]: any;
+}
+
+// Headers the gateway sets on proxied requests; never trusted from clients
+export const IDENTITY_HEADERS = {
+  subject: 'x-gateway-user-id',
+  tenant: 'x-gateway-tenant-id',
+  roles: 'x-gateway-user-roles',
+  scopes: 'x-gateway-user-scopes',
+  timestamp: 'x-gateway-identity-timestamp',
+  signature: 'x-gateway-identity-signature',
+};
+
+@Injectable()
+export class AuthenticationService {
+  private readonly logger = new Logger(AuthenticationService.name);
+  private readonly jwtSecret = process.env.GATEWAY_JWT_SECRET || process.env.JWT_SECRET;
+  private readonly jwksUri = process.env.GATEWAY_JWKS_URI;
+  private readonly issuer = process.env.GATEWAY_JWT_ISSUER;
+  private readonly audience = process.env.GATEWAY_JWT_AUDIENCE;
+  private readonly identitySigningSecret = process.env.GATEWAY_IDENTITY_SIGNING_SECRET;
+  private readonly JWKS_CACHE_TTL = 600000; // 10 minutes
+  private readonly JWKS_MIN_REFRESH_INTERVAL = 30000; // 30 seconds
+
+  private jwksKeys = new Map<string, KeyObject>();
+  private jwksFetchedAt = 0;
+  private jwksRefresh: Promise<void> | null = null;
+
+  constructor(private readonly jwtService: JwtService) {
+    // Services trust the identity headers, so they get a key of their own that no token secret can forge
+    if (!this.identitySigningSecret) {
+      throw new Error('GATEWAY_IDENTITY_SIGNING_SECRET must be set to sign forwarded identity headers');
+    }
+    if (this.identitySigningSecret === this.jwtSecret) {
+      throw new Error('GATEWAY_IDENTITY_SIGNING_SECRET must not be the JWT secret');
+    }
+
+    if (!this.jwtSecret && !this.jwksUri) {
+      this.logger.warn('Neither GATEWAY_JWT_SECRET nor GATEWAY_JWKS_URI is set; protected routes will reject all requests');
+    }
+  }
+
+  async authenticate(req: Request, auth: RouteAuthConfig): Promise<AuthenticationResult> {
+    const token = this.extractBearerToken(req);
+
+    if (!token) {
+      if (!auth.required) {
+        return { allowed: true };
+      }
+      return this.unauthorized('Missing bearer token');
+    }
+
+    let principal: AuthenticatedPrincipal;
+    try {
+      principal = await this.verifyToken(token);
+    } catch (error) {
+      // A bad token on a public route is ignored rather than rejected
+      if (!auth.required) {
+        return { allowed: true };
+      }
+
+      const message = error.name === 'TokenExpiredError' ? 'Token expired' : 'Invalid token';
+      this.logger.debug(`Token verification failed: ${error.message}`);
+      return this.unauthorized(message);
+    }
+
+    if (auth.roles?.length && !this.intersects(auth.roles, principal.roles)) {
+      return this.forbidden(`Requires one of roles: ${auth.roles.join(', ')}`, principal);
+    }
+
+    if (auth.scopes?.length && !this.intersects(auth.scopes, principal.scopes)) {
+      return this.forbidden(`Requires one of scopes: ${auth.scopes.join(', ')}`, principal);
+    }
+
+    return { allowed: true, principal };
+  }
+
+  async verifyToken(token: string): Promise<AuthenticatedPrincipal> {
+    const decoded = this.jwtService.decode(token, { complete: true }) as {
+      header: { alg: string; kid?: string };
+      payload: Record<string, any>;
+    } | null;
+
+    if (!decoded?.header) {
+      throw new Error('Malformed token');
+    }
+
+    const verifyOptions = {
+      issuer: this.issuer,
+      audience: this.audience,
+    };
+
+    let payload: Record<string, any>;
+
+    switch (decoded.header.alg) {
+      case 'HS256':
+        if (!this.jwtSecret) {
+          throw new Error('HS256 tokens are not accepted: no shared secret configured');
+        }
+        payload = await this.jwtService.verifyAsync(token, {
+          ...verifyOptions,
+          secret: this.jwtSecret,
+          algorithms: ['HS256'],
+        });
+        break;
+
+      case 'RS256': {
+        const key = await this.getSigningKey(decoded.header.kid);
+        payload = await this.jwtService.verifyAsync(token, {
+          ...verifyOptions,
+          publicKey: key.export({ type: 'spki', format: 'pem' }) as string,
+          algorithms: ['RS256'],
+        });
+        break;
+      }
+
+      default:
+        throw new Error(`Unsupported token algorithm: ${decoded.header.alg}`);
+    }
+
+    return this.toPrincipal(payload);
+  }
+
+  /**
+   * Removes any identity headers supplied by the client and, when a principal
+   * is present, replaces them with gateway-signed values for downstream services.
+   */
+  applyIdentityHeaders(
+    setHeader: (name: string, value: string) => void,
+    removeHeader: (name: string) => void,
+    principal?: AuthenticatedPrincipal,
+  ): void {
+    Object.values(IDENTITY_HEADERS).forEach((header) => removeHeader(header));
+
+    if (!principal) {
+      return;
+    }
+
+    const timestamp = Date.now().toString();
+    const roles = principal.roles.join(',');
+    const scopes = principal.scopes.join(' ');
+
+    setHeader(IDENTITY_HEADERS.subject, principal.subject);
+    if (principal.tenantId) {
+      setHeader(IDENTITY_HEADERS.tenant, principal.tenantId);
+    }
+    setHeader(IDENTITY_HEADERS.roles, roles);
+    setHeader(IDENTITY_HEADERS.scopes, scopes);
+    setHeader(IDENTITY_HEADERS.timestamp, timestamp);
+
+    setHeader(
+      IDENTITY_HEADERS.signature,
+      this.signIdentity(principal.subject, principal.tenantId || '', roles, scopes, timestamp),
+    );
+  }
+
+  signIdentity(
+    subject: string,
+    tenantId: string,
+    roles: string,
+    scopes: string,
+    timestamp: string,
+  ): string {
+    return createHmac('sha256', this.identitySigningSecret!)
+      .update([subject, tenantId, roles, scopes, timestamp].join('\n'))
+      .digest('hex');
+  }
+
+  private extractBearerToken(req: Request): string | null {
+    const header = req.headers.authorization;
+    if (!header) {
+      return null;
+    }
+
+    const [scheme, token] = header.split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      return null;
+    }
+
+    return token.trim();
+  }
+
+  // Access tokens carry no `type`; refresh and single-purpose tokens (MFA steps and the like) do
+  private toPrincipal(payload: Record<string, any>): AuthenticatedPrincipal {
+    if (payload.type !== undefined) {
+      throw new Error(`${payload.type} tokens cannot be used for API access`);
+    }
+
+    const roles = new Set<string>([
+      ...(Array.isArray(payload.roles) ? payload.roles : []),
+      ...(payload.role ? [payload.role] : []),
+      ...(payload.realm_access?.roles || []),
+    ]);
+
+    const scopes = typeof payload.scope === 'string'
+      ? payload.scope.split(' ').filter(Boolean)
+      : Array.isArray(payload.scp) ? payload.scp : [];
+
+    return {
+      subject: String(payload.sub),
+      tenantId: payload.tenantId || payload.tenant_id,
+      roles: Array.from(roles),
+      scopes,
+      expiresAt: payload.exp ? new Date(payload.exp * 1000) : undefined,
+      claims: payload,
+    };
+  }
+
+  private intersects(required: string[], granted: string[]): boolean {
+    return required.some((value) => granted.includes(value));
+  }
+
+  private unauthorized(message: string): AuthenticationResult {
+    return { allowed: false, status: 401, error: 'Unauthorized', message };
+  }
+
+  private forbidden(message: string, principal: AuthenticatedPrincipal): AuthenticationResult {
+    return { allowed: false, status: 403, error: 'Forbidden', message, principal };
+  }
+
+  // JWKS handling
+  private async getSigningKey(kid?: string): Promise<KeyObject> {
+    if (!this.jwksUri) {
+      throw new Error('RS256 tokens are not accepted: no JWKS configured');
+    }
+
+    const stale = Date.now() - this.jwksFetchedAt > this.JWKS_CACHE_TTL;
+    const unknownKid = kid !== undefined && !this.jwksKeys.has(kid);
+    const canRefresh = Date.now() - this.jwksFetchedAt > this.JWKS_MIN_REFRESH_INTERVAL;
+
+    if (stale || (unknownKid && canRefresh)) {
+      await this.refreshJwks();
+    }
+
+    const key = kid !== undefined
+      ? this.jwksKeys.get(kid)
+      : this.jwksKeys.size === 1 ? this.jwksKeys.values().next().value : undefined;
+
+    if (!key) {
+      throw new Error(`No signing key found for kid ${kid ?? '(none)'}`);
+    }
+
+    return key;
+  }
+
+  private async refreshJwks(): Promise<void> {
+    // Collapse concurrent refreshes into a single fetch
+    if (!this.jwksRefresh) {
+      this.jwksRefresh = this.loadJwks().finally(() => {
+        this.jwksRefresh = null;
+      });
+    }
+    return this.jwksRefresh;
+  }
+
+  private async loadJwks(): Promise<void> {
+    try {
+      const jwks: { keys: JwksKey[] } = /^https?:\/\//.test(this.jwksUri!)
+        ? (await axios.get(this.jwksUri!, { timeout: 5000 })).data
+        : JSON.parse(await fs.readFile(this.jwksUri!, 'utf8'));
+
+      const keys = new Map<string, KeyObject>();
+      jwks.keys
+        .filter((jwk) => jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig'))
+        .forEach((jwk, index) => {
+          keys.set(jwk.kid ?? `key-${index}`, createPublicKey({ key: jwk, format: 'jwk' }));
+        });
+
+      this.jwksKeys = keys;
+      this.jwksFetchedAt = Date.now();
+      this.logger.debug(`Loaded ${keys.size} signing keys from ${this.jwksUri}`);
+    } catch (error) {
+      // Keep serving previously loaded keys if the refresh fails
+      this.jwksFetchedAt = Date.now();
+      this.logger.error(`Failed to load JWKS from ${this.jwksUri}:`, error.message);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { AuthenticationService } from './authentication.service';
+
+export const ADMIN_TOKEN_HEADER = 'x-gateway-admin-token';
+
+/**
+ * Protects the gateway's /_gateway management API. Callers present either the
+ * shared GATEWAY_ADMIN_TOKEN (for automation) or a bearer token carrying one
+ * of GATEWAY_ADMIN_ROLES (comma-separated, default "admin").
+ */
+@Injectable()
+export class GatewayAdminGuard implements CanActivate {
+  private readonly adminToken = process.env.GATEWAY_ADMIN_TOKEN || '';
+  private readonly adminRoles = (process.env.GATEWAY_ADMIN_ROLES || 'admin')
+    .split(',')
+    .map((role) => role.trim())
+    .filter(Boolean);
+
+  constructor(private readonly authentication: AuthenticationService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<Request>();
+
+    const token = req.headers[ADMIN_TOKEN_HEADER];
+    if (typeof token === 'string') {
+      if (!this.isAdminToken(token)) {
+        throw new UnauthorizedException('Invalid admin token');
+      }
+      return true;
+    }
+
+    const result = await this.authentication.authenticate(req, { required: true, roles: this.adminRoles });
+    if (!result.allowed) {
+      throw result.status === 403
+        ? new ForbiddenException(result.message)
+        : new UnauthorizedException(result.message);
+    }
+
+    req['user'] = result.principal;
+    return true;
+  }
+
+  // Token access stays closed unless one is configured
+  private isAdminToken(token: string): boolean {
+    const expected = Buffer.from(this.adminToken);
+    const actual = Buffer.from(token);
+    return !!this.adminToken && expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
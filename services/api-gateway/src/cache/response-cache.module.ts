@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ResponseCacheService } from './response-cache.service';
+
+@Module({
+  providers: [ResponseCacheService],
+  exports: [ResponseCacheService],
+})
+export class ResponseCacheModule {}
@@ -0,0 +1,70 @@
+import { PassThrough } from 'stream';
+import { IncomingMessage } from 'http';
+import { Request, Response } from 'express';
+import { ResponseCacheService, CacheRouteConfig } from './response-cache.service';
+
+describe('ResponseCacheService', () => {
+  let cache: ResponseCacheService;
+
+  const route: CacheRouteConfig = {
+    id: 'catalog',
+    cache: { enabled: true, ttl: 60, varyHeaders: ['Accept-Language'] },
+  };
+
+  const request = (path: string, headers: Record<string, string> = {}): Request =>
+    ({ method: 'GET', path, query: {}, headers } as unknown as Request);
+
+  const response = (): Response => {
+    const headers: Record<string, any> = {};
+    return {
+      statusCode: 200,
+      setHeader: (name: string, value: any) => { headers[name.toLowerCase()] = value; },
+      getHeaders: () => headers,
+    } as unknown as Response;
+  };
+
+  // Runs an upstream body through captureResponse and waits for the entry to be written
+  const capture = async (req: Request, body: string) => {
+    const proxyRes = Object.assign(new PassThrough(), {
+      statusCode: 200,
+      headers: { 'content-type': 'application/json' },
+    }) as unknown as IncomingMessage & PassThrough;
+
+    cache.captureResponse(req, response(), proxyRes, route);
+    proxyRes.end(body);
+    proxyRes.resume();
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  beforeEach(() => {
+    // Redis is never connected, so the in-memory fallback is used
+    cache = new ResponseCacheService();
+  });
+
+  it('captures a proxied response and serves it on the next lookup', async () => {
+    await capture(request('/items'), '{"items":[]}');
+
+    const entry = await cache.lookup(request('/items'), route);
+    expect(entry).not.toBeNull();
+    expect(Buffer.from(entry!.body, 'base64').toString()).toBe('{"items":[]}');
+  });
+
+  it('varies on configured headers regardless of their case', async () => {
+    await capture(request('/items', { 'accept-language': 'en' }), '"english"');
+
+    expect(await cache.lookup(request('/items', { 'accept-language': 'de' }), route)).toBeNull();
+    expect(await cache.lookup(request('/items', { 'accept-language': 'en' }), route)).not.toBeNull();
+  });
+
+  it('treats glob characters in a purge prefix literally', async () => {
+    await capture(request('/items'), '"items"');
+    await capture(request('/orders'), '"orders"');
+
+    expect(await cache.purge({ prefix: '/*' })).toBe(0);
+    expect(await cache.lookup(request('/items'), route)).not.toBeNull();
+
+    expect(await cache.purge({ routeId: 'catalog', prefix: '/items' })).toBe(2);
+    expect(await cache.lookup(request('/items'), route)).toBeNull();
+    expect(await cache.lookup(request('/orders'), route)).not.toBeNull();
+  });
+});
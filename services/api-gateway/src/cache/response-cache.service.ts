@@ -0,0 +1,445 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { IncomingMessage } from 'http';
+import { createHash } from 'crypto';
+import Redis from 'redis';
+
+export interface CacheRouteConfig {
+  id: string;
+  cache: {
+    enabled: boolean;
+    ttl: number;
+    varyHeaders?: string[];
+  };
+}
+
+export interface CachedResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+  body: string; // base64
+  etag: string;
+  storedAt: number;
+  ttl: number;
+}
+
+export interface CacheStats {
+  backend: 'redis' | 'memory';
+  hits: number;
+  misses: number;
+  stores: number;
+  revalidations: number;
+  hitRatio: number;
+  memoryEntries: number;
+}
+
+// Headers that describe the connection rather than the representation
+const UNCACHEABLE_HEADERS = [
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'set-cookie',
+  'x-correlation-id',
+  'x-response-time',
+];
+
+@Injectable()
+export class ResponseCacheService implements OnModuleInit {
+  private readonly logger = new Logger(ResponseCacheService.name);
+  private redis: Redis.RedisClientType;
+  private redisAvailable = false;
+  private readonly CACHE_PREFIX = 'nexus:cache';
+  private readonly VARY_PREFIX = 'nexus:cache-vary';
+  private readonly MAX_MEMORY_ENTRIES = 1000;
+  private readonly MAX_BODY_BYTES = 1024 * 1024; // 1MB
+
+  // In-memory fallback used while Redis is unavailable
+  private memoryCache = new Map<string, { value: string; expiresAt: number }>();
+  private stats = { hits: 0, misses: 0, stores: 0, revalidations: 0 };
+
+  async onModuleInit() {
+    await this.initializeRedis();
+  }
+
+  private async initializeRedis(): Promise<void> {
+    this.redis = Redis.createClient({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+    });
+
+    this.redis.on('error', (error) => {
+      if (this.redisAvailable) {
+        this.logger.warn('Redis unavailable, falling back to in-memory response cache:', error.message);
+      }
+      this.redisAvailable = false;
+    });
+
+    this.redis.on('ready', () => {
+      this.redisAvailable = true;
+    });
+
+    try {
+      await this.redis.connect();
+      this.logger.log('Connected to Redis for response caching');
+    } catch (error) {
+      this.logger.warn('Using in-memory response cache:', error.message);
+    }
+  }
+
+  isCacheable(req: Request, route: CacheRouteConfig): boolean {
+    return route.cache.enabled && (req.method === 'GET' || req.method === 'HEAD');
+  }
+
+  async lookup(req: Request, route: CacheRouteConfig): Promise<CachedResponse | null> {
+    // Client asked for an end-to-end reload
+    if (/no-cache|no-store/.test(req.headers['cache-control'] || '')) {
+      this.stats.misses++;
+      return null;
+    }
+
+    const baseKey = this.buildBaseKey(req, route);
+    const varyHeaders = await this.getVaryHeaders(baseKey);
+    const raw = await this.read(this.buildVariantKey(baseKey, req, varyHeaders));
+
+    if (!raw) {
+      this.stats.misses++;
+      return null;
+    }
+
+    this.stats.hits++;
+    return JSON.parse(raw) as CachedResponse;
+  }
+
+  serve(req: Request, res: Response, entry: CachedResponse): void {
+    const age = Math.floor((Date.now() - entry.storedAt) / 1000);
+
+    Object.entries(entry.headers).forEach(([name, value]) => res.setHeader(name, value));
+    res.setHeader('etag', entry.etag);
+    res.setHeader('age', age.toString());
+    res.setHeader('x-gateway-cache', 'HIT');
+
+    if (this.etagMatches(req.headers['if-none-match'], entry.etag)) {
+      this.stats.revalidations++;
+      res.removeHeader('content-length');
+      res.status(304).end();
+      return;
+    }
+
+    const body = Buffer.from(entry.body, 'base64');
+    res.status(entry.status);
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    res.end(body);
+  }
+
+  /**
+   * Buffers an upstream response alongside the normal proxy pipe and stores it
+   * once complete, if the upstream's Cache-Control and Vary allow it.
+   */
+  captureResponse(req: Request, res: Response, proxyRes: IncomingMessage, route: CacheRouteConfig): void {
+    const policy = this.getStoragePolicy(req, res, proxyRes, route);
+    if (!policy) {
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let oversized = false;
+
+    proxyRes.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > this.MAX_BODY_BYTES) {
+        oversized = true;
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    proxyRes.on('end', () => {
+      if (!oversized) {
+        // Store what the client was sent, including any route header/status transforms
+        this.storeEntry(req, route, policy, res.statusCode, res.getHeaders(), Buffer.concat(chunks));
+      }
+    });
+  }
+
+  /**
+   * Stores a response the gateway has already buffered and rewritten, so that
+   * cache hits return the transformed representation.
+   */
+  storeResponse(
+    req: Request,
+    res: Response,
+    proxyRes: IncomingMessage,
+    route: CacheRouteConfig,
+    status: number,
+    headers: Record<string, string | string[] | number | undefined>,
+    body: Buffer,
+  ): void {
+    const policy = this.getStoragePolicy(req, res, proxyRes, route);
+    if (policy && body.length <= this.MAX_BODY_BYTES) {
+      this.storeEntry(req, route, policy, status, headers, body);
+    }
+  }
+
+  async purge(options: { routeId?: string; prefix?: string }): Promise<number> {
+    // Route ids and paths are literal; only the trailing wildcard may match
+    const routePattern = options.routeId ? this.escapeGlob(options.routeId) : '*';
+    const pathPattern = options.prefix ? `${this.escapeGlob(options.prefix)}*` : '*';
+    const patterns = [
+      `${this.CACHE_PREFIX}:${routePattern}:${pathPattern}`,
+      `${this.VARY_PREFIX}:${routePattern}:${pathPattern}`,
+    ];
+
+    let purged = 0;
+
+    for (const [key] of this.memoryCache) {
+      if (patterns.some((pattern) => this.globMatches(pattern, key))) {
+        this.memoryCache.delete(key);
+        purged++;
+      }
+    }
+
+    if (this.redisAvailable) {
+      try {
+        for (const pattern of patterns) {
+          const keys: string[] = [];
+          for await (const key of this.redis.scanIterator({ MATCH: pattern, COUNT: 500 })) {
+            keys.push(key);
+          }
+          if (keys.length > 0) {
+            purged += await this.redis.del(keys);
+          }
+        }
+      } catch (error) {
+        this.logger.error('Failed to purge Redis response cache:', error.message);
+      }
+    }
+
+    this.logger.log(`Purged ${purged} cache keys (route=${routePattern}, prefix=${options.prefix || '*'})`);
+    return purged;
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+
+    return {
+      backend: this.redisAvailable ? 'redis' : 'memory',
+      ...this.stats,
+      hitRatio: lookups > 0 ? this.stats.hits / lookups : 0,
+      memoryEntries: this.memoryCache.size,
+    };
+  }
+
+  // Upstream caching rules decide whether (and for how long) a response may be stored
+  private getStoragePolicy(
+    req: Request,
+    res: Response,
+    proxyRes: IncomingMessage,
+    route: CacheRouteConfig,
+  ): { ttl: number; vary: string[] } | null {
+    if (req.method !== 'GET') {
+      return null;
+    }
+
+    res.setHeader('x-gateway-cache', 'MISS');
+
+    const ttl = this.resolveTtl(proxyRes, route, !!req['user']);
+    const vary = this.parseVary(proxyRes.headers.vary);
+
+    if (ttl <= 0 || vary === '*' || proxyRes.headers['set-cookie'] || proxyRes.statusCode !== 200) {
+      return null;
+    }
+
+    return { ttl, vary };
+  }
+
+  private storeEntry(
+    req: Request,
+    route: CacheRouteConfig,
+    policy: { ttl: number; vary: string[] },
+    status: number,
+    responseHeaders: Record<string, string | string[] | number | undefined>,
+    body: Buffer,
+  ): void {
+    const headers: Record<string, string | string[]> = {};
+    Object.entries(responseHeaders).forEach(([name, value]) => {
+      if (value !== undefined && !UNCACHEABLE_HEADERS.includes(name)) {
+        headers[name] = typeof value === 'number' ? value.toString() : value;
+      }
+    });
+
+    const entry: CachedResponse = {
+      status,
+      headers,
+      body: body.toString('base64'),
+      etag: (headers.etag as string) || `"${createHash('sha1').update(body).digest('hex')}"`,
+      storedAt: Date.now(),
+      ttl: policy.ttl,
+    };
+
+    this.store(req, route, policy.vary, entry).catch((error) => {
+      this.logger.error(`Failed to cache response for ${req.path}:`, error.message);
+    });
+  }
+
+  private async store(
+    req: Request,
+    route: CacheRouteConfig,
+    vary: string[],
+    entry: CachedResponse,
+  ): Promise<void> {
+    const baseKey = this.buildBaseKey(req, route);
+    // Incoming header names are lowercase, so configured ones must be too
+    const configured = (route.cache.varyHeaders || []).map((name) => name.toLowerCase());
+    const varyHeaders = Array.from(new Set([...configured, ...vary])).sort();
+
+    await this.write(this.varyKey(baseKey), JSON.stringify(varyHeaders), entry.ttl);
+    await this.write(this.buildVariantKey(baseKey, req, varyHeaders), JSON.stringify(entry), entry.ttl);
+
+    this.stats.stores++;
+  }
+
+  // Key layout: <prefix>:<routeId>:<path>?<query>|<principal>|<route version>
+  private buildBaseKey(req: Request, route: CacheRouteConfig): string {
+    const query = Object.keys(req.query)
+      .sort()
+      .map((name) => `${name}=${JSON.stringify(req.query[name])}`)
+      .join('&');
+    const principal = req['user']?.subject || 'anonymous';
+    const version = req['versionSelection']?.version || '';
+    // The proxy rewrites req.url before responses are captured; key on the path the client asked for
+    const path = req.originalUrl ? req.originalUrl.split('?')[0] : req.path;
+
+    return `${route.id}:${path}?${query}|${principal}|${version}`;
+  }
+
+  private buildVariantKey(baseKey: string, req: Request, varyHeaders: string[]): string {
+    const variant = varyHeaders
+      .map((header) => `${header}=${req.headers[header] ?? ''}`)
+      .join('\n');
+    const hash = createHash('sha1').update(variant).digest('hex').slice(0, 16);
+
+    return `${this.CACHE_PREFIX}:${baseKey}#${hash}`;
+  }
+
+  private varyKey(baseKey: string): string {
+    return `${this.VARY_PREFIX}:${baseKey}`;
+  }
+
+  private async getVaryHeaders(baseKey: string): Promise<string[]> {
+    const raw = await this.read(this.varyKey(baseKey));
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  private resolveTtl(proxyRes: IncomingMessage, route: CacheRouteConfig, authenticated: boolean): number {
+    const cacheControl = (proxyRes.headers['cache-control'] || '').toLowerCase();
+
+    if (/no-store|no-cache/.test(cacheControl)) {
+      return 0;
+    }
+
+    // Private responses are only safe to share when the key includes the principal
+    if (cacheControl.includes('private') && !authenticated) {
+      return 0;
+    }
+
+    const sMaxAge = cacheControl.match(/s-maxage=(\d+)/);
+    if (sMaxAge) {
+      return parseInt(sMaxAge[1]);
+    }
+
+    const maxAge = cacheControl.match(/max-age=(\d+)/);
+    if (maxAge) {
+      return parseInt(maxAge[1]);
+    }
+
+    return route.cache.ttl;
+  }
+
+  private parseVary(header: string | undefined): string[] | '*' {
+    if (!header) {
+      return [];
+    }
+    if (header.trim() === '*') {
+      return '*';
+    }
+    return header.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+  }
+
+  private etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+    if (!ifNoneMatch) {
+      return false;
+    }
+    if (ifNoneMatch.trim() === '*') {
+      return true;
+    }
+
+    const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.split(',').some((tag) => normalize(tag) === normalize(etag));
+  }
+
+  private escapeGlob(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+  }
+
+  // Mirrors Redis MATCH for the patterns purge builds: `*` wildcards and backslash escapes
+  private globMatches(pattern: string, key: string): boolean {
+    const literal = (char: string) => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    let regex = '';
+
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern[i] === '\\' && i + 1 < pattern.length) {
+        regex += literal(pattern[++i]);
+      } else {
+        regex += pattern[i] === '*' ? '.*' : literal(pattern[i]);
+      }
+    }
+
+    return new RegExp(`^${regex}$`).test(key);
+  }
+
+  private async read(key: string): Promise<string | null> {
+    if (this.redisAvailable) {
+      try {
+        return await this.redis.get(key);
+      } catch (error) {
+        this.logger.debug(`Redis cache read failed for ${key}: ${error.message}`);
+      }
+    }
+
+    const entry = this.memoryCache.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.memoryCache.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  private async write(key: string, value: string, ttl: number): Promise<void> {
+    if (this.redisAvailable) {
+      try {
+        await this.redis.setEx(key, ttl, value);
+        return;
+      } catch (error) {
+        this.logger.debug(`Redis cache write failed for ${key}: ${error.message}`);
+      }
+    }
+
+    // Evict the oldest entry once the fallback cache is full
+    if (this.memoryCache.size >= this.MAX_MEMORY_ENTRIES && !this.memoryCache.has(key)) {
+      const oldestKey = this.memoryCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.memoryCache.delete(oldestKey);
+      }
+    }
+
+    this.memoryCache.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+  }
+}
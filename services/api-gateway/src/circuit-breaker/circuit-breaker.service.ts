@@ -0,0 +1,384 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import Redis from 'redis';
+
+export interface CircuitBreakerPolicy {
+  failureRatio?: number;
+  windowMs?: number;
+  minimumRequests?: number;
+  openDurationMs?: number;
+  halfOpenMaxProbes?: number;
+  fallback?: {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: any;
+  };
+}
+
+export interface CircuitBreakerRoute {
+  id: string;
+  circuitBreaker: boolean;
+  circuitBreakerPolicy?: CircuitBreakerPolicy;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitDecision {
+  allowed: boolean;
+  state: CircuitState;
+  probe: boolean;
+  nextAttempt?: Date;
+}
+
+export interface CircuitStatus {
+  routeId: string;
+  state: CircuitState;
+  forced?: 'open' | 'closed';
+  requests: number;
+  failures: number;
+  failureRatio: number;
+  openedAt?: Date;
+  nextAttempt?: Date;
+  probesInFlight: number;
+}
+
+// Minimal hash operations, backed by Redis or by process memory while Redis is down
+interface CircuitStore {
+  hGetAll(key: string): Promise<Record<string, string>>;
+  hIncrBy(key: string, field: string, by: number): Promise<number>;
+  hSet(key: string, values: Record<string, string>): Promise<void>;
+  del(key: string): Promise<void>;
+  expire(key: string, seconds: number): Promise<void>;
+}
+
+type ResolvedPolicy = Required<Omit<CircuitBreakerPolicy, 'fallback'>> & Pick<CircuitBreakerPolicy, 'fallback'>;
+
+const DEFAULT_POLICY: ResolvedPolicy = {
+  failureRatio: 0.5,
+  windowMs: 60000,
+  minimumRequests: 20,
+  openDurationMs: 30000,
+  halfOpenMaxProbes: 3,
+};
+
+const WINDOW_BUCKETS = 10;
+
+@Injectable()
+export class CircuitBreakerService implements OnModuleInit {
+  private readonly logger = new Logger(CircuitBreakerService.name);
+  private redis: Redis.RedisClientType;
+  private redisAvailable = false;
+  private readonly CIRCUIT_PREFIX = 'nexus:circuit';
+
+  private memoryHashes = new Map<string, { values: Record<string, string>; expiresAt?: number }>();
+
+  async onModuleInit() {
+    await this.initializeRedis();
+  }
+
+  private async initializeRedis(): Promise<void> {
+    this.redis = Redis.createClient({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+    });
+
+    this.redis.on('error', (error) => {
+      if (this.redisAvailable) {
+        this.logger.warn('Redis unavailable, circuit state is now local to this replica:', error.message);
+      }
+      this.redisAvailable = false;
+    });
+
+    this.redis.on('ready', () => {
+      this.redisAvailable = true;
+    });
+
+    try {
+      await this.redis.connect();
+      this.logger.log('Connected to Redis for circuit breaker state');
+    } catch (error) {
+      this.logger.warn('Using local circuit breaker state:', error.message);
+    }
+  }
+
+  /**
+   * Decides whether a request may pass. In half-open state only a limited
+   * number of concurrent probe requests are let through.
+   */
+  async acquire(route: CircuitBreakerRoute): Promise<CircuitDecision> {
+    if (!route.circuitBreaker) {
+      return { allowed: true, state: 'closed', probe: false };
+    }
+
+    const policy = this.getPolicy(route);
+    const store = this.store();
+    const key = this.stateKey(route.id);
+
+    try {
+      const record = await store.hGetAll(key);
+      const state = this.resolveState(record);
+
+      // Manual overrides from the admin API win over the computed state
+      if (record.forced === 'closed') {
+        return { allowed: true, state: 'closed', probe: false };
+      }
+
+      if (record.forced === 'open') {
+        return { allowed: false, state: 'open', probe: false };
+      }
+
+      if (state === 'closed') {
+        return { allowed: true, state: 'closed', probe: false };
+      }
+
+      const nextAttempt = new Date(parseInt(record.nextAttempt || '0'));
+
+      if (state === 'open') {
+        return { allowed: false, state: 'open', probe: false, nextAttempt };
+      }
+
+      // Half-open: reclaim probe slots that never reported back
+      if (Date.now() - parseInt(record.probeStartedAt || '0') > policy.openDurationMs) {
+        await store.hSet(key, { probes: '0', probeStartedAt: Date.now().toString() });
+      }
+
+      const probes = await store.hIncrBy(key, 'probes', 1);
+      if (probes > policy.halfOpenMaxProbes) {
+        await store.hIncrBy(key, 'probes', -1);
+        return { allowed: false, state: 'half-open', probe: false, nextAttempt };
+      }
+
+      return { allowed: true, state: 'half-open', probe: true };
+    } catch (error) {
+      // Let traffic through if the breaker state cannot be read
+      this.logger.error(`Circuit check failed for ${route.id}:`, error.message);
+      return { allowed: true, state: 'closed', probe: false };
+    }
+  }
+
+  async record(route: CircuitBreakerRoute, success: boolean, probe: boolean): Promise<void> {
+    if (!route.circuitBreaker) {
+      return;
+    }
+
+    const policy = this.getPolicy(route);
+    const store = this.store();
+    const key = this.stateKey(route.id);
+
+    try {
+      if (probe) {
+        await this.recordProbe(route.id, policy, success);
+        return;
+      }
+
+      const bucket = this.currentBucket(policy);
+      const windowKey = this.windowKey(route.id);
+      await store.hIncrBy(windowKey, `${bucket}:${success ? 's' : 'f'}`, 1);
+      await store.expire(windowKey, Math.ceil((policy.windowMs * 2) / 1000));
+
+      if (success) {
+        return;
+      }
+
+      const record = await store.hGetAll(key);
+      if (record.forced || this.resolveState(record) !== 'closed') {
+        return;
+      }
+
+      const { requests, failures } = await this.readWindow(route.id, policy);
+      if (requests >= policy.minimumRequests && failures / requests >= policy.failureRatio) {
+        await this.open(route.id, policy, `${failures}/${requests} failures`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to record circuit outcome for ${route.id}:`, error.message);
+    }
+  }
+
+  // Gives back the half-open probe slot of a request that never reached the backend
+  async releaseProbe(route: CircuitBreakerRoute): Promise<void> {
+    try {
+      await this.store().hIncrBy(this.stateKey(route.id), 'probes', -1);
+    } catch (error) {
+      this.logger.error(`Failed to release circuit probe for ${route.id}:`, error.message);
+    }
+  }
+
+  async getStatus(route: CircuitBreakerRoute): Promise<CircuitStatus> {
+    const policy = this.getPolicy(route);
+    const record = await this.store().hGetAll(this.stateKey(route.id));
+    const { requests, failures } = await this.readWindow(route.id, policy);
+    const forced = record.forced as CircuitStatus['forced'] | undefined;
+
+    return {
+      routeId: route.id,
+      state: forced === 'open' ? 'open' : forced === 'closed' ? 'closed' : this.resolveState(record),
+      forced: forced || undefined,
+      requests,
+      failures,
+      failureRatio: requests > 0 ? failures / requests : 0,
+      openedAt: record.openedAt ? new Date(parseInt(record.openedAt)) : undefined,
+      nextAttempt: record.nextAttempt ? new Date(parseInt(record.nextAttempt)) : undefined,
+      probesInFlight: parseInt(record.probes || '0'),
+    };
+  }
+
+  async forceOpen(route: CircuitBreakerRoute): Promise<void> {
+    await this.store().hSet(this.stateKey(route.id), { forced: 'open', openedAt: Date.now().toString() });
+    this.logger.warn(`Circuit for ${route.id} manually forced OPEN`);
+  }
+
+  async forceClose(route: CircuitBreakerRoute): Promise<void> {
+    await this.store().hSet(this.stateKey(route.id), { forced: 'closed' });
+    this.logger.warn(`Circuit for ${route.id} manually forced CLOSED`);
+  }
+
+  // Clears any forced state and counters, returning the circuit to normal operation
+  async reset(route: CircuitBreakerRoute): Promise<void> {
+    await this.store().del(this.stateKey(route.id));
+    await this.store().del(this.windowKey(route.id));
+    this.logger.log(`Circuit for ${route.id} reset`);
+  }
+
+  getPolicy(route: CircuitBreakerRoute): ResolvedPolicy {
+    return { ...DEFAULT_POLICY, ...route.circuitBreakerPolicy };
+  }
+
+  private async recordProbe(
+    routeId: string,
+    policy: ResolvedPolicy,
+    success: boolean,
+  ): Promise<void> {
+    const store = this.store();
+    const key = this.stateKey(routeId);
+
+    await store.hIncrBy(key, 'probes', -1);
+
+    if (!success) {
+      await this.open(routeId, policy, 'half-open probe failed');
+      return;
+    }
+
+    // Close once every allowed probe has succeeded
+    const successes = await store.hIncrBy(key, 'probeSuccesses', 1);
+    if (successes >= policy.halfOpenMaxProbes) {
+      await store.del(key);
+      await store.del(this.windowKey(routeId));
+      this.logger.log(`Circuit for ${routeId} CLOSED after ${successes} successful probes`);
+    }
+  }
+
+  private async open(
+    routeId: string,
+    policy: ResolvedPolicy,
+    reason: string,
+  ): Promise<void> {
+    const now = Date.now();
+
+    await this.store().hSet(this.stateKey(routeId), {
+      state: 'open',
+      openedAt: now.toString(),
+      nextAttempt: (now + policy.openDurationMs).toString(),
+      probes: '0',
+      probeSuccesses: '0',
+      probeStartedAt: (now + policy.openDurationMs).toString(),
+    });
+
+    this.logger.warn(`Circuit for ${routeId} OPENED (${reason})`);
+  }
+
+  // An open circuit becomes half-open once its open duration has elapsed
+  private resolveState(record: Record<string, string>): CircuitState {
+    if (record.state !== 'open') {
+      return 'closed';
+    }
+    return Date.now() >= parseInt(record.nextAttempt || '0') ? 'half-open' : 'open';
+  }
+
+  private async readWindow(
+    routeId: string,
+    policy: ResolvedPolicy,
+  ): Promise<{ requests: number; failures: number }> {
+    const counts = await this.store().hGetAll(this.windowKey(routeId));
+    const oldestBucket = this.currentBucket(policy) - WINDOW_BUCKETS + 1;
+
+    let successes = 0;
+    let failures = 0;
+
+    for (const [field, value] of Object.entries(counts)) {
+      const [bucket, kind] = field.split(':');
+      if (parseInt(bucket) < oldestBucket) {
+        continue;
+      }
+      if (kind === 's') {
+        successes += parseInt(value);
+      } else {
+        failures += parseInt(value);
+      }
+    }
+
+    return { requests: successes + failures, failures };
+  }
+
+  private currentBucket(policy: ResolvedPolicy): number {
+    return Math.floor(Date.now() / (policy.windowMs / WINDOW_BUCKETS));
+  }
+
+  private stateKey(routeId: string): string {
+    return `${this.CIRCUIT_PREFIX}:${routeId}`;
+  }
+
+  private windowKey(routeId: string): string {
+    return `${this.CIRCUIT_PREFIX}:${routeId}:window`;
+  }
+
+  private store(): CircuitStore {
+    if (this.redisAvailable) {
+      return {
+        hGetAll: (key) => this.redis.hGetAll(key),
+        hIncrBy: (key, field, by) => this.redis.hIncrBy(key, field, by),
+        hSet: async (key, values) => {
+          await this.redis.hSet(key, values);
+        },
+        del: async (key) => {
+          await this.redis.del(key);
+        },
+        expire: async (key, seconds) => {
+          await this.redis.expire(key, seconds);
+        },
+      };
+    }
+
+    const read = (key: string) => {
+      const entry = this.memoryHashes.get(key);
+      if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+        this.memoryHashes.delete(key);
+        return undefined;
+      }
+      return entry;
+    };
+
+    return {
+      hGetAll: async (key) => ({ ...(read(key)?.values || {}) }),
+      hIncrBy: async (key, field, by) => {
+        const entry = read(key) || { values: {} };
+        const value = parseInt(entry.values[field] || '0') + by;
+        entry.values[field] = value.toString();
+        this.memoryHashes.set(key, entry);
+        return value;
+      },
+      hSet: async (key, values) => {
+        const entry = read(key) || { values: {} };
+        Object.assign(entry.values, values);
+        this.memoryHashes.set(key, entry);
+      },
+      del: async (key) => {
+        this.memoryHashes.delete(key);
+      },
+      expire: async (key, seconds) => {
+        const entry = read(key);
+        if (entry) {
+          entry.expiresAt = Date.now() + seconds * 1000;
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import { LoadBalancerService, ServiceInstance } from './load-balancer.service';
+
+describe('LoadBalancerService', () => {
+  let service: LoadBalancerService;
+
+  const instance = (id: string): ServiceInstance => ({
+    id,
+    service: 'orders',
+    url: `http://${id}:3000`,
+    health: 'healthy',
+    lastHealthCheck: new Date(),
+    responseTime: 0,
+    weight: 100,
+    connections: 0,
+    metadata: {},
+  });
+
+  const fail = (instanceId: string, times: number) => {
+    for (let i = 0; i < times; i++) {
+      service.recordOutcome('orders', instanceId, 502, 10);
+    }
+  };
+
+  beforeEach(() => {
+    service = new LoadBalancerService();
+  });
+
+  describe('outlier detection', () => {
+    it('ejects the only instance of a single-instance pool', async () => {
+      service.addServiceInstance('orders', instance('orders-1'));
+
+      fail('orders-1', 5);
+
+      expect(service.getOutlierStatus().find((status) => status.instanceId === 'orders-1')?.ejected).toBe(true);
+      expect(await service.getHealthyInstance('orders')).toBeNull();
+    });
+
+    it('never ejects more than the maximum percentage of a larger pool', () => {
+      ['orders-1', 'orders-2', 'orders-3', 'orders-4'].forEach((id) => service.addServiceInstance('orders', instance(id)));
+
+      ['orders-1', 'orders-2', 'orders-3'].forEach((id) => fail(id, 5));
+
+      const ejected = service.getOutlierStatus().filter((status) => status.ejected);
+      expect(ejected.map((status) => status.instanceId)).toEqual(['orders-1', 'orders-2']);
+    });
+  });
+
+  describe('connections', () => {
+    it('counts selections until they are released', async () => {
+      service.addServiceInstance('orders', instance('orders-1'));
+
+      const selected = await service.getHealthyInstance('orders');
+      expect(selected?.connections).toBe(1);
+
+      service.releaseConnection('orders', 'orders-1');
+      expect(selected?.connections).toBe(0);
+    });
+  });
+
+  describe('consistent hashing', () => {
+    const select = (excludeIds: string[] = []) =>
+      service.getHealthyInstance('orders', 'consistent-hash', excludeIds, undefined, 'customer-42');
+
+    beforeEach(() => {
+      service.registerService('orders', [instance('orders-1'), instance('orders-2'), instance('orders-3')]);
+    });
+
+    it('reuses the ring for each member set instead of rebuilding as the set changes', async () => {
+      const first = await select();
+      const firstId = first!.id;
+      const others = ['orders-1', 'orders-2', 'orders-3'].filter((id) => id !== firstId);
+
+      const hashPoint = jest.spyOn(service as any, 'hashPoint');
+      await select([firstId]);
+      const buildCalls = hashPoint.mock.calls.length;
+
+      for (let i = 0; i < 3; i++) {
+        expect((await select())?.id).toBe(firstId);
+        expect(others).toContain((await select([firstId]))?.id);
+      }
+
+      // Only the key is hashed once both rings exist
+      expect(hashPoint.mock.calls.length).toBe(buildCalls + 6);
+    });
+
+    it('returns the registered instance when it is replaced with the same id', async () => {
+      const first = await select();
+      const replacement = instance(first!.id);
+      service.removeServiceInstance('orders', first!.id);
+      service.addServiceInstance('orders', replacement);
+
+      expect(await select()).toBe(replacement);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import axios from 'axios';
+import { createHash } from 'crypto';
 
 export interface ServiceInstance {
   id: string;
@@ -14,9 +15,38 @@ export interface ServiceInstance {
   metadata: Record<string, any>;
 }
 
+export type LoadBalancingStrategyName =
+  | 'round-robin'
+  | 'weighted'
+  | 'least-connections'
+  | 'response-time'
+  | 'consistent-hash'
+  | 'power-of-two';
+
 export interface LoadBalancingStrategy {
-  name: 'round-robin' | 'weighted' | 'least-connections' | 'response-time';
-  selectInstance(instances: ServiceInstance[]): ServiceInstance | null;
+  name: LoadBalancingStrategyName;
+  // hashKey is only used by consistent-hash; requests without one fall back to round-robin
+  selectInstance(instances: ServiceInstance[], hashKey?: string): ServiceInstance | null;
+}
+
+export interface OutlierStatus {
+  service: string;
+  instanceId: string;
+  ejected: boolean;
+  ejectedUntil?: Date;
+  ejectionCount: number;
+  consecutiveErrors: number;
+  latencyPercentile: number;
+  reason?: string;
+}
+
+interface OutlierState {
+  consecutiveErrors: number;
+  latencies: number[];
+  ejectionCount: number;
+  ejectedUntil: number;
+  lastEjectedAt: number;
+  reason?: string;
 }
 
 @Injectable()
@@ -26,6 +56,22 @@ export class LoadBalancerService {
   private roundRobinCounters = new Map<string, number>();
   private strategies = new Map<string, LoadBalancingStrategy>();
 
+  // Passive outlier detection on live traffic, keyed by "<service>:<instanceId>"
+  private outliers = new Map<string, OutlierState>();
+  private readonly OUTLIER_CONSECUTIVE_ERRORS = parseInt(process.env.GATEWAY_OUTLIER_CONSECUTIVE_ERRORS || '5');
+  private readonly OUTLIER_LATENCY_PERCENTILE = parseInt(process.env.GATEWAY_OUTLIER_LATENCY_PERCENTILE || '95');
+  private readonly OUTLIER_LATENCY_THRESHOLD_MS = parseInt(process.env.GATEWAY_OUTLIER_LATENCY_MS || '5000');
+  private readonly OUTLIER_MIN_LATENCY_SAMPLES = 20;
+  private readonly OUTLIER_LATENCY_SAMPLE_SIZE = 100;
+  private readonly BASE_EJECTION_MS = parseInt(process.env.GATEWAY_OUTLIER_BASE_EJECTION_MS || '30000');
+  private readonly MAX_EJECTION_MS = parseInt(process.env.GATEWAY_OUTLIER_MAX_EJECTION_MS || '300000');
+  private readonly MAX_EJECTION_PERCENT = parseInt(process.env.GATEWAY_OUTLIER_MAX_EJECTION_PERCENT || '50');
+
+  private readonly HASH_RING_REPLICAS = 100;
+  private readonly HASH_RING_CACHE_SIZE = 64;
+  // Keyed by service and member set, so flapping health doesn't rebuild rings on every request
+  private hashRings = new Map<string, Array<{ point: number; instanceId: string }>>();
+
   constructor() {
     this.initializeStrategies();
     this.initializeServices();
@@ -90,6 +136,53 @@ export class LoadBalancerService {
         );
       },
     });
+
+    // Consistent Hash Strategy - the same key keeps landing on the same instance
+    this.strategies.set('consistent-hash', {
+      name: 'consistent-hash',
+      selectInstance: (instances: ServiceInstance[], hashKey?: string) => {
+        if (instances.length === 0) return null;
+        if (!hashKey) {
+          return this.strategies.get('round-robin')!.selectInstance(instances);
+        }
+
+        const ring = this.getHashRing(instances);
+        const point = this.hashPoint(hashKey);
+
+        // First ring point clockwise from the key's position
+        let low = 0;
+        let high = ring.length;
+        while (low < high) {
+          const mid = (low + high) >> 1;
+          if (ring[mid].point < point) {
+            low = mid + 1;
+          } else {
+            high = mid;
+          }
+        }
+
+        const instanceId = ring[low % ring.length].instanceId;
+        return instances.find((instance) => instance.id === instanceId) || null;
+      },
+    });
+
+    // Power of Two Choices Strategy - sample two instances, keep the less loaded one
+    this.strategies.set('power-of-two', {
+      name: 'power-of-two',
+      selectInstance: (instances: ServiceInstance[]) => {
+        if (instances.length === 0) return null;
+        if (instances.length === 1) return instances[0];
+
+        const first = Math.floor(Math.random() * instances.length);
+        const second = (first + 1 + Math.floor(Math.random() * (instances.length - 1))) % instances.length;
+        const [a, b] = [instances[first], instances[second]];
+
+        if (a.connections !== b.connections) {
+          return a.connections < b.connections ? a : b;
+        }
+        return a.responseTime <= b.responseTime ? a : b;
+      },
+    });
   }
 
   private initializeServices(): void {
@@ -158,15 +251,24 @@ export class LoadBalancerService {
     const instances = this.services.get(serviceName) || [];
     const filteredInstances = instances.filter(instance => instance.id !== instanceId);
     this.services.set(serviceName, filteredInstances);
+    this.outliers.delete(`${serviceName}:${instanceId}`);
     this.logger.debug(`Removed instance ${instanceId} from service ${serviceName}`);
   }
 
   async getHealthyInstance(
     serviceName: string,
-    strategy: string = 'round-robin'
+    strategy: string = 'round-robin',
+    excludeIds: string[] = [],
+    version?: string,
+    hashKey?: string
   ): Promise<ServiceInstance | null> {
     const instances = this.services.get(serviceName) || [];
-    const healthyInstances = instances.filter(instance => instance.health === 'healthy');
+    const healthyInstances = instances.filter(
+      instance => instance.health === 'healthy' &&
+        !this.isEjected(instance) &&
+        !excludeIds.includes(instance.id) &&
+        (!version || this.matchesVersion(instance, version))
+    );
     
     if (healthyInstances.length === 0) {
       this.logger.warn(`No healthy instances available for service ${serviceName}`);
@@ -179,7 +281,7 @@ export class LoadBalancerService {
       return this.strategies.get('round-robin')!.selectInstance(healthyInstances);
     }
 
-    const selectedInstance = loadBalancingStrategy.selectInstance(healthyInstances);
+    const selectedInstance = loadBalancingStrategy.selectInstance(healthyInstances, hashKey);
     
     if (selectedInstance) {
       // Increment connection count
@@ -190,6 +292,12 @@ export class LoadBalancerService {
     return selectedInstance;
   }
 
+  // '2.0' matches instances reporting '2.0' or '2.0.x'
+  private matchesVersion(instance: ServiceInstance, version: string): boolean {
+    const instanceVersion = String(instance.metadata?.version || '');
+    return instanceVersion === version || instanceVersion.startsWith(`${version}.`);
+  }
+
   releaseConnection(serviceName: string, instanceId: string): void {
     const instances = this.services.get(serviceName) || [];
     const instance = instances.find(inst => inst.id === instanceId);
@@ -200,6 +308,150 @@ export class LoadBalancerService {
     }
   }
 
+  /**
+   * Records the outcome of one proxied attempt for passive outlier detection.
+   * Pass status 502 for connection errors and timeouts.
+   */
+  recordOutcome(serviceName: string, instanceId: string, status: number, latency: number): void {
+    const key = `${serviceName}:${instanceId}`;
+    const state = this.outliers.get(key) || {
+      consecutiveErrors: 0,
+      latencies: [],
+      ejectionCount: 0,
+      ejectedUntil: 0,
+      lastEjectedAt: 0,
+    };
+    this.outliers.set(key, state);
+
+    state.consecutiveErrors = status >= 500 ? state.consecutiveErrors + 1 : 0;
+    state.latencies.push(latency);
+    if (state.latencies.length > this.OUTLIER_LATENCY_SAMPLE_SIZE) {
+      state.latencies.shift();
+    }
+
+    if (state.ejectedUntil > Date.now()) {
+      return;
+    }
+
+    if (state.consecutiveErrors >= this.OUTLIER_CONSECUTIVE_ERRORS) {
+      this.eject(serviceName, instanceId, state, `${state.consecutiveErrors} consecutive errors`);
+      return;
+    }
+
+    if (state.latencies.length >= this.OUTLIER_MIN_LATENCY_SAMPLES) {
+      const latencyPercentile = this.percentile(state.latencies, this.OUTLIER_LATENCY_PERCENTILE);
+      if (latencyPercentile > this.OUTLIER_LATENCY_THRESHOLD_MS) {
+        this.eject(
+          serviceName,
+          instanceId,
+          state,
+          `p${this.OUTLIER_LATENCY_PERCENTILE} latency ${latencyPercentile}ms above ${this.OUTLIER_LATENCY_THRESHOLD_MS}ms`,
+        );
+      }
+    }
+  }
+
+  getOutlierStatus(): OutlierStatus[] {
+    const now = Date.now();
+
+    return Array.from(this.outliers.entries()).map(([key, state]) => {
+      const separator = key.indexOf(':');
+      const ejected = state.ejectedUntil > now;
+
+      return {
+        service: key.substring(0, separator),
+        instanceId: key.substring(separator + 1),
+        ejected,
+        ejectedUntil: ejected ? new Date(state.ejectedUntil) : undefined,
+        ejectionCount: state.ejectionCount,
+        consecutiveErrors: state.consecutiveErrors,
+        latencyPercentile: this.percentile(state.latencies, this.OUTLIER_LATENCY_PERCENTILE),
+        reason: ejected ? state.reason : undefined,
+      };
+    });
+  }
+
+  /**
+   * Ejects an instance for a duration that doubles with each ejection, unless
+   * that would take the service over its maximum ejection percentage.
+   */
+  private eject(serviceName: string, instanceId: string, state: OutlierState, reason: string): void {
+    const instances = this.services.get(serviceName) || [];
+    const ejected = instances.filter((instance) => this.isEjected(instance)).length;
+    // At least one instance may always be ejected, otherwise small pools could never eject anything
+    const allowed = Math.max(1, Math.floor((instances.length * this.MAX_EJECTION_PERCENT) / 100));
+
+    if (ejected + 1 > allowed) {
+      this.logger.warn(
+        `Not ejecting ${instanceId} (${reason}): ${ejected}/${instances.length} instances of ${serviceName} already ejected`,
+      );
+      return;
+    }
+
+    const now = Date.now();
+
+    // The back-off multiplier resets once an instance has behaved for a full max ejection period
+    if (state.lastEjectedAt && now - state.lastEjectedAt > this.MAX_EJECTION_MS * 2) {
+      state.ejectionCount = 0;
+    }
+
+    state.ejectionCount++;
+    const duration = Math.min(this.MAX_EJECTION_MS, this.BASE_EJECTION_MS * Math.pow(2, state.ejectionCount - 1));
+
+    state.ejectedUntil = now + duration;
+    state.lastEjectedAt = now;
+    state.reason = reason;
+    state.consecutiveErrors = 0;
+    state.latencies = [];
+
+    this.logger.warn(`Ejected instance ${instanceId} of ${serviceName} for ${duration}ms: ${reason}`);
+  }
+
+  private isEjected(instance: ServiceInstance): boolean {
+    const state = this.outliers.get(`${instance.service}:${instance.id}`);
+    return !!state && state.ejectedUntil > Date.now();
+  }
+
+  private percentile(values: number[], p: number): number {
+    if (values.length === 0) {
+      return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+
+  // Virtual nodes per instance, scaled by weight, so keys spread evenly and move minimally
+  private getHashRing(instances: ServiceInstance[]): Array<{ point: number; instanceId: string }> {
+    const members = instances.map((instance) => `${instance.id}:${instance.weight}`).sort().join(',');
+    const cacheKey = `${instances[0].service}|${members}`;
+    const cached = this.hashRings.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const ring: Array<{ point: number; instanceId: string }> = [];
+    for (const instance of instances) {
+      const replicas = Math.max(1, Math.round((this.HASH_RING_REPLICAS * instance.weight) / 100));
+      for (let replica = 0; replica < replicas; replica++) {
+        ring.push({ point: this.hashPoint(`${instance.id}#${replica}`), instanceId: instance.id });
+      }
+    }
+    ring.sort((a, b) => a.point - b.point);
+
+    // Drop the oldest ring once the cache is full
+    if (this.hashRings.size >= this.HASH_RING_CACHE_SIZE) {
+      this.hashRings.delete(this.hashRings.keys().next().value!);
+    }
+    this.hashRings.set(cacheKey, ring);
+    return ring;
+  }
+
+  private hashPoint(value: string): number {
+    return createHash('md5').update(value).digest().readUInt32BE(0);
+  }
+
   @Cron(CronExpression.EVERY_30_SECONDS)
   async performHealthChecks(): Promise<void> {
     this.logger.debug('Performing health checks on all service instances');
@@ -248,6 +500,7 @@ export class LoadBalancerService {
     totalInstances: number;
     healthyInstances: number;
     unhealthyInstances: number;
+    ejectedInstances: number;
     avgResponseTime: number;
   }[]> {
     const result = [];
@@ -255,6 +508,7 @@ export class LoadBalancerService {
     for (const [serviceName, instances] of this.services.entries()) {
       const healthyInstances = instances.filter(i => i.health === 'healthy').length;
       const unhealthyInstances = instances.filter(i => i.health === 'unhealthy').length;
+      const ejectedInstances = instances.filter(i => this.isEjected(i)).length;
       const avgResponseTime = instances.reduce((sum, i) => sum + i.responseTime, 0) / instances.length;
 
       result.push({
@@ -262,6 +516,7 @@ export class LoadBalancerService {
         totalInstances: instances.length,
         healthyInstances,
         unhealthyInstances,
+        ejectedInstances,
         avgResponseTime: Math.round(avgResponseTime),
       });
     }
@@ -273,8 +528,10 @@ export class LoadBalancerService {
     totalServices: number;
     totalInstances: number;
     healthyInstances: number;
+    ejectedInstances: number;
     strategies: string[];
     requestsPerService: Record<string, number>;
+    outliers: OutlierStatus[];
   }> {
     let totalInstances = 0;
     let healthyInstances = 0;
@@ -290,8 +547,10 @@ export class LoadBalancerService {
       totalServices: this.services.size,
       totalInstances,
       healthyInstances,
+      ejectedInstances: this.getOutlierStatus().filter((status) => status.ejected).length,
       strategies: Array.from(this.strategies.keys()),
       requestsPerService,
+      outliers: this.getOutlierStatus(),
     };
   }
 
@@ -0,0 +1,75 @@
+import { Request } from 'express';
+import { RateLimitingService, RateLimitPolicy } from './rate-limiting.service';
+
+jest.mock('redis', () => ({
+  createClient: () => ({ on: jest.fn(), connect: jest.fn(async () => undefined) }),
+}));
+
+describe('RateLimitingService', () => {
+  let service: RateLimitingService;
+  const policy: RateLimitPolicy = { windowMs: 60000, max: 10, keyBy: 'api-key' };
+
+  const request = (headers: Record<string, string>, claims?: Record<string, any>): Request =>
+    ({
+      ip: '203.0.113.7',
+      headers,
+      user: claims ? { subject: 'user-1', roles: [], scopes: [], claims } : undefined,
+    } as unknown as Request);
+
+  beforeEach(() => {
+    service = new RateLimitingService();
+  });
+
+  describe('resolveIdentity', () => {
+    it('ignores an unverified api key header and keys by client IP', () => {
+      const first = service.resolveIdentity(request({ 'x-api-key': 'key-1' }), policy);
+      const second = service.resolveIdentity(request({ 'x-api-key': 'key-2' }), policy);
+
+      expect(first).toMatchObject({ source: 'ip', value: '203.0.113.7' });
+      expect(second).toEqual(first);
+    });
+
+    it('keys by the client id of a verified token', () => {
+      const identity = service.resolveIdentity(request({}, { client_id: 'billing-cli' }), policy);
+
+      expect(identity.source).toBe('api-key');
+      expect(identity.value).not.toContain('billing-cli');
+      expect(service.resolveIdentity(request({}, { client_id: 'billing-cli' }), policy)).toEqual(identity);
+    });
+
+    it('reads the configured claim', () => {
+      const identity = service.resolveIdentity(
+        request({}, { azp: 'reporting' }),
+        { ...policy, apiKeyClaim: 'azp' },
+      );
+
+      expect(identity.source).toBe('api-key');
+    });
+  });
+
+  describe('tokenBucketRateLimit', () => {
+    const bucket = { windowMs: 1500, max: 3, bucketSize: 3, refillRate: 2, keyGenerator: () => 'bucket-key' };
+
+    it('refills and takes a token in a single script call with a whole-second TTL', async () => {
+      const evalScript = jest.fn(async () => [1, 2]);
+      (service as any).redis = { eval: evalScript };
+
+      const result = await service.tokenBucketRateLimit('client', 'route', bucket);
+
+      expect(evalScript).toHaveBeenCalledTimes(1);
+      expect(evalScript).toHaveBeenCalledWith(expect.any(String), {
+        keys: ['bucket-key'],
+        arguments: [expect.any(String), '3', '2', '2'],
+      });
+      expect(result).toMatchObject({ allowed: true, remaining: 2, retryAfter: undefined });
+    });
+
+    it('rejects when the bucket is empty', async () => {
+      (service as any).redis = { eval: jest.fn(async () => [0, 0]) };
+
+      const result = await service.tokenBucketRateLimit('client', 'route', bucket);
+
+      expect(result).toMatchObject({ allowed: false, remaining: 0, retryAfter: 1 });
+    });
+  });
+});
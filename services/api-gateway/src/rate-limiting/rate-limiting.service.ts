@@ -1,10 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Request } from 'express';
+import { createHash } from 'crypto';
 import Redis from 'redis';
+import type { AuthenticatedPrincipal } from '../authentication/authentication.service';
 
 export interface RateLimitConfig {
   windowMs: number;
   max: number;
-  keyGenerator?: (identifier: string, route: string) => string;
+  keyGenerator?: (identifier: string, route: string, params?: Record<string, string>) => string;
   skipSuccessfulRequests?: boolean;
   skipFailedRequests?: boolean;
 }
@@ -16,11 +19,91 @@ export interface RateLimitResult {
   retryAfter?: number;
 }
 
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export type RateLimitKeySource = 'ip' | 'api-key' | 'user' | 'tenant';
+
+export interface RateLimitQuota {
+  daily?: number;
+  monthly?: number;
+}
+
+export interface RateLimitTier {
+  windowMs?: number;
+  max?: number;
+  quota?: RateLimitQuota;
+}
+
+// Per-route policy as declared in the route table
+export interface RateLimitPolicy {
+  windowMs: number;
+  max: number;
+  algorithm?: RateLimitAlgorithm;
+  keyBy?: RateLimitKeySource;
+  // Token claim naming the API client when keyBy is 'api-key'
+  apiKeyClaim?: string;
+  quota?: RateLimitQuota;
+  // Overrides keyed by the caller's plan, e.g. { free: { max: 30 }, pro: { max: 600 } }
+  tiers?: Record<string, RateLimitTier>;
+}
+
+export interface RateLimitIdentity {
+  source: RateLimitKeySource;
+  value: string;
+  plan: string;
+}
+
+export interface RateLimitDecision extends RateLimitResult {
+  identity: RateLimitIdentity;
+  limit: number;
+  windowMs: number;
+  // Which limit rejected the request
+  exceeded?: 'burst' | 'daily' | 'monthly';
+  // Limits applied, as [limit, window seconds] pairs for the RateLimit-Policy header
+  policies: Array<[number, number]>;
+}
+
+// Refills and takes a token in one step, so concurrent requests can't spend the
+// same token. lastRefill only advances by the time the added tokens account
+// for, so partial refills carry over. KEYS: bucket. ARGV: now (ms), bucket
+// size, refill rate (tokens/s), TTL (s). Returns { allowed, tokens left }.
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local size = tonumber(ARGV[2])
+local rate = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'lastRefill')
+local tokens = tonumber(bucket[1]) or size
+local lastRefill = tonumber(bucket[2]) or now
+
+local added = math.floor(math.max(0, now - lastRefill) * rate / 1000)
+if tokens + added >= size then
+  tokens = size
+  lastRefill = now
+elseif added > 0 then
+  tokens = tokens + added
+  lastRefill = lastRefill + added * 1000 / rate
+end
+
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tokens, 'lastRefill', tostring(lastRefill))
+redis.call('EXPIRE', KEYS[1], ARGV[4])
+return { allowed, tokens }
+`;
+
 @Injectable()
 export class RateLimitingService {
   private readonly logger = new Logger(RateLimitingService.name);
   private redis: Redis.RedisClientType;
   private readonly RATE_LIMIT_PREFIX = 'nexus:ratelimit';
+  private readonly DEFAULT_API_KEY_CLAIM = 'client_id';
+  private readonly PLAN_CLAIM = process.env.GATEWAY_PLAN_CLAIM || 'plan';
+  private readonly DEFAULT_PLAN = 'default';
+  private blockedRequests = 0;
 
   constructor() {
     this.initializeRedis();
@@ -40,12 +123,146 @@ export class RateLimitingService {
     this.logger.log('Connected to Redis for rate limiting');
   }
 
+  /**
+   * Applies a route's rate-limit policy to a request: the burst limit using the
+   * configured algorithm, then any daily/monthly quotas. Tier overrides are
+   * chosen by the caller's plan. Quotas are only consumed by requests that
+   * pass the burst limit.
+   */
+  async checkPolicy(
+    req: Request,
+    routeId: string,
+    policy: RateLimitPolicy,
+    params?: Record<string, string>,
+  ): Promise<RateLimitDecision> {
+    const identity = this.resolveIdentity(req, policy);
+    const tier = policy.tiers?.[identity.plan] || {};
+    const windowMs = tier.windowMs ?? policy.windowMs;
+    const max = tier.max ?? policy.max;
+    const quota = { ...policy.quota, ...tier.quota };
+    const algorithm = policy.algorithm || 'fixed-window';
+
+    const config: RateLimitConfig = {
+      windowMs,
+      max,
+      keyGenerator: () => this.policyKey(algorithm, routeId, identity),
+    };
+
+    let burst: RateLimitResult;
+    if (algorithm === 'sliding-window') {
+      burst = await this.slidingWindowRateLimit(identity.value, routeId, config);
+    } else if (algorithm === 'token-bucket') {
+      // A full bucket holds `max` tokens and refills completely over one window
+      burst = await this.tokenBucketRateLimit(identity.value, routeId, {
+        ...config,
+        bucketSize: max,
+        refillRate: max / (windowMs / 1000),
+      });
+    } else {
+      burst = await this.checkRateLimit(identity.value, routeId, config, params);
+    }
+
+    const policies: Array<[number, number]> = [[max, Math.ceil(windowMs / 1000)]];
+    let decision: RateLimitDecision = {
+      ...burst,
+      identity,
+      limit: max,
+      windowMs,
+      exceeded: burst.allowed ? undefined : 'burst',
+      policies,
+    };
+
+    for (const period of ['daily', 'monthly'] as const) {
+      const limit = quota[period];
+      if (!limit) {
+        continue;
+      }
+
+      const periodEnd = this.periodEnd(period);
+      policies.push([limit, period === 'daily' ? 86400 : 2592000]);
+
+      if (!decision.allowed) {
+        continue;
+      }
+
+      const result = await this.consumeQuota(this.policyKey(period, routeId, identity), limit, periodEnd);
+
+      // Report whichever limit is closest to running out
+      if (!result.allowed || result.remaining < decision.remaining) {
+        decision = {
+          ...result,
+          identity,
+          limit,
+          windowMs,
+          exceeded: result.allowed ? undefined : period,
+          policies,
+        };
+      }
+    }
+
+    if (!decision.allowed) {
+      this.blockedRequests++;
+      this.logger.debug(
+        `Rate limit (${decision.exceeded}) exceeded for ${identity.source} ${identity.value} on route ${routeId}`,
+      );
+    }
+
+    return decision;
+  }
+
+  /**
+   * Picks the key a request is limited by. Falls back to the client IP when
+   * the configured source is missing, e.g. an anonymous request on a route
+   * limited per user.
+   */
+  resolveIdentity(req: Request, policy: RateLimitPolicy): RateLimitIdentity {
+    const principal: AuthenticatedPrincipal | undefined = req['user'];
+    const plan = String(principal?.claims?.[this.PLAN_CLAIM] || this.DEFAULT_PLAN);
+
+    switch (policy.keyBy) {
+      case 'api-key': {
+        // Only a client id from a verified token counts; a raw key header is whatever the caller chose to send
+        const clientId = principal?.claims?.[policy.apiKeyClaim || this.DEFAULT_API_KEY_CLAIM];
+        if (typeof clientId === 'string' && clientId) {
+          const digest = createHash('sha256').update(clientId).digest('hex').substring(0, 32);
+          return { source: 'api-key', value: digest, plan };
+        }
+        break;
+      }
+      case 'user':
+        if (principal?.subject) {
+          return { source: 'user', value: principal.subject, plan };
+        }
+        break;
+      case 'tenant':
+        if (principal?.tenantId) {
+          return { source: 'tenant', value: principal.tenantId, plan };
+        }
+        break;
+    }
+
+    return { source: 'ip', value: req.ip || 'unknown', plan };
+  }
+
+  // Standard RateLimit-* headers (IETF draft), sent on every rate-limited response
+  getHeaders(decision: RateLimitDecision): Record<string, string> {
+    const reset = Math.max(0, Math.ceil((decision.resetTime.getTime() - Date.now()) / 1000));
+
+    return {
+      'RateLimit-Limit': decision.limit.toString(),
+      'RateLimit-Remaining': decision.remaining.toString(),
+      'RateLimit-Reset': reset.toString(),
+      'RateLimit-Policy': decision.policies.map(([limit, window]) => `${limit};w=${window}`).join(', '),
+    };
+  }
+
   async checkRateLimit(
     identifier: string,
     route: string,
-    config: RateLimitConfig
+    config: RateLimitConfig,
+    params?: Record<string, string>
   ): Promise<RateLimitResult> {
-    const key = this.generateKey(identifier, route, config);
+    const key = this.generateKey(identifier, route, config, params);
     const windowStart = Math.floor(Date.now() / config.windowMs) * config.windowMs;
     const windowEnd = windowStart + config.windowMs;
 
@@ -171,7 +388,9 @@ export class RateLimitingService {
     route: string,
     config: RateLimitConfig
   ): Promise<RateLimitResult> {
-    const key = `${this.RATE_LIMIT_PREFIX}:sliding:${identifier}:${route}`;
+    const key = config.keyGenerator
+      ? config.keyGenerator(identifier, route)
+      : `${this.RATE_LIMIT_PREFIX}:sliding:${identifier}:${route}`;
     const now = Date.now();
     const windowStart = now - config.windowMs;
 
@@ -183,7 +402,7 @@ export class RateLimitingService {
       pipeline.zRemRangeByScore(key, 0, windowStart);
       
       // Add current request
-      pipeline.zAdd(key, { score: now, value: now.toString() });
+      pipeline.zAdd(key, { score: now, value: `${now}:${Math.random().toString(36).substring(2, 10)}` });
       
       // Count current requests
       pipeline.zCard(key);
@@ -224,34 +443,22 @@ export class RateLimitingService {
     route: string,
     config: RateLimitConfig & { refillRate: number; bucketSize: number }
   ): Promise<RateLimitResult> {
-    const key = `${this.RATE_LIMIT_PREFIX}:bucket:${identifier}:${route}`;
+    const key = config.keyGenerator
+      ? config.keyGenerator(identifier, route)
+      : `${this.RATE_LIMIT_PREFIX}:bucket:${identifier}:${route}`;
     const now = Date.now();
 
     try {
-      const bucketData = await this.redis.hGetAll(key);
-      
-      let tokens = parseInt(bucketData.tokens || config.bucketSize.toString());
-      let lastRefill = parseInt(bucketData.lastRefill || now.toString());
-      
-      // Calculate tokens to add based on time elapsed
-      const timePassed = now - lastRefill;
-      const tokensToAdd = Math.floor((timePassed / 1000) * config.refillRate);
-      
-      tokens = Math.min(config.bucketSize, tokens + tokensToAdd);
-      
-      const allowed = tokens > 0;
-      
-      if (allowed) {
-        tokens -= 1;
-      }
-
-      // Update bucket state
-      await this.redis.hSet(key, {
-        tokens: tokens.toString(),
-        lastRefill: now.toString(),
-      });
-      
-      await this.redis.expire(key, config.windowMs / 1000);
+      const [taken, tokens] = (await this.redis.eval(TOKEN_BUCKET_SCRIPT, {
+        keys: [key],
+        arguments: [
+          now.toString(),
+          config.bucketSize.toString(),
+          config.refillRate.toString(),
+          Math.ceil(config.windowMs / 1000).toString(),
+        ],
+      })) as [number, number];
+      const allowed = taken === 1;
 
       return {
         allowed,
@@ -270,69 +477,120 @@ export class RateLimitingService {
     }
   }
 
-  private generateKey(identifier: string, route: string, config: RateLimitConfig): string {
+  private generateKey(
+    identifier: string,
+    route: string,
+    config: RateLimitConfig,
+    params?: Record<string, string>
+  ): string {
     if (config.keyGenerator) {
-      return config.keyGenerator(identifier, route);
+      return config.keyGenerator(identifier, route, params);
     }
     
     return `${this.RATE_LIMIT_PREFIX}:${identifier}:${route}`;
   }
 
+  // Key layout: nexus:ratelimit:<algorithm|period>:<routeId>:<source>:<value>
+  private policyKey(kind: string, routeId: string, identity: RateLimitIdentity): string {
+    return `${this.RATE_LIMIT_PREFIX}:${kind}:${routeId}:${identity.source}:${identity.value}`;
+  }
+
+  private async consumeQuota(key: string, limit: number, periodEnd: Date): Promise<RateLimitResult> {
+    try {
+      const results = await this.redis.multi().incr(key).expireAt(key, Math.ceil(periodEnd.getTime() / 1000)).exec();
+
+      if (!results) {
+        throw new Error('Redis pipeline execution failed');
+      }
+
+      const used = parseInt(results[0] as string) || 1;
+      const allowed = used <= limit;
+
+      return {
+        allowed,
+        remaining: Math.max(0, limit - used),
+        resetTime: periodEnd,
+        retryAfter: allowed ? undefined : Math.ceil((periodEnd.getTime() - Date.now()) / 1000),
+      };
+    } catch (error) {
+      this.logger.error('Quota check failed:', error);
+
+      // Fail open, as for burst limits
+      return { allowed: true, remaining: limit, resetTime: periodEnd };
+    }
+  }
+
+  // Quotas reset at the start of the next UTC day or month
+  private periodEnd(period: 'daily' | 'monthly'): Date {
+    const now = new Date();
+    return period === 'daily'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  }
+
   // Rate limiting metrics
   async getMetrics(): Promise<{
     totalRequests: number;
     blockedRequests: number;
     topLimitedRoutes: Array<{ route: string; count: number }>;
     topLimitedIPs: Array<{ ip: string; count: number }>;
+    topLimitedClients: Array<{ source: string; client: string; count: number }>;
   }> {
     try {
       const keys = await this.redis.keys(`${this.RATE_LIMIT_PREFIX}:*`);
       
       let totalRequests = 0;
-      let blockedRequests = 0;
       const routeCounts = new Map<string, number>();
-      const ipCounts = new Map<string, number>();
+      const clientCounts = new Map<string, number>();
 
       for (const key of keys) {
-        const count = parseInt(await this.redis.get(key) || '0');
-        totalRequests += count;
-        
-        // Extract route and IP from key
-        const keyParts = key.split(':');
-        if (keyParts.length >= 4) {
-          const ip = keyParts[2];
-          const route = keyParts[3];
-          
-          routeCounts.set(route, (routeCounts.get(route) || 0) + count);
-          ipCounts.set(ip, (ipCounts.get(ip) || 0) + count);
+        // Only burst windows hold request counts; quotas would count the same requests again
+        const [, , kind, route, source, ...value] = key.split(':');
+        let count: number;
+        if (kind === 'fixed-window') {
+          count = parseInt(await this.redis.get(key) || '0');
+        } else if (kind === 'sliding-window') {
+          count = await this.redis.zCard(key);
+        } else {
+          continue;
         }
+
+        totalRequests += count;
+        routeCounts.set(route, (routeCounts.get(route) || 0) + count);
+
+        const client = `${source}:${value.join(':')}`;
+        clientCounts.set(client, (clientCounts.get(client) || 0) + count);
       }
 
-      // Get top limited routes and IPs
-      const topLimitedRoutes = Array.from(routeCounts.entries())
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 10)
-        .map(([route, count]) => ({ route, count }));
+      const top = <T>(counts: Map<string, number>, map: (key: string, count: number) => T): T[] =>
+        Array.from(counts.entries())
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, 10)
+          .map(([key, count]) => map(key, count));
 
-      const topLimitedIPs = Array.from(ipCounts.entries())
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 10)
-        .map(([ip, count]) => ({ ip, count }));
+      const topLimitedClients = top(clientCounts, (client, count) => {
+        const [source, ...value] = client.split(':');
+        return { source, client: value.join(':'), count };
+      });
 
       return {
         totalRequests,
-        blockedRequests,
-        topLimitedRoutes,
-        topLimitedIPs,
+        blockedRequests: this.blockedRequests,
+        topLimitedRoutes: top(routeCounts, (route, count) => ({ route, count })),
+        topLimitedIPs: topLimitedClients
+          .filter((entry) => entry.source === 'ip')
+          .map((entry) => ({ ip: entry.client, count: entry.count })),
+        topLimitedClients,
       };
     } catch (error) {
       this.logger.error('Failed to get rate limiting metrics:', error);
       
       return {
         totalRequests: 0,
-        blockedRequests: 0,
+        blockedRequests: this.blockedRequests,
         topLimitedRoutes: [],
         topLimitedIPs: [],
+        topLimitedClients: [],
       };
     }
   }
@@ -0,0 +1,126 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import request from 'supertest';
+import { GatewayAdminController } from './gateway-admin.controller';
+import { RoutingController } from './routing.controller';
+import { RoutingService } from './routing.service';
+import { RouteConfigLoader } from './route-config.loader';
+import { TrafficSplitService } from './traffic-split.service';
+import { LoadBalancerService } from '../load-balancer/load-balancer.service';
+import { RateLimitingService } from '../rate-limiting/rate-limiting.service';
+import { ResponseCacheService } from '../cache/response-cache.service';
+import { CircuitBreakerService } from '../circuit-breaker/circuit-breaker.service';
+import { TransformService } from '../transform/transform.service';
+import { AuthenticationService } from '../authentication/authentication.service';
+import { GatewayAdminGuard, ADMIN_TOKEN_HEADER } from '../authentication/gateway-admin.guard';
+
+describe('GatewayAdminController', () => {
+  const route = { id: 'users', circuitBreaker: true };
+  let app: INestApplication;
+  let circuitBreaker: Record<string, jest.Mock>;
+  let routingService: Record<string, jest.Mock>;
+
+  const bearer = (roles: string[]) =>
+    `Bearer ${new JwtService().sign({ sub: 'user-1', roles }, { secret: 'test-jwt-secret' })}`;
+
+  beforeAll(() => {
+    process.env.GATEWAY_JWT_SECRET = 'test-jwt-secret';
+    process.env.GATEWAY_ADMIN_TOKEN = 'test-admin-token';
+    process.env.GATEWAY_IDENTITY_SIGNING_SECRET = 'test-identity-secret';
+  });
+
+  beforeEach(async () => {
+    routingService = {
+      matchRequest: jest.fn(() => null),
+      getRoute: jest.fn((id: string) => (id === route.id ? route : undefined)),
+      getAllRoutes: jest.fn(() => [route]),
+      getRouteMetrics: jest.fn(async () => []),
+      updateRouteTarget: jest.fn(),
+    };
+    circuitBreaker = {
+      forceOpen: jest.fn(),
+      getStatus: jest.fn(async () => ({ routeId: route.id, state: 'open' })),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [JwtModule.register({})],
+      controllers: [GatewayAdminController, RoutingController],
+      providers: [
+        AuthenticationService,
+        GatewayAdminGuard,
+        { provide: RoutingService, useValue: routingService },
+        { provide: CircuitBreakerService, useValue: circuitBreaker },
+        { provide: RouteConfigLoader, useValue: {} },
+        { provide: TrafficSplitService, useValue: { getMetrics: () => [] } },
+        { provide: LoadBalancerService, useValue: { getMetrics: async () => ({}) } },
+        { provide: RateLimitingService, useValue: { getMetrics: async () => ({}) } },
+        { provide: ResponseCacheService, useValue: { getStats: () => ({ hits: 0 }) } },
+        { provide: TransformService, useValue: {} },
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('serves admin reads instead of the catch-all proxy', async () => {
+    await request(app.getHttpServer()).get('/_gateway/metrics').expect(200);
+    await request(app.getHttpServer())
+      .get('/_gateway/cache')
+      .set(ADMIN_TOKEN_HEADER, 'test-admin-token')
+      .expect(200, { hits: 0 });
+
+    expect(routingService.matchRequest).not.toHaveBeenCalled();
+  });
+
+  it('guards the cache, circuit and split reads like the mutations', async () => {
+    for (const path of ['/_gateway/cache', '/_gateway/circuits', '/_gateway/routes/users/split']) {
+      await request(app.getHttpServer()).get(path).expect(401);
+    }
+    await request(app.getHttpServer()).post('/_gateway/routes/validate').send({ routes: [] }).expect(401);
+  });
+
+  it('rejects mutations without credentials', async () => {
+    await request(app.getHttpServer()).post('/_gateway/circuits/users/open').expect(401);
+    await request(app.getHttpServer())
+      .post('/_gateway/circuits/users/open')
+      .set(ADMIN_TOKEN_HEADER, 'wrong-token')
+      .expect(401);
+
+    expect(circuitBreaker.forceOpen).not.toHaveBeenCalled();
+  });
+
+  it('rejects mutations from callers without an admin role', async () => {
+    await request(app.getHttpServer())
+      .post('/_gateway/circuits/users/open')
+      .set('Authorization', bearer(['user']))
+      .expect(403);
+
+    expect(circuitBreaker.forceOpen).not.toHaveBeenCalled();
+  });
+
+  it('allows mutations with the admin token or an admin bearer token', async () => {
+    await request(app.getHttpServer())
+      .post('/_gateway/circuits/users/open')
+      .set(ADMIN_TOKEN_HEADER, 'test-admin-token')
+      .expect(201);
+    await request(app.getHttpServer())
+      .post('/_gateway/circuits/users/open')
+      .set('Authorization', bearer(['admin']))
+      .expect(201);
+
+    expect(circuitBreaker.forceOpen).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns not found for unknown routes', async () => {
+    await request(app.getHttpServer())
+      .post('/_gateway/circuits/missing/open')
+      .set(ADMIN_TOKEN_HEADER, 'test-admin-token')
+      .expect(404);
+  });
+});
@@ -0,0 +1,227 @@
+import { Controller, Get, Post, Put, Delete, Param, Body, Query, UseGuards, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { RoutingService, RouteConfig } from './routing.service';
+import {
+  RouteConfigLoader,
+  RouteConfigStatus,
+  RouteConfigValidationResult,
+} from './route-config.loader';
+import { LoadBalancerService } from '../load-balancer/load-balancer.service';
+import { RateLimitingService } from '../rate-limiting/rate-limiting.service';
+import { ResponseCacheService, CacheStats } from '../cache/response-cache.service';
+import { TrafficSplitService, TrafficSplitVersion } from './traffic-split.service';
+import { CircuitBreakerService, CircuitStatus } from '../circuit-breaker/circuit-breaker.service';
+import { GatewayAdminGuard } from '../authentication/gateway-admin.guard';
+
+@ApiTags('Gateway Admin')
+@Controller('_gateway')
+export class GatewayAdminController {
+  constructor(
+    private readonly routingService: RoutingService,
+    private readonly loadBalancer: LoadBalancerService,
+    private readonly rateLimiting: RateLimitingService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly routeConfigLoader: RouteConfigLoader,
+    private readonly trafficSplit: TrafficSplitService,
+    private readonly circuitBreaker: CircuitBreakerService,
+  ) {}
+
+  @Get('routes')
+  @ApiOperation({ summary: 'Get all registered routes' })
+  @ApiResponse({ status: 200, description: 'Routes retrieved successfully' })
+  async getRoutes(): Promise<RouteConfig[]> {
+    return this.routingService.getAllRoutes();
+  }
+
+  @Post('routes/validate')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Dry-run validation of a route configuration' })
+  async validateRoutes(
+    @Body() body: { content?: string; format?: 'yaml' | 'json'; [key: string]: any },
+  ): Promise<Omit<RouteConfigValidationResult, 'table'> & { routes?: number }> {
+    // Accept either raw YAML/JSON text in `content` or an already-parsed table
+    let raw: unknown = body;
+    if (typeof body.content === 'string') {
+      try {
+        raw = this.routeConfigLoader.parse(body.content, body.format);
+      } catch (error) {
+        return { valid: false, errors: [`Parse error: ${error.message}`] };
+      }
+    }
+
+    const { table, ...result } = this.routeConfigLoader.validate(raw);
+    return { ...result, routes: table?.routes.length };
+  }
+
+  @Post('routes/reload')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Reload route configuration from disk' })
+  async reloadRoutes(): Promise<RouteConfigStatus> {
+    return this.routeConfigLoader.reload((table) => this.routingService.applyRouteTable(table));
+  }
+
+  @Get('routes/:routeId')
+  @ApiOperation({ summary: 'Get specific route configuration' })
+  async getRoute(@Param('routeId') routeId: string): Promise<RouteConfig> {
+    const route = this.routingService.getRoute(routeId);
+    if (!route) {
+      throw new NotFoundException(`Route ${routeId} not found`);
+    }
+    return route;
+  }
+
+  @Get('health')
+  @ApiOperation({ summary: 'Get gateway and routes health status' })
+  async getHealth(): Promise<{
+    gateway: string;
+    routes: { healthy: string[]; unhealthy: string[]; total: number };
+    services: any[];
+  }> {
+    const routeHealth = await this.routingService.healthCheckRoutes();
+    const serviceHealth = await this.loadBalancer.getServicesHealth();
+
+    return {
+      gateway: 'healthy',
+      routes: routeHealth,
+      services: serviceHealth,
+    };
+  }
+
+  @Get('metrics')
+  @ApiOperation({ summary: 'Get routing metrics' })
+  async getMetrics(): Promise<{
+    routes: any[];
+    versions: any[];
+    loadBalancer: any;
+    rateLimiting: any;
+  }> {
+    const routeMetrics = await this.routingService.getRouteMetrics();
+    const versionMetrics = this.trafficSplit.getMetrics(this.routingService.getAllRoutes());
+    const lbMetrics = await this.loadBalancer.getMetrics();
+    const rlMetrics = await this.rateLimiting.getMetrics();
+
+    return {
+      routes: routeMetrics,
+      versions: versionMetrics,
+      loadBalancer: lbMetrics,
+      rateLimiting: rlMetrics,
+    };
+  }
+
+  @Get('routes/:routeId/split')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Get traffic split weights for a route' })
+  async getTrafficSplit(@Param('routeId') routeId: string): Promise<TrafficSplitVersion[]> {
+    return this.trafficSplit.getVersions(this.requireRoute(routeId));
+  }
+
+  @Put('routes/:routeId/split')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Set traffic split weights for a route' })
+  async setTrafficSplit(
+    @Param('routeId') routeId: string,
+    @Body() body: { weights: Record<string, number> },
+  ): Promise<TrafficSplitVersion[]> {
+    return this.trafficSplit.setWeights(this.requireRoute(routeId), body?.weights);
+  }
+
+  @Post('routes/:routeId/split/shift')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Progressively shift traffic towards a version' })
+  async shiftTrafficSplit(
+    @Param('routeId') routeId: string,
+    @Body() body: { version: string; step: number },
+  ): Promise<TrafficSplitVersion[]> {
+    return this.trafficSplit.shiftWeight(this.requireRoute(routeId), body?.version, body?.step);
+  }
+
+  @Delete('routes/:routeId/split')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Reset traffic split weights to the route configuration' })
+  async resetTrafficSplit(@Param('routeId') routeId: string): Promise<TrafficSplitVersion[]> {
+    const route = this.requireRoute(routeId);
+    this.trafficSplit.resetWeights(route.id);
+    return this.trafficSplit.getVersions(route);
+  }
+
+  @Get('circuits')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'List circuit breaker state for all routes' })
+  async getCircuits(): Promise<CircuitStatus[]> {
+    const routes = this.routingService.getAllRoutes().filter((route) => route.circuitBreaker);
+    return Promise.all(routes.map((route) => this.circuitBreaker.getStatus(route)));
+  }
+
+  @Post('circuits/:routeId/open')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Force a route circuit open' })
+  async openCircuit(@Param('routeId') routeId: string): Promise<CircuitStatus> {
+    const route = this.requireRoute(routeId);
+    await this.circuitBreaker.forceOpen(route);
+    return this.circuitBreaker.getStatus(route);
+  }
+
+  @Post('circuits/:routeId/close')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Force a route circuit closed' })
+  async closeCircuit(@Param('routeId') routeId: string): Promise<CircuitStatus> {
+    const route = this.requireRoute(routeId);
+    await this.circuitBreaker.forceClose(route);
+    return this.circuitBreaker.getStatus(route);
+  }
+
+  @Post('circuits/:routeId/reset')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Clear forced state and counters for a route circuit' })
+  async resetCircuit(@Param('routeId') routeId: string): Promise<CircuitStatus> {
+    const route = this.requireRoute(routeId);
+    await this.circuitBreaker.reset(route);
+    return this.circuitBreaker.getStatus(route);
+  }
+
+  @Get('cache')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Get response cache statistics' })
+  async getCacheStats(): Promise<CacheStats> {
+    return this.responseCache.getStats();
+  }
+
+  @Delete('cache')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Purge cached responses by route and/or path prefix' })
+  async purgeCache(
+    @Query('route') routeId?: string,
+    @Query('prefix') prefix?: string,
+  ): Promise<{ purged: number }> {
+    if (routeId && !this.routingService.getRoute(routeId)) {
+      throw new NotFoundException(`Route ${routeId} not found`);
+    }
+
+    const purged = await this.responseCache.purge({ routeId, prefix });
+    return { purged };
+  }
+
+  @Post('routes/:routeId/target')
+  @UseGuards(GatewayAdminGuard)
+  @ApiOperation({ summary: 'Update route target' })
+  async updateRouteTarget(
+    @Param('routeId') routeId: string,
+    @Body() body: { target: string },
+  ): Promise<{ message: string }> {
+    this.requireRoute(routeId);
+    if (typeof body?.target !== 'string' || !/^https?:\/\/[^\s]+$/.test(body.target)) {
+      throw new BadRequestException('target must be an http(s) URL');
+    }
+
+    await this.routingService.updateRouteTarget(routeId, body.target);
+    return { message: `Route ${routeId} target updated to ${body.target}` };
+  }
+
+  private requireRoute(routeId: string): RouteConfig {
+    const route = this.routingService.getRoute(routeId);
+    if (!route) {
+      throw new NotFoundException(`Route ${routeId} not found`);
+    }
+    return route;
+  }
+}
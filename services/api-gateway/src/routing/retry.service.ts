@@ -0,0 +1,138 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Request, Response } from 'express';
+
+export interface RetryPolicy {
+  statusCodes?: number[];
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface RetryableRoute {
+  id: string;
+  retries: number;
+  retryPolicy?: RetryPolicy;
+}
+
+export interface RetryCause {
+  error?: NodeJS.ErrnoException;
+  status?: number;
+}
+
+interface RetryBudget {
+  windowStart: number;
+  requests: number;
+  retries: number;
+}
+
+@Injectable()
+export class RetryService {
+  private readonly logger = new Logger(RetryService.name);
+  private readonly IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
+  private readonly RETRYABLE_ERROR_CODES = [
+    'ECONNREFUSED',
+    'ECONNRESET',
+    'ETIMEDOUT',
+    'ESOCKETTIMEDOUT',
+    'EHOSTUNREACH',
+    'ENETUNREACH',
+    'EAI_AGAIN',
+    'EPIPE',
+  ];
+  private readonly DEFAULT_STATUS_CODES = [502, 503, 504];
+  private readonly DEFAULT_BASE_DELAY_MS = 100;
+  private readonly DEFAULT_MAX_DELAY_MS = 2000;
+
+  // Retries may add at most BUDGET_RATIO extra load per route within a window
+  private readonly BUDGET_WINDOW_MS = 10000;
+  private readonly BUDGET_RATIO = parseFloat(process.env.GATEWAY_RETRY_BUDGET_RATIO || '0.2');
+  private readonly BUDGET_MIN_RETRIES = 10;
+  private budgets = new Map<string, RetryBudget>();
+
+  recordRequest(routeId: string): void {
+    this.getBudget(routeId).requests++;
+  }
+
+  shouldRetry(req: Request, res: Response, route: RetryableRoute, cause: RetryCause): boolean {
+    const attempt: number = req['proxyAttempt'] || 1;
+
+    if (attempt > route.retries || res.headersSent || req.socket?.destroyed) {
+      return false;
+    }
+
+    if (!this.isRetryableCause(route, cause)) {
+      return false;
+    }
+
+    if (!this.isIdempotent(req)) {
+      this.logger.debug(`Not retrying ${req.method} ${req.path}: no Idempotency-Key`);
+      return false;
+    }
+
+    if (!this.isBodyReplayable(req)) {
+      this.logger.debug(`Not retrying ${req.method} ${req.path}: request body already streamed`);
+      return false;
+    }
+
+    const budget = this.getBudget(route.id);
+    const allowance = Math.max(this.BUDGET_MIN_RETRIES, budget.requests * this.BUDGET_RATIO);
+    if (budget.retries >= allowance) {
+      this.logger.warn(`Retry budget exhausted for route ${route.id} (${budget.retries}/${budget.requests})`);
+      return false;
+    }
+
+    budget.retries++;
+    return true;
+  }
+
+  /**
+   * Exponential backoff with full jitter: a random delay between 0 and
+   * min(maxDelay, baseDelay * 2^(attempt - 1)).
+   */
+  getBackoffDelay(attempt: number, policy?: RetryPolicy): number {
+    const base = policy?.baseDelayMs ?? this.DEFAULT_BASE_DELAY_MS;
+    const max = policy?.maxDelayMs ?? this.DEFAULT_MAX_DELAY_MS;
+    const ceiling = Math.min(max, base * Math.pow(2, attempt - 1));
+
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  getMetrics(): Array<{ routeId: string; requests: number; retries: number }> {
+    return Array.from(this.budgets.entries()).map(([routeId, budget]) => ({
+      routeId,
+      requests: budget.requests,
+      retries: budget.retries,
+    }));
+  }
+
+  private isRetryableCause(route: RetryableRoute, cause: RetryCause): boolean {
+    if (cause.error) {
+      return this.RETRYABLE_ERROR_CODES.includes(cause.error.code || '');
+    }
+
+    const statusCodes = route.retryPolicy?.statusCodes || this.DEFAULT_STATUS_CODES;
+    return cause.status !== undefined && statusCodes.includes(cause.status);
+  }
+
+  private isIdempotent(req: Request): boolean {
+    return this.IDEMPOTENT_METHODS.includes(req.method.toUpperCase()) || !!req.headers['idempotency-key'];
+  }
+
+  private isBodyReplayable(req: Request): boolean {
+    const hasBody = parseInt(req.headers['content-length'] || '0') > 0 || !!req.headers['transfer-encoding'];
+
+    // body-parser marks requests it has consumed with `_body`; those can be re-sent from req.body
+    return !hasBody || req['_body'] === true;
+  }
+
+  private getBudget(routeId: string): RetryBudget {
+    const now = Date.now();
+    let budget = this.budgets.get(routeId);
+
+    if (!budget || now - budget.windowStart > this.BUDGET_WINDOW_MS) {
+      budget = { windowStart: now, requests: 0, retries: 0 };
+      this.budgets.set(routeId, budget);
+    }
+
+    return budget;
+  }
+}
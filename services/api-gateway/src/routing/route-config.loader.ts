@@ -0,0 +1,174 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { promises as fs, watch, FSWatcher } from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import Ajv, { ValidateFunction } from 'ajv';
+import { routeConfigSchema } from './route-config.schema';
+import { RouteTrie } from './route-trie';
+import type { RouteConfig } from './routing.service';
+
+export interface RouteTable {
+  version: string | number;
+  routes: RouteConfig[];
+}
+
+export interface RouteConfigValidationResult {
+  valid: boolean;
+  errors: string[];
+  table?: RouteTable;
+}
+
+export interface RouteConfigStatus {
+  source: string;
+  version?: string | number;
+  routes: number;
+  loadedAt?: Date;
+  lastError?: { message: string; at: Date };
+}
+
+@Injectable()
+export class RouteConfigLoader implements OnModuleDestroy {
+  private readonly logger = new Logger(RouteConfigLoader.name);
+  private readonly configPath = path.resolve(
+    process.env.GATEWAY_ROUTES_FILE || path.join('config', 'routes.yaml'),
+  );
+  private readonly RELOAD_DEBOUNCE_MS = 250;
+  private readonly validator: ValidateFunction;
+
+  private watcher?: FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+  private lastGood?: { table: RouteTable; loadedAt: Date };
+  private lastError?: { message: string; at: Date };
+
+  constructor() {
+    const ajv = new Ajv({ allErrors: true, useDefaults: true });
+    this.validator = ajv.compile(routeConfigSchema);
+  }
+
+  onModuleDestroy() {
+    this.watcher?.close();
+    clearTimeout(this.reloadTimer);
+  }
+
+  /**
+   * Reads and validates the route file. Throws if the file is unreadable or
+   * invalid; the last good table is left untouched in that case.
+   */
+  async load(): Promise<RouteTable> {
+    const content = await fs.readFile(this.configPath, 'utf8');
+    const result = this.validate(this.parse(content, this.formatOf(this.configPath)));
+
+    if (!result.valid) {
+      throw new Error(`Invalid route configuration in ${this.configPath}: ${result.errors.join('; ')}`);
+    }
+
+    this.lastGood = { table: result.table!, loadedAt: new Date() };
+    this.lastError = undefined;
+    this.logger.log(
+      `Loaded route configuration v${result.table!.version} (${result.table!.routes.length} routes) from ${this.configPath}`,
+    );
+
+    return result.table!;
+  }
+
+  /**
+   * Watches the route file and calls onChange with each new valid table. A
+   * reload that fails validation keeps the last good table in service.
+   */
+  watch(onChange: (table: RouteTable) => void): void {
+    // Watch the directory so editors that replace the file on save are picked up
+    const directory = path.dirname(this.configPath);
+    const filename = path.basename(this.configPath);
+
+    this.watcher = watch(directory, (eventType, changed) => {
+      if (changed !== filename) {
+        return;
+      }
+
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => this.reload(onChange), this.RELOAD_DEBOUNCE_MS);
+    });
+
+    this.logger.log(`Watching ${this.configPath} for route changes`);
+  }
+
+  async reload(onChange: (table: RouteTable) => void): Promise<RouteConfigStatus> {
+    try {
+      onChange(await this.load());
+    } catch (error) {
+      this.lastError = { message: error.message, at: new Date() };
+      this.logger.error(
+        `Route reload failed, keeping v${this.lastGood?.table.version ?? '?'}: ${error.message}`,
+      );
+    }
+
+    return this.getStatus();
+  }
+
+  parse(content: string, format: 'yaml' | 'json' = 'yaml'): unknown {
+    // JSON is a subset of YAML, but parse it strictly when declared as JSON
+    return format === 'json' ? JSON.parse(content) : yaml.load(content);
+  }
+
+  validate(raw: unknown): RouteConfigValidationResult {
+    if (!this.validator(raw)) {
+      return {
+        valid: false,
+        errors: (this.validator.errors || []).map(
+          (error) => `${error.instancePath || '/'} ${error.message}`,
+        ),
+      };
+    }
+
+    const table = raw as RouteTable;
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    table.routes.forEach((route, index) => {
+      if (seen.has(route.id)) {
+        errors.push(`/routes/${index}/id duplicate route id "${route.id}"`);
+      }
+      seen.add(route.id);
+
+      // Body schemas are compiled lazily per request, so reject broken ones now
+      const schema = route.transform.request?.validate;
+      if (schema) {
+        try {
+          new Ajv({ allErrors: true }).compile(schema);
+        } catch (error) {
+          errors.push(`/routes/${index}/transform/request/validate ${error.message}`);
+        }
+      }
+    });
+
+    // Catch malformed paths (e.g. a wildcard before the last segment) up front
+    const router = new RouteTrie<RouteConfig>();
+    table.routes.forEach((route, index) => {
+      try {
+        router.insert(route);
+      } catch (error) {
+        errors.push(`/routes/${index}/path ${error.message}`);
+      }
+    });
+
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    return { valid: true, errors: [], table };
+  }
+
+  getStatus(): RouteConfigStatus {
+    return {
+      source: this.configPath,
+      version: this.lastGood?.table.version,
+      routes: this.lastGood?.table.routes.length ?? 0,
+      loadedAt: this.lastGood?.loadedAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private formatOf(file: string): 'yaml' | 'json' {
+    return path.extname(file).toLowerCase() === '.json' ? 'json' : 'yaml';
+  }
+}
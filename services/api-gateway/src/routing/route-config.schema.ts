@@ -0,0 +1,227 @@
+// JSON Schema for the declarative route table (config/routes.yaml)
+export const routeConfigSchema = {
+  type: 'object',
+  required: ['version', 'routes'],
+  additionalProperties: false,
+  properties: {
+    version: { type: ['string', 'integer'] },
+    routes: {
+      type: 'array',
+      items: { $ref: '#/definitions/route' },
+    },
+  },
+  definitions: {
+    route: {
+      type: 'object',
+      required: ['id', 'path', 'target', 'service'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'string', pattern: '^[a-z0-9][a-z0-9-]*$' },
+        path: { type: 'string', pattern: '^/' },
+        method: {
+          type: 'string',
+          enum: ['ALL', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'],
+          default: 'ALL',
+        },
+        match: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            host: { type: 'string', minLength: 1 },
+            headers: { type: 'object', additionalProperties: { type: 'string' } },
+          },
+        },
+        target: { type: 'string', pattern: '^https?://' },
+        service: { type: 'string', minLength: 1 },
+        version: { type: 'string', default: '1.0' },
+        trafficSplit: {
+          type: 'object',
+          required: ['versions'],
+          additionalProperties: false,
+          properties: {
+            versions: {
+              type: 'array',
+              minItems: 1,
+              items: {
+                type: 'object',
+                required: ['version', 'weight'],
+                additionalProperties: false,
+                properties: {
+                  version: { type: 'string', minLength: 1 },
+                  weight: { type: 'number', minimum: 0, maximum: 100 },
+                  service: { type: 'string', minLength: 1 },
+                },
+              },
+            },
+            stickyCookie: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },
+            // x-gateway-* headers are set by the gateway and cannot double as an override
+            overrideHeader: { type: 'string', pattern: '^(?![Xx]-[Gg][Aa][Tt][Ee][Ww][Aa][Yy]-)[A-Za-z0-9-]+$' },
+            overrideRoles: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+          },
+        },
+        timeout: { type: 'integer', minimum: 1, default: 30000 },
+        retries: { type: 'integer', minimum: 0, maximum: 10, default: 0 },
+        retryPolicy: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            statusCodes: {
+              type: 'array',
+              items: { type: 'integer', minimum: 500, maximum: 599 },
+            },
+            baseDelayMs: { type: 'integer', minimum: 0 },
+            maxDelayMs: { type: 'integer', minimum: 0 },
+          },
+        },
+        loadBalancing: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            strategy: {
+              type: 'string',
+              enum: [
+                'round-robin',
+                'weighted',
+                'least-connections',
+                'response-time',
+                'consistent-hash',
+                'power-of-two',
+              ],
+              default: 'round-robin',
+            },
+            hashHeader: { type: 'string', minLength: 1 },
+          },
+          default: { strategy: 'round-robin' },
+        },
+        circuitBreaker: { type: 'boolean', default: true },
+        circuitBreakerPolicy: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            failureRatio: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+            windowMs: { type: 'integer', minimum: 1000 },
+            minimumRequests: { type: 'integer', minimum: 1 },
+            openDurationMs: { type: 'integer', minimum: 1 },
+            halfOpenMaxProbes: { type: 'integer', minimum: 1 },
+            fallback: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                status: { type: 'integer', minimum: 100, maximum: 599 },
+                headers: { type: 'object', additionalProperties: { type: 'string' } },
+                body: {},
+              },
+            },
+          },
+        },
+        rateLimit: {
+          type: 'object',
+          required: ['windowMs', 'max'],
+          additionalProperties: false,
+          properties: {
+            windowMs: { type: 'integer', minimum: 1 },
+            max: { type: 'integer', minimum: 1 },
+            algorithm: {
+              type: 'string',
+              enum: ['fixed-window', 'sliding-window', 'token-bucket'],
+              default: 'fixed-window',
+            },
+            keyBy: { type: 'string', enum: ['ip', 'api-key', 'user', 'tenant'], default: 'ip' },
+            apiKeyClaim: { type: 'string', minLength: 1 },
+            quota: { $ref: '#/definitions/rateLimitQuota' },
+            tiers: {
+              type: 'object',
+              additionalProperties: {
+                type: 'object',
+                additionalProperties: false,
+                properties: {
+                  windowMs: { type: 'integer', minimum: 1 },
+                  max: { type: 'integer', minimum: 1 },
+                  quota: { $ref: '#/definitions/rateLimitQuota' },
+                },
+              },
+            },
+          },
+          default: { windowMs: 60000, max: 100 },
+        },
+        auth: {
+          type: 'object',
+          required: ['required'],
+          additionalProperties: false,
+          properties: {
+            required: { type: 'boolean' },
+            roles: { type: 'array', items: { type: 'string' } },
+            scopes: { type: 'array', items: { type: 'string' } },
+          },
+          default: { required: true },
+        },
+        cache: {
+          type: 'object',
+          required: ['enabled', 'ttl'],
+          additionalProperties: false,
+          properties: {
+            enabled: { type: 'boolean' },
+            ttl: { type: 'integer', minimum: 0 },
+            varyHeaders: { type: 'array', items: { type: 'string' } },
+          },
+          default: { enabled: false, ttl: 0 },
+        },
+        transform: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            request: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                headers: { $ref: '#/definitions/headerTransform' },
+                body: { $ref: '#/definitions/bodyTransform' },
+                validate: { type: 'object' },
+              },
+            },
+            response: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                headers: { $ref: '#/definitions/headerTransform' },
+                body: { $ref: '#/definitions/bodyTransform' },
+                status: {
+                  type: 'object',
+                  propertyNames: { pattern: '^[1-5][0-9]{2}$' },
+                  additionalProperties: { type: 'integer', minimum: 100, maximum: 599 },
+                },
+              },
+            },
+          },
+          default: {},
+        },
+      },
+    },
+    rateLimitQuota: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        daily: { type: 'integer', minimum: 1 },
+        monthly: { type: 'integer', minimum: 1 },
+      },
+    },
+    headerTransform: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        add: { type: 'object', additionalProperties: { type: 'string' } },
+        remove: { type: 'array', items: { type: 'string', minLength: 1 } },
+        rename: { type: 'object', additionalProperties: { type: 'string', minLength: 1 } },
+      },
+    },
+    bodyTransform: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        mapping: { type: 'object', additionalProperties: { type: 'string', minLength: 1 } },
+        project: { type: 'array', items: { type: 'string', minLength: 1 } },
+        template: {},
+      },
+    },
+  },
+};
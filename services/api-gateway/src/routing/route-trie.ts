@@ -0,0 +1,244 @@
+export interface RouteMatchConditions {
+  host?: string;
+  headers?: Record<string, string>;
+}
+
+export interface MatchableRoute {
+  id: string;
+  path: string;
+  method: string;
+  match?: RouteMatchConditions;
+}
+
+export interface MatchRequest {
+  path: string;
+  method: string;
+  host?: string;
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+export interface TrieMatch<T> {
+  route: T;
+  params: Record<string, string>;
+}
+
+interface TrieEntry<T> {
+  route: T;
+  specificity: number[];
+  order: number;
+}
+
+interface ParamEdge<T> {
+  name: string;
+  source?: string;
+  constraint?: RegExp;
+  node: TrieNode<T>;
+}
+
+class TrieNode<T> {
+  staticChildren = new Map<string, TrieNode<T>>();
+  paramChildren: ParamEdge<T>[] = [];
+  wildcard?: { name: string; entries: TrieEntry<T>[] };
+  entries: TrieEntry<T>[] = [];
+}
+
+// Per-segment weights; higher is more specific. END outranks a wildcard that matched nothing.
+const SPECIFICITY = { wildcard: 1, param: 2, constrainedParam: 3, static: 4, end: 5 };
+
+const PARAM_SEGMENT = /^:([A-Za-z_][A-Za-z0-9_]*)(?:\((.+)\))?$/;
+const WILDCARD_SEGMENT = /^\*([A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * Segment trie for gateway routes. Supports static segments, named params
+ * (`:id`), regex-constrained params (`:id(\d+)`) and a trailing wildcard
+ * (`*` or `*rest`) matching zero or more segments. When several routes match,
+ * the most specific one wins, with declaration order as the final tie-break.
+ */
+export class RouteTrie<T extends MatchableRoute> {
+  private readonly root = new TrieNode<T>();
+  private size = 0;
+
+  insert(route: T): void {
+    const segments = this.split(route.path);
+    const specificity: number[] = [];
+    let node = this.root;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const wildcard = segment.match(WILDCARD_SEGMENT);
+
+      if (wildcard) {
+        if (i !== segments.length - 1) {
+          throw new Error(`Route ${route.id}: wildcard must be the last path segment`);
+        }
+        specificity.push(SPECIFICITY.wildcard);
+        node.wildcard = node.wildcard || { name: wildcard[1] || '*', entries: [] };
+        node.wildcard.entries.push({ route, specificity, order: this.size++ });
+        return;
+      }
+
+      const param = segment.match(PARAM_SEGMENT);
+
+      if (param) {
+        const [, name, source] = param;
+        let edge = node.paramChildren.find((candidate) => candidate.name === name && candidate.source === source);
+        if (!edge) {
+          edge = {
+            name,
+            source,
+            constraint: source ? new RegExp(`^(?:${source})$`) : undefined,
+            node: new TrieNode<T>(),
+          };
+          node.paramChildren.push(edge);
+          // Constrained params are tried before unconstrained ones
+          node.paramChildren.sort((a, b) => Number(!!b.constraint) - Number(!!a.constraint));
+        }
+        specificity.push(source ? SPECIFICITY.constrainedParam : SPECIFICITY.param);
+        node = edge.node;
+        continue;
+      }
+
+      if (!node.staticChildren.has(segment)) {
+        node.staticChildren.set(segment, new TrieNode<T>());
+      }
+      specificity.push(SPECIFICITY.static);
+      node = node.staticChildren.get(segment)!;
+    }
+
+    specificity.push(SPECIFICITY.end);
+    node.entries.push({ route, specificity, order: this.size++ });
+  }
+
+  match(request: MatchRequest): TrieMatch<T> | undefined {
+    const candidates: Array<TrieEntry<T> & { params: Record<string, string> }> = [];
+    this.collect(this.root, this.split(request.path), 0, {}, candidates);
+
+    const method = request.method.toUpperCase();
+    const matching = candidates.filter(
+      ({ route }) =>
+        (route.method === 'ALL' || route.method === method) && this.matchesConditions(route.match, request),
+    );
+
+    if (matching.length === 0) {
+      return undefined;
+    }
+
+    matching.sort((a, b) => this.compare(a, b));
+    return { route: matching[0].route, params: matching[0].params };
+  }
+
+  private collect(
+    node: TrieNode<T>,
+    segments: string[],
+    index: number,
+    params: Record<string, string>,
+    candidates: Array<TrieEntry<T> & { params: Record<string, string> }>,
+  ): void {
+    if (node.wildcard) {
+      const rest = segments.slice(index).join('/');
+      const wildcardParams = { ...params, [node.wildcard.name]: rest };
+      node.wildcard.entries.forEach((entry) => candidates.push({ ...entry, params: wildcardParams }));
+    }
+
+    if (index === segments.length) {
+      node.entries.forEach((entry) => candidates.push({ ...entry, params }));
+      return;
+    }
+
+    const segment = segments[index];
+
+    const staticChild = node.staticChildren.get(segment);
+    if (staticChild) {
+      this.collect(staticChild, segments, index + 1, params, candidates);
+    }
+
+    let value: string;
+    try {
+      value = decodeURIComponent(segment);
+    } catch {
+      value = segment;
+    }
+
+    for (const edge of node.paramChildren) {
+      if (edge.constraint && !edge.constraint.test(value)) {
+        continue;
+      }
+      this.collect(edge.node, segments, index + 1, { ...params, [edge.name]: value }, candidates);
+    }
+  }
+
+  private matchesConditions(conditions: RouteMatchConditions | undefined, request: MatchRequest): boolean {
+    if (!conditions) {
+      return true;
+    }
+
+    if (conditions.host && !this.matchesHost(conditions.host, request.host)) {
+      return false;
+    }
+
+    for (const [name, expected] of Object.entries(conditions.headers || {})) {
+      const actual = request.headers?.[name.toLowerCase()];
+      const value = Array.isArray(actual) ? actual[0] : actual;
+
+      if (value === undefined) {
+        return false;
+      }
+      // '*' only requires the header to be present
+      if (expected !== '*' && value !== expected) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private matchesHost(pattern: string, host?: string): boolean {
+    if (!host) {
+      return false;
+    }
+
+    const hostname = host.split(':')[0].toLowerCase();
+    const expected = pattern.toLowerCase();
+
+    if (expected.startsWith('*.')) {
+      return hostname.endsWith(expected.slice(1));
+    }
+
+    return hostname === expected;
+  }
+
+  private compare(
+    a: TrieEntry<T> & { params: Record<string, string> },
+    b: TrieEntry<T> & { params: Record<string, string> },
+  ): number {
+    const length = Math.max(a.specificity.length, b.specificity.length);
+    for (let i = 0; i < length; i++) {
+      const diff = (b.specificity[i] ?? 0) - (a.specificity[i] ?? 0);
+      if (diff !== 0) {
+        return diff;
+      }
+    }
+
+    const methodDiff = Number(b.route.method !== 'ALL') - Number(a.route.method !== 'ALL');
+    if (methodDiff !== 0) {
+      return methodDiff;
+    }
+
+    const hostDiff = Number(!!b.route.match?.host) - Number(!!a.route.match?.host);
+    if (hostDiff !== 0) {
+      return hostDiff;
+    }
+
+    const headerDiff =
+      Object.keys(b.route.match?.headers || {}).length - Object.keys(a.route.match?.headers || {}).length;
+    if (headerDiff !== 0) {
+      return headerDiff;
+    }
+
+    return a.order - b.order;
+  }
+
+  private split(path: string): string[] {
+    return path.split('?')[0].split('/').filter((segment) => segment.length > 0);
+  }
+}
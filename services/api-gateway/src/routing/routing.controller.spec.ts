@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { RoutingController } from './routing.controller';
+
+describe('RoutingController', () => {
+  const route = {
+    id: 'orders',
+    auth: { required: false },
+    rateLimit: {},
+    transform: {},
+  };
+  const instance = { id: 'orders-1', service: 'orders', url: 'http://orders-1:3000' };
+
+  let routingService: Record<string, jest.Mock>;
+  let loadBalancer: Record<string, jest.Mock>;
+  let circuitBreaker: Record<string, jest.Mock>;
+  let controller: RoutingController;
+
+  const response = () => {
+    const res: Record<string, any> = { headersSent: false, setHeader: jest.fn() };
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    return res as unknown as Response;
+  };
+
+  beforeEach(() => {
+    routingService = {
+      matchRequest: jest.fn(() => ({ route, params: {} })),
+      selectInstance: jest.fn(async () => instance),
+      getProxy: jest.fn(() => jest.fn()),
+      forward: jest.fn(),
+    };
+    loadBalancer = { releaseConnection: jest.fn() };
+    circuitBreaker = {
+      acquire: jest.fn(async () => ({ allowed: true, state: 'closed', probe: false })),
+      releaseProbe: jest.fn(),
+    };
+
+    controller = new RoutingController(
+      routingService as any,
+      loadBalancer as any,
+      {
+        checkPolicy: jest.fn(async () => ({ allowed: true })),
+        getHeaders: jest.fn(() => ({})),
+      } as any,
+      { authenticate: jest.fn(async () => ({ allowed: true })) } as any,
+      { isCacheable: jest.fn(() => false) } as any,
+      { selectVersion: jest.fn(() => ({ version: 'v1', service: 'orders', reason: 'default' })) } as any,
+      circuitBreaker as any,
+      { validateRequestBody: jest.fn(() => ({ valid: true, errors: [] })) } as any,
+    );
+  });
+
+  it('releases the selected instance when the request is not forwarded', async () => {
+    routingService.getProxy.mockReturnValue(undefined);
+    const res = response();
+
+    await controller.handleRequest({ method: 'GET', path: '/orders' } as Request, res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(loadBalancer.releaseConnection).toHaveBeenCalledWith('orders', 'orders-1');
+  });
+
+  it('releases the selected instance when forwarding throws', async () => {
+    routingService.forward.mockImplementation(() => {
+      throw new Error('boom');
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await controller.handleRequest({ method: 'GET', path: '/orders' } as Request, response(), jest.fn());
+
+    expect(loadBalancer.releaseConnection).toHaveBeenCalledWith('orders', 'orders-1');
+  });
+
+  it('leaves the release to the proxy hooks once forwarded', async () => {
+    await controller.handleRequest({ method: 'GET', path: '/orders' } as Request, response(), jest.fn());
+
+    expect(routingService.forward).toHaveBeenCalled();
+    expect(loadBalancer.releaseConnection).not.toHaveBeenCalled();
+  });
+
+  describe('half-open probes', () => {
+    beforeEach(() => {
+      circuitBreaker.acquire.mockResolvedValue({ allowed: true, state: 'half-open', probe: true });
+    });
+
+    it('are released when no instance is available', async () => {
+      routingService.selectInstance.mockResolvedValue(null);
+      const res = response();
+
+      await controller.handleRequest({ method: 'GET', path: '/orders' } as Request, res, jest.fn());
+
+      expect(res.status).toHaveBeenCalledWith(503);
+      expect(circuitBreaker.releaseProbe).toHaveBeenCalledWith(route);
+    });
+
+    it('are released when the proxy is missing or forwarding throws', async () => {
+      routingService.getProxy.mockReturnValueOnce(undefined);
+      await controller.handleRequest({ method: 'GET', path: '/orders' } as Request, response(), jest.fn());
+
+      routingService.forward.mockImplementationOnce(() => {
+        throw new Error('boom');
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      await controller.handleRequest({ method: 'GET', path: '/orders' } as Request, response(), jest.fn());
+
+      expect(circuitBreaker.releaseProbe).toHaveBeenCalledTimes(2);
+    });
+
+    it('are left to the proxy hooks once forwarded', async () => {
+      await controller.handleRequest({ method: 'GET', path: '/orders' } as Request, response(), jest.fn());
+
+      expect(circuitBreaker.releaseProbe).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,9 +1,14 @@
-import { Controller, Get, Post, Put, Delete, Req, Res, Next, Param, Body } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Req, Res, Next } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
-import { RoutingService, RouteConfig } from './routing.service';
-import { LoadBalancerService } from '../load-balancer/load-balancer.service';
+import { ApiTags } from '@nestjs/swagger';
+import { RouteConfig, RoutingService } from './routing.service';
+import { LoadBalancerService, ServiceInstance } from '../load-balancer/load-balancer.service';
 import { RateLimitingService } from '../rate-limiting/rate-limiting.service';
+import { AuthenticationService } from '../authentication/authentication.service';
+import { ResponseCacheService } from '../cache/response-cache.service';
+import { TrafficSplitService } from './traffic-split.service';
+import { CircuitBreakerService } from '../circuit-breaker/circuit-breaker.service';
+import { TransformService } from '../transform/transform.service';
 
 @ApiTags('Gateway Routing')
 @Controller()
@@ -12,6 +17,11 @@ export class RoutingController {
     private readonly routingService: RoutingService,
     private readonly loadBalancer: LoadBalancerService,
     private readonly rateLimiting: RateLimitingService,
+    private readonly authentication: AuthenticationService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly trafficSplit: TrafficSplitService,
+    private readonly circuitBreaker: CircuitBreakerService,
+    private readonly transformService: TransformService,
   ) {}
 
   // Dynamic route handler - handles all proxied requests
@@ -27,63 +37,155 @@ export class RoutingController {
     const startTime = Date.now();
     req['startTime'] = startTime;
 
+    // Once forwarded, the proxy hooks release the instance and report the probe; until then both are ours
+    let serviceInstance: ServiceInstance | null = null;
+    let probeRoute: RouteConfig | null = null;
+    let forwarded = false;
+
     try {
       // Find matching route
-      const route = this.routingService.findMatchingRoute(req.path, req.method);
+      const match = this.routingService.matchRequest(req);
       
-      if (!route) {
-        return res.status(404).json({
+      if (!match) {
+        res.status(404).json({
           error: 'Route not found',
           path: req.path,
           method: req.method,
           timestamp: new Date().toISOString(),
         });
+        return;
+      }
+
+      const { route, params } = match;
+      req['routeParams'] = params;
+
+      // Verify bearer token and enforce route roles/scopes
+      const authResult = await this.authentication.authenticate(req, route.auth);
+
+      if (!authResult.allowed) {
+        if (authResult.status === 401) {
+          res.setHeader('WWW-Authenticate', 'Bearer realm="nexus-gateway"');
+        }
+        res.status(authResult.status!).json({
+          error: authResult.error,
+          message: authResult.message,
+          route: route.id,
+          timestamp: new Date().toISOString(),
+        });
+        return;
       }
 
-      // Apply rate limiting
-      const rateLimitResult = await this.rateLimiting.checkRateLimit(
-        req.ip,
-        route.id,
-        route.rateLimit,
-      );
+      req['user'] = authResult.principal;
+
+      // Apply the route's rate-limit policy and quotas
+      const rateLimit = await this.rateLimiting.checkPolicy(req, route.id, route.rateLimit, params);
+      Object.entries(this.rateLimiting.getHeaders(rateLimit)).forEach(([name, value]) => res.setHeader(name, value));
 
-      if (!rateLimitResult.allowed) {
-        return res.status(429).json({
+      if (!rateLimit.allowed) {
+        res.setHeader('Retry-After', rateLimit.retryAfter || 1);
+        res.status(429).json({
           error: 'Rate limit exceeded',
-          retryAfter: rateLimitResult.retryAfter,
-          limit: route.rateLimit.max,
-          windowMs: route.rateLimit.windowMs,
+          retryAfter: rateLimit.retryAfter,
+          limit: rateLimit.limit,
+          quota: rateLimit.exceeded,
+          windowMs: rateLimit.exceeded === 'burst' ? rateLimit.windowMs : undefined,
+          resetTime: rateLimit.resetTime,
+        });
+        return;
+      }
+
+      // Reject malformed bodies before they reach the backend
+      const validation = this.transformService.validateRequestBody(route.transform, req.body);
+
+      if (!validation.valid) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Request body failed validation',
+          errors: validation.errors,
+          route: route.id,
+          timestamp: new Date().toISOString(),
         });
+        return;
+      }
+
+      if (route.transform.request?.body && req.body !== undefined) {
+        req.body = this.transformService.transformBody(
+          req.body,
+          route.transform.request.body,
+          this.transformService.buildContext(req),
+        );
       }
 
-      // Get healthy service instance
-      const serviceInstance = await this.loadBalancer.getHealthyInstance(route.service);
+      // Choose the route version (canary/weighted split) for this client
+      const selection = this.trafficSplit.selectVersion(req, res, route);
+      req['versionSelection'] = selection;
+
+      // Serve from the response cache when possible
+      if (this.responseCache.isCacheable(req, route)) {
+        const cached = await this.responseCache.lookup(req, route);
+        if (cached) {
+          return this.responseCache.serve(req, res, cached);
+        }
+      }
+
+      // Short-circuit while the route's breaker is open
+      const circuit = await this.circuitBreaker.acquire(route);
+
+      if (!circuit.allowed) {
+        const fallback = this.circuitBreaker.getPolicy(route).fallback;
+
+        if (fallback) {
+          res.setHeader('x-gateway-fallback', 'circuit-open');
+          Object.entries(fallback.headers || {}).forEach(([name, value]) => res.setHeader(name, value));
+          res.status(fallback.status || 200).json(fallback.body ?? null);
+          return;
+        }
+
+        if (circuit.nextAttempt) {
+          res.setHeader('Retry-After', Math.max(1, Math.ceil((circuit.nextAttempt.getTime() - Date.now()) / 1000)));
+        }
+        res.status(503).json({
+          error: 'Circuit Breaker Open',
+          message: 'Service is temporarily unavailable',
+          route: route.id,
+          state: circuit.state,
+          nextAttempt: circuit.nextAttempt,
+        });
+        return;
+      }
+
+      req['circuitProbe'] = circuit.probe;
+      if (circuit.probe) {
+        probeRoute = route;
+      }
+
+      // Get healthy service instance, of the selected version when the route is split
+      serviceInstance = await this.routingService.selectInstance(route, req);
       
       if (!serviceInstance) {
-        return res.status(503).json({
+        res.status(503).json({
           error: 'Service unavailable',
-          service: route.service,
+          service: selection.service,
+          version: selection.version,
           message: 'No healthy instances available',
         });
-      }
-
-      // Update route target if needed
-      if (route.target !== serviceInstance.url) {
-        await this.routingService.updateRouteTarget(route.id, serviceInstance.url);
+        return;
       }
 
       // Get proxy middleware
       const proxy = this.routingService.getProxy(route.id);
       
       if (!proxy) {
-        return res.status(500).json({
+        res.status(500).json({
           error: 'Internal server error',
           message: 'Proxy not configured',
         });
+        return;
       }
 
-      // Execute proxy
-      proxy(req, res, next);
+      // Execute proxy against the selected instance (retries pick their own)
+      this.routingService.forward(route, serviceInstance, req, res, next);
+      forwarded = true;
 
     } catch (error) {
       console.error('Gateway routing error:', error);
@@ -95,69 +197,13 @@ export class RoutingController {
           timestamp: new Date().toISOString(),
         });
       }
+    } finally {
+      if (serviceInstance && !forwarded) {
+        this.loadBalancer.releaseConnection(serviceInstance.service, serviceInstance.id);
+      }
+      if (probeRoute && !forwarded) {
+        await this.circuitBreaker.releaseProbe(probeRoute);
+      }
     }
   }
-
-  // Admin endpoints for route management
-  @Get('/_gateway/routes')
-  @ApiOperation({ summary: 'Get all registered routes' })
-  @ApiResponse({ status: 200, description: 'Routes retrieved successfully' })
-  async getRoutes(): Promise<RouteConfig[]> {
-    return this.routingService.getAllRoutes();
-  }
-
-  @Get('/_gateway/routes/:routeId')
-  @ApiOperation({ summary: 'Get specific route configuration' })
-  async getRoute(@Param('routeId') routeId: string): Promise<RouteConfig> {
-    const route = this.routingService.getRoute(routeId);
-    if (!route) {
-      throw new Error(`Route ${routeId} not found`);
-    }
-    return route;
-  }
-
-  @Get('/_gateway/health')
-  @ApiOperation({ summary: 'Get gateway and routes health status' })
-  async getHealth(): Promise<{
-    gateway: string;
-    routes: { healthy: string[]; unhealthy: string[]; total: number };
-    services: any[];
-  }> {
-    const routeHealth = await this.routingService.healthCheckRoutes();
-    const serviceHealth = await this.loadBalancer.getServicesHealth();
-
-    return {
-      gateway: 'healthy',
-      routes: routeHealth,
-      services: serviceHealth,
-    };
-  }
-
-  @Get('/_gateway/metrics')
-  @ApiOperation({ summary: 'Get routing metrics' })
-  async getMetrics(): Promise<{
-    routes: any[];
-    loadBalancer: any;
-    rateLimiting: any;
-  }> {
-    const routeMetrics = await this.routingService.getRouteMetrics();
-    const lbMetrics = await this.loadBalancer.getMetrics();
-    const rlMetrics = await this.rateLimiting.getMetrics();
-
-    return {
-      routes: routeMetrics,
-      loadBalancer: lbMetrics,
-      rateLimiting: rlMetrics,
-    };
-  }
-
-  @Post('/_gateway/routes/:routeId/target')
-  @ApiOperation({ summary: 'Update route target' })
-  async updateRouteTarget(
-    @Param('routeId') routeId: string,
-    @Body() body: { target: string },
-  ): Promise<{ message: string }> {
-    await this.routingService.updateRouteTarget(routeId, body.target);
-    return { message: `Route ${routeId} target updated to ${body.target}` };
-  }
 }
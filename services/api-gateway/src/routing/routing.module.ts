@@ -1,18 +1,31 @@
 import { Module } from '@nestjs/common';
 import { RoutingService } from './routing.service';
 import { RoutingController } from './routing.controller';
+import { GatewayAdminController } from './gateway-admin.controller';
+import { RouteConfigLoader } from './route-config.loader';
+import { RetryService } from './retry.service';
+import { TrafficSplitService } from './traffic-split.service';
 import { LoadBalancerModule } from '../load-balancer/load-balancer.module';
 import { ServiceDiscoveryModule } from '../service-discovery/service-discovery.module';
 import { RateLimitingModule } from '../rate-limiting/rate-limiting.module';
+import { AuthenticationModule } from '../authentication/authentication.module';
+import { ResponseCacheModule } from '../cache/response-cache.module';
+import { CircuitBreakerModule } from '../circuit-breaker/circuit-breaker.module';
+import { TransformModule } from '../transform/transform.module';
 
 @Module({
   imports: [
     LoadBalancerModule,
     ServiceDiscoveryModule,
     RateLimitingModule,
+    AuthenticationModule,
+    ResponseCacheModule,
+    CircuitBreakerModule,
+    TransformModule,
   ],
-  controllers: [RoutingController],
-  providers: [RoutingService],
+  // Admin routes first: Nest registers routes in controller order and the catch-all would shadow them
+  controllers: [GatewayAdminController, RoutingController],
+  providers: [RoutingService, RouteConfigLoader, RetryService, TrafficSplitService],
   exports: [RoutingService],
 })
 export class RoutingModule {}
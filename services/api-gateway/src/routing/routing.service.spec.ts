@@ -0,0 +1,235 @@
+import express from 'express';
+import request from 'supertest';
+import { createServer, Server, IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { JwtService } from '@nestjs/jwt';
+import { RoutingService, RouteConfig } from './routing.service';
+import { AuthenticationService, AuthenticatedPrincipal, IDENTITY_HEADERS } from '../authentication/authentication.service';
+import { ServiceInstance } from '../load-balancer/load-balancer.service';
+import { TransformService } from '../transform/transform.service';
+import { ResponseCacheService } from '../cache/response-cache.service';
+import { RetryService } from './retry.service';
+import { TrafficSplitService } from './traffic-split.service';
+import { CircuitBreakerService } from '../circuit-breaker/circuit-breaker.service';
+
+describe('RoutingService', () => {
+  let upstream: Server;
+  let upstreamUrl: string;
+  let upstreamStatuses: number[];
+  let receivedHeaders: IncomingHttpHeaders[];
+
+  let loadBalancer: Record<string, jest.Mock>;
+  let trafficSplit: TrafficSplitService;
+  let circuitBreaker: CircuitBreakerService;
+  let responseCache: ResponseCacheService;
+  let service: RoutingService;
+
+  const instance = (id = 'users-1', url = upstreamUrl): ServiceInstance => ({
+    id,
+    service: 'users',
+    url,
+  } as ServiceInstance);
+
+  const route = (overrides: Partial<RouteConfig> = {}): RouteConfig => ({
+    id: 'users',
+    path: '/api/users',
+    method: 'GET',
+    target: upstreamUrl,
+    service: 'users',
+    version: 'v1',
+    timeout: 5000,
+    retries: 0,
+    loadBalancing: { strategy: 'round-robin' },
+    circuitBreaker: true,
+    rateLimit: {} as RouteConfig['rateLimit'],
+    auth: { required: false },
+    cache: { enabled: false, ttl: 0 },
+    transform: {},
+    ...overrides,
+  });
+
+  const gateway = (config: RouteConfig, principal?: AuthenticatedPrincipal, first = instance()) => {
+    service.registerRoute(config);
+
+    const app = express();
+    app.use((req, res, next) => {
+      req['startTime'] = Date.now();
+      req['user'] = principal;
+      service.forward(config, first, req, res, next);
+    });
+    return app;
+  };
+
+  beforeAll(async () => {
+    upstream = createServer((req, res) => {
+      receivedHeaders.push(req.headers);
+      res.writeHead(upstreamStatuses.shift() ?? 200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ ok: true }));
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => upstream.close(resolve));
+  });
+
+  beforeEach(() => {
+    process.env.GATEWAY_IDENTITY_SIGNING_SECRET = 'test-identity-secret';
+    upstreamStatuses = [];
+    receivedHeaders = [];
+
+    loadBalancer = {
+      recordOutcome: jest.fn(),
+      releaseConnection: jest.fn(),
+      getHealthyInstance: jest.fn(async () => instance('users-2')),
+    };
+    trafficSplit = new TrafficSplitService();
+    // Never connected to Redis, so breaker state stays in memory
+    circuitBreaker = new CircuitBreakerService();
+    // Never connected to Redis, so entries stay in memory
+    responseCache = new ResponseCacheService();
+    service = new RoutingService(
+      loadBalancer as any,
+      {} as any,
+      new AuthenticationService(new JwtService()),
+      responseCache,
+      {} as any,
+      new RetryService(),
+      trafficSplit,
+      circuitBreaker,
+      new TransformService(),
+    );
+  });
+
+  describe('identity headers', () => {
+    it('strips identity headers sent by an anonymous client', async () => {
+      await request(gateway(route()))
+        .get('/api/users')
+        .set(IDENTITY_HEADERS.subject, 'admin')
+        .set(IDENTITY_HEADERS.roles, 'admin')
+        .set(IDENTITY_HEADERS.signature, 'forged')
+        .expect(200, { ok: true });
+
+      expect(receivedHeaders).toHaveLength(1);
+      Object.values(IDENTITY_HEADERS).forEach((header) => {
+        expect(receivedHeaders[0][header]).toBeUndefined();
+      });
+      expect(receivedHeaders[0]['x-gateway-route']).toBe('users');
+    });
+
+    it('replaces spoofed identity headers with signed values for the principal', async () => {
+      const principal: AuthenticatedPrincipal = {
+        subject: 'user-42',
+        tenantId: 'tenant-1',
+        roles: ['member'],
+        scopes: ['read'],
+        claims: {},
+      };
+
+      await request(gateway(route(), principal))
+        .get('/api/users')
+        .set(IDENTITY_HEADERS.subject, 'admin')
+        .set(IDENTITY_HEADERS.roles, 'admin')
+        .set(IDENTITY_HEADERS.signature, 'forged')
+        .expect(200);
+
+      const headers = receivedHeaders[0];
+      expect(headers[IDENTITY_HEADERS.subject]).toBe('user-42');
+      expect(headers[IDENTITY_HEADERS.roles]).toBe('member');
+
+      const expected = new AuthenticationService(new JwtService()).signIdentity(
+        'user-42',
+        'tenant-1',
+        'member',
+        'read',
+        headers[IDENTITY_HEADERS.timestamp] as string,
+      );
+      expect(headers[IDENTITY_HEADERS.signature]).toBe(expected);
+    });
+  });
+
+  describe('response hooks', () => {
+    it('captures cacheable responses for later lookups', async () => {
+      const config = route({ cache: { enabled: true, ttl: 60 } });
+      const captureResponse = jest.spyOn(responseCache, 'captureResponse');
+
+      await request(gateway(config)).get('/api/users').expect(200, { ok: true });
+
+      expect(captureResponse).toHaveBeenCalledTimes(1);
+      const lookup = { method: 'GET', path: '/api/users', query: {}, headers: {} } as any;
+      expect(await responseCache.lookup(lookup, config)).not.toBeNull();
+    });
+
+    it('retries a retryable upstream status on another instance', async () => {
+      upstreamStatuses = [503, 200];
+      const config = route({ retries: 1, retryPolicy: { baseDelayMs: 0 } });
+
+      const response = await request(gateway(config)).get('/api/users').expect(200, { ok: true });
+
+      expect(receivedHeaders).toHaveLength(2);
+      expect(response.headers['x-gateway-attempts']).toBe('2');
+      expect(loadBalancer.getHealthyInstance).toHaveBeenCalledTimes(1);
+      expect(loadBalancer.releaseConnection.mock.calls).toEqual([['users', 'users-1'], ['users', 'users-2']]);
+    });
+
+    it('retries after a connection error', async () => {
+      const config = route({ retries: 1, retryPolicy: { baseDelayMs: 0 } });
+      const unreachable = instance('users-1', 'http://127.0.0.1:1');
+
+      const response = await request(gateway(config, undefined, unreachable)).get('/api/users').expect(200);
+
+      expect(receivedHeaders).toHaveLength(1);
+      expect(response.headers['x-gateway-attempts']).toBe('2');
+    });
+
+    it('returns the upstream failure once retries are exhausted', async () => {
+      upstreamStatuses = [503, 503];
+      const config = route({ retries: 1, retryPolicy: { baseDelayMs: 0 } });
+
+      await request(gateway(config)).get('/api/users').expect(503);
+
+      expect(receivedHeaders).toHaveLength(2);
+    });
+
+    it('records each completed request against the selected version', async () => {
+      upstreamStatuses = [200, 500];
+      const config = route({
+        trafficSplit: { versions: [{ version: 'v1', weight: 50 }, { version: 'v2', weight: 50 }] },
+      });
+      const app = gateway(config);
+
+      await request(app).get('/api/users').expect(200);
+      await request(app).get('/api/users').expect(500);
+
+      const metrics = trafficSplit.getMetrics([config]);
+      expect(metrics.find((entry) => entry.version === 'v1')).toMatchObject({ requests: 2, errors: 1 });
+    });
+
+    it('opens the route circuit once upstream failures cross the threshold', async () => {
+      upstreamStatuses = [500, 500, 500];
+      const config = route({ circuitBreakerPolicy: { minimumRequests: 3, failureRatio: 0.5 } });
+      const app = gateway(config);
+
+      for (let i = 0; i < 3; i++) {
+        await request(app).get('/api/users').expect(500);
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await circuitBreaker.getStatus(config)).toMatchObject({ state: 'open', requests: 3, failures: 3 });
+      expect((await circuitBreaker.acquire(config)).allowed).toBe(false);
+    });
+
+    it('feeds outlier detection with the outcome of every attempt', async () => {
+      upstreamStatuses = [503, 200];
+      const config = route({ retries: 1, retryPolicy: { baseDelayMs: 0 } });
+
+      await request(gateway(config)).get('/api/users').expect(200);
+
+      expect(loadBalancer.recordOutcome.mock.calls.map(([service, id, status]) => [service, id, status])).toEqual([
+        ['users', 'users-1', 503],
+        ['users', 'users-2', 200],
+      ]);
+    });
+  });
+});
@@ -1,23 +1,45 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Request, Response } from 'express';
-import { createProxyMiddleware, Options } from 'http-proxy-middleware';
-import { LoadBalancerService } from '../load-balancer/load-balancer.service';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { IncomingMessage } from 'http';
+import { Socket } from 'net';
+import * as zlib from 'zlib';
+import { createProxyMiddleware, fixRequestBody, Options } from 'http-proxy-middleware';
+import {
+  LoadBalancerService,
+  LoadBalancingStrategyName,
+  ServiceInstance,
+} from '../load-balancer/load-balancer.service';
 import { ServiceDiscoveryService } from '../service-discovery/service-discovery.service';
+import { AuthenticationService } from '../authentication/authentication.service';
+import { ResponseCacheService } from '../cache/response-cache.service';
+import { CircuitBreakerService, CircuitBreakerPolicy } from '../circuit-breaker/circuit-breaker.service';
+import { TransformService, TransformConfig } from '../transform/transform.service';
+import { RateLimitPolicy } from '../rate-limiting/rate-limiting.service';
+import { RouteConfigLoader, RouteTable } from './route-config.loader';
+import { RouteTrie, RouteMatchConditions } from './route-trie';
+import { RetryService, RetryPolicy } from './retry.service';
+import { TrafficSplitService, TrafficSplitConfig, VersionSelection } from './traffic-split.service';
 
 export interface RouteConfig {
   id: string;
   path: string;
   method: string;
+  match?: RouteMatchConditions;
   target: string;
   service: string;
   version: string;
+  trafficSplit?: TrafficSplitConfig;
   timeout: number;
   retries: number;
-  circuitBreaker: boolean;
-  rateLimit: {
-    windowMs: number;
-    max: number;
+  retryPolicy?: RetryPolicy;
+  loadBalancing: {
+    strategy: LoadBalancingStrategyName;
+    // consistent-hash key: this header if present, else the user, else the client IP
+    hashHeader?: string;
   };
+  circuitBreaker: boolean;
+  circuitBreakerPolicy?: CircuitBreakerPolicy;
+  rateLimit: RateLimitPolicy;
   auth: {
     required: boolean;
     roles?: string[];
@@ -26,162 +48,378 @@ export interface RouteConfig {
   cache: {
     enabled: boolean;
     ttl: number;
+    varyHeaders?: string[];
   };
-  transform: {
-    request?: (body: any) => any;
-    response?: (body: any) => any;
-  };
+  transform: TransformConfig;
+}
+
+// Connection-level headers that must not be copied from upstream responses
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+];
+
+export interface RouteMatch {
+  route: RouteConfig;
+  params: Record<string, string>;
 }
 
 @Injectable()
-export class RoutingService {
+export class RoutingService implements OnModuleInit {
   private readonly logger = new Logger(RoutingService.name);
   private routes = new Map<string, RouteConfig>();
   private proxies = new Map<string, any>();
+  private router = new RouteTrie<RouteConfig>();
 
   constructor(
     private readonly loadBalancer: LoadBalancerService,
     private readonly serviceDiscovery: ServiceDiscoveryService,
-  ) {
-    this.initializeRoutes();
-  }
+    private readonly authentication: AuthenticationService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly routeConfigLoader: RouteConfigLoader,
+    private readonly retryService: RetryService,
+    private readonly trafficSplit: TrafficSplitService,
+    private readonly circuitBreaker: CircuitBreakerService,
+    private readonly transformService: TransformService,
+  ) {}
 
-  private initializeRoutes(): void {
-    // Backend service routes
-    this.registerRoute({
-      id: 'backend-auth',
-      path: '/api/auth/*',
-      method: 'ALL',
-      target: 'http://backend:3001',
-      service: 'backend',
-      version: '1.0',
-      timeout: 30000,
-      retries: 3,
-      circuitBreaker: true,
-      rateLimit: { windowMs: 60000, max: 100 },
-      auth: { required: false },
-      cache: { enabled: false, ttl: 0 },
-      transform: {},
-    });
+  async onModuleInit() {
+    // Refuse to start without a valid route table
+    const table = await this.routeConfigLoader.load();
+    this.applyRouteTable(table);
+    this.routeConfigLoader.watch((updated) => this.applyRouteTable(updated));
+  }
 
-    this.registerRoute({
-      id: 'backend-users',
-      path: '/api/users/*',
-      method: 'ALL',
-      target: 'http://backend:3001',
-      service: 'backend',
-      version: '1.0',
-      timeout: 30000,
-      retries: 3,
-      circuitBreaker: true,
-      rateLimit: { windowMs: 60000, max: 200 },
-      auth: { required: true, roles: ['user', 'admin'] },
-      cache: { enabled: true, ttl: 300 },
-      transform: {},
-    });
+  /**
+   * Swaps in a complete route table. New routes and proxies are built aside
+   * and replace the live maps in one step, so requests never see a mix.
+   */
+  applyRouteTable(table: RouteTable): void {
+    const routes = new Map<string, RouteConfig>();
+    const proxies = new Map<string, any>();
 
-    // Analytics service routes
-    this.registerRoute({
-      id: 'analytics-ingest',
-      path: '/api/analytics/ingest/*',
-      method: 'POST',
-      target: 'http://analytics:3003',
-      service: 'analytics',
-      version: '1.0',
-      timeout: 10000,
-      retries: 2,
-      circuitBreaker: true,
-      rateLimit: { windowMs: 60000, max: 1000 },
-      auth: { required: true },
-      cache: { enabled: false, ttl: 0 },
-      transform: {},
-    });
+    for (const config of table.routes) {
+      routes.set(config.id, config);
+      proxies.set(config.id, this.createProxy(config));
+    }
 
-    this.registerRoute({
-      id: 'analytics-dashboard',
-      path: '/api/analytics/dashboard/*',
-      method: 'GET',
-      target: 'http://analytics:3003',
-      service: 'analytics',
-      version: '1.0',
-      timeout: 15000,
-      retries: 3,
-      circuitBreaker: true,
-      rateLimit: { windowMs: 60000, max: 500 },
-      auth: { required: true, roles: ['user', 'admin'] },
-      cache: { enabled: true, ttl: 60 },
-      transform: {},
-    });
+    const router = this.buildRouter(routes.values());
 
-    // Notification service routes
-    this.registerRoute({
-      id: 'notifications-send',
-      path: '/api/notifications/*',
-      method: 'ALL',
-      target: 'http://notification:3004',
-      service: 'notification',
-      version: '1.0',
-      timeout: 30000,
-      retries: 3,
-      circuitBreaker: true,
-      rateLimit: { windowMs: 60000, max: 100 },
-      auth: { required: true },
-      cache: { enabled: false, ttl: 0 },
-      transform: {},
-    });
+    this.routes = routes;
+    this.proxies = proxies;
+    this.router = router;
 
-    this.logger.log(`Initialized ${this.routes.size} routes`);
+    this.logger.log(`Applied route configuration v${table.version}: ${routes.size} routes`);
   }
 
   registerRoute(config: RouteConfig): void {
     this.routes.set(config.id, config);
+    this.proxies.set(config.id, this.createProxy(config));
+    this.router = this.buildRouter(this.routes.values());
     
+    this.logger.debug(`Registered route: ${config.method} ${config.path} -> ${config.target}`);
+  }
+
+  /**
+   * Sends a matched request to the given instance. Later attempts, if the
+   * route allows retries, are driven from the proxy's response/error hooks.
+   */
+  forward(route: RouteConfig, instance: ServiceInstance, req: Request, res: Response, next: NextFunction): void {
+    const proxy = this.proxies.get(route.id);
+
+    req['proxyAttempt'] = 1;
+    req['proxyTarget'] = instance.url;
+    req['gatewayInstance'] = instance;
+    req['triedInstances'] = [instance.id];
+
+    this.retryService.recordRequest(route.id);
+    proxy(req, res, next);
+  }
+
+  private createProxy(config: RouteConfig): any {
+    let proxy: any;
+
     // Create proxy middleware
-    const proxyOptions: Options = {
+    const proxyOptions: Options<Request, Response> = {
       target: config.target,
+      // Each attempt may go to a different instance chosen by the load balancer
+      router: (req: Request) => req['proxyTarget'] || config.target,
       changeOrigin: true,
       timeout: config.timeout,
+      proxyTimeout: config.timeout,
+      // Responses are piped manually so retryable failures never reach the client
+      selfHandleResponse: true,
       pathRewrite: (path: string) => {
         // Remove /api prefix for backend services
         return path.replace(/^\/api/, '');
       },
-      onProxyReq: (proxyReq, req: Request) => {
-        // Add correlation ID
-        const correlationId = req.headers['x-correlation-id'] || this.generateCorrelationId();
-        proxyReq.setHeader('x-correlation-id', correlationId);
+      // http-proxy-middleware v3 only wires event hooks given under `on`
+      on: {
+        proxyReq: (proxyReq, req) => {
+          req['attemptStartedAt'] = Date.now();
+
+          // Add correlation ID
+          const correlationId = req.headers['x-correlation-id'] || this.generateCorrelationId();
+          proxyReq.setHeader('x-correlation-id', correlationId);
         
-        // Add service metadata
-        proxyReq.setHeader('x-gateway-service', config.service);
-        proxyReq.setHeader('x-gateway-version', config.version);
-        proxyReq.setHeader('x-gateway-route', config.id);
+          // Add service metadata
+          proxyReq.setHeader('x-gateway-service', config.service);
+          proxyReq.setHeader('x-gateway-version', config.version);
+          proxyReq.setHeader('x-gateway-route', config.id);
+
+          // Forward verified identity, replacing anything the client sent
+          this.authentication.applyIdentityHeaders(
+            (name, value) => proxyReq.setHeader(name, value),
+            (name) => proxyReq.removeHeader(name),
+            req['user'],
+          );
+
+          this.transformService.applyHeaders(
+            config.transform.request?.headers,
+            (name) => proxyReq.getHeader(name),
+            (name, value) => proxyReq.setHeader(name, value),
+            (name) => proxyReq.removeHeader(name),
+            this.transformService.buildContext(req),
+          );
+
+          // Re-send bodies already consumed by body-parser (required for retries)
+          fixRequestBody(proxyReq, req);
         
-        this.logger.debug(`Proxying ${req.method} ${req.path} to ${config.target}`);
-      },
-      onProxyRes: (proxyRes, req: Request, res: Response) => {
-        // Add response headers
-        res.setHeader('x-gateway-service', config.service);
-        res.setHeader('x-response-time', Date.now() - req['startTime']);
+          this.logger.debug(`Proxying ${req.method} ${req.path} to ${req['proxyTarget'] || config.target} (attempt ${req['proxyAttempt'] || 1})`);
+        },
+        proxyRes: (proxyRes, req, res) => {
+          this.recordInstanceOutcome(req, proxyRes.statusCode || 502);
+
+          if (this.retryService.shouldRetry(req, res, config, { status: proxyRes.statusCode })) {
+            this.logger.warn(`Retrying ${req.method} ${req.path} after ${proxyRes.statusCode} from ${config.service}`);
+            proxyRes.resume();
+            return this.retryRequest(proxy, config, req, res);
+          }
+
+          this.releaseInstance(req);
+          this.recordOutcome(config, req, proxyRes.statusCode || 502);
+
+          // Add response headers
+          res.setHeader('x-gateway-service', config.service);
+          res.setHeader('x-gateway-route-version', this.getSelection(config, req).version);
+          res.setHeader('x-gateway-attempts', req['proxyAttempt'] || 1);
+          res.setHeader('x-response-time', Date.now() - req['startTime']);
+
+          this.logger.debug(`Response from ${config.service}: ${proxyRes.statusCode}`);
+
+          if (config.transform.response?.body) {
+            return this.sendTransformedResponse(config, proxyRes, req, res);
+          }
+
+          if (this.responseCache.isCacheable(req, config)) {
+            this.responseCache.captureResponse(req, res, proxyRes, config);
+          }
+
+          this.pipeResponse(config, proxyRes, req, res);
+        },
+        error: (err, req, res) => {
+          this.recordInstanceOutcome(req, 502);
+
+          // Upgraded connections hand over the raw socket: nothing to retry or answer on
+          if (res instanceof Socket) {
+            this.releaseInstance(req);
+            this.recordOutcome(config, req, 502);
+            this.logger.error(`Proxy error for ${config.service}:`, err.message);
+            res.destroy();
+            return;
+          }
+
+          if (this.retryService.shouldRetry(req, res, config, { error: err })) {
+            this.logger.warn(`Retrying ${req.method} ${req.path} after proxy error: ${err.message}`);
+            return this.retryRequest(proxy, config, req, res);
+          }
+
+          this.releaseInstance(req);
+          this.recordOutcome(config, req, 502);
+          this.logger.error(`Proxy error for ${config.service}:`, err.message);
         
-        this.logger.debug(`Response from ${config.service}: ${proxyRes.statusCode}`);
+          if (!res.headersSent) {
+            res.status(502).json({
+              error: 'Bad Gateway',
+              message: 'Service temporarily unavailable',
+              service: config.service,
+              attempts: req['proxyAttempt'] || 1,
+              timestamp: new Date().toISOString(),
+            });
+          }
+        },
       },
-      onError: (err, req: Request, res: Response) => {
-        this.logger.error(`Proxy error for ${config.service}:`, err.message);
-        
+    };
+
+    proxy = createProxyMiddleware(proxyOptions);
+    return proxy;
+  }
+
+  private async retryRequest(proxy: any, config: RouteConfig, req: Request, res: Response): Promise<void> {
+    const attempt: number = req['proxyAttempt'] || 1;
+    const delay = this.retryService.getBackoffDelay(attempt, config.retryPolicy);
+
+    this.releaseInstance(req);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+
+    if (res.headersSent || req.socket?.destroyed) {
+      return;
+    }
+
+    // Prefer an instance of the same version not yet tried; fall back to any healthy one
+    const tried: string[] = req['triedInstances'] || [];
+    const instance = (await this.selectInstance(config, req, tried)) || (await this.selectInstance(config, req));
+
+    if (instance) {
+      req['proxyTarget'] = instance.url;
+      req['gatewayInstance'] = instance;
+      tried.push(instance.id);
+    }
+
+    req['proxyAttempt'] = attempt + 1;
+    proxy(req, res, () => undefined);
+  }
+
+  /**
+   * Picks an instance for the route's selected version using the route's
+   * load-balancing strategy.
+   */
+  async selectInstance(config: RouteConfig, req: Request, excludeIds: string[] = []): Promise<ServiceInstance | null> {
+    const selection = this.getSelection(config, req);
+    const version = selection.reason === 'default' ? undefined : selection.version;
+    const { strategy, hashHeader } = config.loadBalancing;
+
+    const hashKey = strategy === 'consistent-hash'
+      ? (hashHeader && (req.headers[hashHeader.toLowerCase()] as string)) || req['user']?.subject || req.ip
+      : undefined;
+
+    return this.loadBalancer.getHealthyInstance(selection.service, strategy, excludeIds, version, hashKey);
+  }
+
+  // Feeds passive outlier detection with the result of each individual attempt
+  private recordInstanceOutcome(req: Request, status: number): void {
+    const instance: ServiceInstance | undefined = req['gatewayInstance'];
+    if (instance) {
+      const latency = Date.now() - (req['attemptStartedAt'] || req['startTime'] || Date.now());
+      this.loadBalancer.recordOutcome(instance.service, instance.id, status, latency);
+    }
+  }
+
+  private releaseInstance(req: Request): void {
+    const instance: ServiceInstance | undefined = req['gatewayInstance'];
+    if (instance) {
+      this.loadBalancer.releaseConnection(instance.service, instance.id);
+      req['gatewayInstance'] = undefined;
+    }
+  }
+
+  private getSelection(config: RouteConfig, req: Request): VersionSelection {
+    return req['versionSelection'] || { version: config.version, service: config.service, reason: 'default' };
+  }
+
+  private recordOutcome(config: RouteConfig, req: Request, status: number): void {
+    const latency = Date.now() - (req['startTime'] || Date.now());
+    this.trafficSplit.recordOutcome(config.id, this.getSelection(config, req).version, status, latency);
+    this.circuitBreaker.record(config, status < 500, !!req['circuitProbe']);
+  }
+
+  private pipeResponse(config: RouteConfig, proxyRes: IncomingMessage, req: Request, res: Response): void {
+    this.writeHead(config, proxyRes, req, res);
+    proxyRes.pipe(res);
+  }
+
+  /**
+   * Buffers a JSON upstream response, reshapes it according to the route's
+   * response body transform and sends the result. Non-JSON responses are
+   * passed through untouched.
+   */
+  private sendTransformedResponse(config: RouteConfig, proxyRes: IncomingMessage, req: Request, res: Response): void {
+    const contentType = proxyRes.headers['content-type'] || '';
+    if (!/[/+]json\b/i.test(contentType)) {
+      this.pipeResponse(config, proxyRes, req, res);
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    proxyRes.on('data', (chunk: Buffer) => chunks.push(chunk));
+    proxyRes.on('error', (error) => {
+      this.logger.error(`Failed to read response from ${config.service}:`, error.message);
+      res.destroy(error);
+    });
+
+    proxyRes.on('end', () => {
+      let body: Buffer;
+      try {
+        const raw = this.decompress(Buffer.concat(chunks), proxyRes.headers['content-encoding']);
+        const transformed = this.transformService.transformBody(
+          raw.length > 0 ? JSON.parse(raw.toString('utf8')) : null,
+          config.transform.response!.body,
+          this.transformService.buildContext(req),
+        );
+        body = Buffer.from(JSON.stringify(transformed ?? null));
+      } catch (error) {
+        this.logger.error(`Response transform failed for route ${config.id}:`, error.message);
         if (!res.headersSent) {
           res.status(502).json({
             error: 'Bad Gateway',
-            message: 'Service temporarily unavailable',
+            message: 'Upstream response could not be transformed',
             service: config.service,
             timestamp: new Date().toISOString(),
           });
         }
-      },
-    };
+        return;
+      }
 
-    const proxy = createProxyMiddleware(proxyOptions);
-    this.proxies.set(config.id, proxy);
-    
-    this.logger.debug(`Registered route: ${config.method} ${config.path} -> ${config.target}`);
+      this.writeHead(config, proxyRes, req, res);
+      res.removeHeader('content-encoding');
+      res.removeHeader('etag');
+      res.setHeader('content-length', body.length);
+
+      if (this.responseCache.isCacheable(req, config)) {
+        this.responseCache.storeResponse(req, res, proxyRes, config, res.statusCode, res.getHeaders(), body);
+      }
+
+      res.end(body);
+    });
+  }
+
+  private writeHead(config: RouteConfig, proxyRes: IncomingMessage, req: Request, res: Response): void {
+    const transform = config.transform.response;
+    res.status(this.transformService.mapStatus(transform, proxyRes.statusCode || 502));
+
+    Object.entries(proxyRes.headers).forEach(([name, value]) => {
+      if (value !== undefined && !HOP_BY_HOP_HEADERS.includes(name)) {
+        res.setHeader(name, value);
+      }
+    });
+
+    this.transformService.applyHeaders(
+      transform?.headers,
+      (name) => res.getHeader(name),
+      (name, value) => res.setHeader(name, value),
+      (name) => res.removeHeader(name),
+      this.transformService.buildContext(req),
+    );
+  }
+
+  private decompress(body: Buffer, encoding?: string): Buffer {
+    switch ((encoding || '').toLowerCase()) {
+      case 'gzip':
+      case 'x-gzip':
+        return zlib.gunzipSync(body);
+      case 'deflate':
+        return zlib.inflateSync(body);
+      case 'br':
+        return zlib.brotliDecompressSync(body);
+      default:
+        return body;
+    }
   }
 
   getRoute(routeId: string): RouteConfig | undefined {
@@ -193,12 +431,16 @@ export class RoutingService {
   }
 
   findMatchingRoute(path: string, method: string): RouteConfig | undefined {
-    for (const route of this.routes.values()) {
-      if (this.matchesRoute(path, method, route)) {
-        return route;
-      }
-    }
-    return undefined;
+    return this.router.match({ path, method })?.route;
+  }
+
+  matchRequest(req: Request): RouteMatch | undefined {
+    return this.router.match({
+      path: req.path,
+      method: req.method,
+      host: req.hostname || req.headers.host,
+      headers: req.headers,
+    });
   }
 
   getProxy(routeId: string): any {
@@ -250,18 +492,12 @@ export class RoutingService {
     };
   }
 
-  private matchesRoute(path: string, method: string, route: RouteConfig): boolean {
-    // Convert route path pattern to regex
-    const routePattern = route.path
-      .replace(/\*/g, '.*')
-      .replace(/\//g, '\\/');
-    
-    const regex = new RegExp(`^${routePattern}$`);
-    
-    const pathMatches = regex.test(path);
-    const methodMatches = route.method === 'ALL' || route.method === method.toUpperCase();
-    
-    return pathMatches && methodMatches;
+  private buildRouter(routes: Iterable<RouteConfig>): RouteTrie<RouteConfig> {
+    const router = new RouteTrie<RouteConfig>();
+    for (const route of routes) {
+      router.insert(route);
+    }
+    return router;
   }
 
   private generateCorrelationId(): string {
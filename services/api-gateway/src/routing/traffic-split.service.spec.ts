@@ -0,0 +1,75 @@
+import { BadRequestException } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { TrafficSplitService, SplittableRoute } from './traffic-split.service';
+
+describe('TrafficSplitService', () => {
+  let service: TrafficSplitService;
+
+  const route: SplittableRoute = {
+    id: 'checkout',
+    service: 'payment',
+    version: 'v1',
+    trafficSplit: {
+      versions: [
+        { version: 'v1', weight: 100 },
+        { version: 'v2', weight: 0 },
+      ],
+    },
+  };
+
+  const request = (headers: Record<string, string>, roles?: string[]): Request =>
+    ({
+      headers: { cookie: 'nexus_split=client-1', ...headers },
+      user: roles ? { subject: 'user-1', roles, scopes: [], claims: {} } : undefined,
+    } as unknown as Request);
+
+  const response = { append: jest.fn() } as unknown as Response;
+
+  beforeEach(() => {
+    service = new TrafficSplitService();
+  });
+
+  describe('selectVersion', () => {
+    it('pins the requested version for callers with an override role', () => {
+      const selection = service.selectVersion(request({ 'x-version-override': 'v2' }, ['admin']), response, route);
+
+      expect(selection).toMatchObject({ version: 'v2', reason: 'override' });
+    });
+
+    it('ignores the override header from anonymous and unprivileged callers', () => {
+      expect(service.selectVersion(request({ 'x-version-override': 'v2' }), response, route).version).toBe('v1');
+      expect(service.selectVersion(request({ 'x-version-override': 'v2' }, ['user']), response, route).version).toBe('v1');
+    });
+
+    it('does not treat the gateway version header as an override', () => {
+      const selection = service.selectVersion(request({ 'x-gateway-version': 'v2' }, ['admin']), response, route);
+
+      expect(selection.version).toBe('v1');
+    });
+
+    it('issues a new sticky cookie when the existing one is malformed', () => {
+      const append = jest.fn();
+
+      const selection = service.selectVersion(
+        request({ cookie: 'nexus_split=%E0%A4%A' }),
+        { append } as unknown as Response,
+        route,
+      );
+
+      expect(selection.reason).toBe('weighted');
+      expect(append).toHaveBeenCalledWith('Set-Cookie', expect.stringContaining('nexus_split='));
+    });
+  });
+
+  describe('setWeights', () => {
+    it('rejects a missing or malformed weights body with a bad request', () => {
+      expect(() => service.setWeights(route, undefined as any)).toThrow(BadRequestException);
+      expect(() => service.setWeights(route, { v2: '50' } as any)).toThrow(BadRequestException);
+      expect(() => service.setWeights(route, { v3: 50 })).toThrow(BadRequestException);
+    });
+
+    it('overrides the configured weights', () => {
+      expect(service.setWeights(route, { v1: 90, v2: 10 }).map((entry) => entry.weight)).toEqual([90, 10]);
+    });
+  });
+});
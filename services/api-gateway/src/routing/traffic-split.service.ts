@@ -0,0 +1,272 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { createHash, randomUUID } from 'crypto';
+
+export interface TrafficSplitVersion {
+  version: string;
+  weight: number;
+  service?: string;
+}
+
+export interface TrafficSplitConfig {
+  versions: TrafficSplitVersion[];
+  stickyCookie?: string;
+  overrideHeader?: string;
+  // Roles allowed to pin a version with the override header
+  overrideRoles?: string[];
+}
+
+export interface SplittableRoute {
+  id: string;
+  service: string;
+  version: string;
+  trafficSplit?: TrafficSplitConfig;
+}
+
+export interface VersionSelection {
+  version: string;
+  service: string;
+  reason: 'default' | 'override' | 'sticky' | 'weighted';
+}
+
+export interface VersionMetrics {
+  routeId: string;
+  version: string;
+  weight: number;
+  requests: number;
+  errors: number;
+  errorRate: number;
+  avgLatency: number;
+  p50Latency: number;
+  p95Latency: number;
+  p99Latency: number;
+}
+
+interface VersionStats {
+  requests: number;
+  errors: number;
+  latencies: number[];
+}
+
+@Injectable()
+export class TrafficSplitService {
+  private readonly logger = new Logger(TrafficSplitService.name);
+  private readonly DEFAULT_STICKY_COOKIE = 'nexus_split';
+  // Deliberately not an x-gateway-* header: those are set by the gateway itself
+  private readonly DEFAULT_OVERRIDE_HEADER = 'x-version-override';
+  private readonly DEFAULT_OVERRIDE_ROLES = ['admin'];
+  private readonly LATENCY_SAMPLE_SIZE = 1000;
+
+  // Weights set through the admin API take precedence over the route file
+  private weightOverrides = new Map<string, TrafficSplitVersion[]>();
+  private stats = new Map<string, VersionStats>();
+
+  selectVersion(req: Request, res: Response, route: SplittableRoute): VersionSelection {
+    const versions = this.getVersions(route);
+
+    if (versions.length === 0) {
+      return { version: route.version, service: route.service, reason: 'default' };
+    }
+
+    const toSelection = (entry: TrafficSplitVersion, reason: VersionSelection['reason']): VersionSelection => ({
+      version: entry.version,
+      service: entry.service || route.service,
+      reason,
+    });
+
+    // Authenticated testers can pin a version explicitly
+    const overrideHeader = route.trafficSplit?.overrideHeader || this.DEFAULT_OVERRIDE_HEADER;
+    const requested = req.headers[overrideHeader.toLowerCase()] as string | undefined;
+    const pinned = requested && versions.find((entry) => entry.version === requested);
+    if (pinned && this.canOverride(req, route)) {
+      return toSelection(pinned, 'override');
+    }
+
+    // Bucket by user, or by a cookie we issue, so a client keeps seeing the same version
+    const cookieName = route.trafficSplit?.stickyCookie || this.DEFAULT_STICKY_COOKIE;
+    let stickyKey: string | undefined = req['user']?.subject || this.readCookie(req, cookieName);
+    let reason: VersionSelection['reason'] = 'sticky';
+
+    if (!stickyKey) {
+      stickyKey = randomUUID();
+      reason = 'weighted';
+      res.append('Set-Cookie', `${cookieName}=${stickyKey}; Path=/; HttpOnly; SameSite=Lax; Max-Age=2592000`);
+    }
+
+    return toSelection(this.pickByBucket(route.id, stickyKey, versions), reason);
+  }
+
+  getVersions(route: SplittableRoute): TrafficSplitVersion[] {
+    return this.weightOverrides.get(route.id) || route.trafficSplit?.versions || [];
+  }
+
+  setWeights(route: SplittableRoute, weights: Record<string, number>): TrafficSplitVersion[] {
+    const current = this.getVersions(route);
+    if (current.length === 0) {
+      throw new BadRequestException(`Route ${route.id} has no traffic split configured`);
+    }
+
+    if (!weights || typeof weights !== 'object' || Array.isArray(weights)) {
+      throw new BadRequestException('weights must be an object of version to weight');
+    }
+
+    for (const [version, weight] of Object.entries(weights)) {
+      if (!current.some((entry) => entry.version === version)) {
+        throw new BadRequestException(`Route ${route.id} has no version ${version}`);
+      }
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > 100) {
+        throw new BadRequestException(`Weight for version ${version} must be a number between 0 and 100`);
+      }
+    }
+
+    const updated = current.map((entry) => ({
+      ...entry,
+      weight: weights[entry.version] ?? entry.weight,
+    }));
+
+    if (updated.reduce((sum, entry) => sum + entry.weight, 0) <= 0) {
+      throw new BadRequestException('At least one version must receive traffic');
+    }
+
+    this.weightOverrides.set(route.id, updated);
+    this.logger.log(
+      `Traffic split for ${route.id}: ${updated.map((entry) => `${entry.version}=${entry.weight}`).join(', ')}`,
+    );
+
+    return updated;
+  }
+
+  /**
+   * Moves `step` percentage points to the given version, taking them from the
+   * other versions in proportion to their current weight.
+   */
+  shiftWeight(route: SplittableRoute, version: string, step: number): TrafficSplitVersion[] {
+    if (typeof step !== 'number' || !Number.isFinite(step)) {
+      throw new BadRequestException('step must be a number');
+    }
+
+    const current = this.normalize(this.getVersions(route));
+    const target = current.find((entry) => entry.version === version);
+    if (!target) {
+      throw new BadRequestException(`Route ${route.id} has no version ${version}`);
+    }
+
+    const others = current.filter((entry) => entry.version !== version);
+    const othersTotal = others.reduce((sum, entry) => sum + entry.weight, 0);
+    const moved = Math.max(-target.weight, Math.min(step, othersTotal));
+
+    const weights: Record<string, number> = { [version]: target.weight + moved };
+    others.forEach((entry) => {
+      const share = othersTotal > 0 ? entry.weight / othersTotal : 0;
+      weights[entry.version] = Math.max(0, entry.weight - moved * share);
+    });
+
+    return this.setWeights(route, weights);
+  }
+
+  resetWeights(routeId: string): void {
+    this.weightOverrides.delete(routeId);
+  }
+
+  recordOutcome(routeId: string, version: string, status: number, latency: number): void {
+    const key = `${routeId}|${version}`;
+    const stats = this.stats.get(key) || { requests: 0, errors: 0, latencies: [] };
+
+    stats.requests++;
+    if (status >= 500) {
+      stats.errors++;
+    }
+
+    stats.latencies.push(latency);
+    if (stats.latencies.length > this.LATENCY_SAMPLE_SIZE) {
+      stats.latencies.shift();
+    }
+
+    this.stats.set(key, stats);
+  }
+
+  getMetrics(routes: SplittableRoute[]): VersionMetrics[] {
+    const metrics: VersionMetrics[] = [];
+
+    for (const route of routes) {
+      for (const entry of this.getVersions(route)) {
+        const stats = this.stats.get(`${route.id}|${entry.version}`) || { requests: 0, errors: 0, latencies: [] };
+        const sorted = [...stats.latencies].sort((a, b) => a - b);
+
+        metrics.push({
+          routeId: route.id,
+          version: entry.version,
+          weight: entry.weight,
+          requests: stats.requests,
+          errors: stats.errors,
+          errorRate: stats.requests > 0 ? stats.errors / stats.requests : 0,
+          avgLatency: sorted.length > 0 ? Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length) : 0,
+          p50Latency: this.percentile(sorted, 50),
+          p95Latency: this.percentile(sorted, 95),
+          p99Latency: this.percentile(sorted, 99),
+        });
+      }
+    }
+
+    return metrics;
+  }
+
+  private canOverride(req: Request, route: SplittableRoute): boolean {
+    const allowed = route.trafficSplit?.overrideRoles || this.DEFAULT_OVERRIDE_ROLES;
+    const roles: string[] = req['user']?.roles || [];
+    return roles.some((role) => allowed.includes(role));
+  }
+
+  // Buckets are stable per key, so raising a weight only moves the clients in the added range
+  private pickByBucket(routeId: string, key: string, versions: TrafficSplitVersion[]): TrafficSplitVersion {
+    const hash = createHash('sha1').update(`${routeId}:${key}`).digest();
+    const bucket = (hash.readUInt32BE(0) / 0xffffffff) * 100;
+
+    let cumulative = 0;
+    for (const entry of this.normalize(versions)) {
+      cumulative += entry.weight;
+      if (bucket < cumulative) {
+        return entry;
+      }
+    }
+
+    return versions[versions.length - 1];
+  }
+
+  private normalize(versions: TrafficSplitVersion[]): TrafficSplitVersion[] {
+    const total = versions.reduce((sum, entry) => sum + entry.weight, 0);
+    if (total <= 0) {
+      return versions;
+    }
+    return versions.map((entry) => ({ ...entry, weight: (entry.weight / total) * 100 }));
+  }
+
+  private percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+      return 0;
+    }
+    const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+
+  private readCookie(req: Request, name: string): string | undefined {
+    const header = req.headers.cookie;
+    if (!header) {
+      return undefined;
+    }
+
+    for (const part of header.split(';')) {
+      const [key, ...value] = part.trim().split('=');
+      if (key === name) {
+        try {
+          return decodeURIComponent(value.join('='));
+        } catch {
+          // A malformed value is treated as no cookie, and a fresh one is issued
+          return undefined;
+        }
+      }
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,46 @@
+import { TransformService, TransformContext } from './transform.service';
+
+describe('TransformService', () => {
+  let service: TransformService;
+  const context: TransformContext = { params: {}, query: {}, headers: {} };
+
+  beforeEach(() => {
+    service = new TransformService();
+  });
+
+  describe('transformBody', () => {
+    it('swaps fields without losing either value', () => {
+      const result = service.transformBody({ a: 1, b: 2, c: 3 }, { mapping: { a: 'b', b: 'a' } }, context);
+
+      expect(result).toEqual({ a: 2, b: 1, c: 3 });
+    });
+
+    it('reads chained renames from the original body', () => {
+      const result = service.transformBody({ first: 'x', second: 'y' }, { mapping: { second: 'first', third: 'second' } }, context);
+
+      expect(result).toEqual({ second: 'x', third: 'y' });
+    });
+
+    it('maps nested paths', () => {
+      const result = service.transformBody({ full_name: 'Ada' }, { mapping: { 'user.name': 'full_name' } }, context);
+
+      expect(result).toEqual({ user: { name: 'Ada' } });
+    });
+  });
+
+  describe('applyHeaders', () => {
+    it('swaps renamed headers', () => {
+      const headers: Record<string, string> = { 'x-a': 'one', 'x-b': 'two' };
+
+      service.applyHeaders(
+        { rename: { 'x-a': 'x-b', 'x-b': 'x-a' } },
+        (name) => headers[name],
+        (name, value) => { headers[name] = String(value); },
+        (name) => { delete headers[name]; },
+        context,
+      );
+
+      expect(headers).toEqual({ 'x-a': 'two', 'x-b': 'one' });
+    });
+  });
+});
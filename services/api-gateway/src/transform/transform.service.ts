@@ -0,0 +1,236 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import Ajv, { ValidateFunction } from 'ajv';
+
+export interface HeaderTransform {
+  add?: Record<string, string>;
+  remove?: string[];
+  rename?: Record<string, string>;
+}
+
+export interface BodyTransform {
+  // target path -> source path, e.g. { "user.name": "full_name" }
+  mapping?: Record<string, string>;
+  // paths to keep; everything else is dropped
+  project?: string[];
+  // JSON value whose "{{...}}" placeholders are resolved against the request
+  template?: any;
+}
+
+export interface RequestTransform {
+  headers?: HeaderTransform;
+  body?: BodyTransform;
+  validate?: Record<string, any>;
+}
+
+export interface ResponseTransform {
+  headers?: HeaderTransform;
+  body?: BodyTransform;
+  // upstream status -> status returned to the client, e.g. { "404": 200 }
+  status?: Record<string, number>;
+}
+
+export interface TransformConfig {
+  request?: RequestTransform;
+  response?: ResponseTransform;
+}
+
+export interface TransformContext {
+  body?: any;
+  params: Record<string, string>;
+  query: Record<string, any>;
+  headers: Record<string, any>;
+  user?: Record<string, any>;
+}
+
+const PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g;
+const SINGLE_PLACEHOLDER = /^\{\{\s*([^}]+?)\s*\}\}$/;
+
+@Injectable()
+export class TransformService {
+  private readonly ajv = new Ajv({ allErrors: true, coerceTypes: false });
+
+  // Compiled validators keyed by the schema object of the active route table
+  private validators = new WeakMap<object, ValidateFunction>();
+
+  validateRequestBody(transform: TransformConfig | undefined, body: any): { valid: boolean; errors: string[] } {
+    const schema = transform?.request?.validate;
+    if (!schema) {
+      return { valid: true, errors: [] };
+    }
+
+    let validator = this.validators.get(schema);
+    if (!validator) {
+      validator = this.ajv.compile(schema);
+      this.validators.set(schema, validator);
+    }
+
+    if (validator(body ?? null)) {
+      return { valid: true, errors: [] };
+    }
+
+    return {
+      valid: false,
+      errors: (validator.errors || []).map((error) => `${error.instancePath || '/'} ${error.message}`),
+    };
+  }
+
+  buildContext(req: Request): TransformContext {
+    return {
+      body: req.body,
+      params: req['routeParams'] || {},
+      query: req.query as Record<string, any>,
+      headers: req.headers,
+      user: req['user'],
+    };
+  }
+
+  transformBody(body: any, transform: BodyTransform | undefined, context: TransformContext): any {
+    if (!transform) {
+      return body;
+    }
+
+    // Legacy list endpoints: apply the field transforms to each item
+    const reshape = (item: any) => {
+      let result = item;
+      if (transform.mapping) {
+        result = this.applyMapping(result, transform.mapping);
+      }
+      if (transform.project) {
+        result = this.applyProjection(result, transform.project);
+      }
+      return result;
+    };
+
+    const reshaped = Array.isArray(body) ? body.map(reshape) : reshape(body);
+
+    if (transform.template === undefined) {
+      return reshaped;
+    }
+
+    return this.renderTemplate(transform.template, { ...context, body: reshaped });
+  }
+
+  applyHeaders(
+    transform: HeaderTransform | undefined,
+    getHeader: (name: string) => string | string[] | number | undefined,
+    setHeader: (name: string, value: string | string[] | number) => void,
+    removeHeader: (name: string) => void,
+    context: TransformContext,
+  ): void {
+    if (!transform) {
+      return;
+    }
+
+    for (const name of transform.remove || []) {
+      removeHeader(name);
+    }
+
+    const renamed = Object.entries(transform.rename || {}).map(([from, to]) => [from, to, getHeader(from)] as const);
+    for (const [from, , value] of renamed) {
+      if (value !== undefined) {
+        removeHeader(from);
+      }
+    }
+    for (const [, to, value] of renamed) {
+      if (value !== undefined) {
+        setHeader(to, value);
+      }
+    }
+
+    for (const [name, value] of Object.entries(transform.add || {})) {
+      setHeader(name, String(this.renderTemplate(value, context) ?? ''));
+    }
+  }
+
+  mapStatus(transform: ResponseTransform | undefined, status: number): number {
+    return transform?.status?.[String(status)] ?? status;
+  }
+
+  renderTemplate(template: any, context: TransformContext): any {
+    if (typeof template === 'string') {
+      // A lone placeholder keeps the referenced value's type (objects, numbers, ...)
+      const single = template.match(SINGLE_PLACEHOLDER);
+      if (single) {
+        return this.getPath(context, single[1]);
+      }
+      return template.replace(PLACEHOLDER, (_, path) => {
+        const value = this.getPath(context, path);
+        return value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      });
+    }
+
+    if (Array.isArray(template)) {
+      return template.map((item) => this.renderTemplate(item, context));
+    }
+
+    if (template && typeof template === 'object') {
+      const rendered: Record<string, any> = {};
+      for (const [key, value] of Object.entries(template)) {
+        rendered[key] = this.renderTemplate(value, context);
+      }
+      return rendered;
+    }
+
+    return template;
+  }
+
+  private applyMapping(item: any, mapping: Record<string, string>): any {
+    if (!item || typeof item !== 'object') {
+      return item;
+    }
+
+    // Read every source from the untouched input before writing, so swaps and chains keep their values
+    const entries = Object.entries(mapping).map(([target, source]) => [target, this.getPath(item, source)] as const);
+
+    const result = JSON.parse(JSON.stringify(item));
+    for (const source of Object.values(mapping)) {
+      this.deletePath(result, source);
+    }
+    for (const [target, value] of entries) {
+      if (value !== undefined) {
+        this.setPath(result, target, value);
+      }
+    }
+    return result;
+  }
+
+  private applyProjection(item: any, paths: string[]): any {
+    if (!item || typeof item !== 'object') {
+      return item;
+    }
+
+    const result: Record<string, any> = {};
+    for (const path of paths) {
+      const value = this.getPath(item, path);
+      if (value !== undefined) {
+        this.setPath(result, path, value);
+      }
+    }
+    return result;
+  }
+
+  private getPath(source: any, path: string): any {
+    return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), source);
+  }
+
+  private setPath(target: Record<string, any>, path: string, value: any): void {
+    const keys = path.split('.');
+    let node = target;
+    keys.slice(0, -1).forEach((key) => {
+      if (!node[key] || typeof node[key] !== 'object') {
+        node[key] = {};
+      }
+      node = node[key];
+    });
+    node[keys[keys.length - 1]] = value;
+  }
+
+  private deletePath(target: Record<string, any>, path: string): void {
+    const keys = path.split('.');
+    const parent = this.getPath(target, keys.slice(0, -1).join('.')) ?? (keys.length === 1 ? target : undefined);
+    if (parent && typeof parent === 'object') {
+      delete parent[keys[keys.length - 1]];
+    }
+  }
+}
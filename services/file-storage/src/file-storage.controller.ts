@@ -0,0 +1,69 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Headers,
+  Post,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { timingSafeEqual } from 'crypto';
+import { FileMetadata, FileStorageService } from './file-storage.service';
+
+export interface InternalUploadRequest {
+  filename: string;
+  contentType: string;
+  // Base64-encoded file content
+  content: string;
+  // The user the file belongs to
+  userId: string;
+  folderId?: string;
+  tags?: string[];
+}
+
+@ApiTags('Internal Files')
+@Controller('internal/files')
+export class FileStorageController {
+  private readonly serviceToken = process.env.FILE_STORAGE_SERVICE_TOKEN || '';
+
+  constructor(private readonly fileStorage: FileStorageService) {}
+
+  // Used by other services to store documents they generate, e.g. invoice PDFs
+  @Post()
+  @ApiOperation({ summary: 'Store a file on behalf of another service' })
+  @ApiResponse({ status: 201, description: 'File stored' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid service token' })
+  async upload(
+    @Headers('x-service-token') token: string,
+    @Body() body: InternalUploadRequest,
+  ): Promise<FileMetadata> {
+    this.verifyServiceToken(token);
+
+    if (!body.filename || !body.contentType || !body.content || !body.userId) {
+      throw new BadRequestException('filename, contentType, content and userId are required');
+    }
+
+    return this.fileStorage.uploadBuffer(
+      {
+        buffer: Buffer.from(body.content, 'base64'),
+        originalName: body.filename,
+        mimetype: body.contentType,
+      },
+      {
+        userId: body.userId,
+        folderId: body.folderId,
+        tags: body.tags,
+        isPublic: false,
+      },
+    );
+  }
+
+  // Internal uploads stay closed unless a service token is configured
+  private verifyServiceToken(token?: string): void {
+    const expected = Buffer.from(this.serviceToken);
+    const actual = Buffer.from(token || '');
+    if (!this.serviceToken || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new UnauthorizedException('Invalid service token');
+    }
+  }
+}
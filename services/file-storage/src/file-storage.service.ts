@@ -48,6 +48,9 @@ export interface UploadOptions {
   allowedTypes?: string[];
 }
 
+// The parts of an upload the service reads, whether it came from multer or another service
+export type UploadedContent = Pick<Express.Multer.File, 'buffer' | 'originalname' | 'mimetype' | 'size'>;
+
 @Injectable()
 export class FileStorageService {
   private readonly logger = new Logger(FileStorageService.name);
@@ -78,7 +81,7 @@ export class FileStorageService {
 
   // File Upload
   async uploadFile(
-    file: Express.Multer.File,
+    file: UploadedContent,
     options: UploadOptions
   ): Promise<FileMetadata> {
     this.logger.debug(`Uploading file: ${file.originalname} (${file.size} bytes)`);
@@ -147,6 +150,19 @@ export class FileStorageService {
     }
   }
 
+  // Upload of content produced by another service rather than received from a browser
+  async uploadBuffer(
+    content: { buffer: Buffer; originalName: string; mimetype: string },
+    options: UploadOptions
+  ): Promise<FileMetadata> {
+    return this.uploadFile({
+      buffer: content.buffer,
+      originalname: content.originalName,
+      mimetype: content.mimetype,
+      size: content.buffer.length,
+    }, options);
+  }
+
   // Multiple file upload
   async uploadMultipleFiles(
     files: Express.Multer.File[],
@@ -429,7 +445,7 @@ export class FileStorageService {
   }
 
   // Private helper methods
-  private async validateFile(file: Express.Multer.File, options: UploadOptions): Promise<void> {
+  private async validateFile(file: UploadedContent, options: UploadOptions): Promise<void> {
     // Size validation
     const maxSize = options.maxSize || 100 * 1024 * 1024; // 100MB default
     if (file.size > maxSize) {
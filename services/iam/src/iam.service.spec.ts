@@ -0,0 +1,185 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { IAMService, Role, User } from './iam.service';
+import { PolicyEngine } from './policies/policy-engine';
+
+describe('IAMService', () => {
+  let service: IAMService;
+  let jwtService: JwtService;
+  let roles: Map<string, Role>;
+
+  const addUser = (id: string, userRoles: Role[]): User => {
+    const user: User = {
+      id,
+      email: `${id}@example.com`,
+      username: id,
+      firstName: id,
+      lastName: 'Test',
+      isActive: true,
+      isVerified: true,
+      roles: userRoles,
+      permissions: [],
+      tenantId: 'tenant_1',
+      mfaEnabled: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      metadata: {},
+    };
+    (service as any).users.set(id, user);
+    return user;
+  };
+
+  beforeEach(() => {
+    jwtService = new JwtService({ secret: 'test-jwt-secret' });
+    service = new IAMService(jwtService, new PolicyEngine(), null as any);
+    roles = (service as any).roles;
+    (service as any).tenants.set('tenant_1', { id: 'tenant_1', name: 'Acme', isActive: true, settings: { passwordPolicy: {} } });
+
+    const permissions = (service as any).permissions;
+    const roleManager: Role = {
+      id: 'role-manager',
+      name: 'Role manager',
+      description: '',
+      permissions: [permissions.get('roles.manage'), permissions.get('users.read')],
+      parentRoleIds: [],
+      tenantId: 'tenant_1',
+      isSystem: false,
+      createdAt: new Date(),
+    };
+    roles.set(roleManager.id, roleManager);
+    addUser('manager', [roleManager]);
+  });
+
+  describe('role escalation', () => {
+    it('lets a role manager grant permissions they hold', async () => {
+      const role = await service.createRole('tenant_1', { name: 'Readers', permissionIds: ['users.read'] }, 'manager');
+
+      expect(role.permissions.map(p => p.id)).toEqual(['users.read']);
+    });
+
+    it('rejects granting permissions the actor does not hold', async () => {
+      await expect(
+        service.createRole('tenant_1', { name: 'Deleters', permissionIds: ['users.delete'] }, 'manager'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('rejects inheriting permissions the actor does not hold', async () => {
+      const writers = roles.get('role-manager')!;
+      roles.set('writers', { ...writers, id: 'writers', name: 'Writers', permissions: [(service as any).permissions.get('users.write')] });
+
+      await expect(
+        service.createRole('tenant_1', { name: 'Editors', parentRoleIds: ['writers'] }, 'manager'),
+      ).rejects.toThrow('users.write');
+    });
+
+    it('rejects adding permissions to an existing role', async () => {
+      const role = await service.createRole('tenant_1', { name: 'Readers', permissionIds: ['users.read'] }, 'manager');
+
+      await expect(
+        service.updateRole(role.id, { permissionIds: ['users.read', 'system.admin'] }, 'manager'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(role.permissions.map(p => p.id)).toEqual(['users.read']);
+    });
+
+    it('never allows the admin role as a parent, even for system admins', async () => {
+      addUser('root', [roles.get('admin')!]);
+
+      await expect(
+        service.createRole('tenant_1', { name: 'Admins', parentRoleIds: ['admin'] }, 'root'),
+      ).rejects.toThrow('cannot be inherited');
+    });
+  });
+
+  describe('user access changes', () => {
+    it('let a role manager assign roles and grant permissions they hold', async () => {
+      const readers = await service.createRole('tenant_1', { name: 'Readers', permissionIds: ['users.read'] }, 'manager');
+      const member = addUser('member', []);
+
+      await service.assignRole('member', readers.id, 'manager');
+      await service.grantPermission('member', 'users.read', 'manager');
+
+      expect(member.roles.map(r => r.id)).toEqual([readers.id]);
+      expect(member.permissions.map(p => p.id)).toEqual(['users.read']);
+    });
+
+    it('never let a tenant role manager hand out the system admin role', async () => {
+      await expect(service.assignRole('manager', 'admin', 'manager')).rejects.toThrow(ForbiddenException);
+      expect((service as any).users.get('manager').roles.map((r: Role) => r.id)).toEqual(['role-manager']);
+    });
+
+    it('reject permissions the actor does not hold', async () => {
+      addUser('member', []);
+
+      await expect(service.grantPermission('member', 'users.delete', 'manager')).rejects.toThrow(ForbiddenException);
+    });
+
+    it('require the actor to manage roles', async () => {
+      const readers = await service.createRole('tenant_1', { name: 'Readers', permissionIds: ['users.read'] }, 'manager');
+      addUser('member', [readers]);
+
+      await expect(service.assignRole('member', 'role-manager', 'member')).rejects.toThrow(ForbiddenException);
+      await expect(service.removeRole('member', readers.id, 'member')).rejects.toThrow(ForbiddenException);
+      await expect(service.revokePermission('manager', 'users.read', 'member')).rejects.toThrow(ForbiddenException);
+    });
+
+    it('let system admins assign the admin role', async () => {
+      addUser('root', [roles.get('admin')!]);
+      addUser('member', []);
+
+      await service.assignRole('member', 'admin', 'root');
+
+      await expect(service.hasPermission('member', 'system', 'admin')).resolves.toBe(true);
+    });
+  });
+
+  describe('purpose tokens', () => {
+    const verify = (token: string, type: string) => (service as any).verifyPurposeToken(token, type);
+
+    it('accept a token for its own purpose', () => {
+      const token = (service as any).signPurposeToken('manager', 'mfa_challenge', '5m');
+
+      expect(verify(token, 'mfa_challenge')).toBe('manager');
+    });
+
+    it('reject access and refresh tokens', async () => {
+      const { accessToken, refreshToken } = await (service as any).generateTokens((service as any).users.get('manager'));
+
+      expect(() => verify(accessToken, 'mfa_enrollment')).toThrow(UnauthorizedException);
+      expect(() => verify(refreshToken, 'mfa_recovery')).toThrow(UnauthorizedException);
+    });
+
+    it('reject a token minted for another purpose, even with its type claim rewritten', () => {
+      const challenge = (service as any).signPurposeToken('manager', 'mfa_challenge', '5m');
+      const forged = jwtService.sign({ sub: 'manager', type: 'mfa_recovery' }, { audience: 'nexus-iam:mfa_challenge' });
+
+      expect(() => verify(challenge, 'mfa_recovery')).toThrow(UnauthorizedException);
+      expect(() => verify(forged, 'mfa_recovery')).toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('passkey second factor', () => {
+    beforeEach(() => {
+      (service as any).webauthn = {
+        verifyAuthentication: jest.fn(async () => ({ credential: { id: 'passkey_1', userId: 'manager' }, userVerified: false })),
+      };
+    });
+
+    it('spends the MFA challenge token on the first login', async () => {
+      const challenge = (service as any).signPurposeToken('manager', 'mfa_challenge', '5m');
+
+      const result = await service.loginWithPasskey('challenge_1', {} as any, challenge);
+      expect(result.accessToken).toBeTruthy();
+
+      await expect(service.loginWithPasskey('challenge_2', {} as any, challenge)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('can start the passkey ceremony more than once with the same token', async () => {
+      const challenge = (service as any).signPurposeToken('manager', 'mfa_challenge', '5m');
+      (service as any).webauthn.authenticationOptions = jest.fn(async () => ({}));
+
+      await service.startPasskeyAuthentication({ mfaChallengeToken: challenge });
+      await service.startPasskeyAuthentication({ mfaChallengeToken: challenge });
+      await expect(service.loginWithPasskey('challenge_1', {} as any, challenge)).resolves.toBeDefined();
+    });
+  });
+});
@@ -1,8 +1,20 @@
-import { Injectable, Logger, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  UnauthorizedException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
 import * as speakeasy from 'speakeasy';
 import * as QRCode from 'qrcode';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
+import { PolicyEngine, PolicyEffect, PolicyConditions, AccessContext, AccessDecision, PolicySubject } from './policies/policy-engine';
+import { WebAuthnService, WebAuthnCredential } from './mfa/webauthn.service';
 
 export interface User {
   id: string;
@@ -15,6 +27,7 @@ export interface User {
   roles: Role[];
   permissions: Permission[];
   tenantId: string;
+  // True while the user has any second factor: a confirmed TOTP secret or a passkey
   mfaEnabled: boolean;
   mfaSecret?: string;
   lastLoginAt?: Date;
@@ -28,9 +41,38 @@ export interface Role {
   name: string;
   description: string;
   permissions: Permission[];
+  // Roles whose permissions this role inherits; system roles other than admin can be parents of any tenant's roles
+  parentRoleIds: string[];
   tenantId: string;
   isSystem: boolean;
   createdAt: Date;
+  updatedAt?: Date;
+}
+
+export interface RoleAssignment {
+  userId: string;
+  roleId: string;
+  assignedBy: string;
+  assignedAt: Date;
+  // Time-bound assignments are removed once this passes
+  expiresAt?: Date;
+}
+
+export interface EffectivePermissions {
+  userId: string;
+  tenantId: string;
+  roles: Array<{
+    roleId: string;
+    name: string;
+    // The role this one was inherited through; absent for directly assigned roles
+    inheritedFrom?: string;
+    expiresAt?: Date;
+  }>;
+  permissions: Array<{
+    permission: Permission;
+    // 'direct' or the role ids that grant it
+    sources: string[];
+  }>;
 }
 
 export interface Permission {
@@ -38,7 +80,9 @@ export interface Permission {
   name: string;
   resource: string;
   action: string;
-  conditions?: Record<string, any>;
+  // Permissions allow by default; a matching deny overrides every allow
+  effect?: PolicyEffect;
+  conditions?: PolicyConditions;
   description: string;
 }
 
@@ -50,8 +94,12 @@ export interface Tenant {
     allowSelfRegistration: boolean;
     requireEmailVerification: boolean;
     passwordPolicy: PasswordPolicy;
+    // Users without MFA must enroll at their next login
     mfaRequired: boolean;
+    // Absolute session lifetime in ms, however active the session is
     sessionTimeout: number;
+    // Sessions unused for this many ms expire early
+    idleTimeout: number;
     maxSessions: number;
   };
   isActive: boolean;
@@ -64,8 +112,8 @@ export interface PasswordPolicy {
   requireLowercase: boolean;
   requireNumbers: boolean;
   requireSpecialChars: boolean;
-  maxAge: number; // days
-  preventReuse: number; // number of previous passwords to check
+  maxAge: number; // days, 0 to never expire
+  preventReuse: number; // number of previous passwords to check, including the current one
 }
 
 export interface Session {
@@ -78,22 +126,71 @@ export interface Session {
   ipAddress: string;
   userAgent: string;
   isActive: boolean;
+  lastActivityAt: Date;
   createdAt: Date;
 }
 
+export interface AuthenticationResult {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  requiresMfa: boolean;
+  // The password is older than the tenant's maxAge; no tokens until it is changed
+  requiresPasswordChange: boolean;
+  // The tenant requires MFA and the user has none; mfaEnrollmentToken authorizes enrolling
+  requiresMfaEnrollment: boolean;
+  mfaEnrollmentToken?: string;
+  // With requiresMfa: the factors the user can answer with, and the token that carries the password check over
+  mfaMethods?: MfaMethod[];
+  mfaChallengeToken?: string;
+  // Set when a backup code was spent on this login
+  backupCodesRemaining?: number;
+}
+
+export type MfaMethod = 'totp' | 'webauthn' | 'backup_code';
+
+export type Passkey = Omit<WebAuthnCredential, 'publicKey' | 'counter'>;
+
+type PurposeTokenType = 'mfa_enrollment' | 'mfa_challenge' | 'mfa_recovery';
+
 @Injectable()
-export class IAMService {
+export class IAMService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(IAMService.name);
   private users = new Map<string, User>();
   private roles = new Map<string, Role>();
   private permissions = new Map<string, Permission>();
   private tenants = new Map<string, Tenant>();
   private sessions = new Map<string, Session>();
-
-  constructor(private jwtService: JwtService) {
+  // Keyed by `${userId}:${roleId}`
+  private roleAssignments = new Map<string, RoleAssignment>();
+  // jti of spent single-use purpose tokens, until the token would have expired anyway (epoch ms)
+  private spentPurposeTokens = new Map<string, number>();
+  private expiryTimer?: NodeJS.Timeout;
+  private readonly ASSIGNMENT_SWEEP_INTERVAL_MS = 60 * 1000;
+  // Hashes kept per user, enough for any tenant's preventReuse
+  private readonly PASSWORD_HISTORY_LIMIT = 24;
+  private readonly BACKUP_CODE_COUNT = 10;
+  // No 0/O or 1/I; 32 symbols so each random byte maps without bias
+  private readonly BACKUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  private readonly PURPOSE_TOKEN_AUDIENCE = 'nexus-iam';
+
+  constructor(
+    private jwtService: JwtService,
+    private policyEngine: PolicyEngine,
+    private webauthn: WebAuthnService,
+  ) {
     this.initializeDefaultData();
   }
 
+  onModuleInit() {
+    this.expiryTimer = setInterval(() => this.expireRoleAssignments(), this.ASSIGNMENT_SWEEP_INTERVAL_MS);
+    this.expiryTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.expiryTimer);
+  }
+
   private initializeDefaultData(): void {
     // Create default tenant
     const defaultTenant: Tenant = {
@@ -114,6 +211,7 @@ export class IAMService {
         },
         mfaRequired: false,
         sessionTimeout: 24 * 60 * 60 * 1000, // 24 hours
+        idleTimeout: 30 * 60 * 1000, // 30 minutes
         maxSessions: 5,
       },
       isActive: true,
@@ -171,6 +269,7 @@ export class IAMService {
       description: 'Full system access',
       permissions: defaultPermissions,
       tenantId: 'default',
+      parentRoleIds: [],
       isSystem: true,
       createdAt: new Date(),
     };
@@ -181,6 +280,7 @@ export class IAMService {
       description: 'Standard user access',
       permissions: [defaultPermissions[0]], // users.read only
       tenantId: 'default',
+      parentRoleIds: [],
       isSystem: true,
       createdAt: new Date(),
     };
@@ -197,12 +297,7 @@ export class IAMService {
     password: string,
     tenantId: string = 'default',
     mfaCode?: string
-  ): Promise<{
-    user: User;
-    accessToken: string;
-    refreshToken: string;
-    requiresMfa: boolean;
-  }> {
+  ): Promise<AuthenticationResult> {
     const user = Array.from(this.users.values())
       .find(u => u.email === email && u.tenantId === tenantId);
 
@@ -216,41 +311,147 @@ export class IAMService {
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    const pending: AuthenticationResult = {
+      user,
+      accessToken: '',
+      refreshToken: '',
+      requiresMfa: false,
+      requiresPasswordChange: false,
+      requiresMfaEnrollment: false,
+    };
+
     // Check MFA if enabled
     if (user.mfaEnabled) {
       if (!mfaCode) {
         return {
-          user,
-          accessToken: '',
-          refreshToken: '',
+          ...pending,
           requiresMfa: true,
+          mfaMethods: this.getMfaMethods(user),
+          mfaChallengeToken: this.signPurposeToken(user.id, 'mfa_challenge', '5m'),
         };
       }
 
-      const isValidMfa = speakeasy.totp.verify({
-        secret: user.mfaSecret!,
-        encoding: 'base32',
-        token: mfaCode,
-        window: 2,
-      });
-
-      if (!isValidMfa) {
+      const method = this.verifyMfaCode(user, mfaCode);
+      if (!method) {
         throw new UnauthorizedException('Invalid MFA code');
       }
+
+      if (method === 'backup_code') {
+        pending.backupCodesRemaining = this.countBackupCodes(user);
+      }
     }
 
-    // Generate tokens
-    const { accessToken, refreshToken } = await this.generateTokens(user);
+    return this.completeLogin(user, pending, { passwordUsed: true });
+  }
 
-    // Update last login
+  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user || !user.isActive) {
+      throw new BadRequestException('User not found');
+    }
+
+    const tenant = this.tenants.get(user.tenantId);
+    if (!tenant) {
+      throw new BadRequestException('Tenant not found');
+    }
+
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.metadata.passwordHash || '');
+    if (!isPasswordValid) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    await this.validatePassword(newPassword, tenant.settings.passwordPolicy);
+    await this.checkPasswordReuse(user, newPassword, tenant.settings.passwordPolicy);
+
+    const history: string[] = user.metadata.passwordHistory || [];
+    user.metadata.passwordHistory = [user.metadata.passwordHash, ...history].slice(0, this.PASSWORD_HISTORY_LIMIT);
+    user.metadata.passwordHash = await bcrypt.hash(newPassword, 12);
+    user.metadata.passwordChangedAt = new Date();
+    user.updatedAt = new Date();
+    this.users.set(userId, user);
+
+    // Sessions opened with the old password should not outlive it
+    const sessions = Array.from(this.sessions.values()).filter(s => s.userId === userId && s.isActive);
+    for (const session of sessions) {
+      await this.revokeSession(session.id);
+    }
+
+    this.logger.log(`Password changed for user ${userId}, ${sessions.length} sessions revoked`);
+  }
+
+  // Passkey logins: a second factor after authenticate when given its mfaChallengeToken, otherwise passwordless
+  async startPasskeyAuthentication(options: { mfaChallengeToken?: string; userId?: string } = {}) {
+    const userId = options.mfaChallengeToken
+      ? this.verifyPurposeToken(options.mfaChallengeToken, 'mfa_challenge')
+      : options.userId;
+
+    return this.webauthn.authenticationOptions(userId);
+  }
+
+  async loginWithPasskey(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+    mfaChallengeToken?: string
+  ): Promise<AuthenticationResult> {
+    const { credential, userVerified } = await this.webauthn.verifyAuthentication(challengeId, response);
+
+    const user = this.users.get(credential.userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    const pending: AuthenticationResult = {
+      user,
+      accessToken: '',
+      refreshToken: '',
+      requiresMfa: false,
+      requiresPasswordChange: false,
+      requiresMfaEnrollment: false,
+    };
+
+    if (mfaChallengeToken) {
+      // Spent here so a captured token cannot complete a second login
+      if (this.verifyPurposeToken(mfaChallengeToken, 'mfa_challenge', { singleUse: true }) !== user.id) {
+        throw new UnauthorizedException('Invalid credentials');
+      }
+      return this.completeLogin(user, pending, { passwordUsed: true });
+    }
+
+    // Without a password the passkey has to prove both possession and the user's PIN or biometric
+    if (!userVerified) {
+      throw new UnauthorizedException('Passkey login requires user verification');
+    }
+
+    this.logger.log(`Passwordless login for user ${user.id} with passkey ${credential.id}`);
+    return this.completeLogin(user, pending, { passwordUsed: false });
+  }
+
+  // Step-up enrollment for tenants with mfaRequired, authorized by the token authenticate returned
+  async beginMfaEnrollment(mfaEnrollmentToken: string): Promise<{
+    secret: string;
+    qrCodeUrl: string;
+    backupCodes: string[];
+  }> {
+    const userId = this.verifyMfaEnrollmentToken(mfaEnrollmentToken);
+    return this.enableMFA(userId);
+  }
+
+  async completeMfaEnrollment(mfaEnrollmentToken: string, token: string): Promise<AuthenticationResult> {
+    const userId = this.verifyMfaEnrollmentToken(mfaEnrollmentToken);
+    await this.confirmMFA(userId, token);
+
+    const user = this.users.get(userId)!;
+    const { accessToken, refreshToken } = await this.generateTokens(user);
     user.lastLoginAt = new Date();
-    this.users.set(user.id, user);
+    this.users.set(userId, user);
 
     return {
       user,
       accessToken,
       refreshToken,
       requiresMfa: false,
+      requiresPasswordChange: false,
+      requiresMfaEnrollment: false,
     };
   }
 
@@ -304,7 +505,7 @@ export class IAMService {
       mfaEnabled: false,
       createdAt: new Date(),
       updatedAt: new Date(),
-      metadata: { passwordHash },
+      metadata: { passwordHash, passwordHistory: [], passwordChangedAt: new Date() },
     };
 
     this.users.set(userId, user);
@@ -314,7 +515,12 @@ export class IAMService {
   }
 
   // Role-Based Access Control
-  async assignRole(userId: string, roleId: string, assignedBy: string): Promise<void> {
+  async assignRole(
+    userId: string,
+    roleId: string,
+    assignedBy: string,
+    options: { expiresAt?: Date } = {}
+  ): Promise<void> {
     const user = this.users.get(userId);
     const role = this.roles.get(roleId);
 
@@ -322,6 +528,16 @@ export class IAMService {
       throw new BadRequestException('User or role not found');
     }
 
+    if (role.tenantId !== user.tenantId && !role.isSystem) {
+      throw new BadRequestException('Role belongs to another tenant');
+    }
+
+    await this.assertCanChangeAccess(assignedBy, user, this.inheritedPermissions([roleId]));
+
+    if (options.expiresAt && options.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Role assignment expiry must be in the future');
+    }
+
     // Check if user already has the role
     if (user.roles.some(r => r.id === roleId)) {
       throw new BadRequestException('User already has this role');
@@ -331,7 +547,16 @@ export class IAMService {
     user.updatedAt = new Date();
     this.users.set(userId, user);
 
-    this.logger.log(`Role ${roleId} assigned to user ${userId} by ${assignedBy}`);
+    this.roleAssignments.set(`${userId}:${roleId}`, {
+      userId,
+      roleId,
+      assignedBy,
+      assignedAt: new Date(),
+      expiresAt: options.expiresAt,
+    });
+
+    const until = options.expiresAt ? ` until ${options.expiresAt.toISOString()}` : '';
+    this.logger.log(`Role ${roleId} assigned to user ${userId} by ${assignedBy}${until}`);
   }
 
   async removeRole(userId: string, roleId: string, removedBy: string): Promise<void> {
@@ -340,46 +565,271 @@ export class IAMService {
       throw new BadRequestException('User not found');
     }
 
+    await this.assertCanChangeAccess(removedBy, user, this.inheritedPermissions([roleId]));
+
     user.roles = user.roles.filter(r => r.id !== roleId);
     user.updatedAt = new Date();
     this.users.set(userId, user);
+    this.roleAssignments.delete(`${userId}:${roleId}`);
 
     this.logger.log(`Role ${roleId} removed from user ${userId} by ${removedBy}`);
   }
 
+  async createRole(
+    tenantId: string,
+    roleData: {
+      name: string;
+      description?: string;
+      permissionIds?: string[];
+      parentRoleIds?: string[];
+    },
+    createdBy: string
+  ): Promise<Role> {
+    const tenant = this.tenants.get(tenantId);
+    if (!tenant || !tenant.isActive) {
+      throw new BadRequestException('Invalid tenant');
+    }
+
+    await this.assertCanManageRoles(createdBy, tenantId);
+    this.assertRoleNameAvailable(tenantId, roleData.name);
+
+    const permissions = this.resolvePermissions(roleData.permissionIds || []);
+    const role: Role = {
+      id: this.generateId(),
+      name: roleData.name,
+      description: roleData.description || '',
+      permissions,
+      parentRoleIds: [],
+      tenantId,
+      isSystem: false,
+      createdAt: new Date(),
+    };
+
+    const parentRoleIds = this.validateParentRoles(role, roleData.parentRoleIds || []);
+    this.assertCanGrant(createdBy, [...permissions, ...this.inheritedPermissions(parentRoleIds)]);
+
+    role.parentRoleIds = parentRoleIds;
+    this.roles.set(role.id, role);
+
+    this.logger.log(`Role ${role.name} (${role.id}) created in tenant ${tenantId} by ${createdBy}`);
+    return role;
+  }
+
+  async updateRole(
+    roleId: string,
+    changes: {
+      name?: string;
+      description?: string;
+      permissionIds?: string[];
+      parentRoleIds?: string[];
+    },
+    updatedBy: string
+  ): Promise<Role> {
+    const role = this.roles.get(roleId);
+    if (!role) {
+      throw new BadRequestException('Role not found');
+    }
+
+    if (role.isSystem) {
+      throw new BadRequestException('System roles cannot be modified');
+    }
+
+    await this.assertCanManageRoles(updatedBy, role.tenantId);
+
+    if (changes.name && changes.name.toLowerCase() !== role.name.toLowerCase()) {
+      this.assertRoleNameAvailable(role.tenantId, changes.name);
+    }
+
+    // Validate everything before mutating; users hold a reference to this object
+    const permissions = changes.permissionIds ? this.resolvePermissions(changes.permissionIds) : role.permissions;
+    const parentRoleIds = changes.parentRoleIds ? this.validateParentRoles(role, changes.parentRoleIds) : role.parentRoleIds;
+
+    // Only what the change adds; the role may already carry permissions the actor lacks
+    const current = new Set([...role.permissions, ...this.inheritedPermissions(role.parentRoleIds)].map(p => p.id));
+    this.assertCanGrant(
+      updatedBy,
+      [...permissions, ...this.inheritedPermissions(parentRoleIds)].filter(p => !current.has(p.id)),
+    );
+
+    role.name = changes.name || role.name;
+    role.description = changes.description ?? role.description;
+    role.permissions = permissions;
+    role.parentRoleIds = parentRoleIds;
+    role.updatedAt = new Date();
+
+    this.logger.log(`Role ${roleId} updated by ${updatedBy}`);
+    return role;
+  }
+
+  async deleteRole(roleId: string, deletedBy: string): Promise<void> {
+    const role = this.roles.get(roleId);
+    if (!role) {
+      throw new BadRequestException('Role not found');
+    }
+
+    if (role.isSystem) {
+      throw new BadRequestException('System roles cannot be deleted');
+    }
+
+    await this.assertCanManageRoles(deletedBy, role.tenantId);
+
+    const children = Array.from(this.roles.values()).filter(r => r.parentRoleIds.includes(roleId));
+    if (children.length) {
+      throw new BadRequestException(`Role is inherited by ${children.map(r => r.name).join(', ')}`);
+    }
+
+    for (const user of this.users.values()) {
+      if (user.roles.some(r => r.id === roleId)) {
+        user.roles = user.roles.filter(r => r.id !== roleId);
+        user.updatedAt = new Date();
+        this.roleAssignments.delete(`${user.id}:${roleId}`);
+      }
+    }
+
+    this.roles.delete(roleId);
+    this.logger.log(`Role ${roleId} deleted by ${deletedBy}`);
+  }
+
+  // Everything a user can do: direct permissions plus those of their roles and every role those inherit from
+  async getEffectivePermissions(userId: string): Promise<EffectivePermissions> {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new BadRequestException('User not found');
+    }
+
+    const roles = this.resolveRoles(user);
+    const permissions = new Map<string, EffectivePermissions['permissions'][number]>();
+    const grant = (permission: Permission, source: string) => {
+      const entry = permissions.get(permission.id) || { permission, sources: [] };
+      if (!entry.sources.includes(source)) {
+        entry.sources.push(source);
+      }
+      permissions.set(permission.id, entry);
+    };
+
+    user.permissions.forEach(permission => grant(permission, 'direct'));
+    roles.forEach(({ role }) => role.permissions.forEach(permission => grant(permission, role.id)));
+
+    return {
+      userId,
+      tenantId: user.tenantId,
+      roles: roles.map(({ role, inheritedFrom }) => ({
+        roleId: role.id,
+        name: role.name,
+        inheritedFrom,
+        expiresAt: inheritedFrom ? undefined : this.roleAssignments.get(`${userId}:${role.id}`)?.expiresAt,
+      })),
+      permissions: Array.from(permissions.values()),
+    };
+  }
+
   // Permission Checking
   async hasPermission(
     userId: string,
     resource: string,
     action: string,
-    context?: Record<string, any>
+    context?: AccessContext
   ): Promise<boolean> {
+    const decision = await this.explainPermission(userId, resource, action, context);
+    return decision.allowed;
+  }
+
+  // Same decision as hasPermission, with the policy that decided it and how every matching policy evaluated
+  async explainPermission(
+    userId: string,
+    resource: string,
+    action: string,
+    context: AccessContext = {}
+  ): Promise<AccessDecision> {
     const user = this.users.get(userId);
     if (!user || !user.isActive) {
-      return false;
+      return {
+        allowed: false,
+        resource,
+        action,
+        reason: 'User not found or inactive',
+        evaluated: [],
+      };
     }
 
-    // Check direct permissions
-    const hasDirectPermission = user.permissions.some(p => 
-      p.resource === resource && p.action === action
-    );
+    const candidates = [
+      ...user.permissions.map(policy => ({ policy, source: 'direct' })),
+      ...this.resolveRoles(user).flatMap(({ role, inheritedFrom }) => {
+        const source = inheritedFrom ? `role:${role.id} (inherited via ${inheritedFrom})` : `role:${role.id}`;
+        return role.permissions.map(policy => ({ policy, source }));
+      }),
+    ];
+
+    return this.policyEngine.evaluate(this.toPolicySubject(user), candidates, resource, action, context);
+  }
 
-    if (hasDirectPermission) {
-      return true;
+  async createPermission(permissionData: {
+    id: string;
+    name: string;
+    resource: string;
+    action: string;
+    effect?: PolicyEffect;
+    conditions?: PolicyConditions;
+    description?: string;
+  }): Promise<Permission> {
+    if (this.permissions.has(permissionData.id)) {
+      throw new BadRequestException('Permission already exists');
     }
 
-    // Check role-based permissions
-    for (const role of user.roles) {
-      const hasRolePermission = role.permissions.some(p => 
-        p.resource === resource && (p.action === action || p.action === '*')
-      );
+    this.policyEngine.validateResourcePattern(permissionData.resource);
+    this.policyEngine.validateConditions(permissionData.conditions);
+
+    const permission: Permission = {
+      id: permissionData.id,
+      name: permissionData.name,
+      resource: permissionData.resource,
+      action: permissionData.action,
+      effect: permissionData.effect || 'allow',
+      conditions: permissionData.conditions,
+      description: permissionData.description || '',
+    };
 
-      if (hasRolePermission) {
-        return true;
-      }
+    this.permissions.set(permission.id, permission);
+    this.logger.log(`Permission created: ${permission.id} (${permission.effect} ${permission.action} on ${permission.resource})`);
+
+    return permission;
+  }
+
+  async grantPermission(userId: string, permissionId: string, grantedBy: string): Promise<void> {
+    const user = this.users.get(userId);
+    const permission = this.permissions.get(permissionId);
+
+    if (!user || !permission) {
+      throw new BadRequestException('User or permission not found');
+    }
+
+    await this.assertCanChangeAccess(grantedBy, user, [permission]);
+
+    if (user.permissions.some(p => p.id === permissionId)) {
+      throw new BadRequestException('User already has this permission');
+    }
+
+    user.permissions.push(permission);
+    user.updatedAt = new Date();
+    this.users.set(userId, user);
+
+    this.logger.log(`Permission ${permissionId} granted to user ${userId} by ${grantedBy}`);
+  }
+
+  async revokePermission(userId: string, permissionId: string, revokedBy: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new BadRequestException('User not found');
     }
 
-    return false;
+    const permission = user.permissions.find(p => p.id === permissionId);
+    await this.assertCanChangeAccess(revokedBy, user, permission ? [permission] : []);
+
+    user.permissions = user.permissions.filter(p => p.id !== permissionId);
+    user.updatedAt = new Date();
+    this.users.set(userId, user);
+
+    this.logger.log(`Permission ${permissionId} revoked from user ${userId} by ${revokedBy}`);
   }
 
   // Multi-Factor Authentication
@@ -393,6 +843,11 @@ export class IAMService {
       throw new BadRequestException('User not found');
     }
 
+    // Replacing an active authenticator goes through disableMFA, which needs re-verification
+    if (user.mfaSecret) {
+      throw new BadRequestException('An authenticator app is already enabled');
+    }
+
     const secret = speakeasy.generateSecret({
       name: `Nexus (${user.email})`,
       issuer: 'Nexus Platform',
@@ -401,8 +856,9 @@ export class IAMService {
     const qrCodeUrl = await QRCode.toDataURL(secret.otpauth_url!);
     const backupCodes = this.generateBackupCodes();
 
-    user.mfaSecret = secret.base32;
-    user.metadata.backupCodes = backupCodes;
+    // Nothing is active until confirmMFA proves the app was set up
+    user.metadata.pendingMfaSecret = secret.base32;
+    user.metadata.pendingBackupCodeHashes = backupCodes.map(code => this.hashBackupCode(code));
     this.users.set(userId, user);
 
     return {
@@ -414,12 +870,12 @@ export class IAMService {
 
   async confirmMFA(userId: string, token: string): Promise<void> {
     const user = this.users.get(userId);
-    if (!user || !user.mfaSecret) {
+    if (!user || !user.metadata.pendingMfaSecret) {
       throw new BadRequestException('MFA setup not found');
     }
 
     const isValid = speakeasy.totp.verify({
-      secret: user.mfaSecret,
+      secret: user.metadata.pendingMfaSecret,
       encoding: 'base32',
       token,
       window: 2,
@@ -429,13 +885,182 @@ export class IAMService {
       throw new BadRequestException('Invalid MFA token');
     }
 
-    user.mfaEnabled = true;
+    user.mfaSecret = user.metadata.pendingMfaSecret;
+    user.metadata.backupCodeHashes = user.metadata.pendingBackupCodeHashes;
+    delete user.metadata.pendingMfaSecret;
+    delete user.metadata.pendingBackupCodeHashes;
+    this.syncMfaEnabled(user);
     user.updatedAt = new Date();
     this.users.set(userId, user);
 
     this.logger.log(`MFA enabled for user ${userId}`);
   }
 
+  async startPasskeyRegistration(userId: string) {
+    const user = this.users.get(userId);
+    if (!user || !user.isActive) {
+      throw new BadRequestException('User not found');
+    }
+
+    return this.webauthn.registrationOptions({
+      id: user.id,
+      email: user.email,
+      displayName: `${user.firstName} ${user.lastName}`.trim() || user.email,
+    });
+  }
+
+  // The first second factor a user registers also issues their backup codes
+  async finishPasskeyRegistration(
+    userId: string,
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    name?: string
+  ): Promise<{ passkey: Passkey; backupCodes?: string[] }> {
+    const user = this.users.get(userId);
+    if (!user || !user.isActive) {
+      throw new BadRequestException('User not found');
+    }
+
+    const credential = await this.webauthn.verifyRegistration(userId, challengeId, response, name);
+
+    let backupCodes: string[] | undefined;
+    if (!user.mfaEnabled) {
+      backupCodes = this.generateBackupCodes();
+      user.metadata.backupCodeHashes = backupCodes.map(code => this.hashBackupCode(code));
+    }
+
+    this.syncMfaEnabled(user);
+    user.updatedAt = new Date();
+    this.users.set(userId, user);
+
+    return { passkey: this.toPasskey(credential), backupCodes };
+  }
+
+  async getPasskeys(userId: string): Promise<Passkey[]> {
+    return this.webauthn.getCredentials(userId).map(credential => this.toPasskey(credential));
+  }
+
+  async removePasskey(userId: string, credentialId: string, recoveryToken: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user || this.verifyPurposeToken(recoveryToken, 'mfa_recovery') !== userId) {
+      throw new UnauthorizedException('Re-verification required');
+    }
+
+    this.webauthn.removeCredential(userId, credentialId);
+    this.syncMfaEnabled(user);
+    if (!user.mfaEnabled) {
+      delete user.metadata.backupCodeHashes;
+    }
+    user.updatedAt = new Date();
+    this.users.set(userId, user);
+  }
+
+  async getBackupCodeStatus(userId: string): Promise<{ remaining: number }> {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new BadRequestException('User not found');
+    }
+
+    return { remaining: this.countBackupCodes(user) };
+  }
+
+  // Invalidates every earlier code
+  async regenerateBackupCodes(userId: string, recoveryToken: string): Promise<{ backupCodes: string[] }> {
+    const user = this.users.get(userId);
+    if (!user || this.verifyPurposeToken(recoveryToken, 'mfa_recovery') !== userId) {
+      throw new UnauthorizedException('Re-verification required');
+    }
+
+    if (!user.mfaEnabled) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    user.metadata.backupCodeHashes = backupCodes.map(code => this.hashBackupCode(code));
+    user.updatedAt = new Date();
+    this.users.set(userId, user);
+
+    this.logger.log(`Backup codes regenerated for user ${userId}`);
+    return { backupCodes };
+  }
+
+  /**
+   * Proves the account holder is present before MFA is weakened: the
+   * password, plus one current second factor (TOTP, backup code or passkey
+   * assertion) when MFA is on. The returned token authorizes disableMFA,
+   * removePasskey and regenerateBackupCodes for ten minutes.
+   */
+  async reverifyIdentity(
+    userId: string,
+    verification: {
+      password?: string;
+      mfaCode?: string;
+      passkey?: { challengeId: string; response: AuthenticationResponseJSON };
+    }
+  ): Promise<{ recoveryToken: string; backupCodesRemaining?: number }> {
+    const user = this.users.get(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    if (!user.metadata.passwordHash && !user.mfaEnabled) {
+      throw new BadRequestException('No credentials to re-verify');
+    }
+
+    if (user.metadata.passwordHash) {
+      const isPasswordValid = await bcrypt.compare(verification.password || '', user.metadata.passwordHash);
+      if (!isPasswordValid) {
+        throw new UnauthorizedException('Invalid credentials');
+      }
+    }
+
+    let backupCodesRemaining: number | undefined;
+    if (user.mfaEnabled) {
+      if (verification.passkey) {
+        const { credential } = await this.webauthn.verifyAuthentication(
+          verification.passkey.challengeId,
+          verification.passkey.response
+        );
+        if (credential.userId !== userId) {
+          throw new UnauthorizedException('Invalid passkey');
+        }
+      } else {
+        const method = verification.mfaCode ? this.verifyMfaCode(user, verification.mfaCode) : undefined;
+        if (!method) {
+          throw new UnauthorizedException('Invalid MFA code');
+        }
+        if (method === 'backup_code') {
+          backupCodesRemaining = this.countBackupCodes(user);
+        }
+      }
+    }
+
+    this.logger.log(`Identity re-verified for user ${userId}`);
+    return {
+      recoveryToken: this.signPurposeToken(userId, 'mfa_recovery', '10m'),
+      backupCodesRemaining,
+    };
+  }
+
+  // Removes every second factor; a tenant with mfaRequired makes the user enroll again at next login
+  async disableMFA(userId: string, recoveryToken: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user || this.verifyPurposeToken(recoveryToken, 'mfa_recovery') !== userId) {
+      throw new UnauthorizedException('Re-verification required');
+    }
+
+    const passkeys = this.webauthn.removeAllCredentials(userId);
+    user.mfaSecret = undefined;
+    delete user.metadata.backupCodeHashes;
+    delete user.metadata.pendingMfaSecret;
+    delete user.metadata.pendingBackupCodeHashes;
+    this.syncMfaEnabled(user);
+    user.updatedAt = new Date();
+    this.users.set(userId, user);
+
+    this.logger.log(`MFA disabled for user ${userId} (${passkeys} passkeys removed)`);
+  }
+
   // Session Management
   async createSession(
     userId: string,
@@ -452,21 +1077,30 @@ export class IAMService {
       throw new BadRequestException('Tenant not found');
     }
 
-    // Check session limits
-    const userSessions = Array.from(this.sessions.values())
-      .filter(s => s.userId === userId && s.isActive);
+    // Check session limits, ignoring sessions that have already timed out
+    const userSessions: Session[] = [];
+    for (const session of this.sessions.values()) {
+      if (session.userId !== userId || !session.isActive) {
+        continue;
+      }
+
+      if (this.sessionExpiry(session, tenant)) {
+        await this.revokeSession(session.id, 'expired');
+      } else {
+        userSessions.push(session);
+      }
+    }
 
-    if (userSessions.length >= tenant.settings.maxSessions) {
-      // Remove oldest session
-      const oldestSession = userSessions.sort((a, b) => 
-        a.createdAt.getTime() - b.createdAt.getTime()
-      )[0];
-      
-      await this.revokeSession(oldestSession.id);
+    // Evict oldest sessions until the new one fits, which may be several if maxSessions was lowered
+    userSessions.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const excess = userSessions.length - Math.max(tenant.settings.maxSessions - 1, 0);
+    for (const session of userSessions.slice(0, Math.max(excess, 0))) {
+      await this.revokeSession(session.id, 'session limit reached');
     }
 
     const sessionId = this.generateId();
     const { accessToken, refreshToken } = await this.generateTokens(user);
+    const now = new Date();
 
     const session: Session = {
       id: sessionId,
@@ -474,23 +1108,43 @@ export class IAMService {
       tenantId: user.tenantId,
       accessToken,
       refreshToken,
-      expiresAt: new Date(Date.now() + tenant.settings.sessionTimeout),
+      expiresAt: new Date(now.getTime() + tenant.settings.sessionTimeout),
       ipAddress,
       userAgent,
       isActive: true,
-      createdAt: new Date(),
+      lastActivityAt: now,
+      createdAt: now,
     };
 
     this.sessions.set(sessionId, session);
     return session;
   }
 
-  async revokeSession(sessionId: string): Promise<void> {
+  // Checks a session on use and records the activity that keeps it from idling out
+  async validateSession(sessionId: string): Promise<Session> {
+    const session = this.sessions.get(sessionId);
+    if (!session || !session.isActive) {
+      throw new UnauthorizedException('Invalid session');
+    }
+
+    const tenant = this.tenants.get(session.tenantId);
+    const expiry = tenant ? this.sessionExpiry(session, tenant) : 'tenant not found';
+    if (expiry) {
+      await this.revokeSession(sessionId, expiry);
+      throw new UnauthorizedException('Session expired');
+    }
+
+    session.lastActivityAt = new Date();
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  async revokeSession(sessionId: string, reason?: string): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (session) {
       session.isActive = false;
       this.sessions.set(sessionId, session);
-      this.logger.log(`Session revoked: ${sessionId}`);
+      this.logger.log(`Session revoked: ${sessionId}${reason ? ` (${reason})` : ''}`);
     }
   }
 
@@ -520,6 +1174,7 @@ export class IAMService {
         },
         mfaRequired: false,
         sessionTimeout: 24 * 60 * 60 * 1000,
+        idleTimeout: 30 * 60 * 1000,
         maxSessions: 5,
         ...tenantData.settings,
       },
@@ -592,6 +1247,8 @@ export class IAMService {
     accessToken: string;
     refreshToken: string;
   }> {
+    this.expireRoleAssignments(user.id);
+
     const payload = {
       sub: user.id,
       email: user.email,
@@ -630,14 +1287,418 @@ export class IAMService {
     }
   }
 
+  // Directly assigned roles first, then their ancestors breadth-first; each role appears once
+  private resolveRoles(user: User): Array<{ role: Role; inheritedFrom?: string }> {
+    this.expireRoleAssignments(user.id);
+
+    const resolved: Array<{ role: Role; inheritedFrom?: string }> = [];
+    const seen = new Set<string>();
+    const queue: Array<{ role: Role; inheritedFrom?: string }> = user.roles.map(role => ({
+      role: this.roles.get(role.id) || role,
+    }));
+
+    while (queue.length) {
+      const entry = queue.shift()!;
+      if (seen.has(entry.role.id)) {
+        continue;
+      }
+
+      seen.add(entry.role.id);
+      resolved.push(entry);
+
+      for (const parentId of entry.role.parentRoleIds || []) {
+        const parent = this.roles.get(parentId);
+        if (parent) {
+          queue.push({ role: parent, inheritedFrom: entry.role.id });
+        }
+      }
+    }
+
+    return resolved;
+  }
+
+  private validateParentRoles(role: Role, parentRoleIds: string[]): string[] {
+    const unique = Array.from(new Set(parentRoleIds));
+
+    for (const parentId of unique) {
+      const parent = this.roles.get(parentId);
+      if (!parent) {
+        throw new BadRequestException(`Parent role ${parentId} not found`);
+      }
+      if (parent.tenantId !== role.tenantId && !parent.isSystem) {
+        throw new BadRequestException(`Parent role ${parentId} belongs to another tenant`);
+      }
+      if (this.grantsSystemAdmin(this.inheritedPermissions([parentId]))) {
+        throw new ForbiddenException(`Role ${parentId} grants system administration and cannot be inherited`);
+      }
+
+      const cycle = this.findInheritancePath(parentId, role.id);
+      if (cycle) {
+        throw new BadRequestException(`Role inheritance cycle: ${[role.id, ...cycle].join(' -> ')}`);
+      }
+    }
+
+    return unique;
+  }
+
+  // Path of role ids from `fromId` up through its ancestors to `targetId`, if there is one
+  private findInheritancePath(fromId: string, targetId: string, visited = new Set<string>()): string[] | undefined {
+    if (fromId === targetId) {
+      return [fromId];
+    }
+    if (visited.has(fromId)) {
+      return undefined;
+    }
+
+    visited.add(fromId);
+    for (const parentId of this.roles.get(fromId)?.parentRoleIds || []) {
+      const path = this.findInheritancePath(parentId, targetId, visited);
+      if (path) {
+        return [fromId, ...path];
+      }
+    }
+
+    return undefined;
+  }
+
+  // Every permission carried by the given roles and their ancestors
+  private inheritedPermissions(roleIds: string[]): Permission[] {
+    const permissions = new Map<string, Permission>();
+    const seen = new Set<string>();
+    const queue = [...roleIds];
+
+    while (queue.length) {
+      const role = this.roles.get(queue.shift()!);
+      if (!role || seen.has(role.id)) {
+        continue;
+      }
+
+      seen.add(role.id);
+      role.permissions.forEach(permission => permissions.set(permission.id, permission));
+      queue.push(...role.parentRoleIds);
+    }
+
+    return Array.from(permissions.values());
+  }
+
+  private grantsSystemAdmin(permissions: Permission[]): boolean {
+    return permissions.some(p => p.id === 'system.admin');
+  }
+
+  /**
+   * Giving a user roles or permissions, or taking them away: the actor has to
+   * manage roles in the user's tenant and hold everything that changes hands,
+   * and only system admins touch system administration.
+   */
+  private async assertCanChangeAccess(actorId: string, user: User, permissions: Permission[]): Promise<void> {
+    await this.assertCanManageRoles(actorId, user.tenantId);
+
+    if (this.grantsSystemAdmin(permissions) && !(await this.hasPermission(actorId, 'system', 'admin'))) {
+      throw new ForbiddenException('Only system administrators can change system administration access');
+    }
+
+    this.assertCanGrant(actorId, permissions);
+  }
+
+  // Nobody can hand out access they do not have; denies only take access away, so anyone may add them
+  private assertCanGrant(actorId: string, permissions: Permission[]): void {
+    const actor = this.users.get(actorId);
+    const held = new Set([
+      ...(actor?.permissions || []),
+      ...(actor ? this.resolveRoles(actor).flatMap(({ role }) => role.permissions) : []),
+    ].map(p => p.id));
+
+    const missing = permissions
+      .filter(p => p.effect !== 'deny' && !held.has(p.id))
+      .map(p => p.id);
+    if (missing.length) {
+      throw new ForbiddenException(`Cannot grant permissions you do not hold: ${Array.from(new Set(missing)).join(', ')}`);
+    }
+  }
+
+  private resolvePermissions(permissionIds: string[]): Permission[] {
+    return Array.from(new Set(permissionIds)).map(permissionId => {
+      const permission = this.permissions.get(permissionId);
+      if (!permission) {
+        throw new BadRequestException(`Permission ${permissionId} not found`);
+      }
+      return permission;
+    });
+  }
+
+  private assertRoleNameAvailable(tenantId: string, name: string): void {
+    const taken = Array.from(this.roles.values())
+      .some(r => r.tenantId === tenantId && r.name.toLowerCase() === name.toLowerCase());
+
+    if (taken) {
+      throw new BadRequestException(`Role ${name} already exists`);
+    }
+  }
+
+  // Tenant admins manage their own tenant's roles; system admins manage any tenant's
+  private async assertCanManageRoles(actorId: string, tenantId: string): Promise<void> {
+    const actor = this.users.get(actorId);
+    if (!actor) {
+      throw new ForbiddenException('Not allowed to manage roles');
+    }
+
+    const isSystemAdmin = await this.hasPermission(actorId, 'system', 'admin');
+    if (actor.tenantId !== tenantId && !isSystemAdmin) {
+      throw new ForbiddenException('Not allowed to manage roles in another tenant');
+    }
+
+    if (!isSystemAdmin && !(await this.hasPermission(actorId, 'roles', 'manage', { resource: { tenantId } }))) {
+      throw new ForbiddenException('Not allowed to manage roles');
+    }
+  }
+
+  // Drops time-bound role assignments that have run out, for one user or everyone
+  private expireRoleAssignments(userId?: string): void {
+    const now = Date.now();
+
+    for (const [key, assignment] of this.roleAssignments) {
+      if ((userId && assignment.userId !== userId) || !assignment.expiresAt || assignment.expiresAt.getTime() > now) {
+        continue;
+      }
+
+      this.roleAssignments.delete(key);
+      const user = this.users.get(assignment.userId);
+      if (user) {
+        user.roles = user.roles.filter(r => r.id !== assignment.roleId);
+        user.updatedAt = new Date();
+      }
+
+      this.logger.log(`Role ${assignment.roleId} expired for user ${assignment.userId}`);
+    }
+  }
+
+  // Only metadata.attributes is exposed to policies; the rest of metadata holds secrets
+  private toPolicySubject(user: User): PolicySubject {
+    return {
+      id: user.id,
+      email: user.email,
+      tenantId: user.tenantId,
+      roles: user.roles.map(r => r.id),
+      isVerified: user.isVerified,
+      mfaEnabled: user.mfaEnabled,
+      attributes: user.metadata.attributes || {},
+    };
+  }
+
+  private isPasswordExpired(user: User, policy: PasswordPolicy): boolean {
+    if (!policy.maxAge || !user.metadata.passwordHash) {
+      return false;
+    }
+
+    const changedAt = new Date(user.metadata.passwordChangedAt || user.createdAt);
+    return Date.now() - changedAt.getTime() > policy.maxAge * 24 * 60 * 60 * 1000;
+  }
+
+  private async checkPasswordReuse(user: User, password: string, policy: PasswordPolicy): Promise<void> {
+    if (!policy.preventReuse) {
+      return;
+    }
+
+    const previous = [user.metadata.passwordHash, ...(user.metadata.passwordHistory || [])]
+      .filter(Boolean)
+      .slice(0, policy.preventReuse);
+
+    for (const hash of previous) {
+      if (await bcrypt.compare(password, hash)) {
+        throw new BadRequestException(`Password must differ from the last ${policy.preventReuse} passwords`);
+      }
+    }
+  }
+
+  // Why the session is no longer usable, or undefined while it is
+  private sessionExpiry(session: Session, tenant: Tenant): string | undefined {
+    const now = Date.now();
+
+    if (session.expiresAt.getTime() <= now) {
+      return 'absolute timeout';
+    }
+    if (tenant.settings.idleTimeout && now - session.lastActivityAt.getTime() > tenant.settings.idleTimeout) {
+      return 'idle timeout';
+    }
+    return undefined;
+  }
+
+  // Shared tail of every login: password age and required MFA enrollment are checked before tokens are issued
+  private async completeLogin(
+    user: User,
+    pending: AuthenticationResult,
+    options: { passwordUsed: boolean }
+  ): Promise<AuthenticationResult> {
+    const tenant = this.tenants.get(user.tenantId);
+
+    // Expired passwords are changed with changePassword, which needs the current password
+    if (options.passwordUsed && tenant && this.isPasswordExpired(user, tenant.settings.passwordPolicy)) {
+      this.logger.log(`Password expired for user ${user.id}, change required`);
+      return { ...pending, requiresPasswordChange: true };
+    }
+
+    if (tenant?.settings.mfaRequired && !user.mfaEnabled) {
+      this.logger.log(`MFA enrollment required for user ${user.id}`);
+      return {
+        ...pending,
+        requiresMfaEnrollment: true,
+        mfaEnrollmentToken: this.signPurposeToken(user.id, 'mfa_enrollment', '15m'),
+      };
+    }
+
+    // Generate tokens
+    const { accessToken, refreshToken } = await this.generateTokens(user);
+
+    // Update last login
+    user.lastLoginAt = new Date();
+    this.users.set(user.id, user);
+
+    return {
+      ...pending,
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  private getMfaMethods(user: User): MfaMethod[] {
+    const methods: MfaMethod[] = [];
+
+    if (user.mfaSecret) {
+      methods.push('totp');
+    }
+    if (this.webauthn.getCredentials(user.id).length) {
+      methods.push('webauthn');
+    }
+    if (this.countBackupCodes(user)) {
+      methods.push('backup_code');
+    }
+    return methods;
+  }
+
+  // A six-digit code is tried as TOTP; anything else, or a TOTP miss, as a backup code
+  private verifyMfaCode(user: User, code: string): MfaMethod | undefined {
+    if (user.mfaSecret && /^\d{6}$/.test(code.trim())) {
+      const isValid = speakeasy.totp.verify({
+        secret: user.mfaSecret,
+        encoding: 'base32',
+        token: code.trim(),
+        window: 2,
+      });
+
+      if (isValid) {
+        return 'totp';
+      }
+    }
+
+    return this.redeemBackupCode(user, code) ? 'backup_code' : undefined;
+  }
+
+  // Each code works once; it is removed as soon as it matches
+  private redeemBackupCode(user: User, code: string): boolean {
+    const hashes: string[] = user.metadata.backupCodeHashes || [];
+    const candidate = Buffer.from(this.hashBackupCode(code), 'hex');
+
+    let match = -1;
+    hashes.forEach((hash, index) => {
+      if (timingSafeEqual(Buffer.from(hash, 'hex'), candidate) && match === -1) {
+        match = index;
+      }
+    });
+
+    if (match === -1) {
+      return false;
+    }
+
+    user.metadata.backupCodeHashes = hashes.filter((_, index) => index !== match);
+    user.updatedAt = new Date();
+    this.users.set(user.id, user);
+
+    this.logger.log(`Backup code used by user ${user.id}, ${user.metadata.backupCodeHashes.length} remaining`);
+    return true;
+  }
+
+  private countBackupCodes(user: User): number {
+    return (user.metadata.backupCodeHashes || []).length;
+  }
+
+  // Codes carry 50 random bits, so a fast hash is enough to keep them unreadable at rest
+  private hashBackupCode(code: string): string {
+    const normalized = code.replace(/[^0-9a-z]/gi, '').toUpperCase();
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private syncMfaEnabled(user: User): void {
+    user.mfaEnabled = !!user.mfaSecret || this.webauthn.getCredentials(user.id).length > 0;
+  }
+
+  private toPasskey(credential: WebAuthnCredential): Passkey {
+    const { publicKey, counter, ...passkey } = credential;
+    return passkey;
+  }
+
+  private verifyMfaEnrollmentToken(mfaEnrollmentToken: string): string {
+    const userId = this.verifyPurposeToken(mfaEnrollmentToken, 'mfa_enrollment');
+
+    // Once enrolled, a leftover token must not be able to replace the user's MFA secret
+    const user = this.users.get(userId);
+    if (!user || !user.isActive || user.mfaEnabled) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    return user.id;
+  }
+
+  /**
+   * Short-lived tokens that carry one step of a login or recovery flow to the
+   * next. Each purpose has its own audience, which access tokens lack, so a
+   * purpose token never verifies as another kind of token or vice versa.
+   */
+  private signPurposeToken(userId: string, type: PurposeTokenType, expiresIn: string): string {
+    return this.jwtService.sign(
+      { sub: userId, type },
+      { expiresIn, audience: `${this.PURPOSE_TOKEN_AUDIENCE}:${type}`, jwtid: randomBytes(16).toString('hex') },
+    );
+  }
+
+  // With singleUse the token is spent, and later attempts to verify it fail
+  private verifyPurposeToken(token: string, type: PurposeTokenType, options: { singleUse?: boolean } = {}): string {
+    let payload: { sub: string; type: string; jti?: string; exp: number };
+    try {
+      payload = this.jwtService.verify(token, { audience: `${this.PURPOSE_TOKEN_AUDIENCE}:${type}` });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    if (payload.type !== type) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    if (options.singleUse) {
+      const now = Date.now();
+      for (const [jti, expiresAt] of this.spentPurposeTokens) {
+        if (expiresAt <= now) {
+          this.spentPurposeTokens.delete(jti);
+        }
+      }
+
+      if (!payload.jti || this.spentPurposeTokens.has(payload.jti)) {
+        throw new UnauthorizedException('Invalid or expired token');
+      }
+      this.spentPurposeTokens.set(payload.jti, payload.exp * 1000);
+    }
+
+    return payload.sub;
+  }
+
   private generateId(): string {
     return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private generateBackupCodes(): string[] {
     const codes = [];
-    for (let i = 0; i < 10; i++) {
-      codes.push(Math.random().toString(36).substr(2, 8).toUpperCase());
+    for (let i = 0; i < this.BACKUP_CODE_COUNT; i++) {
+      const symbols = Array.from(randomBytes(10), byte => this.BACKUP_CODE_ALPHABET[byte % 32]).join('');
+      codes.push(`${symbols.slice(0, 5)}-${symbols.slice(5)}`);
     }
     return codes;
   }
@@ -659,7 +1720,7 @@ export class IAMService {
 
   async getAllRoles(tenantId: string): Promise<Role[]> {
     return Array.from(this.roles.values())
-      .filter(r => r.tenantId === tenantId);
+      .filter(r => r.tenantId === tenantId || r.isSystem);
   }
 
   async getAllPermissions(): Promise<Permission[]> {
@@ -0,0 +1,244 @@
+import { Injectable, Logger, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+} from '@simplewebauthn/server';
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+
+export interface WebAuthnCredential {
+  // Base64url credential ID as the authenticator reports it
+  id: string;
+  userId: string;
+  name: string;
+  publicKey: string;
+  counter: number;
+  transports?: AuthenticatorTransportFuture[];
+  // Synced passkeys are 'multiDevice'; security keys are 'singleDevice'
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+interface PendingChallenge {
+  challenge: string;
+  type: 'registration' | 'authentication';
+  // Absent for passwordless logins, where the credential identifies the user
+  userId?: string;
+  expiresAt: Date;
+}
+
+/**
+ * WebAuthn ceremonies for passkeys and security keys. The relying party is
+ * configured with WEBAUTHN_RP_ID, WEBAUTHN_RP_NAME and WEBAUTHN_ORIGINS
+ * (comma-separated). Challenges are single-use and expire after five
+ * minutes.
+ */
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+  private credentials = new Map<string, WebAuthnCredential>();
+  private challenges = new Map<string, PendingChallenge>();
+
+  private readonly rpID = process.env.WEBAUTHN_RP_ID || 'localhost';
+  private readonly rpName = process.env.WEBAUTHN_RP_NAME || 'Nexus Platform';
+  private readonly origins = (process.env.WEBAUTHN_ORIGINS || 'http://localhost:3000')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+  private readonly CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+  async registrationOptions(user: { id: string; email: string; displayName: string }): Promise<{
+    challengeId: string;
+    options: PublicKeyCredentialCreationOptionsJSON;
+  }> {
+    const options = await generateRegistrationOptions({
+      rpName: this.rpName,
+      rpID: this.rpID,
+      userID: new TextEncoder().encode(user.id),
+      userName: user.email,
+      userDisplayName: user.displayName,
+      attestationType: 'none',
+      // Stops the same authenticator being registered twice
+      excludeCredentials: this.getCredentials(user.id).map(credential => ({
+        id: credential.id,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+      },
+    });
+
+    return {
+      challengeId: this.storeChallenge({ challenge: options.challenge, type: 'registration', userId: user.id }),
+      options,
+    };
+  }
+
+  async verifyRegistration(
+    userId: string,
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    name?: string
+  ): Promise<WebAuthnCredential> {
+    const pending = this.takeChallenge(challengeId, 'registration');
+    if (pending.userId !== userId) {
+      throw new BadRequestException('Challenge was issued to another user');
+    }
+
+    let verification: Awaited<ReturnType<typeof verifyRegistrationResponse>>;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge: pending.challenge,
+        expectedOrigin: this.origins,
+        expectedRPID: this.rpID,
+        requireUserVerification: false,
+      });
+    } catch (error) {
+      throw new BadRequestException(`Passkey registration failed: ${error.message}`);
+    }
+
+    if (!verification.verified || !verification.registrationInfo) {
+      throw new BadRequestException('Passkey registration could not be verified');
+    }
+
+    const info = verification.registrationInfo;
+    if (this.credentials.has(info.credential.id)) {
+      throw new BadRequestException('This passkey is already registered');
+    }
+
+    const credential: WebAuthnCredential = {
+      id: info.credential.id,
+      userId,
+      name: name || `Passkey ${this.getCredentials(userId).length + 1}`,
+      publicKey: Buffer.from(info.credential.publicKey).toString('base64url'),
+      counter: info.credential.counter,
+      transports: info.credential.transports,
+      deviceType: info.credentialDeviceType,
+      backedUp: info.credentialBackedUp,
+      createdAt: new Date(),
+    };
+
+    this.credentials.set(credential.id, credential);
+    this.logger.log(`Passkey ${credential.id} registered for user ${userId}`);
+
+    return credential;
+  }
+
+  // With a user, only their credentials are offered; without one the browser picks a discoverable passkey
+  async authenticationOptions(userId?: string): Promise<{
+    challengeId: string;
+    options: PublicKeyCredentialRequestOptionsJSON;
+  }> {
+    const options = await generateAuthenticationOptions({
+      rpID: this.rpID,
+      allowCredentials: userId
+        ? this.getCredentials(userId).map(credential => ({ id: credential.id, transports: credential.transports }))
+        : [],
+      userVerification: userId ? 'preferred' : 'required',
+    });
+
+    return {
+      challengeId: this.storeChallenge({ challenge: options.challenge, type: 'authentication', userId }),
+      options,
+    };
+  }
+
+  async verifyAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON
+  ): Promise<{ credential: WebAuthnCredential; userVerified: boolean }> {
+    const pending = this.takeChallenge(challengeId, 'authentication');
+    const credential = this.credentials.get(response.id);
+
+    if (!credential || (pending.userId && credential.userId !== pending.userId)) {
+      throw new UnauthorizedException('Unknown passkey');
+    }
+
+    let verification: Awaited<ReturnType<typeof verifyAuthenticationResponse>>;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: pending.challenge,
+        expectedOrigin: this.origins,
+        expectedRPID: this.rpID,
+        credential: {
+          id: credential.id,
+          publicKey: new Uint8Array(Buffer.from(credential.publicKey, 'base64url')),
+          counter: credential.counter,
+          transports: credential.transports,
+        },
+        // Passwordless logins rely on the authenticator's PIN or biometric as the second factor
+        requireUserVerification: !pending.userId,
+      });
+    } catch (error) {
+      this.logger.warn(`Passkey assertion failed for credential ${credential.id}: ${error.message}`);
+      throw new UnauthorizedException('Invalid passkey');
+    }
+
+    if (!verification.verified) {
+      throw new UnauthorizedException('Invalid passkey');
+    }
+
+    credential.counter = verification.authenticationInfo.newCounter;
+    credential.lastUsedAt = new Date();
+    this.credentials.set(credential.id, credential);
+
+    return { credential, userVerified: verification.authenticationInfo.userVerified };
+  }
+
+  getCredentials(userId: string): WebAuthnCredential[] {
+    return Array.from(this.credentials.values()).filter(credential => credential.userId === userId);
+  }
+
+  removeCredential(userId: string, credentialId: string): void {
+    const credential = this.credentials.get(credentialId);
+    if (!credential || credential.userId !== userId) {
+      throw new BadRequestException('Passkey not found');
+    }
+
+    this.credentials.delete(credentialId);
+    this.logger.log(`Passkey ${credentialId} removed for user ${userId}`);
+  }
+
+  removeAllCredentials(userId: string): number {
+    const credentials = this.getCredentials(userId);
+    credentials.forEach(credential => this.credentials.delete(credential.id));
+    return credentials.length;
+  }
+
+  private storeChallenge(challenge: Omit<PendingChallenge, 'expiresAt'>): string {
+    const now = Date.now();
+    for (const [id, pending] of this.challenges) {
+      if (pending.expiresAt.getTime() <= now) {
+        this.challenges.delete(id);
+      }
+    }
+
+    const challengeId = `${now}_${Math.random().toString(36).substr(2, 9)}`;
+    this.challenges.set(challengeId, { ...challenge, expiresAt: new Date(now + this.CHALLENGE_TTL_MS) });
+    return challengeId;
+  }
+
+  // Challenges are consumed whether or not verification then succeeds
+  private takeChallenge(challengeId: string, type: PendingChallenge['type']): PendingChallenge {
+    const pending = this.challenges.get(challengeId);
+    this.challenges.delete(challengeId);
+
+    if (!pending || pending.type !== type || pending.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Challenge not found or expired');
+    }
+
+    return pending;
+  }
+}
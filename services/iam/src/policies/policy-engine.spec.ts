@@ -0,0 +1,84 @@
+import { BadRequestException } from '@nestjs/common';
+import { Policy, PolicyEngine, PolicySubject } from './policy-engine';
+
+describe('PolicyEngine', () => {
+  const engine = new PolicyEngine();
+  const subject: PolicySubject = {
+    id: 'user_1',
+    email: 'user@example.com',
+    tenantId: 'tenant_1',
+    roles: ['user'],
+    isVerified: true,
+    mfaEnabled: false,
+    attributes: {},
+  };
+
+  const allowRead: Policy = { id: 'allow', name: 'Read projects', resource: 'projects/**', action: 'read' };
+  const decide = (deny: Policy, context = {}) =>
+    engine.evaluate(subject, [{ policy: allowRead, source: 'direct' }, { policy: deny, source: 'direct' }], 'projects/42', 'read', context);
+
+  describe('denies with missing context', () => {
+    it('apply when the attribute they test is absent', () => {
+      const deny: Policy = {
+        id: 'deny-archived',
+        name: 'No reading archived projects',
+        resource: 'projects/**',
+        action: 'read',
+        effect: 'deny',
+        conditions: { attributes: [{ attribute: 'resource.archived', operator: 'eq', value: true }] },
+      };
+
+      expect(decide(deny, { resource: { archived: false } }).allowed).toBe(true);
+      expect(decide(deny).allowed).toBe(false);
+    });
+
+    it('apply when the IP address is absent or malformed', () => {
+      const deny: Policy = {
+        id: 'deny-office',
+        name: 'Not from the guest network',
+        resource: 'projects/**',
+        action: 'read',
+        effect: 'deny',
+        conditions: { ipRanges: ['10.20.0.0/16'] },
+      };
+
+      expect(decide(deny, { ipAddress: '192.168.1.10' }).allowed).toBe(true);
+      expect(decide(deny).allowed).toBe(false);
+      expect(decide(deny, { ipAddress: 'unknown' }).allowed).toBe(false);
+    });
+  });
+
+  describe('time windows', () => {
+    afterEach(() => jest.useRealTimers());
+
+    const denyNights: Policy = {
+      id: 'deny-nights',
+      name: 'No access at night',
+      resource: 'projects/**',
+      action: 'read',
+      effect: 'deny',
+      conditions: { timeWindow: { start: '22:00', end: '06:00' } },
+    };
+
+    it('deny on the server clock whatever time the context claims', () => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T23:30:00Z') });
+
+      expect(decide(denyNights, { time: '2026-10-19T12:00:00Z' }).allowed).toBe(false);
+    });
+
+    it('can only be narrowed by the time in the context', () => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+      const officeHours: Policy = { ...allowRead, conditions: { timeWindow: { start: '09:00', end: '17:00' } } };
+      const allowed = (context: object) =>
+        engine.evaluate(subject, [{ policy: officeHours, source: 'direct' }], 'projects/42', 'read', context).allowed;
+
+      expect(allowed({})).toBe(true);
+      expect(allowed({ time: '2026-10-19T20:00:00Z' })).toBe(false);
+      expect(decide(denyNights, { time: '2026-10-19T23:00:00Z' }).allowed).toBe(false);
+    });
+
+    it('reject an unparseable time', () => {
+      expect(() => decide(denyNights, { time: 'tomorrow-ish' })).toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,465 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { BlockList, isIP } from 'net';
+
+export type PolicyEffect = 'allow' | 'deny';
+
+export type ConditionOperator =
+  | 'eq'
+  | 'ne'
+  | 'in'
+  | 'nin'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'startsWith'
+  | 'exists';
+
+// A value to compare against, either literal or read from the request, e.g. { ref: 'subject.id' }
+export type ConditionValue = any | { ref: string };
+
+export interface AttributeCondition {
+  // Dotted path into the request: subject.*, resource.* or environment.*
+  attribute: string;
+  operator: ConditionOperator;
+  value?: ConditionValue;
+}
+
+export interface TimeWindowCondition {
+  // 24-hour "HH:mm"; a window whose end is before its start runs past midnight
+  start?: string;
+  end?: string;
+  // 0 = Sunday
+  days?: number[];
+  timezone?: string;
+  notBefore?: string;
+  notAfter?: string;
+}
+
+export interface PolicyConditions {
+  // resource.ownerId must equal subject.id
+  ownership?: boolean;
+  // resource.tenantId must equal subject.tenantId
+  sameTenant?: boolean;
+  timeWindow?: TimeWindowCondition;
+  // IPv4/IPv6 addresses or CIDR ranges the request must come from
+  ipRanges?: string[];
+  attributes?: AttributeCondition[];
+}
+
+/**
+ * What a permission check is about. `resource` carries the attributes of
+ * the object being accessed (ownerId, tenantId, ...); every other key is
+ * treated as an environment attribute.
+ */
+export interface AccessContext {
+  resource?: Record<string, any>;
+  ipAddress?: string;
+  // Defaults to now; see PolicyEngine for how it combines with the server clock
+  time?: Date | string;
+  [attribute: string]: any;
+}
+
+export interface PolicySubject {
+  id: string;
+  email: string;
+  tenantId: string;
+  roles: string[];
+  isVerified: boolean;
+  mfaEnabled: boolean;
+  attributes: Record<string, any>;
+}
+
+export interface Policy {
+  id: string;
+  name: string;
+  resource: string;
+  action: string;
+  effect?: PolicyEffect;
+  conditions?: PolicyConditions;
+}
+
+export interface PolicyCandidate {
+  policy: Policy;
+  // Where the policy came from, e.g. 'direct' or 'role:admin'
+  source: string;
+}
+
+export interface ConditionResult {
+  condition: string;
+  satisfied: boolean;
+  detail: string;
+}
+
+export interface PolicyEvaluation {
+  policyId: string;
+  policyName: string;
+  source: string;
+  effect: PolicyEffect;
+  applies: boolean;
+  conditions: ConditionResult[];
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  resource: string;
+  action: string;
+  reason: string;
+  decidingPolicy?: PolicyEvaluation;
+  evaluated: PolicyEvaluation[];
+}
+
+// Outcome of a single check; undefined means the request lacked the attribute it needs
+type CheckOutcome = { satisfied: boolean | undefined; detail: string };
+
+const OPERATORS: ConditionOperator[] = ['eq', 'ne', 'in', 'nin', 'gt', 'gte', 'lt', 'lte', 'contains', 'startsWith', 'exists'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Evaluates attribute-based access policies. A policy applies when its
+ * resource pattern and action match the request and all of its conditions
+ * hold. Any applicable deny wins over every allow; with no applicable
+ * allow the request is denied.
+ *
+ * Resources are paths such as `projects/42/files`. In patterns `*` matches
+ * one segment, a trailing `**` matches the rest of the path including
+ * nothing (so `projects/**` covers `projects` and everything under it), and
+ * a lone `*` matches every resource. An action of `*` matches any action.
+ *
+ * Missing context fails closed: a condition on an attribute the request
+ * does not carry is not met for an allow but is met for a deny, so leaving
+ * out an attribute or the IP address can never lift a deny. Evaluations
+ * flag such conditions so missing context shows up when debugging.
+ *
+ * Time windows are checked against the server clock as well as the time in
+ * the context, which can therefore only narrow access: an allow's window
+ * must hold at both, and a deny's window applies if either falls inside it.
+ */
+@Injectable()
+export class PolicyEngine {
+  evaluate(subject: PolicySubject, candidates: PolicyCandidate[], resource: string, action: string, context: AccessContext = {}): AccessDecision {
+    const request = this.buildRequest(subject, context);
+    const evaluated = candidates
+      .filter(({ policy }) => this.matchesResource(policy.resource, resource) && this.matchesAction(policy.action, action))
+      .map(candidate => this.evaluatePolicy(candidate, request));
+
+    const deny = evaluated.find(evaluation => evaluation.effect === 'deny' && evaluation.applies);
+    if (deny) {
+      return {
+        allowed: false,
+        resource,
+        action,
+        reason: `Denied by ${deny.policyId} (${deny.source})`,
+        decidingPolicy: deny,
+        evaluated,
+      };
+    }
+
+    const allow = evaluated.find(evaluation => evaluation.effect === 'allow' && evaluation.applies);
+    if (allow) {
+      return {
+        allowed: true,
+        resource,
+        action,
+        reason: `Allowed by ${allow.policyId} (${allow.source})`,
+        decidingPolicy: allow,
+        evaluated,
+      };
+    }
+
+    return {
+      allowed: false,
+      resource,
+      action,
+      reason: evaluated.length
+        ? `No matching policy had its conditions met for ${action} on ${resource}`
+        : `No policy grants ${action} on ${resource}`,
+      evaluated,
+    };
+  }
+
+  // Rejects conditions that could never be evaluated, so a typo fails loudly instead of silently denying
+  validateConditions(conditions: PolicyConditions | undefined): void {
+    if (!conditions) {
+      return;
+    }
+
+    const known = ['ownership', 'sameTenant', 'timeWindow', 'ipRanges', 'attributes'];
+    const unknown = Object.keys(conditions).filter(key => !known.includes(key));
+    if (unknown.length) {
+      throw new BadRequestException(`Unknown policy conditions: ${unknown.join(', ')}`);
+    }
+
+    const window = conditions.timeWindow;
+    if (window) {
+      if ((window.start && !TIME_OF_DAY.test(window.start)) || (window.end && !TIME_OF_DAY.test(window.end))) {
+        throw new BadRequestException('Time window start and end must be HH:mm');
+      }
+      if (window.days?.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+        throw new BadRequestException('Time window days must be 0 (Sunday) to 6');
+      }
+      if (window.timezone) {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone: window.timezone });
+        } catch {
+          throw new BadRequestException(`Unknown timezone ${window.timezone}`);
+        }
+      }
+      for (const date of [window.notBefore, window.notAfter]) {
+        if (date && isNaN(Date.parse(date))) {
+          throw new BadRequestException(`Invalid date ${date} in time window`);
+        }
+      }
+    }
+
+    for (const range of conditions.ipRanges || []) {
+      if (!this.parseRange(range)) {
+        throw new BadRequestException(`Invalid IP range ${range}`);
+      }
+    }
+
+    for (const condition of conditions.attributes || []) {
+      if (!/^(subject|resource|environment)\.\w+/.test(condition.attribute)) {
+        throw new BadRequestException(`Attribute ${condition.attribute} must start with subject., resource. or environment.`);
+      }
+      if (!OPERATORS.includes(condition.operator)) {
+        throw new BadRequestException(`Unknown operator ${condition.operator}`);
+      }
+      if ((condition.operator === 'in' || condition.operator === 'nin') && !Array.isArray(condition.value) && !this.isReference(condition.value)) {
+        throw new BadRequestException(`Operator ${condition.operator} needs a list of values`);
+      }
+    }
+  }
+
+  validateResourcePattern(pattern: string): void {
+    const segments = pattern.split('/');
+    if (segments.some(segment => !segment) || segments.slice(0, -1).includes('**')) {
+      throw new BadRequestException(`Invalid resource pattern ${pattern}; ** may only end a pattern`);
+    }
+  }
+
+  matchesResource(pattern: string, resource: string): boolean {
+    if (pattern === '*' || pattern === resource) {
+      return true;
+    }
+
+    const patternSegments = pattern.split('/');
+    const resourceSegments = resource.split('/');
+
+    for (let i = 0; i < patternSegments.length; i++) {
+      const segment = patternSegments[i];
+      if (segment === '**' && i === patternSegments.length - 1) {
+        return true;
+      }
+      if (i >= resourceSegments.length || (segment !== '*' && segment !== resourceSegments[i])) {
+        return false;
+      }
+    }
+
+    return patternSegments.length === resourceSegments.length;
+  }
+
+  private matchesAction(pattern: string, action: string): boolean {
+    return pattern === '*' || pattern === action;
+  }
+
+  private evaluatePolicy({ policy, source }: PolicyCandidate, request: Record<string, any>): PolicyEvaluation {
+    const effect = policy.effect || 'allow';
+    const conditions = this.checkConditions(policy.conditions, effect, request).map(({ condition, satisfied, detail }) => ({
+      condition,
+      satisfied: satisfied === undefined ? effect === 'deny' : satisfied,
+      detail: satisfied === undefined ? `${detail} (attribute missing)` : detail,
+    }));
+
+    return {
+      policyId: policy.id,
+      policyName: policy.name,
+      source,
+      effect,
+      applies: conditions.every(condition => condition.satisfied),
+      conditions,
+    };
+  }
+
+  private checkConditions(
+    conditions: PolicyConditions | undefined,
+    effect: PolicyEffect,
+    request: Record<string, any>,
+  ): Array<CheckOutcome & { condition: string }> {
+    if (!conditions) {
+      return [];
+    }
+
+    const results: Array<CheckOutcome & { condition: string }> = [];
+
+    if (conditions.ownership) {
+      results.push({
+        condition: 'ownership',
+        ...this.compare({ attribute: 'resource.ownerId', operator: 'eq', value: { ref: 'subject.id' } }, request),
+      });
+    }
+    if (conditions.sameTenant) {
+      results.push({
+        condition: 'sameTenant',
+        ...this.compare({ attribute: 'resource.tenantId', operator: 'eq', value: { ref: 'subject.tenantId' } }, request),
+      });
+    }
+    if (conditions.timeWindow) {
+      const window = conditions.timeWindow;
+      const outcomes = [request.now, request.environment.time].map((time: Date) => this.checkTimeWindow(window, time));
+      // The outcome that restricts access most: inside for a deny, outside for an allow
+      const outcome = outcomes.find(({ satisfied }) => satisfied === (effect === 'deny')) || outcomes[0];
+      results.push({ condition: 'timeWindow', ...outcome });
+    }
+    if (conditions.ipRanges) {
+      results.push({ condition: 'ipRanges', ...this.checkIpRanges(conditions.ipRanges, request.environment.ipAddress) });
+    }
+    for (const condition of conditions.attributes || []) {
+      results.push({ condition: `${condition.attribute} ${condition.operator}`, ...this.compare(condition, request) });
+    }
+
+    return results;
+  }
+
+  private compare(condition: AttributeCondition, request: Record<string, any>): CheckOutcome {
+    const actual = this.resolve(request, condition.attribute);
+
+    if (condition.operator === 'exists') {
+      const expected = condition.value !== false;
+      return { satisfied: (actual !== undefined) === expected, detail: `${condition.attribute} is ${actual === undefined ? 'absent' : 'present'}` };
+    }
+
+    const expected = this.isReference(condition.value) ? this.resolve(request, condition.value.ref) : condition.value;
+    const expectedLabel = this.isReference(condition.value) ? condition.value.ref : JSON.stringify(expected);
+    if (actual === undefined || expected === undefined) {
+      return { satisfied: undefined, detail: `${condition.attribute} ${condition.operator} ${expectedLabel}` };
+    }
+
+    const detail = `${condition.attribute} (${JSON.stringify(actual)}) ${condition.operator} ${expectedLabel}`;
+    switch (condition.operator) {
+      case 'eq':
+        return { satisfied: actual === expected, detail };
+      case 'ne':
+        return { satisfied: actual !== expected, detail };
+      case 'in':
+        return { satisfied: Array.isArray(expected) && expected.includes(actual), detail };
+      case 'nin':
+        return { satisfied: Array.isArray(expected) && !expected.includes(actual), detail };
+      case 'gt':
+        return { satisfied: actual > expected, detail };
+      case 'gte':
+        return { satisfied: actual >= expected, detail };
+      case 'lt':
+        return { satisfied: actual < expected, detail };
+      case 'lte':
+        return { satisfied: actual <= expected, detail };
+      case 'contains':
+        return { satisfied: (Array.isArray(actual) || typeof actual === 'string') && actual.includes(expected), detail };
+      case 'startsWith':
+        return { satisfied: typeof actual === 'string' && actual.startsWith(String(expected)), detail };
+      default:
+        return { satisfied: false, detail: `Unknown operator ${condition.operator}` };
+    }
+  }
+
+  private checkTimeWindow(window: TimeWindowCondition, time: Date): CheckOutcome {
+    if (window.notBefore && time < new Date(window.notBefore)) {
+      return { satisfied: false, detail: `Not valid before ${window.notBefore}` };
+    }
+    if (window.notAfter && time > new Date(window.notAfter)) {
+      return { satisfied: false, detail: `Expired after ${window.notAfter}` };
+    }
+
+    const timezone = window.timezone || 'UTC';
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(time);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday'));
+    const clock = `${part('hour')}:${part('minute')}`;
+    const detail = `${clock} on day ${day} (${timezone})`;
+
+    if (window.days && !window.days.includes(day)) {
+      return { satisfied: false, detail: `${detail} is outside days ${window.days.join(',')}` };
+    }
+
+    const start = window.start || '00:00';
+    const end = window.end || '24:00';
+    const inside = start <= end ? clock >= start && clock < end : clock >= start || clock < end;
+    return { satisfied: inside, detail: `${detail} ${inside ? 'is inside' : 'is outside'} ${start}-${end}` };
+  }
+
+  private checkIpRanges(ranges: string[], ipAddress: string | undefined): CheckOutcome {
+    if (!ipAddress) {
+      return { satisfied: undefined, detail: 'environment.ipAddress' };
+    }
+
+    // Express reports IPv4 clients on dual-stack sockets as IPv4-mapped IPv6
+    const address = ipAddress.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+    const family = isIP(address);
+    if (!family) {
+      return { satisfied: undefined, detail: `environment.ipAddress (${ipAddress} is not an IP address)` };
+    }
+
+    const blockList = new BlockList();
+    for (const range of ranges) {
+      const parsed = this.parseRange(range);
+      if (parsed) {
+        blockList.addSubnet(parsed.network, parsed.prefix, parsed.type);
+      }
+    }
+
+    const inside = blockList.check(address, family === 6 ? 'ipv6' : 'ipv4');
+    return { satisfied: inside, detail: `${address} ${inside ? 'is in' : 'is not in'} ${ranges.join(', ')}` };
+  }
+
+  private parseRange(range: string): { network: string; prefix: number; type: 'ipv4' | 'ipv6' } | undefined {
+    const [network, prefixText] = range.split('/');
+    const family = isIP(network);
+    if (!family) {
+      return undefined;
+    }
+
+    const maxPrefix = family === 6 ? 128 : 32;
+    const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+      return undefined;
+    }
+
+    return { network, prefix, type: family === 6 ? 'ipv6' : 'ipv4' };
+  }
+
+  private buildRequest(subject: PolicySubject, context: AccessContext): Record<string, any> {
+    const { resource, time, ...environment } = context;
+    const now = new Date();
+
+    const requestedTime = time ? new Date(time) : now;
+    if (isNaN(requestedTime.getTime())) {
+      throw new BadRequestException(`Invalid time ${time}`);
+    }
+
+    return {
+      subject,
+      resource: resource || {},
+      environment: {
+        ...environment,
+        time: requestedTime,
+      },
+      // Outside subject/resource/environment, so conditions cannot refer to it
+      now,
+    };
+  }
+
+  private resolve(request: Record<string, any>, path: string): any {
+    return path.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), request);
+  }
+
+  private isReference(value: ConditionValue): value is { ref: string } {
+    return !!value && typeof value === 'object' && !Array.isArray(value) && typeof value.ref === 'string';
+  }
+}
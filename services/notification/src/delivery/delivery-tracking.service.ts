@@ -0,0 +1,73 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { createClient, RedisClientType } from 'redis';
+
+// 'sent' = accepted by the provider; 'delivered' = provider confirmed it reached the recipient
+export type DeliveryState = 'sent' | 'delivered' | 'failed';
+
+@Injectable()
+export class DeliveryTrackingService implements OnModuleInit {
+  private readonly logger = new Logger(DeliveryTrackingService.name);
+  private redis: RedisClientType;
+  private readonly KEY_PREFIX = 'notification:delivery';
+  private readonly TTL_SECONDS = 7 * 24 * 60 * 60;
+
+  async onModuleInit() {
+    this.redis = createClient({
+      socket: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+      },
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.error('Redis connection error:', error.message);
+    });
+
+    await this.redis.connect();
+    this.logger.log('Connected to Redis for delivery tracking');
+  }
+
+  /**
+   * Records the state of a notification on one channel. A provider message id
+   * (e.g. a Twilio SID) can be attached so later status callbacks find it.
+   */
+  async markState(notificationId: string, channel: string, state: DeliveryState, providerId?: string): Promise<void> {
+    const key = this.deliveryKey(notificationId);
+    const pipeline = this.redis.multi().hSet(key, channel, state).expire(key, this.TTL_SECONDS);
+
+    if (providerId) {
+      pipeline.set(this.providerKey(providerId), `${channel}:${notificationId}`, { EX: this.TTL_SECONDS });
+    }
+
+    await pipeline.exec();
+  }
+
+  // Applies a provider status callback; returns false for unknown provider ids
+  async markProviderState(providerId: string, state: DeliveryState): Promise<boolean> {
+    const reference = await this.redis.get(this.providerKey(providerId));
+    if (!reference) {
+      return false;
+    }
+
+    const separator = reference.indexOf(':');
+    await this.markState(reference.substring(separator + 1), reference.substring(0, separator), state);
+    return true;
+  }
+
+  async getStates(notificationId: string): Promise<Record<string, DeliveryState>> {
+    return (await this.redis.hGetAll(this.deliveryKey(notificationId))) as Record<string, DeliveryState>;
+  }
+
+  async isDelivered(notificationId: string, channels: string[]): Promise<boolean> {
+    const states = await this.getStates(notificationId);
+    return channels.some((channel) => states[channel] === 'delivered');
+  }
+
+  private deliveryKey(notificationId: string): string {
+    return `${this.KEY_PREFIX}:${notificationId}`;
+  }
+
+  private providerKey(providerId: string): string {
+    return `${this.KEY_PREFIX}:provider:${providerId}`;
+  }
+}
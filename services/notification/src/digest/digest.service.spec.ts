@@ -0,0 +1,76 @@
+import { DigestService } from './digest.service';
+
+describe('DigestService', () => {
+  let service: DigestService;
+  let emailQueue: { add: jest.Mock };
+  let hashes: Map<string, Record<string, string>>;
+  let due: Map<string, number>;
+
+  beforeEach(() => {
+    hashes = new Map();
+    due = new Map();
+    emailQueue = { add: jest.fn() };
+
+    service = new DigestService(emailQueue as any, { add: jest.fn() } as any);
+    (service as any).redis = {
+      hGet: async (key: string, field: string) => hashes.get(key)?.[field] ?? null,
+      hGetAll: async (key: string) => ({ ...(hashes.get(key) || {}) }),
+      del: async (keys: string[]) => keys.forEach((key) => hashes.delete(key)),
+      zScore: async (_key: string, member: string) => due.get(member) ?? null,
+      zRangeByScore: async (_key: string, min: number, max: number) =>
+        [...due].filter(([, score]) => score >= min && score <= max).map(([member]) => member),
+      multi: () => {
+        const chain = {
+          hSet: (key: string, field: string | Record<string, string>, value?: string) => {
+            hashes.set(key, { ...hashes.get(key), ...(typeof field === 'string' ? { [field]: value! } : field) });
+            return chain;
+          },
+          zAdd: (_key: string, { score, value }: { score: number; value: string }) => {
+            due.set(value, due.get(value) ?? score);
+            return chain;
+          },
+          exec: async () => undefined,
+        };
+        return chain;
+      },
+      // Stands in for CLAIM_BUCKET_SCRIPT, which runs atomically on the server
+      eval: async (_script: string, { keys: [, bucket, recipient, claimed, claimedRecipient] }: { keys: string[] }) => {
+        if (!due.delete(bucket) || !hashes.has(bucket)) {
+          return 0;
+        }
+        hashes.set(claimed, hashes.get(bucket)!);
+        hashes.set(claimedRecipient, hashes.get(recipient)!);
+        hashes.delete(bucket);
+        hashes.delete(recipient);
+        return 1;
+      },
+    };
+  });
+
+  it('sends a closed window once, using the stored recipient details', async () => {
+    const now = new Date('2026-03-02T10:15:00Z');
+    const entry = {
+      id: 'n1',
+      userId: 'org:42:user:7',
+      channel: 'email',
+      category: 'mentions',
+      template: 'mention',
+      data: { title: 'You were mentioned' },
+      to: 'user@example.com',
+    };
+
+    const windowEnd = await service.collect(entry, 'hourly', 'UTC', now);
+    const [first, second] = await Promise.all([service.flushDue(windowEnd), service.flushDue(windowEnd)]);
+
+    expect(first + second).toBe(1);
+    expect(emailQueue.add).toHaveBeenCalledTimes(1);
+    expect(emailQueue.add.mock.calls[0][1]).toMatchObject({
+      userId: 'org:42:user:7',
+      channel: 'email',
+      category: 'mentions',
+      frequency: 'hourly',
+      to: 'user@example.com',
+      items: [expect.objectContaining({ summary: 'You were mentioned', count: 1 })],
+    });
+  });
+});
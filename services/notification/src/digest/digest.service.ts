@@ -0,0 +1,266 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Queue } from 'bull';
+import { randomUUID } from 'crypto';
+import { createClient, RedisClientType } from 'redis';
+import { DigestFrequency, getLocalTime } from '../preferences/notification-preference.service';
+
+// Channels that can render a digest; anything else is always sent immediately
+export const DIGEST_CHANNELS = ['email', 'slack'];
+
+export interface DigestItem {
+  notificationId: string;
+  template: string;
+  summary: string;
+  actionUrl?: string;
+  // Notifications sharing a collapse key are merged into one item
+  collapseKey: string;
+  count: number;
+  firstAt: string;
+  lastAt: string;
+  data: Record<string, any>;
+}
+
+export interface DigestJob {
+  id: string;
+  userId: string;
+  channel: string;
+  category: string;
+  frequency: DigestFrequency;
+  items: DigestItem[];
+  // Taken from the most recent notification in the window
+  to?: string;
+  locale?: string;
+  windowEnd: string;
+}
+
+export interface DigestEntry {
+  id: string;
+  userId: string;
+  channel: string;
+  category: string;
+  template: string;
+  data: Record<string, any>;
+  collapseKey?: string;
+  to?: string;
+  locale?: string;
+}
+
+// Takes a closed bucket off the due set and moves it aside in one step, so a
+// bucket is claimed by exactly one instance and nothing collected in between
+// is lost. KEYS: due set, bucket, its recipient hash, and their claimed names.
+const CLAIM_BUCKET_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 0 or redis.call('EXISTS', KEYS[2]) == 0 then
+  return 0
+end
+redis.call('RENAME', KEYS[2], KEYS[4])
+if redis.call('EXISTS', KEYS[3]) == 1 then
+  redis.call('RENAME', KEYS[3], KEYS[5])
+end
+return 1
+`;
+
+@Injectable()
+export class DigestService implements OnModuleInit {
+  private readonly logger = new Logger(DigestService.name);
+  private redis: RedisClientType;
+  private readonly KEY_PREFIX = 'notification:digest';
+  private readonly DUE_KEY = 'notification:digest:due';
+  // Local hour at which daily and weekly digests go out
+  private readonly SEND_HOUR = parseInt(process.env.DIGEST_SEND_HOUR || '8');
+  // 1 = Monday
+  private readonly WEEKLY_DAY = parseInt(process.env.DIGEST_WEEKLY_DAY || '1');
+  private readonly MAX_ITEMS = parseInt(process.env.DIGEST_MAX_ITEMS || '50');
+
+  constructor(
+    @InjectQueue('email-notifications') private emailQueue: Queue,
+    @InjectQueue('slack-notifications') private slackQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    this.redis = createClient({
+      socket: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+      },
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.error('Redis connection error:', error.message);
+    });
+
+    await this.redis.connect();
+    this.logger.log('Connected to Redis for notification digests');
+  }
+
+  /**
+   * Adds a notification to the user's open digest window for its channel and
+   * category. Returns when the window closes and the digest will be sent.
+   */
+  async collect(entry: DigestEntry, frequency: DigestFrequency, timezone: string, now = new Date()): Promise<Date> {
+    const bucket = this.bucketKey(entry.userId, entry.channel, entry.category, frequency);
+    const collapseKey = entry.collapseKey || entry.id;
+    const timestamp = now.toISOString();
+
+    const existing = await this.redis.hGet(bucket, collapseKey);
+    const previous: DigestItem | undefined = existing ? JSON.parse(existing) : undefined;
+
+    const item: DigestItem = {
+      notificationId: entry.id,
+      template: entry.template,
+      summary: this.summarize(entry),
+      actionUrl: entry.data?.actionUrl,
+      collapseKey,
+      count: (previous?.count || 0) + 1,
+      firstAt: previous?.firstAt || timestamp,
+      lastAt: timestamp,
+      data: entry.data,
+    };
+
+    const windowEnd = this.windowEnd(frequency, timezone, now);
+
+    await this.redis
+      .multi()
+      .hSet(bucket, collapseKey, JSON.stringify(item))
+      .hSet(this.recipientKey(bucket), {
+        userId: entry.userId,
+        channel: entry.channel,
+        category: entry.category,
+        frequency,
+        to: entry.to || entry.data?.email || '',
+        locale: entry.locale || '',
+      })
+      // NX keeps the window that was opened first
+      .zAdd(this.DUE_KEY, { score: windowEnd.getTime(), value: bucket }, { NX: true })
+      .exec();
+
+    const score = await this.redis.zScore(this.DUE_KEY, bucket);
+    return new Date(score ?? windowEnd.getTime());
+  }
+
+  /**
+   * Sends every digest whose window has closed. Each bucket is claimed
+   * atomically, so concurrent instances never send it twice.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async flushDue(now = new Date()): Promise<number> {
+    const due = await this.redis.zRangeByScore(this.DUE_KEY, 0, now.getTime());
+    let sent = 0;
+
+    for (const bucket of due) {
+      try {
+        const claimed = await this.claimBucket(bucket);
+        if (claimed && (await this.flushBucket(claimed, now))) {
+          sent++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to flush digest ${bucket}:`, error);
+      }
+    }
+
+    if (sent > 0) {
+      this.logger.log(`Queued ${sent} notification digests`);
+    }
+
+    return sent;
+  }
+
+  // Renamed keys let items collected while we send start a new window
+  private async claimBucket(bucket: string): Promise<string | null> {
+    const claimed = `${bucket}:flushing:${randomUUID()}`;
+
+    const result = await this.redis.eval(CLAIM_BUCKET_SCRIPT, {
+      keys: [this.DUE_KEY, bucket, this.recipientKey(bucket), claimed, this.recipientKey(claimed)],
+      arguments: [bucket],
+    });
+
+    return result === 1 ? claimed : null;
+  }
+
+  private async flushBucket(claimed: string, now: Date): Promise<boolean> {
+    const claimedRecipient = this.recipientKey(claimed);
+
+    const [raw, recipient] = await Promise.all([
+      this.redis.hGetAll(claimed),
+      this.redis.hGetAll(claimedRecipient),
+    ]);
+    await this.redis.del([claimed, claimedRecipient]);
+
+    const items: DigestItem[] = Object.values(raw)
+      .map((value) => JSON.parse(value))
+      .sort((a: DigestItem, b: DigestItem) => b.lastAt.localeCompare(a.lastAt));
+
+    if (items.length === 0) {
+      return false;
+    }
+
+    const { userId, channel, category, frequency } = recipient;
+    if (!userId || !channel || !category || !frequency) {
+      this.logger.warn(`Dropping digest ${claimed}: recipient details are missing`);
+      return false;
+    }
+
+    const job: DigestJob = {
+      id: randomUUID(),
+      userId,
+      channel,
+      category,
+      frequency: frequency as DigestFrequency,
+      items: items.slice(0, this.MAX_ITEMS),
+      to: recipient.to || undefined,
+      locale: recipient.locale || undefined,
+      windowEnd: now.toISOString(),
+    };
+
+    const queue = channel === 'email' ? this.emailQueue : this.slackQueue;
+    await queue.add('send-digest', job, {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 2000 },
+      removeOnComplete: 100,
+      removeOnFail: 50,
+    });
+
+    this.logger.debug(`Queued ${frequency} ${category} digest for user ${userId} via ${channel} (${items.length} items)`);
+    return true;
+  }
+
+  /**
+   * Hourly windows close at the top of the next hour; daily and weekly ones at
+   * SEND_HOUR local time, weekly only on WEEKLY_DAY.
+   */
+  private windowEnd(frequency: DigestFrequency, timezone: string, now: Date): Date {
+    const local = getLocalTime(now, timezone);
+    const elapsedMs = (local.minutes * 60 + local.seconds) * 1000 + now.getMilliseconds();
+
+    if (frequency === 'hourly') {
+      return new Date(now.getTime() - elapsedMs % 3600000 + 3600000);
+    }
+
+    const sendAtMs = this.SEND_HOUR * 3600000;
+    let days = elapsedMs < sendAtMs ? 0 : 1;
+
+    if (frequency === 'weekly') {
+      days = (this.WEEKLY_DAY - local.weekday + 7) % 7;
+      if (days === 0 && elapsedMs >= sendAtMs) {
+        days = 7;
+      }
+    }
+
+    return new Date(now.getTime() - elapsedMs + sendAtMs + days * 86400000);
+  }
+
+  private summarize(entry: DigestEntry): string {
+    const data = entry.data || {};
+    return String(data.title || data.subject || data.message || entry.template);
+  }
+
+  private bucketKey(userId: string, channel: string, category: string, frequency: DigestFrequency): string {
+    return `${this.KEY_PREFIX}:${userId}:${channel}:${category}:${frequency}`;
+  }
+
+  // Who the digest is for, kept beside the bucket rather than parsed back out of its key
+  private recipientKey(bucket: string): string {
+    return `${bucket}:recipient`;
+  }
+}
@@ -0,0 +1,107 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { createClient, RedisClientType } from 'redis';
+
+export type SuppressionReason = 'hard-bounce' | 'soft-bounce' | 'complaint' | 'manual';
+
+export interface SuppressionEntry {
+  email: string;
+  reason: SuppressionReason;
+  detail?: string;
+  suppressedAt: Date;
+}
+
+@Injectable()
+export class EmailSuppressionService implements OnModuleInit {
+  private readonly logger = new Logger(EmailSuppressionService.name);
+  private redis: RedisClientType;
+  private readonly SUPPRESSION_KEY = 'notification:email-suppression';
+  private readonly SOFT_BOUNCE_PREFIX = 'notification:email-soft-bounces';
+  // Soft bounces within the window that suppress an address
+  private readonly SOFT_BOUNCE_LIMIT = parseInt(process.env.EMAIL_SOFT_BOUNCE_LIMIT || '3');
+  private readonly SOFT_BOUNCE_WINDOW_SECONDS = parseInt(process.env.EMAIL_SOFT_BOUNCE_WINDOW_DAYS || '30') * 86400;
+
+  async onModuleInit() {
+    this.redis = createClient({
+      socket: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+      },
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.error('Redis connection error:', error.message);
+    });
+
+    await this.redis.connect();
+    this.logger.log('Connected to Redis for email suppression');
+  }
+
+  async getSuppression(email: string): Promise<SuppressionEntry | undefined> {
+    const raw = await this.redis.hGet(this.SUPPRESSION_KEY, this.normalize(email));
+    if (!raw) {
+      return undefined;
+    }
+
+    const entry = JSON.parse(raw);
+    return { ...entry, suppressedAt: new Date(entry.suppressedAt) };
+  }
+
+  async isSuppressed(email: string): Promise<boolean> {
+    return (await this.redis.hExists(this.SUPPRESSION_KEY, this.normalize(email))) === true;
+  }
+
+  async suppress(email: string, reason: SuppressionReason, detail?: string): Promise<SuppressionEntry> {
+    const entry: SuppressionEntry = {
+      email: this.normalize(email),
+      reason,
+      detail,
+      suppressedAt: new Date(),
+    };
+
+    await this.redis.hSet(this.SUPPRESSION_KEY, entry.email, JSON.stringify(entry));
+    this.logger.warn(`Suppressed ${entry.email} (${reason})${detail ? `: ${detail}` : ''}`);
+
+    return entry;
+  }
+
+  async unsuppress(email: string): Promise<boolean> {
+    const normalized = this.normalize(email);
+    const [removed] = await this.redis
+      .multi()
+      .hDel(this.SUPPRESSION_KEY, normalized)
+      .del(this.softBounceKey(normalized))
+      .exec();
+
+    return Number(removed) > 0;
+  }
+
+  async getSuppressions(): Promise<SuppressionEntry[]> {
+    const raw = await this.redis.hVals(this.SUPPRESSION_KEY);
+    return raw.map((value) => {
+      const entry = JSON.parse(value);
+      return { ...entry, suppressedAt: new Date(entry.suppressedAt) };
+    });
+  }
+
+  // Counts a soft bounce; the address is suppressed once the limit is reached
+  async recordSoftBounce(email: string, detail?: string): Promise<{ count: number; suppressed: boolean }> {
+    const key = this.softBounceKey(this.normalize(email));
+    const [count] = await this.redis.multi().incr(key).expire(key, this.SOFT_BOUNCE_WINDOW_SECONDS, 'NX').exec();
+
+    const total = Number(count);
+    if (total < this.SOFT_BOUNCE_LIMIT) {
+      return { count: total, suppressed: false };
+    }
+
+    await this.suppress(email, 'soft-bounce', `${total} soft bounces${detail ? `, last: ${detail}` : ''}`);
+    return { count: total, suppressed: true };
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private softBounceKey(email: string): string {
+    return `${this.SOFT_BOUNCE_PREFIX}:${email}`;
+  }
+}
@@ -0,0 +1,181 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createClient, RedisClientType } from 'redis';
+
+export type EmailEventType = 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained' | 'suppressed';
+
+export interface EmailEvent {
+  type: EmailEventType;
+  at: Date;
+  messageId?: string;
+  detail?: Record<string, any>;
+}
+
+export interface TrackedEmail {
+  messageId: string;
+  notificationId: string;
+  userId: string;
+  to: string;
+  template: string;
+  sentAt: Date;
+}
+
+@Injectable()
+export class EmailTrackingService implements OnModuleInit {
+  private readonly logger = new Logger(EmailTrackingService.name);
+  private redis: RedisClientType;
+  private readonly KEY_PREFIX = 'notification:email';
+  private readonly TTL_SECONDS = 30 * 24 * 60 * 60;
+  private readonly BASE_URL = process.env.EMAIL_TRACKING_BASE_URL || `${process.env.API_BASE_URL}/webhooks/email`;
+  private readonly SECRET = process.env.EMAIL_TRACKING_SECRET || '';
+
+  async onModuleInit() {
+    if (!this.SECRET) {
+      this.logger.warn('EMAIL_TRACKING_SECRET not set. Open and click tracking are disabled.');
+    }
+
+    this.redis = createClient({
+      socket: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+      },
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.error('Redis connection error:', error.message);
+    });
+
+    await this.redis.connect();
+    this.logger.log('Connected to Redis for email tracking');
+  }
+
+  // Remembers who a message went to so provider events can be traced back
+  async recordSent(email: Omit<TrackedEmail, 'sentAt'>): Promise<void> {
+    const tracked: TrackedEmail = { ...email, messageId: this.normalizeMessageId(email.messageId), sentAt: new Date() };
+
+    await this.redis.set(this.messageKey(tracked.messageId), JSON.stringify(tracked), { EX: this.TTL_SECONDS });
+    await this.recordEvent(tracked.notificationId, { type: 'sent', at: tracked.sentAt, messageId: tracked.messageId });
+  }
+
+  async getMessage(messageId: string): Promise<TrackedEmail | undefined> {
+    const raw = await this.redis.get(this.messageKey(this.normalizeMessageId(messageId)));
+    if (!raw) {
+      return undefined;
+    }
+
+    const message = JSON.parse(raw);
+    return { ...message, sentAt: new Date(message.sentAt) };
+  }
+
+  async recordEvent(notificationId: string, event: EmailEvent): Promise<void> {
+    const key = this.eventsKey(notificationId);
+    await this.redis.multi().rPush(key, JSON.stringify(event)).expire(key, this.TTL_SECONDS).exec();
+  }
+
+  /**
+   * Adds an event to the timeline of the notification a provider message id
+   * belongs to. Returns the message, or undefined if it is not one of ours.
+   */
+  async recordMessageEvent(
+    messageId: string,
+    type: EmailEventType,
+    detail?: Record<string, any>,
+  ): Promise<TrackedEmail | undefined> {
+    const message = await this.getMessage(messageId);
+    if (!message) {
+      this.logger.debug(`Ignoring ${type} event for unknown message ${messageId}`);
+      return undefined;
+    }
+
+    await this.recordEvent(message.notificationId, { type, at: new Date(), messageId: message.messageId, detail });
+    return message;
+  }
+
+  async getTimeline(notificationId: string): Promise<EmailEvent[]> {
+    const raw = await this.redis.lRange(this.eventsKey(notificationId), 0, -1);
+    return raw.map((value) => {
+      const event = JSON.parse(value);
+      return { ...event, at: new Date(event.at) };
+    });
+  }
+
+  /**
+   * Adds an open pixel and routes http(s) links through the click endpoint.
+   * Click URLs are signed so the redirect cannot be used as an open redirect,
+   * and pixels so opens cannot be forged for other messages.
+   */
+  addTracking(html: string, messageId: string): string {
+    if (!this.SECRET) {
+      return html;
+    }
+
+    const normalized = this.normalizeMessageId(messageId);
+    const id = encodeURIComponent(normalized);
+
+    const tracked = html.replace(
+      /(<a\b[^>]*?\bhref=)(["'])(https?:\/\/[^"']+)\2/gi,
+      (match, prefix, quote, url) => `${prefix}${quote}${this.clickUrl(id, this.unescapeHtml(url))}${quote}`,
+    );
+
+    const pixelUrl = `${this.BASE_URL}/open/${id}?sig=${this.signOpen(normalized)}`;
+    const pixel = `<img src="${pixelUrl}" width="1" height="1" alt="" style="display:none;" />`;
+    return /<\/body>/i.test(tracked) ? tracked.replace(/<\/body>/i, `${pixel}</body>`) : tracked + pixel;
+  }
+
+  verifyOpen(messageId: string, signature: string): boolean {
+    if (!this.SECRET || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.signOpen(this.normalizeMessageId(messageId)));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  verifyClick(messageId: string, url: string, signature: string): boolean {
+    if (!this.SECRET || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(this.normalizeMessageId(messageId), url));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  // Provider ids come with or without the RFC 5322 angle brackets
+  normalizeMessageId(messageId: string): string {
+    return messageId.trim().replace(/^<|>$/g, '');
+  }
+
+  private clickUrl(encodedMessageId: string, url: string): string {
+    const signature = this.sign(decodeURIComponent(encodedMessageId), url);
+    return `${this.BASE_URL}/click/${encodedMessageId}?url=${encodeURIComponent(url)}&amp;sig=${signature}`;
+  }
+
+  private sign(messageId: string, url: string): string {
+    return createHmac('sha256', this.SECRET).update(`${messageId}:${url}`).digest('hex');
+  }
+
+  // Keyed separately from click signatures so one can never stand in for the other
+  private signOpen(messageId: string): string {
+    return createHmac('sha256', `${this.SECRET}:open`).update(messageId).digest('hex');
+  }
+
+  // Undoes handlebars' attribute escaping so the signed URL is the one the user sees
+  private unescapeHtml(value: string): string {
+    return value
+      .replace(/&#x3D;/g, '=')
+      .replace(/&#x27;/g, "'")
+      .replace(/&#x60;/g, '`')
+      .replace(/&quot;/g, '"')
+      .replace(/&amp;/g, '&');
+  }
+
+  private messageKey(messageId: string): string {
+    return `${this.KEY_PREFIX}:message:${messageId}`;
+  }
+
+  private eventsKey(notificationId: string): string {
+    return `${this.KEY_PREFIX}:events:${notificationId}`;
+  }
+}
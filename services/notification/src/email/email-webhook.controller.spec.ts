@@ -0,0 +1,116 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { EmailProcessor } from '../processors/email.processor';
+import { EmailTrackingService } from './email-tracking.service';
+import { EmailWebhookController } from './email-webhook.controller';
+
+jest.mock('nodemailer', () => ({ createTransporter: jest.fn(() => ({ verify: jest.fn() })) }));
+
+describe('EmailWebhookController', () => {
+  const TOKEN = 'provider-token';
+
+  let tracking: EmailTrackingService;
+  let suppression: Record<string, jest.Mock>;
+  let controller: EmailWebhookController;
+
+  const create = () => {
+    suppression = { suppress: jest.fn(), recordSoftBounce: jest.fn() };
+    const processor = new EmailProcessor(
+      { markProviderState: jest.fn() } as any,
+      { registerChannel: jest.fn() } as any,
+      suppression as any,
+      tracking,
+    );
+    return new EmailWebhookController(processor, tracking);
+  };
+
+  beforeEach(async () => {
+    process.env.EMAIL_WEBHOOK_TOKEN = TOKEN;
+    process.env.EMAIL_TRACKING_SECRET = 'tracking-secret';
+
+    const strings = new Map<string, string>();
+    tracking = new EmailTrackingService();
+    (tracking as any).redis = {
+      get: async (key: string) => strings.get(key) ?? null,
+      set: async (key: string, value: string) => strings.set(key, value),
+      multi: () => ({ rPush: function () { return this; }, expire: function () { return this; }, exec: async () => [] }),
+    };
+
+    await tracking.recordSent({
+      messageId: '<sent-1@nexus.dev>',
+      notificationId: 'n1',
+      userId: 'u1',
+      to: 'customer@example.com',
+      template: 'welcome',
+    });
+
+    controller = create();
+  });
+
+  afterEach(() => {
+    delete process.env.EMAIL_WEBHOOK_TOKEN;
+    delete process.env.EMAIL_TRACKING_SECRET;
+  });
+
+  it('rejects events when no webhook token is configured', async () => {
+    delete process.env.EMAIL_WEBHOOK_TOKEN;
+    controller = create();
+
+    await expect(controller.ingestEvents({ type: 'complained', messageId: 'sent-1@nexus.dev' }, '')).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(suppression.suppress).not.toHaveBeenCalled();
+  });
+
+  it('rejects events with the wrong token', async () => {
+    await expect(controller.ingestEvents({ type: 'complained', messageId: 'sent-1@nexus.dev' }, 'guess')).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('suppresses the recorded recipient, not the address in the event', async () => {
+    await controller.ingestEvents(
+      { type: 'bounced', messageId: 'sent-1@nexus.dev', email: 'someone-else@example.com', bounceType: 'hard' },
+      TOKEN,
+    );
+
+    expect(suppression.suppress).toHaveBeenCalledWith('customer@example.com', 'hard-bounce', '');
+  });
+
+  it('ignores bounces and complaints for messages it did not send', async () => {
+    await controller.ingestEvents(
+      [
+        { type: 'bounced', messageId: 'unknown@elsewhere', email: 'victim@example.com', bounceType: 'hard' },
+        { type: 'complained', email: 'victim@example.com' },
+      ],
+      TOKEN,
+    );
+
+    expect(suppression.suppress).not.toHaveBeenCalled();
+    expect(suppression.recordSoftBounce).not.toHaveBeenCalled();
+  });
+
+  it('does not count SendGrid deferrals as bounces', async () => {
+    const sendGrid = (event: string, extra: Record<string, string> = {}) => ({
+      event,
+      sg_event_id: `evt-${event}`,
+      'smtp-id': '<sent-1@nexus.dev>',
+      email: 'customer@example.com',
+      ...extra,
+    });
+
+    await controller.ingestEvents([sendGrid('deferred'), sendGrid('deferred')], TOKEN);
+    expect(suppression.recordSoftBounce).not.toHaveBeenCalled();
+
+    await controller.ingestEvents([sendGrid('bounce', { type: 'blocked' })], TOKEN);
+    expect(suppression.recordSoftBounce).toHaveBeenCalledTimes(1);
+  });
+
+  it('signs open pixels per message', () => {
+    const html = tracking.addTracking('<p>Hi</p>', '<sent-1@nexus.dev>');
+    const signature = html.match(/open\/[^?]+\?sig=([0-9a-f]+)/)![1];
+
+    expect(tracking.verifyOpen('sent-1@nexus.dev', signature)).toBe(true);
+    expect(tracking.verifyOpen('other@nexus.dev', signature)).toBe(false);
+    expect(tracking.verifyClick('sent-1@nexus.dev', 'open', signature)).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+  Res,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { EmailProcessor } from '../processors/email.processor';
+import { EmailTrackingService } from './email-tracking.service';
+import { parseProviderEvents } from './provider-events';
+
+// 1x1 transparent GIF
+const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+@ApiTags('Email Webhooks')
+@Controller('webhooks/email')
+export class EmailWebhookController {
+  private readonly logger = new Logger(EmailWebhookController.name);
+  private readonly webhookToken = process.env.EMAIL_WEBHOOK_TOKEN || '';
+
+  constructor(
+    private readonly emailProcessor: EmailProcessor,
+    private readonly emailTracking: EmailTrackingService,
+  ) {}
+
+  @Post('events')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Ingest bounce, complaint and engagement events from a mail provider' })
+  @ApiResponse({ status: 202, description: 'Events accepted' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid webhook token' })
+  async ingestEvents(
+    @Body() payload: any,
+    @Headers('x-webhook-token') headerToken?: string,
+    @Query('token') queryToken?: string,
+  ): Promise<{ message: string; count: number }> {
+    this.verifyToken(headerToken || queryToken);
+
+    // SNS subscriptions are confirmed by hand so a forged request cannot subscribe us elsewhere
+    if (payload?.Type === 'SubscriptionConfirmation') {
+      this.logger.warn(`SNS subscription confirmation received; confirm via ${payload.SubscribeURL}`);
+      return { message: 'Subscription confirmation logged', count: 0 };
+    }
+
+    let events;
+    try {
+      events = parseProviderEvents(payload);
+    } catch (error) {
+      throw new BadRequestException(`Unreadable provider payload: ${error.message}`);
+    }
+
+    for (const event of events) {
+      const messageId = event.messageId || '';
+
+      switch (event.type) {
+        case 'bounced':
+          await this.emailProcessor.handleBounce(messageId, event.bounceType || 'hard', event.reason || '');
+          break;
+        case 'complained':
+          await this.emailProcessor.handleComplaint(messageId, event.reason || 'abuse');
+          break;
+        case 'delivered':
+          await this.emailProcessor.handleDelivery(messageId, new Date());
+          break;
+        case 'opened':
+          await this.emailProcessor.handleOpen(messageId, event.userAgent || '', event.ipAddress || '');
+          break;
+        case 'clicked':
+          await this.emailProcessor.handleClick(messageId, event.url || '', event.userAgent || '');
+          break;
+      }
+    }
+
+    return { message: 'Events accepted', count: events.length };
+  }
+
+  // Always answers with the pixel so mail clients show nothing odd; unsigned opens are not recorded
+  @Get('open/:messageId')
+  @ApiOperation({ summary: 'Open-tracking pixel' })
+  async trackOpen(
+    @Param('messageId') messageId: string,
+    @Query('sig') signature: string,
+    @Headers('user-agent') userAgent: string,
+    @Headers('x-forwarded-for') forwardedFor: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    if (this.emailTracking.verifyOpen(messageId, signature)) {
+      await this.emailProcessor.handleOpen(messageId, userAgent || '', forwardedFor?.split(',')[0].trim() || '');
+    }
+
+    res
+      .status(HttpStatus.OK)
+      .set({
+        'Content-Type': 'image/gif',
+        'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+      })
+      .send(TRACKING_PIXEL);
+  }
+
+  @Get('click/:messageId')
+  @ApiOperation({ summary: 'Click-tracking redirect' })
+  @ApiResponse({ status: 302, description: 'Redirect to the original link' })
+  @ApiResponse({ status: 400, description: 'Link signature does not match' })
+  async trackClick(
+    @Param('messageId') messageId: string,
+    @Query('url') url: string,
+    @Query('sig') signature: string,
+    @Headers('user-agent') userAgent: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    if (!url || !this.emailTracking.verifyClick(messageId, url, signature)) {
+      throw new BadRequestException('Invalid tracking link');
+    }
+
+    await this.emailProcessor.handleClick(messageId, url, userAgent || '');
+    res.redirect(HttpStatus.FOUND, url);
+  }
+
+  // Fails closed: without EMAIL_WEBHOOK_TOKEN no provider events are accepted
+  private verifyToken(token?: string): void {
+    if (!this.webhookToken) {
+      this.logger.error('EMAIL_WEBHOOK_TOKEN is not set; rejecting provider events');
+      throw new UnauthorizedException('Email webhooks are not configured');
+    }
+
+    const expected = Buffer.from(this.webhookToken);
+    const actual = Buffer.from(token || '');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new UnauthorizedException('Invalid webhook token');
+    }
+  }
+}
@@ -0,0 +1,169 @@
+// Normalised form of the bounce/complaint/engagement callbacks mail providers send
+export interface ProviderEmailEvent {
+  type: 'delivered' | 'bounced' | 'complained' | 'opened' | 'clicked';
+  messageId?: string;
+  email?: string;
+  bounceType?: 'hard' | 'soft';
+  reason?: string;
+  url?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Accepts Amazon SES (direct or SNS-wrapped), SendGrid, Mailgun and Postmark
+ * event payloads, plus a plain `{ type, email, messageId, bounceType, reason }`
+ * form for local mail sinks. Unrecognised payloads yield no events.
+ */
+export function parseProviderEvents(payload: any): ProviderEmailEvent[] {
+  if (!payload) {
+    return [];
+  }
+
+  if (Array.isArray(payload)) {
+    return payload.flatMap((item) => parseProviderEvents(item));
+  }
+
+  // SNS envelope around an SES notification
+  if (payload.Type === 'Notification' && typeof payload.Message === 'string') {
+    return parseProviderEvents(JSON.parse(payload.Message));
+  }
+
+  if (payload.notificationType || payload.eventType) {
+    return parseSes(payload);
+  }
+
+  if (payload.event && (payload.sg_message_id || payload.sg_event_id)) {
+    return parseSendGrid(payload);
+  }
+
+  if (payload['event-data']) {
+    return parseMailgun(payload['event-data']);
+  }
+
+  if (payload.RecordType) {
+    return parsePostmark(payload);
+  }
+
+  if (payload.type && (payload.email || payload.messageId)) {
+    return [{
+      type: payload.type,
+      messageId: payload.messageId,
+      email: payload.email,
+      bounceType: payload.bounceType,
+      reason: payload.reason,
+      url: payload.url,
+    }];
+  }
+
+  return [];
+}
+
+function parseSes(payload: any): ProviderEmailEvent[] {
+  const type = payload.notificationType || payload.eventType;
+  // Our Message-ID header; SES's own id is only a fallback
+  const messageId = payload.mail?.commonHeaders?.messageId || payload.mail?.messageId;
+
+  switch (type) {
+    case 'Bounce':
+      return (payload.bounce?.bouncedRecipients || []).map((recipient: any) => ({
+        type: 'bounced',
+        messageId,
+        email: recipient.emailAddress,
+        bounceType: payload.bounce.bounceType === 'Permanent' ? 'hard' : 'soft',
+        reason: recipient.diagnosticCode || payload.bounce.bounceSubType,
+      }));
+    case 'Complaint':
+      return (payload.complaint?.complainedRecipients || []).map((recipient: any) => ({
+        type: 'complained',
+        messageId,
+        email: recipient.emailAddress,
+        reason: payload.complaint.complaintFeedbackType,
+      }));
+    case 'Delivery':
+      return (payload.delivery?.recipients || []).map((email: string) => ({ type: 'delivered', messageId, email }));
+    case 'Open':
+      return [{ type: 'opened', messageId, userAgent: payload.open?.userAgent, ipAddress: payload.open?.ipAddress }];
+    case 'Click':
+      return [{ type: 'clicked', messageId, url: payload.click?.link, userAgent: payload.click?.userAgent }];
+    default:
+      return [];
+  }
+}
+
+function parseSendGrid(payload: any): ProviderEmailEvent[] {
+  // sg_message_id is "<provider id>.<filter suffix>"; smtp-id carries our Message-ID
+  const base = { messageId: payload['smtp-id'] || payload.sg_message_id, email: payload.email };
+
+  switch (payload.event) {
+    case 'bounce':
+      return [{
+        ...base,
+        type: 'bounced',
+        // 'blocked' is SendGrid's temporary rejection
+        bounceType: payload.type === 'blocked' ? 'soft' : 'hard',
+        reason: payload.reason,
+      }];
+    case 'deferred':
+      // SendGrid keeps retrying deferred mail and reports a bounce if it gives up
+      return [];
+    case 'spamreport':
+      return [{ ...base, type: 'complained', reason: 'spamreport' }];
+    case 'delivered':
+      return [{ ...base, type: 'delivered' }];
+    case 'open':
+      return [{ ...base, type: 'opened', userAgent: payload.useragent, ipAddress: payload.ip }];
+    case 'click':
+      return [{ ...base, type: 'clicked', url: payload.url, userAgent: payload.useragent, ipAddress: payload.ip }];
+    default:
+      return [];
+  }
+}
+
+function parseMailgun(event: any): ProviderEmailEvent[] {
+  const base = { messageId: event.message?.headers?.['message-id'], email: event.recipient };
+
+  switch (event.event) {
+    case 'failed':
+      return [{
+        ...base,
+        type: 'bounced',
+        bounceType: event.severity === 'permanent' ? 'hard' : 'soft',
+        reason: event['delivery-status']?.description || event.reason,
+      }];
+    case 'complained':
+      return [{ ...base, type: 'complained' }];
+    case 'delivered':
+      return [{ ...base, type: 'delivered' }];
+    case 'opened':
+      return [{ ...base, type: 'opened', userAgent: event['client-info']?.['user-agent'], ipAddress: event.ip }];
+    case 'clicked':
+      return [{ ...base, type: 'clicked', url: event.url, userAgent: event['client-info']?.['user-agent'], ipAddress: event.ip }];
+    default:
+      return [];
+  }
+}
+
+function parsePostmark(payload: any): ProviderEmailEvent[] {
+  const base = { messageId: payload.MessageID, email: payload.Email || payload.Recipient };
+
+  switch (payload.RecordType) {
+    case 'Bounce':
+      return [{
+        ...base,
+        type: 'bounced',
+        bounceType: ['HardBounce', 'BadEmailAddress', 'ManuallyDeactivated'].includes(payload.Type) ? 'hard' : 'soft',
+        reason: payload.Description || payload.Details,
+      }];
+    case 'SpamComplaint':
+      return [{ ...base, type: 'complained', reason: payload.Type }];
+    case 'Delivery':
+      return [{ ...base, type: 'delivered' }];
+    case 'Open':
+      return [{ ...base, type: 'opened', userAgent: payload.UserAgent }];
+    case 'Click':
+      return [{ ...base, type: 'clicked', url: payload.OriginalLink, userAgent: payload.UserAgent }];
+    default:
+      return [];
+  }
+}
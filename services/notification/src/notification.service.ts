@@ -2,6 +2,29 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { EventPattern, MessagePattern } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import {
+  RegisterWebhookEndpoint,
+  WebhookDeliveryAttempt,
+  WebhookEndpoint,
+  WebhookEndpointService,
+} from './webhooks/webhook-endpoint.service';
+import {
+  DeliveryDecision,
+  FallbackStep,
+  NotificationPreferences,
+  NotificationPreferenceService,
+} from './preferences/notification-preference.service';
+import { DIGEST_CHANNELS, DigestService } from './digest/digest.service';
+import {
+  PublishTemplate,
+  TemplateChannel,
+  TemplatePreview,
+  TemplateRegistryService,
+  TemplateVersion,
+} from './templates/template-registry.service';
+import { EmailEvent, EmailTrackingService } from './email/email-tracking.service';
+import { EmailSuppressionService, SuppressionEntry } from './email/email-suppression.service';
 
 export interface NotificationRequest {
   id: string;
@@ -11,11 +34,25 @@ export interface NotificationRequest {
   template: string;
   data: Record<string, any>;
   channels: string[];
+  // Recipient address for channels that need one, e.g. the phone number for SMS
+  to?: string;
+  // Preference category, e.g. 'billing' or 'mentions'; defaults to 'general'
+  category?: string;
+  // Channels to try next when nothing has been delivered in time
+  fallback?: FallbackStep[];
+  // Digested notifications with the same key are shown once, with a count
+  collapseKey?: string;
   scheduledAt?: Date;
   expiresAt?: Date;
   metadata?: Record<string, any>;
 }
 
+export interface FallbackJob {
+  request: NotificationRequest;
+  attemptedChannels: string[];
+  steps: FallbackStep[];
+}
+
 export interface NotificationStatus {
   id: string;
   status: 'pending' | 'processing' | 'sent' | 'failed' | 'expired';
@@ -24,8 +61,35 @@ export interface NotificationStatus {
   error?: string;
   attempts: number;
   maxAttempts: number;
+  // Provider and engagement events, oldest first (email only)
+  events?: EmailEvent[];
 }
 
+// Wording and priority for each dunning stage, from first failed retry to the last
+const PAYMENT_OVERDUE_NOTICES: Record<'reminder' | 'warning' | 'final', {
+  priority: NotificationRequest['priority'];
+  headline: string;
+  message: string;
+  suspendedMessage?: string;
+}> = {
+  reminder: {
+    priority: 'normal',
+    headline: 'Your payment did not go through',
+    message: 'We could not collect payment for your invoice. We will try again automatically, or you can update your payment method now.',
+  },
+  warning: {
+    priority: 'high',
+    headline: 'Your invoice is still unpaid',
+    message: 'Another attempt to collect payment failed. Please update your payment method to avoid an interruption to your service.',
+  },
+  final: {
+    priority: 'urgent',
+    headline: 'Final notice: payment required',
+    message: 'Our last attempt to collect payment failed. Please pay this invoice to keep your service active.',
+    suspendedMessage: 'Our last attempt to collect payment failed and your subscription has been suspended. Pay this invoice to restore access.',
+  },
+};
+
 @Injectable()
 export class NotificationService {
   private readonly logger = new Logger(NotificationService.name);
@@ -37,34 +101,69 @@ export class NotificationService {
     @InjectQueue('slack-notifications') private slackQueue: Queue,
     @InjectQueue('discord-notifications') private discordQueue: Queue,
     @InjectQueue('webhook-notifications') private webhookQueue: Queue,
+    @InjectQueue('notification-fallbacks') private fallbackQueue: Queue,
+    private readonly webhookEndpoints: WebhookEndpointService,
+    private readonly preferences: NotificationPreferenceService,
+    private readonly digests: DigestService,
+    private readonly templates: TemplateRegistryService,
+    private readonly emailTracking: EmailTrackingService,
+    private readonly emailSuppression: EmailSuppressionService,
   ) {}
 
-  // Send notification through multiple channels
-  async sendNotification(request: NotificationRequest): Promise<{ 
+  // Send notification through the channels the user's preferences allow
+  async sendNotification(request: NotificationRequest, previousChannels: string[] = []): Promise<{ 
     id: string; 
     status: string; 
-    channels: string[] 
+    channels: string[];
+    batched: string[];
+    suppressed: Array<{ channel: string; reason: string }>;
   }> {
-    this.logger.debug(`Sending notification ${request.id} to ${request.channels.join(', ')}`);
+    const decision = await this.preferences.evaluate(request);
 
-    const promises = request.channels.map(channel => 
-      this.sendToChannel(request, channel)
-    );
+    decision.suppressed.forEach(({ channel, reason }) => {
+      this.logger.debug(`Notification ${request.id} not sent via ${channel}: ${reason}`);
+    });
+
+    if (request.expiresAt && decision.deliverAt && decision.deliverAt > new Date(request.expiresAt)) {
+      this.logger.debug(`Notification ${request.id} would expire during quiet hours; dropping`);
+      return { id: request.id, status: 'expired', channels: [], batched: [], suppressed: decision.suppressed };
+    }
+
+    // Urgent and mandatory notifications are never evaluated as 'digest'
+    const batched = decision.delivery === 'digest'
+      ? decision.channels.filter(channel => DIGEST_CHANNELS.includes(channel))
+      : [];
+    const immediate = decision.channels.filter(channel => !batched.includes(channel));
+
+    this.logger.debug(`Sending notification ${request.id} to ${immediate.join(', ') || 'no channels'}`);
+
+    const promises = [
+      ...immediate.map(channel => this.sendToChannel(request, channel, decision)),
+      ...batched.map(channel => this.addToDigest(request, channel, decision)),
+    ];
 
     await Promise.all(promises);
 
+    // Digests go out on their own schedule, so only immediate channels fall back
+    if (immediate.length > 0 && decision.fallback.length > 0) {
+      await this.scheduleFallback(request, [...previousChannels, ...immediate], decision.fallback, decision);
+    }
+
     return {
       id: request.id,
-      status: 'queued',
-      channels: request.channels,
+      status: this.getSendStatus(immediate, batched, decision),
+      channels: immediate,
+      batched,
+      suppressed: decision.suppressed,
     };
   }
 
   // Send to specific channel
-  private async sendToChannel(request: NotificationRequest, channel: string): Promise<void> {
+  private async sendToChannel(request: NotificationRequest, channel: string, decision: DeliveryDecision): Promise<void> {
     const jobData = {
       ...request,
       channel,
+      locale: decision.locale,
       timestamp: new Date(),
     };
 
@@ -75,7 +174,7 @@ export class NotificationService {
         type: 'exponential',
         delay: 2000,
       },
-      delay: request.scheduledAt ? request.scheduledAt.getTime() - Date.now() : 0,
+      delay: this.getDelay(request, decision),
       removeOnComplete: 100,
       removeOnFail: 50,
     };
@@ -104,6 +203,76 @@ export class NotificationService {
     }
   }
 
+  private async addToDigest(request: NotificationRequest, channel: string, decision: DeliveryDecision): Promise<void> {
+    const sendAt = await this.digests.collect(
+      {
+        id: request.id,
+        userId: request.userId,
+        channel,
+        category: request.category || 'general',
+        template: request.template,
+        data: request.data,
+        collapseKey: request.collapseKey,
+        to: request.data?.email,
+        locale: decision.locale,
+      },
+      decision.digestFrequency,
+      decision.timezone,
+    );
+
+    this.logger.debug(`Notification ${request.id} added to ${channel} digest sent at ${sendAt.toISOString()}`);
+  }
+
+  private getSendStatus(immediate: string[], batched: string[], decision: DeliveryDecision): string {
+    if (immediate.length === 0) {
+      return batched.length > 0 ? 'batched' : 'suppressed';
+    }
+    return decision.deliverAt ? 'scheduled' : 'queued';
+  }
+
+  // Billing amounts arrive in the currency's minor unit
+  private formatAmount(amount: number, currency: string): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100);
+  }
+
+  /**
+   * Checks back after the first fallback step's delay; if none of the channels
+   * tried so far has been delivered, the fallback processor sends the next one.
+   */
+  private async scheduleFallback(
+    request: NotificationRequest,
+    attemptedChannels: string[],
+    steps: FallbackStep[],
+    decision: DeliveryDecision,
+  ): Promise<void> {
+    const job: FallbackJob = {
+      request: { ...request, fallback: undefined },
+      attemptedChannels,
+      steps,
+    };
+
+    await this.fallbackQueue.add('check-delivery', job, {
+      delay: this.getDelay(request, decision) + steps[0].afterMs,
+      attempts: 3,
+      removeOnComplete: 100,
+      removeOnFail: 50,
+    });
+  }
+
+  // Notification preferences
+  @MessagePattern('notification.preferences.get')
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    return this.preferences.getPreferences(userId);
+  }
+
+  @MessagePattern('notification.preferences.update')
+  async updatePreferences(data: {
+    userId: string;
+    preferences: Partial<Omit<NotificationPreferences, 'userId' | 'updatedAt'>>;
+  }): Promise<NotificationPreferences> {
+    return this.preferences.updatePreferences(data.userId, data.preferences);
+  }
+
   // Bulk notification sending
   async sendBulkNotifications(requests: NotificationRequest[]): Promise<{
     total: number;
@@ -138,7 +307,7 @@ export class NotificationService {
   @EventPattern('user.registered')
   async handleUserRegistered(data: { userId: string; email: string; name: string }): Promise<void> {
     await this.sendNotification({
-      id: crypto.randomUUID(),
+      id: randomUUID(),
       userId: data.userId,
       type: 'email',
       priority: 'normal',
@@ -154,7 +323,7 @@ export class NotificationService {
   @EventPattern('user.password_reset')
   async handlePasswordReset(data: { userId: string; email: string; resetToken: string }): Promise<void> {
     await this.sendNotification({
-      id: crypto.randomUUID(),
+      id: randomUUID(),
       userId: data.userId,
       type: 'email',
       priority: 'high',
@@ -165,10 +334,85 @@ export class NotificationService {
         resetUrl: `${process.env.FRONTEND_URL}/reset-password?token=${data.resetToken}`,
       },
       channels: ['email'],
+      category: 'security',
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
     });
   }
 
+  // Published by the payment service's dunning schedule as a domain event; notices escalate with the stage
+  @EventPattern('invoice.payment_overdue')
+  async handlePaymentOverdue(event: {
+    aggregateId: string;
+    data: {
+      userId: string;
+      email: string;
+      name: string;
+      invoiceId: string;
+      stage: 'reminder' | 'warning' | 'final';
+      attempt: number;
+      amountDue: number;
+      currency: string;
+      lateFee: number;
+      failureReason?: string;
+      nextRetryAt?: string;
+      suspended: boolean;
+    };
+  }): Promise<void> {
+    const { data } = event;
+    const notice = PAYMENT_OVERDUE_NOTICES[data.stage];
+
+    await this.sendNotification({
+      id: randomUUID(),
+      userId: data.userId,
+      type: 'email',
+      priority: notice.priority,
+      template: 'payment-overdue',
+      data: {
+        name: data.name,
+        email: data.email,
+        invoiceId: data.invoiceId,
+        headline: notice.headline,
+        message: data.suspended ? notice.suspendedMessage : notice.message,
+        amount: this.formatAmount(data.amountDue, data.currency),
+        lateFee: data.lateFee > 0 ? this.formatAmount(data.lateFee, data.currency) : undefined,
+        failureReason: data.failureReason,
+        nextRetryDate: data.nextRetryAt ? new Date(data.nextRetryAt).toDateString() : undefined,
+        billingUrl: `${process.env.FRONTEND_URL}/billing/invoices/${data.invoiceId}`,
+      },
+      channels: ['email'],
+      category: 'transactional',
+      collapseKey: `invoice:${data.invoiceId}:overdue`,
+      metadata: { invoiceId: data.invoiceId, stage: data.stage, attempt: data.attempt },
+    });
+  }
+
+  @EventPattern('subscription.suspended')
+  async handleSubscriptionSuspended(event: {
+    aggregateId: string;
+    data: { userId: string; email: string; name: string; subscriptionId: string; planId: string; invoiceId?: string };
+  }): Promise<void> {
+    const { data } = event;
+
+    await this.sendNotification({
+      id: randomUUID(),
+      userId: data.userId,
+      type: 'email',
+      priority: 'urgent',
+      template: 'subscription-suspended',
+      data: {
+        name: data.name,
+        email: data.email,
+        planId: data.planId,
+        billingUrl: data.invoiceId
+          ? `${process.env.FRONTEND_URL}/billing/invoices/${data.invoiceId}`
+          : `${process.env.FRONTEND_URL}/billing`,
+      },
+      channels: ['email'],
+      category: 'transactional',
+      metadata: { subscriptionId: data.subscriptionId },
+    });
+  }
+
   @EventPattern('system.alert')
   async handleSystemAlert(data: { 
     type: string; 
@@ -182,7 +426,7 @@ export class NotificationService {
     }
 
     await this.sendNotification({
-      id: crypto.randomUUID(),
+      id: randomUUID(),
       userId: 'system',
       type: 'slack',
       priority: data.severity === 'critical' ? 'urgent' : 'high',
@@ -211,6 +455,7 @@ export class NotificationService {
     ];
 
     const statuses: NotificationStatus[] = [];
+    const emailEvents = await this.emailTracking.getTimeline(notificationId);
 
     for (const { name, queue } of queues) {
       const jobs = await queue.getJobs(['completed', 'failed', 'active', 'waiting']);
@@ -225,13 +470,66 @@ export class NotificationService {
           error: job.failedReason,
           attempts: job.attemptsMade,
           maxAttempts: job.opts.attempts || 1,
+          events: name === 'email' ? emailEvents : undefined,
         });
       }
     }
 
+    // Completed jobs are pruned, but the email timeline outlives them
+    if (emailEvents.length > 0 && !statuses.some(status => status.channel === 'email')) {
+      const failed = emailEvents.some(event => event.type === 'bounced' || event.type === 'suppressed');
+      statuses.push({
+        id: notificationId,
+        status: failed ? 'failed' : 'sent',
+        channel: 'email',
+        sentAt: emailEvents.find(event => event.type === 'sent')?.at,
+        attempts: 1,
+        maxAttempts: 1,
+        events: emailEvents,
+      });
+    }
+
     return statuses;
   }
 
+  // Email suppression list
+  @MessagePattern('notification.email.suppressions')
+  async getEmailSuppressions(): Promise<SuppressionEntry[]> {
+    return this.emailSuppression.getSuppressions();
+  }
+
+  @MessagePattern('notification.email.unsuppress')
+  async unsuppressEmail(email: string): Promise<{ removed: boolean }> {
+    return { removed: await this.emailSuppression.unsuppress(email) };
+  }
+
+  // Webhook endpoint management
+  @MessagePattern('notification.webhooks.register')
+  async registerWebhookEndpoint(request: RegisterWebhookEndpoint): Promise<WebhookEndpoint> {
+    return this.webhookEndpoints.registerEndpoint(request);
+  }
+
+  @MessagePattern('notification.webhooks.list')
+  async getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    return this.webhookEndpoints.getUserEndpoints(userId);
+  }
+
+  @MessagePattern('notification.webhooks.enable')
+  async enableWebhookEndpoint(endpointId: string): Promise<WebhookEndpoint> {
+    return this.webhookEndpoints.enableEndpoint(endpointId);
+  }
+
+  @MessagePattern('notification.webhooks.attempts')
+  async getWebhookAttempts(data: { endpointId?: string; notificationId?: string }): Promise<WebhookDeliveryAttempt[]> {
+    if (data.notificationId) {
+      return this.webhookEndpoints.getNotificationAttempts(data.notificationId);
+    }
+    if (!data.endpointId) {
+      throw new Error('Either endpointId or notificationId is required');
+    }
+    return this.webhookEndpoints.getEndpointAttempts(data.endpointId);
+  }
+
   // Get notification statistics
   async getNotificationStats(): Promise<{
     totalSent: number;
@@ -277,34 +575,61 @@ export class NotificationService {
     body: string;
     type: string;
   }> {
-    // In a real implementation, this would fetch from a database
-    const templates: Record<string, any> = {
-      'welcome': {
-        name: 'welcome',
-        subject: 'Welcome to Nexus!',
-        body: 'Hello {{name}}, welcome to our platform!',
-        type: 'email',
-      },
-      'password-reset': {
-        name: 'password-reset',
-        subject: 'Password Reset Request',
-        body: 'Click here to reset your password: {{resetUrl}}',
-        type: 'email',
-      },
-      'system-alert': {
-        name: 'system-alert',
-        body: '🚨 {{severity}} Alert: {{message}}',
-        type: 'slack',
-      },
-    };
+    const channels: TemplateChannel[] = ['email', 'sms', 'push', 'slack'];
+
+    for (const channel of channels) {
+      const template = await this.templates.resolve(channel, templateName);
+      if (!template) {
+        continue;
+      }
 
-    return templates[templateName] || {
+      const content = template.content;
+      return {
+        name: templateName,
+        subject: content.subject ?? content.title,
+        body: typeof content === 'string' ? content : content.text ?? content.body ?? JSON.stringify(content.blocks),
+        type: channel,
+      };
+    }
+
+    return {
       name: templateName,
       body: 'Template not found',
       type: 'text',
     };
   }
 
+  @MessagePattern('notification.templates.publish')
+  async publishTemplate(data: { channel: TemplateChannel; name: string } & PublishTemplate): Promise<TemplateVersion> {
+    const { channel, name, ...template } = data;
+    return this.templates.publish(channel, name, template);
+  }
+
+  @MessagePattern('notification.templates.versions')
+  async getTemplateVersions(data: { channel: TemplateChannel; name: string }): Promise<{
+    active?: number;
+    versions: TemplateVersion[];
+  }> {
+    return this.templates.getVersions(data.channel, data.name);
+  }
+
+  @MessagePattern('notification.templates.rollback')
+  async rollbackTemplate(data: { channel: TemplateChannel; name: string; version: number }): Promise<TemplateVersion> {
+    return this.templates.rollback(data.channel, data.name, data.version);
+  }
+
+  // Renders a template with sample data without sending anything
+  @MessagePattern('notification.templates.preview')
+  async previewTemplate(data: {
+    channel: TemplateChannel;
+    name: string;
+    data?: Record<string, any>;
+    locale?: string;
+    version?: number;
+  }): Promise<TemplatePreview> {
+    return this.templates.preview(data.channel, data.name, data.data, data.locale, data.version);
+  }
+
   private getPriority(priority: string): number {
     const priorityMap: Record<string, number> = {
       'urgent': 10,
@@ -315,6 +640,13 @@ export class NotificationService {
     return priorityMap[priority] || 5;
   }
 
+  // Whichever is later: the requested schedule or the end of the user's quiet hours
+  private getDelay(request: NotificationRequest, decision: DeliveryDecision): number {
+    const scheduledAt = request.scheduledAt ? new Date(request.scheduledAt).getTime() : 0;
+    const deliverAt = decision.deliverAt ? decision.deliverAt.getTime() : 0;
+    return Math.max(0, scheduledAt - Date.now(), deliverAt - Date.now());
+  }
+
   private getMaxAttempts(channel: string): number {
     const attemptsMap: Record<string, number> = {
       'email': 3,
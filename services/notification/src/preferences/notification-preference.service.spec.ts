@@ -0,0 +1,81 @@
+import { NotificationPreferenceService, normalizePhoneNumber } from './notification-preference.service';
+
+describe('NotificationPreferenceService', () => {
+  let service: NotificationPreferenceService;
+
+  beforeEach(() => {
+    const strings = new Map<string, string>();
+    const hashes = new Map<string, Map<string, string>>();
+    const hash = (key: string) => hashes.get(key) || hashes.set(key, new Map()).get(key)!;
+
+    service = new NotificationPreferenceService();
+    (service as any).redis = {
+      get: async (key: string) => strings.get(key) ?? null,
+      set: async (key: string, value: string) => strings.set(key, value),
+      hSet: async (key: string, field: string, value: string) => hash(key).set(field, value),
+      hDel: async (key: string, field: string) => hash(key).delete(field),
+      hExists: async (key: string, field: string) => hash(key).has(field),
+    };
+  });
+
+  describe('SMS opt-out', () => {
+    const request = {
+      userId: 'u1',
+      priority: 'normal' as const,
+      channels: ['sms', 'email'],
+      to: '(555) 010-0199',
+    };
+
+    it('suppresses SMS to a number that replied STOP', async () => {
+      await service.optOutPhone('+15550100199');
+
+      const decision = await service.evaluate(request);
+
+      expect(decision.channels).toEqual(['email']);
+      expect(decision.suppressed).toEqual([{ channel: 'sms', reason: 'recipient opted out of SMS' }]);
+    });
+
+    it('applies to mandatory categories too', async () => {
+      await service.optOutPhone('5550100199');
+
+      const decision = await service.evaluate({ ...request, category: 'security' });
+
+      expect(decision.channels).toEqual(['email']);
+    });
+
+    it('sends again after START', async () => {
+      await service.optOutPhone('5550100199');
+      await service.optInPhone('+1 555 010 0199');
+
+      expect((await service.evaluate(request)).channels).toEqual(['sms', 'email']);
+    });
+  });
+
+  describe('quiet hours', () => {
+    const night = new Date('2026-10-19T23:30:00Z');
+    const request = { userId: 'u1', priority: 'normal' as const, channels: ['email'] };
+
+    beforeEach(async () => {
+      await service.updatePreferences('u1', { timezone: 'UTC', quietHours: { enabled: true, start: '22:00', end: '07:00' } });
+    });
+
+    it('hold ordinary notifications until they end', async () => {
+      const decision = await service.evaluate({ ...request, category: 'marketing' }, night);
+
+      expect(decision.deliverAt).toEqual(new Date('2026-10-20T07:00:00Z'));
+    });
+
+    it.each(['security', 'transactional'])('do not hold %s notifications', async (category) => {
+      const decision = await service.evaluate({ ...request, category }, night);
+
+      expect(decision.deliverAt).toBeUndefined();
+      expect(decision.delivery).toBe('immediate');
+    });
+  });
+
+  it('normalizes phone numbers to E.164', () => {
+    expect(normalizePhoneNumber('(555) 010-0199')).toBe('+15550100199');
+    expect(normalizePhoneNumber('1-555-010-0199')).toBe('+15550100199');
+    expect(normalizePhoneNumber('+44 20 7946 0000')).toBe('+442079460000');
+  });
+});
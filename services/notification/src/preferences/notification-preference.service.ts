@@ -0,0 +1,316 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { createClient, RedisClientType } from 'redis';
+
+export type NotificationChannel = 'email' | 'sms' | 'push' | 'slack' | 'discord' | 'webhook';
+
+export type DigestFrequency = 'hourly' | 'daily' | 'weekly';
+
+export interface CategoryPreference {
+  // Per-channel opt-in (true) or opt-out (false); unset channels follow the user's defaults
+  channels?: Partial<Record<NotificationChannel, boolean>>;
+  delivery?: 'immediate' | 'digest';
+  digestFrequency?: DigestFrequency;
+  fallback?: FallbackStep[];
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  // Local wall-clock times in the user's timezone, "HH:mm"; may wrap midnight
+  start: string;
+  end: string;
+  // 0 = Sunday; all days when omitted
+  days?: number[];
+}
+
+// Try `channel` if nothing earlier in the chain was delivered within `afterMs`
+export interface FallbackStep {
+  channel: NotificationChannel;
+  afterMs: number;
+}
+
+export interface NotificationPreferences {
+  userId: string;
+  timezone: string;
+  locale: string;
+  channels: Partial<Record<NotificationChannel, boolean>>;
+  categories: Record<string, CategoryPreference>;
+  quietHours?: QuietHours;
+  updatedAt: Date;
+}
+
+export interface DeliveryDecision {
+  channels: NotificationChannel[];
+  suppressed: Array<{ channel: string; reason: string }>;
+  // Set when quiet hours push delivery back
+  deliverAt?: Date;
+  delivery: 'immediate' | 'digest';
+  digestFrequency: DigestFrequency;
+  fallback: FallbackStep[];
+  locale: string;
+  timezone: string;
+}
+
+export interface DeliveryRequest {
+  userId: string;
+  category?: string;
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  channels: string[];
+  fallback?: FallbackStep[];
+  // SMS recipient, checked against the carrier opt-out list
+  to?: string;
+}
+
+const CHANNELS: NotificationChannel[] = ['email', 'sms', 'push', 'slack', 'discord', 'webhook'];
+
+// Account and security messages are always sent, whatever the user's opt-outs
+const MANDATORY_CATEGORIES = ['security', 'transactional'];
+
+// Wall-clock time of `date` in the given IANA timezone
+export function getLocalTime(date: Date, timezone: string): { minutes: number; seconds: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour12: false,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '0';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return {
+    minutes: (parseInt(get('hour')) % 24) * 60 + parseInt(get('minute')),
+    seconds: parseInt(get('second')),
+    weekday: weekdays.indexOf(get('weekday')),
+  };
+}
+
+// E.164-style number as used for the SMS opt-out list; numbers without a country code are assumed to be US
+export function normalizePhoneNumber(phoneNumber: string): string {
+  const cleaned = phoneNumber.replace(/[^\d+]/g, '');
+
+  if (!cleaned.startsWith('+')) {
+    if (cleaned.length === 10) {
+      return '+1' + cleaned;
+    }
+    if (cleaned.length === 11 && cleaned.startsWith('1')) {
+      return '+' + cleaned;
+    }
+  }
+
+  return cleaned;
+}
+
+@Injectable()
+export class NotificationPreferenceService implements OnModuleInit {
+  private readonly logger = new Logger(NotificationPreferenceService.name);
+  private redis: RedisClientType;
+  private readonly KEY_PREFIX = 'notification:preferences';
+  private readonly SMS_OPT_OUT_KEY = 'notification:sms-opt-out';
+  private readonly DEFAULT_TIMEZONE = 'UTC';
+  private readonly DEFAULT_LOCALE = process.env.DEFAULT_LOCALE || 'en';
+
+  async onModuleInit() {
+    this.redis = createClient({
+      socket: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+      },
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.error('Redis connection error:', error.message);
+    });
+
+    await this.redis.connect();
+    this.logger.log('Connected to Redis for notification preferences');
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const raw = await this.redis.get(this.preferencesKey(userId));
+
+    if (!raw) {
+      return {
+        userId,
+        timezone: this.DEFAULT_TIMEZONE,
+        locale: this.DEFAULT_LOCALE,
+        channels: {},
+        categories: {},
+        updatedAt: new Date(0),
+      };
+    }
+
+    const preferences = JSON.parse(raw);
+    return { ...preferences, updatedAt: new Date(preferences.updatedAt) };
+  }
+
+  async updatePreferences(
+    userId: string,
+    update: Partial<Omit<NotificationPreferences, 'userId' | 'updatedAt'>>,
+  ): Promise<NotificationPreferences> {
+    if (update.timezone && !this.isValidTimezone(update.timezone)) {
+      throw new Error(`Unknown timezone: ${update.timezone}`);
+    }
+    if (update.quietHours && !this.isValidQuietHours(update.quietHours)) {
+      throw new Error('Quiet hours must use HH:mm start and end times');
+    }
+
+    const current = await this.getPreferences(userId);
+    const updated: NotificationPreferences = {
+      ...current,
+      ...update,
+      channels: { ...current.channels, ...update.channels },
+      categories: { ...current.categories, ...update.categories },
+      userId,
+      updatedAt: new Date(),
+    };
+
+    await this.redis.set(this.preferencesKey(userId), JSON.stringify(updated));
+    this.logger.debug(`Updated notification preferences for user ${userId}`);
+
+    return updated;
+  }
+
+  async setChannelOptIn(
+    userId: string,
+    channel: NotificationChannel,
+    enabled: boolean,
+    category?: string,
+  ): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId);
+
+    if (!category) {
+      return this.updatePreferences(userId, { channels: { [channel]: enabled } });
+    }
+
+    const categoryPreference = current.categories[category] || {};
+    return this.updatePreferences(userId, {
+      categories: {
+        [category]: {
+          ...categoryPreference,
+          channels: { ...categoryPreference.channels, [channel]: enabled },
+        },
+      },
+    });
+  }
+
+  /**
+   * Decides which of the requested channels may be used, whether delivery
+   * should wait for the end of quiet hours and how the message should be
+   * batched. Urgent notifications and mandatory categories (security and
+   * transactional mail such as password resets) ignore quiet hours and
+   * digests. A number that replied STOP gets no SMS at all, whatever the
+   * category.
+   */
+  async evaluate(request: DeliveryRequest, now = new Date()): Promise<DeliveryDecision> {
+    const preferences = await this.getPreferences(request.userId);
+    const category = request.category || 'general';
+    const categoryPreference = preferences.categories[category] || {};
+    const mandatory = MANDATORY_CATEGORIES.includes(category);
+    const smsOptedOut = request.channels.includes('sms') && !!request.to && await this.isPhoneOptedOut(request.to);
+
+    const channels: NotificationChannel[] = [];
+    const suppressed: DeliveryDecision['suppressed'] = [];
+
+    for (const channel of request.channels) {
+      if (!CHANNELS.includes(channel as NotificationChannel)) {
+        suppressed.push({ channel, reason: 'unknown channel' });
+        continue;
+      }
+
+      if (channel === 'sms' && smsOptedOut) {
+        suppressed.push({ channel, reason: 'recipient opted out of SMS' });
+        continue;
+      }
+
+      const typed = channel as NotificationChannel;
+      const optedIn = categoryPreference.channels?.[typed] ?? preferences.channels[typed] ?? true;
+
+      if (!optedIn && !mandatory) {
+        suppressed.push({ channel, reason: `opted out of ${channel} for ${category}` });
+        continue;
+      }
+
+      channels.push(typed);
+    }
+
+    const urgent = request.priority === 'urgent';
+    const deliverAt = !urgent && !mandatory && preferences.quietHours?.enabled
+      ? this.endOfQuietHours(preferences.quietHours, preferences.timezone, now)
+      : undefined;
+
+    return {
+      channels,
+      suppressed,
+      deliverAt,
+      delivery: urgent || mandatory ? 'immediate' : categoryPreference.delivery || 'immediate',
+      digestFrequency: categoryPreference.digestFrequency || 'daily',
+      fallback: request.fallback || categoryPreference.fallback || [],
+      locale: preferences.locale,
+      timezone: preferences.timezone,
+    };
+  }
+
+  // SMS opt-out list, keyed by E.164 number (carrier STOP/START keywords)
+  async optOutPhone(phoneNumber: string): Promise<void> {
+    await this.redis.hSet(this.SMS_OPT_OUT_KEY, normalizePhoneNumber(phoneNumber), new Date().toISOString());
+  }
+
+  async optInPhone(phoneNumber: string): Promise<void> {
+    await this.redis.hDel(this.SMS_OPT_OUT_KEY, normalizePhoneNumber(phoneNumber));
+  }
+
+  async isPhoneOptedOut(phoneNumber: string): Promise<boolean> {
+    return (await this.redis.hExists(this.SMS_OPT_OUT_KEY, normalizePhoneNumber(phoneNumber))) === true;
+  }
+
+  /**
+   * Returns when the current quiet period ends, or undefined if the user is
+   * not in quiet hours right now.
+   */
+  private endOfQuietHours(quietHours: QuietHours, timezone: string, now: Date): Date | undefined {
+    const local = getLocalTime(now, timezone);
+    const start = this.toMinutes(quietHours.start);
+    const end = this.toMinutes(quietHours.end);
+
+    // Windows that wrap midnight started on the previous local day
+    const wraps = start > end;
+    const inWindow = wraps ? local.minutes >= start || local.minutes < end : local.minutes >= start && local.minutes < end;
+
+    if (!inWindow) {
+      return undefined;
+    }
+
+    const startDay = wraps && local.minutes < end ? (local.weekday + 6) % 7 : local.weekday;
+    if (quietHours.days && !quietHours.days.includes(startDay)) {
+      return undefined;
+    }
+
+    const minutesLeft = (end - local.minutes + 1440) % 1440;
+    return new Date(now.getTime() + minutesLeft * 60000 - local.seconds * 1000);
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map((part) => parseInt(part));
+    return hours * 60 + minutes;
+  }
+
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private isValidQuietHours(quietHours: QuietHours): boolean {
+    const pattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+    return pattern.test(quietHours.start) && pattern.test(quietHours.end);
+  }
+
+  private preferencesKey(userId: string): string {
+    return `${this.KEY_PREFIX}:${userId}`;
+  }
+}
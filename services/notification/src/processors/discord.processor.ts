@@ -0,0 +1,282 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { APIEmbed, WebhookClient } from 'discord.js';
+
+export interface DiscordJob {
+  id: string;
+  userId: string;
+  template: string;
+  data: Record<string, any>;
+  channel: string;
+  message: string;
+  priority: string;
+  timestamp: Date;
+}
+
+interface DiscordTemplate {
+  content?: string;
+  embeds?: APIEmbed[];
+}
+
+// Discord rejects messages over these limits
+const MAX_CONTENT_LENGTH = 2000;
+const MAX_EMBEDS = 10;
+const MAX_EMBED_TITLE = 256;
+const MAX_EMBED_DESCRIPTION = 4096;
+const MAX_EMBED_FIELDS = 25;
+const MAX_FIELD_VALUE = 1024;
+
+// Per-job webhook URLs must point at Discord itself
+const DISCORD_WEBHOOK_URL = /^https:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+$/;
+const MAX_CACHED_WEBHOOKS = 100;
+
+const SEVERITY_COLORS: Record<string, number> = {
+  critical: 0xe01e5a,
+  high: 0xf2994a,
+  warning: 0xf2c94c,
+  info: 0x2d9cdb,
+};
+
+@Processor('discord-notifications')
+export class DiscordProcessor {
+  private readonly logger = new Logger(DiscordProcessor.name);
+  private defaultWebhook: WebhookClient;
+  private webhooks = new Map<string, WebhookClient>();
+  private templates = new Map<string, DiscordTemplate>();
+
+  constructor() {
+    this.initializeDiscord();
+    this.loadDiscordTemplates();
+  }
+
+  private initializeDiscord(): void {
+    const webhookUrl = process.env.DISCORD_WEBHOOK_URL;
+
+    if (!webhookUrl) {
+      this.logger.warn('Discord webhook URL not configured. Discord functionality will be limited.');
+      return;
+    }
+
+    try {
+      this.defaultWebhook = new WebhookClient({ url: webhookUrl });
+      this.logger.log('Discord webhook client initialized successfully');
+    } catch (error) {
+      this.logger.error('Failed to initialize Discord webhook client:', error);
+    }
+  }
+
+  private loadDiscordTemplates(): void {
+    // System alert template
+    this.templates.set('system-alert', {
+      embeds: [
+        {
+          title: '🚨 {{severity}} Alert: {{type}}',
+          description: '{{message}}',
+          fields: [
+            { name: 'Service', value: '{{service}}', inline: true },
+            { name: 'Time', value: '{{timestamp}}', inline: true },
+          ],
+          url: '{{dashboardUrl}}',
+        },
+      ],
+    });
+
+    // Deployment notification template
+    this.templates.set('deployment', {
+      embeds: [
+        {
+          title: '🚀 Deployment {{status}}',
+          fields: [
+            { name: 'Service', value: '{{serviceName}}', inline: true },
+            { name: 'Version', value: '{{version}}', inline: true },
+            { name: 'Environment', value: '{{environment}}', inline: true },
+            { name: 'Duration', value: '{{duration}}', inline: true },
+          ],
+        },
+      ],
+    });
+
+    // Performance report template
+    this.templates.set('performance-report', {
+      embeds: [
+        {
+          title: '📊 Performance Report',
+          description: 'Daily Performance Summary',
+          fields: [
+            { name: 'Response Time', value: '{{avgResponseTime}}ms', inline: true },
+            { name: 'Error Rate', value: '{{errorRate}}%', inline: true },
+            { name: 'Throughput', value: '{{throughput}} req/s', inline: true },
+            { name: 'Uptime', value: '{{uptime}}%', inline: true },
+          ],
+        },
+      ],
+    });
+
+    // User activity template
+    this.templates.set('user-activity', {
+      embeds: [
+        {
+          title: '👤 {{activityType}}',
+          description: 'User: {{userName}}\nAction: {{action}}\nTime: {{timestamp}}',
+        },
+      ],
+    });
+
+    // Simple message template
+    this.templates.set('simple-message', {
+      content: '{{message}}',
+    });
+
+    this.logger.log(`Loaded ${this.templates.size} Discord templates`);
+  }
+
+  @Process('send-discord')
+  async handleSendDiscord(job: Job<DiscordJob>): Promise<void> {
+    const { id, userId, template, data, message } = job.data;
+
+    this.logger.debug(`Processing Discord job ${id} for user ${userId}`);
+
+    const webhook = this.getWebhook(data?.webhookUrl);
+    if (!webhook) {
+      throw new Error('Discord webhook not configured. Check your configuration.');
+    }
+
+    try {
+      let content = message;
+      let embeds: APIEmbed[] | undefined;
+
+      // Use template if specified
+      if (template && this.templates.has(template)) {
+        const templateContent = this.templates.get(template)!;
+        const templateData = {
+          ...data,
+          timestamp: new Date().toISOString(),
+        };
+
+        if (templateContent.content) {
+          content = this.renderTemplate(templateContent.content, templateData);
+        }
+
+        if (templateContent.embeds) {
+          embeds = this.renderValue(templateContent.embeds, templateData).map((embed: APIEmbed) =>
+            this.finalizeEmbed(embed, data?.severity),
+          );
+        }
+      }
+
+      if (!content && !embeds?.length) {
+        throw new Error(`Discord message ${id} has no content`);
+      }
+
+      const result = await webhook.send({
+        content: content ? content.substring(0, MAX_CONTENT_LENGTH) : undefined,
+        embeds: embeds?.slice(0, MAX_EMBEDS),
+        username: data?.username,
+        avatarURL: data?.avatarUrl,
+        threadId: data?.threadId,
+      });
+
+      this.logger.log(`Discord message sent successfully: ${id} (message: ${result.id})`);
+
+      // Update job progress
+      job.progress(100);
+    } catch (error) {
+      this.logger.error(`Failed to send Discord message ${id}:`, error);
+      throw error;
+    }
+  }
+
+  // Clients are kept in least-recently-used order and the oldest is dropped once the cache is full
+  private getWebhook(url?: string): WebhookClient | undefined {
+    if (!url) {
+      return this.defaultWebhook;
+    }
+
+    if (typeof url !== 'string' || !DISCORD_WEBHOOK_URL.test(url)) {
+      throw new Error('Discord webhook URL must be a https://discord.com/api/webhooks/... URL');
+    }
+
+    let webhook = this.webhooks.get(url);
+    if (webhook) {
+      this.webhooks.delete(url);
+    } else {
+      webhook = new WebhookClient({ url });
+    }
+    this.webhooks.set(url, webhook);
+
+    if (this.webhooks.size > MAX_CACHED_WEBHOOKS) {
+      const [oldestUrl, oldest] = this.webhooks.entries().next().value!;
+      this.webhooks.delete(oldestUrl);
+      oldest.destroy();
+    }
+
+    return webhook;
+  }
+
+  // Drops empty optional parts and applies Discord's size limits
+  private finalizeEmbed(embed: APIEmbed, severity?: string): APIEmbed {
+    const finalized: APIEmbed = {
+      ...embed,
+      title: embed.title?.substring(0, MAX_EMBED_TITLE),
+      description: embed.description?.substring(0, MAX_EMBED_DESCRIPTION) || undefined,
+      url: embed.url && /^https?:\/\//.test(embed.url) ? embed.url : undefined,
+      fields: embed.fields
+        ?.filter((field) => field.value.trim().length > 0)
+        .slice(0, MAX_EMBED_FIELDS)
+        .map((field) => ({ ...field, value: field.value.substring(0, MAX_FIELD_VALUE) })),
+      color: embed.color ?? SEVERITY_COLORS[String(severity || '').toLowerCase()],
+      timestamp: embed.timestamp || new Date().toISOString(),
+    };
+
+    return finalized;
+  }
+
+  private renderTemplate(template: string, data: Record<string, any>): string {
+    let rendered = template;
+
+    Object.keys(data).forEach(key => {
+      const regex = new RegExp(`{{${key}}}`, 'g');
+      rendered = rendered.replace(regex, String(data[key] ?? ''));
+    });
+
+    // Placeholders without data render empty
+    return rendered.replace(/{{\w+}}/g, '');
+  }
+
+  private renderValue(value: any, data: Record<string, any>): any {
+    if (typeof value === 'string') {
+      return this.renderTemplate(value, data);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.renderValue(item, data));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      const rendered: any = {};
+
+      Object.keys(value).forEach(key => {
+        rendered[key] = this.renderValue(value[key], data);
+      });
+
+      return rendered;
+    }
+
+    return value;
+  }
+
+  // Template management
+  async addTemplate(name: string, template: DiscordTemplate): Promise<void> {
+    this.templates.set(name, template);
+    this.logger.log(`Added Discord template: ${name}`);
+  }
+
+  async getTemplate(name: string): Promise<DiscordTemplate | undefined> {
+    return this.templates.get(name);
+  }
+
+  async getAllTemplates(): Promise<string[]> {
+    return Array.from(this.templates.keys());
+  }
+}
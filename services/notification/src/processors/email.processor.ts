@@ -3,6 +3,12 @@ import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
 import * as nodemailer from 'nodemailer';
 import * as handlebars from 'handlebars';
+import { randomUUID } from 'crypto';
+import { DeliveryTrackingService } from '../delivery/delivery-tracking.service';
+import { DigestJob } from '../digest/digest.service';
+import { TemplateRegistryService } from '../templates/template-registry.service';
+import { EmailSuppressionService } from '../email/email-suppression.service';
+import { EmailTrackingService } from '../email/email-tracking.service';
 
 export interface EmailJob {
   id: string;
@@ -13,18 +19,51 @@ export interface EmailJob {
   subject: string;
   priority: string;
   channel: string;
+  locale?: string;
+  category?: string;
   timestamp: Date;
 }
 
+export interface EmailTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Variables the built-in templates cannot render without
+const REQUIRED_VARIABLES: Record<string, string[]> = {
+  'welcome': ['name'],
+  'password-reset': ['resetUrl'],
+  'notification': ['subject', 'message'],
+  'digest': ['items'],
+  'payment-overdue': ['headline', 'message', 'amount', 'invoiceId', 'billingUrl'],
+  'subscription-suspended': ['planId', 'billingUrl'],
+};
+
+// Links in these categories (e.g. password resets) are never rewritten or tracked
+const UNTRACKED_CATEGORIES = ['security'];
+
 @Processor('email-notifications')
 export class EmailProcessor {
   private readonly logger = new Logger(EmailProcessor.name);
   private transporter: nodemailer.Transporter;
-  private templates = new Map<string, { subject: string; html: string; text: string }>();
+  private templates = new Map<string, EmailTemplate>();
+  private readonly trackingEnabled = process.env.EMAIL_TRACKING_ENABLED !== 'false';
+  private readonly messageIdDomain = process.env.EMAIL_MESSAGE_ID_DOMAIN || 'nexus.dev';
 
-  constructor() {
+  constructor(
+    private readonly deliveryTracking: DeliveryTrackingService,
+    private readonly templateRegistry: TemplateRegistryService,
+    private readonly suppression: EmailSuppressionService,
+    private readonly emailTracking: EmailTrackingService,
+  ) {
     this.initializeTransporter();
     this.loadEmailTemplates();
+    this.templateRegistry.registerChannel('email', {
+      builtIns: this.templates,
+      requiredVariables: REQUIRED_VARIABLES,
+      render: (template: EmailTemplate, data) => this.render(template, this.withDefaults(data)),
+    });
   }
 
   private initializeTransporter(): void {
@@ -233,59 +272,198 @@ export class EmailProcessor {
       `,
     });
 
+    // Digest template, rendered from DigestJob items
+    this.templates.set('digest', {
+      subject: 'Your {{frequency}} {{category}} digest: {{total}} updates - {{companyName}}',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Your {{frequency}} digest</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #6f42c1; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .item { padding: 12px 0; border-bottom: 1px solid #e5e5e5; }
+            .count { display: inline-block; padding: 0 8px; background: #6f42c1; color: white; border-radius: 10px; font-size: 12px; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Your {{frequency}} digest</h1>
+            </div>
+            <div class="content">
+              <h2>Hello {{name}},</h2>
+              <p>Here is what happened in {{category}} since your last digest.</p>
+              {{#each items}}
+              <div class="item">
+                {{#if actionUrl}}<a href="{{actionUrl}}">{{summary}}</a>{{else}}{{summary}}{{/if}}
+                {{#if repeated}}<span class="count">×{{count}}</span>{{/if}}
+              </div>
+              {{/each}}
+              <p style="text-align: center;">
+                <a href="{{dashboardUrl}}" style="display: inline-block; padding: 12px 24px; background: #6f42c1; color: white; text-decoration: none; border-radius: 4px;">View all activity</a>
+              </p>
+            </div>
+            <div class="footer">
+              <p>You receive this {{frequency}} digest because of your notification preferences.</p>
+              <p>© {{year}} {{companyName}}. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Your {{frequency}} {{category}} digest - {{companyName}}
+
+        Hello {{name}},
+
+        {{#each items}}
+        - {{summary}}{{#if repeated}} (×{{count}}){{/if}}{{#if actionUrl}}: {{actionUrl}}{{/if}}
+        {{/each}}
+
+        View all activity: {{dashboardUrl}}
+
+        © {{year}} {{companyName}}. All rights reserved.
+      `,
+    });
+
+    // Dunning notice; headline and message escalate with each failed collection attempt
+    this.templates.set('payment-overdue', {
+      subject: '{{headline}} - {{companyName}}',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <title>{{headline}}</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #fd7e14; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .button { display: inline-block; padding: 12px 24px; background: #fd7e14; color: white; text-decoration: none; border-radius: 4px; }
+            .summary { background: #fff; border: 1px solid #e5e5e5; padding: 15px; border-radius: 4px; margin: 15px 0; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>{{headline}}</h1>
+            </div>
+            <div class="content">
+              <h2>Hello {{name}},</h2>
+              <p>{{message}}</p>
+              <div class="summary">
+                <p><strong>Invoice:</strong> {{invoiceId}}</p>
+                <p><strong>Amount due:</strong> {{amount}}</p>
+                {{#if lateFee}}<p><strong>Late fee (invoiced separately):</strong> {{lateFee}}</p>{{/if}}
+                {{#if failureReason}}<p><strong>Reason:</strong> {{failureReason}}</p>{{/if}}
+                {{#if nextRetryDate}}<p><strong>Next attempt:</strong> {{nextRetryDate}}</p>{{/if}}
+              </div>
+              <p style="text-align: center;">
+                <a href="{{billingUrl}}" class="button">Update payment method</a>
+              </p>
+            </div>
+            <div class="footer">
+              <p>© {{year}} {{companyName}}. All rights reserved.</p>
+              <p>Questions about your bill? Contact us at {{supportEmail}}</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        {{headline}} - {{companyName}}
+
+        Hello {{name}},
+
+        {{message}}
+
+        Invoice: {{invoiceId}}
+        Amount due: {{amount}}
+        {{#if lateFee}}Late fee (invoiced separately): {{lateFee}}{{/if}}
+        {{#if failureReason}}Reason: {{failureReason}}{{/if}}
+        {{#if nextRetryDate}}Next attempt: {{nextRetryDate}}{{/if}}
+
+        Update your payment method: {{billingUrl}}
+
+        © {{year}} {{companyName}}. All rights reserved.
+        Questions about your bill? Contact us at {{supportEmail}}
+      `,
+    });
+
+    // Sent when dunning ends without payment and the subscription is suspended
+    this.templates.set('subscription-suspended', {
+      subject: 'Your subscription has been suspended - {{companyName}}',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Your subscription has been suspended</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #dc3545; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .button { display: inline-block; padding: 12px 24px; background: #dc3545; color: white; text-decoration: none; border-radius: 4px; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Subscription suspended</h1>
+            </div>
+            <div class="content">
+              <h2>Hello {{name}},</h2>
+              <p>We were unable to collect payment for your {{planId}} subscription, so access to {{companyName}} has been suspended.</p>
+              <p>Your data is safe. Settle the outstanding balance and your access will be restored automatically.</p>
+              <p style="text-align: center;">
+                <a href="{{billingUrl}}" class="button">Pay now</a>
+              </p>
+            </div>
+            <div class="footer">
+              <p>© {{year}} {{companyName}}. All rights reserved.</p>
+              <p>Questions about your bill? Contact us at {{supportEmail}}</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Subscription suspended - {{companyName}}
+
+        Hello {{name}},
+
+        We were unable to collect payment for your {{planId}} subscription, so access to {{companyName}} has been suspended.
+
+        Your data is safe. Settle the outstanding balance and your access will be restored automatically.
+
+        Pay now: {{billingUrl}}
+
+        © {{year}} {{companyName}}. All rights reserved.
+        Questions about your bill? Contact us at {{supportEmail}}
+      `,
+    });
+
     this.logger.log(`Loaded ${this.templates.size} email templates`);
   }
 
   @Process('send-email')
   async handleSendEmail(job: Job<EmailJob>): Promise<void> {
-    const { id, userId, template, data, to, subject, priority } = job.data;
+    const { id, userId } = job.data;
     
     this.logger.debug(`Processing email job ${id} for user ${userId}`);
 
     try {
-      // Get template
-      const emailTemplate = this.templates.get(template);
-      if (!emailTemplate) {
-        throw new Error(`Email template '${template}' not found`);
-      }
-
-      // Prepare template data with defaults
-      const templateData = {
-        ...data,
-        companyName: data.companyName || 'Nexus Platform',
-        year: new Date().getFullYear(),
-        supportEmail: data.supportEmail || 'support@nexus.dev',
-        dashboardUrl: data.dashboardUrl || process.env.FRONTEND_URL || 'http://localhost:3000',
-      };
-
-      // Compile templates
-      const subjectTemplate = handlebars.compile(emailTemplate.subject);
-      const htmlTemplate = handlebars.compile(emailTemplate.html);
-      const textTemplate = handlebars.compile(emailTemplate.text);
-
-      // Render email content
-      const renderedSubject = subjectTemplate(templateData);
-      const renderedHtml = htmlTemplate(templateData);
-      const renderedText = textTemplate(templateData);
-
-      // Send email
-      const mailOptions = {
-        from: process.env.SMTP_FROM || 'noreply@nexus.dev',
-        to: to || data.email,
-        subject: subject || renderedSubject,
-        html: renderedHtml,
-        text: renderedText,
-        priority: this.mapPriority(priority),
-        headers: {
-          'X-Notification-ID': id,
-          'X-User-ID': userId,
-          'X-Template': template,
-        },
-      };
-
-      const result = await this.transporter.sendMail(mailOptions);
-      
-      this.logger.log(`Email sent successfully: ${id} (MessageID: ${result.messageId})`);
+      await this.sendEmail(job.data);
       
       // Update job with success info
       job.progress(100);
@@ -296,6 +474,43 @@ export class EmailProcessor {
     }
   }
 
+  // Windowed digest of low-priority notifications, see DigestService
+  @Process('send-digest')
+  async handleSendDigest(job: Job<DigestJob>): Promise<void> {
+    const { id, userId, category, frequency, items, to } = job.data;
+
+    this.logger.debug(`Processing ${frequency} digest ${id} for user ${userId} (${items.length} items)`);
+
+    const latest = items[0]?.data || {};
+
+    try {
+      await this.sendEmail({
+        id,
+        userId,
+        template: 'digest',
+        data: {
+          ...latest,
+          items: items.map(item => ({ ...item, repeated: item.count > 1 })),
+          total: items.reduce((sum, item) => sum + item.count, 0),
+          frequency,
+          category,
+        },
+        to: to || latest.email,
+        subject: '',
+        priority: 'low',
+        channel: 'email',
+        locale: job.data.locale,
+        category,
+        timestamp: new Date(),
+      });
+
+      job.progress(100);
+    } catch (error) {
+      this.logger.error(`Failed to send digest ${id}:`, error);
+      throw error;
+    }
+  }
+
   @Process('send-bulk-email')
   async handleBulkEmail(job: Job<{ emails: EmailJob[] }>): Promise<void> {
     const { emails } = job.data;
@@ -321,6 +536,75 @@ export class EmailProcessor {
     this.logger.log(`Bulk email completed: ${successCount} sent, ${failureCount} failed`);
   }
 
+  private async sendEmail(email: EmailJob): Promise<void> {
+    const { id, userId, template, data, to, subject, priority, locale, category } = email;
+    const recipient = to || data.email;
+
+    if (recipient && await this.suppression.isSuppressed(recipient)) {
+      this.logger.log(`Skipping email ${id}: ${recipient} is on the suppression list`);
+      await this.deliveryTracking.markState(id, 'email', 'failed');
+      await this.emailTracking.recordEvent(id, { type: 'suppressed', at: new Date(), detail: { to: recipient } });
+      return;
+    }
+
+    // Get template
+    const emailTemplate = await this.templateRegistry.resolve<EmailTemplate>('email', template, locale);
+    if (!emailTemplate) {
+      throw new Error(`Email template '${template}' not found`);
+    }
+
+    const templateData = this.withDefaults(data);
+    this.templateRegistry.validate(emailTemplate, templateData);
+
+    const rendered = this.render(emailTemplate.content, templateData);
+
+    // Our own Message-ID, so bounces and tracking events can be matched back
+    const messageId = `${randomUUID()}@${this.messageIdDomain}`;
+    const tracked = this.trackingEnabled && !data.disableTracking && !UNTRACKED_CATEGORIES.includes(category || '');
+
+    // Send email
+    const mailOptions = {
+      from: process.env.SMTP_FROM || 'noreply@nexus.dev',
+      to: recipient,
+      subject: subject || rendered.subject,
+      html: tracked ? this.emailTracking.addTracking(rendered.html, messageId) : rendered.html,
+      text: rendered.text,
+      priority: this.mapPriority(priority),
+      messageId: `<${messageId}>`,
+      headers: {
+        'X-Notification-ID': id,
+        'X-User-ID': userId,
+        'X-Template': template,
+        'X-Template-Version': String(emailTemplate.version),
+      },
+    };
+
+    const result = await this.transporter.sendMail(mailOptions);
+    
+    this.logger.log(`Email sent successfully: ${id} (MessageID: ${result.messageId})`);
+    await this.deliveryTracking.markState(id, 'email', 'sent', messageId);
+    await this.emailTracking.recordSent({ messageId, notificationId: id, userId, to: recipient, template });
+  }
+
+  // Prepare template data with defaults
+  private withDefaults(data: Record<string, any>): Record<string, any> {
+    return {
+      ...data,
+      companyName: data.companyName || 'Nexus Platform',
+      year: new Date().getFullYear(),
+      supportEmail: data.supportEmail || 'support@nexus.dev',
+      dashboardUrl: data.dashboardUrl || process.env.FRONTEND_URL || 'http://localhost:3000',
+    };
+  }
+
+  private render(template: EmailTemplate, data: Record<string, any>): EmailTemplate {
+    return {
+      subject: handlebars.compile(template.subject)(data),
+      html: handlebars.compile(template.html)(data),
+      text: handlebars.compile(template.text)(data),
+    };
+  }
+
   private mapPriority(priority: string): 'high' | 'normal' | 'low' {
     switch (priority?.toLowerCase()) {
       case 'urgent':
@@ -333,18 +617,23 @@ export class EmailProcessor {
     }
   }
 
-  // Template management
-  async addTemplate(name: string, template: { subject: string; html: string; text: string }): Promise<void> {
-    this.templates.set(name, template);
-    this.logger.log(`Added email template: ${name}`);
+  // Template management; each change publishes a new template version
+  async addTemplate(
+    name: string,
+    template: EmailTemplate,
+    locale = process.env.DEFAULT_LOCALE || 'en',
+    requiredVariables?: string[],
+  ): Promise<void> {
+    const version = await this.templateRegistry.publishLocale('email', name, locale, template, { requiredVariables });
+    this.logger.log(`Added email template: ${name} (${locale}, v${version.version})`);
   }
 
-  async getTemplate(name: string): Promise<{ subject: string; html: string; text: string } | undefined> {
-    return this.templates.get(name);
+  async getTemplate(name: string, locale?: string): Promise<EmailTemplate | undefined> {
+    return (await this.templateRegistry.resolve<EmailTemplate>('email', name, locale))?.content;
   }
 
   async getAllTemplates(): Promise<string[]> {
-    return Array.from(this.templates.keys());
+    return this.templateRegistry.listTemplates('email');
   }
 
   // Email validation
@@ -353,54 +642,70 @@ export class EmailProcessor {
     return emailRegex.test(email);
   }
 
-  // Bounce handling (would integrate with webhook endpoints)
+  /**
+   * Hard bounces suppress the address at once; soft bounces after
+   * EMAIL_SOFT_BOUNCE_LIMIT. Only the recorded recipient of a message we sent
+   * is ever suppressed, never an address taken from the event itself.
+   */
   async handleBounce(messageId: string, bounceType: 'hard' | 'soft', reason: string): Promise<void> {
     this.logger.warn(`Email bounce detected: ${messageId} (${bounceType}): ${reason}`);
-    
-    // In a real implementation, you would:
-    // 1. Update user's email status
-    // 2. Add to suppression list if hard bounce
-    // 3. Retry if soft bounce
-    // 4. Send notification to admin if needed
+
+    const message = await this.emailTracking.recordMessageEvent(messageId, 'bounced', { bounceType, reason });
+    const recipient = message?.to;
+
+    if (bounceType === 'hard') {
+      await this.deliveryTracking.markProviderState(this.emailTracking.normalizeMessageId(messageId), 'failed');
+    }
+
+    if (!recipient) {
+      this.logger.warn(`Bounce for unknown message ${messageId}; not suppressing`);
+      return;
+    }
+
+    if (bounceType === 'hard') {
+      await this.suppression.suppress(recipient, 'hard-bounce', reason);
+    } else {
+      await this.suppression.recordSoftBounce(recipient, reason);
+    }
   }
 
-  // Complaint handling
+  // Complaint handling; like bounces, only the recorded recipient is suppressed
   async handleComplaint(messageId: string, complaintType: string): Promise<void> {
     this.logger.warn(`Email complaint received: ${messageId} (${complaintType})`);
-    
-    // In a real implementation, you would:
-    // 1. Add email to suppression list
-    // 2. Update user preferences
-    // 3. Send notification to admin
+
+    const message = await this.emailTracking.recordMessageEvent(messageId, 'complained', { complaintType });
+    const recipient = message?.to;
+
+    if (!recipient) {
+      this.logger.warn(`Complaint for unknown message ${messageId}; not suppressing`);
+      return;
+    }
+
+    await this.suppression.suppress(recipient, 'complaint', complaintType);
   }
 
   // Delivery tracking
   async handleDelivery(messageId: string, timestamp: Date): Promise<void> {
     this.logger.debug(`Email delivered: ${messageId} at ${timestamp}`);
-    
-    // In a real implementation, you would:
-    // 1. Update delivery status in database
-    // 2. Track delivery metrics
-    // 3. Update user engagement data
+
+    await this.emailTracking.recordMessageEvent(messageId, 'delivered', { timestamp });
+
+    if (!(await this.deliveryTracking.markProviderState(this.emailTracking.normalizeMessageId(messageId), 'delivered'))) {
+      this.logger.debug(`Delivery report for unknown message ${messageId}`);
+    }
   }
 
   // Open tracking
   async handleOpen(messageId: string, userAgent: string, ipAddress: string): Promise<void> {
     this.logger.debug(`Email opened: ${messageId} from ${ipAddress}`);
-    
-    // In a real implementation, you would:
-    // 1. Update open status in database
-    // 2. Track engagement metrics
-    // 3. Update user activity
+
+    await this.emailTracking.recordMessageEvent(messageId, 'opened', { userAgent, ipAddress });
   }
 
   // Click tracking
   async handleClick(messageId: string, url: string, userAgent: string): Promise<void> {
     this.logger.debug(`Email link clicked: ${messageId} -> ${url}`);
-    
-    // In a real implementation, you would:
-    // 1. Update click status in database
-    // 2. Track link performance
-    // 3. Update user engagement data
+
+    await this.emailTracking.recordMessageEvent(messageId, 'clicked', { url, userAgent });
   }
 }
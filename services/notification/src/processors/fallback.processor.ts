@@ -0,0 +1,42 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { FallbackJob, NotificationService } from '../notification.service';
+import { DeliveryTrackingService } from '../delivery/delivery-tracking.service';
+
+@Processor('notification-fallbacks')
+export class FallbackProcessor {
+  private readonly logger = new Logger(FallbackProcessor.name);
+
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly deliveryTracking: DeliveryTrackingService,
+  ) {}
+
+  @Process('check-delivery')
+  async handleCheckDelivery(job: Job<FallbackJob>): Promise<void> {
+    const { request, attemptedChannels, steps } = job.data;
+
+    if (await this.deliveryTracking.isDelivered(request.id, attemptedChannels)) {
+      this.logger.debug(`Notification ${request.id} delivered via ${attemptedChannels.join('/')}; no fallback needed`);
+      return;
+    }
+
+    if (request.expiresAt && new Date(request.expiresAt) < new Date()) {
+      this.logger.debug(`Notification ${request.id} expired before fallback`);
+      return;
+    }
+
+    const [step, ...remaining] = steps;
+
+    this.logger.log(
+      `Notification ${request.id} not delivered via ${attemptedChannels.join('/')}; falling back to ${step.channel}`,
+    );
+
+    // Preferences are re-checked for the fallback channel like any other send
+    await this.notificationService.sendNotification(
+      { ...request, channels: [step.channel], fallback: remaining, scheduledAt: undefined },
+      attemptedChannels,
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { Processor, Process } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
 import * as admin from 'firebase-admin';
+import { DeliveryTrackingService } from '../delivery/delivery-tracking.service';
+import { TemplateRegistryService } from '../templates/template-registry.service';
 
 export interface PushJob {
   id: string;
@@ -13,18 +15,45 @@ export interface PushJob {
   body: string;
   priority: string;
   channel: string;
+  locale?: string;
   timestamp: Date;
 }
 
+export interface PushTemplate {
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+}
+
+// Variables the built-in templates cannot render without
+const REQUIRED_VARIABLES: Record<string, string[]> = {
+  'welcome': ['name'],
+  'new-message': ['senderName', 'messagePreview', 'chatId'],
+  'system-alert': ['alertType', 'message'],
+  'order-update': ['orderNumber', 'status', 'orderId'],
+  'reminder': ['reminderText'],
+  'promotion': ['promoTitle', 'promoDescription', 'discount'],
+  'security-alert': ['location', 'device'],
+  'achievement': ['achievementName'],
+};
+
 @Processor('push-notifications')
 export class PushProcessor {
   private readonly logger = new Logger(PushProcessor.name);
   private firebaseApp: admin.app.App;
-  private templates = new Map<string, { title: string; body: string; data?: Record<string, any> }>();
+  private templates = new Map<string, PushTemplate>();
 
-  constructor() {
+  constructor(
+    private readonly deliveryTracking: DeliveryTrackingService,
+    private readonly templateRegistry: TemplateRegistryService,
+  ) {
     this.initializeFirebase();
     this.loadPushTemplates();
+    this.templateRegistry.registerChannel('push', {
+      builtIns: this.templates,
+      requiredVariables: REQUIRED_VARIABLES,
+      render: (template: PushTemplate, data) => this.render(template, this.withDefaults(data)),
+    });
   }
 
   private initializeFirebase(): void {
@@ -143,7 +172,7 @@ export class PushProcessor {
 
   @Process('send-push')
   async handleSendPush(job: Job<PushJob>): Promise<void> {
-    const { id, userId, template, data, tokens, title, body, priority } = job.data;
+    const { id, userId, template, data, tokens, title, body, priority, locale } = job.data;
     
     this.logger.debug(`Processing push notification job ${id} for user ${userId}`);
 
@@ -157,22 +186,19 @@ export class PushProcessor {
       let finalBody = body;
       let notificationData = data;
 
-      if (template && this.templates.has(template)) {
-        const templateContent = this.templates.get(template)!;
-        const templateData = {
-          ...data,
-          companyName: data.companyName || 'Nexus Platform',
-        };
+      const pushTemplate = template ? await this.templateRegistry.resolve<PushTemplate>('push', template, locale) : undefined;
 
-        finalTitle = this.renderTemplate(templateContent.title, templateData);
-        finalBody = this.renderTemplate(templateContent.body, templateData);
-        
-        if (templateContent.data) {
-          notificationData = {
-            ...notificationData,
-            ...this.renderTemplateData(templateContent.data, templateData),
-          };
-        }
+      if (pushTemplate) {
+        const templateData = this.withDefaults(data);
+        this.templateRegistry.validate(pushTemplate, templateData);
+
+        const rendered = this.render(pushTemplate.content, templateData);
+        finalTitle = rendered.title;
+        finalBody = rendered.body;
+        notificationData = {
+          ...notificationData,
+          ...rendered.data,
+        };
       }
 
       // Validate tokens
@@ -237,6 +263,9 @@ export class PushProcessor {
         await this.handleFailedTokens(response.responses, validTokens);
       }
 
+      // FCM gives no device receipts; acceptance for at least one device is the best signal we get
+      await this.deliveryTracking.markState(id, 'push', response.successCount > 0 ? 'delivered' : 'failed');
+
       // Update job progress
       job.progress(100);
       
@@ -307,6 +336,21 @@ export class PushProcessor {
     }
   }
 
+  private withDefaults(data: Record<string, any>): Record<string, any> {
+    return {
+      ...data,
+      companyName: data.companyName || 'Nexus Platform',
+    };
+  }
+
+  private render(template: PushTemplate, data: Record<string, any>): PushTemplate {
+    return {
+      title: this.renderTemplate(template.title, data),
+      body: this.renderTemplate(template.body, data),
+      data: template.data ? this.renderTemplateData(template.data, data) : undefined,
+    };
+  }
+
   private renderTemplate(template: string, data: Record<string, any>): string {
     let rendered = template;
     
@@ -446,18 +490,23 @@ export class PushProcessor {
     }
   }
 
-  // Template management
-  async addTemplate(name: string, template: { title: string; body: string; data?: Record<string, any> }): Promise<void> {
-    this.templates.set(name, template);
-    this.logger.log(`Added push notification template: ${name}`);
+  // Template management; each change publishes a new template version
+  async addTemplate(
+    name: string,
+    template: PushTemplate,
+    locale = process.env.DEFAULT_LOCALE || 'en',
+    requiredVariables?: string[],
+  ): Promise<void> {
+    const version = await this.templateRegistry.publishLocale('push', name, locale, template, { requiredVariables });
+    this.logger.log(`Added push notification template: ${name} (${locale}, v${version.version})`);
   }
 
-  async getTemplate(name: string): Promise<{ title: string; body: string; data?: Record<string, any> } | undefined> {
-    return this.templates.get(name);
+  async getTemplate(name: string, locale?: string): Promise<PushTemplate | undefined> {
+    return (await this.templateRegistry.resolve<PushTemplate>('push', name, locale))?.content;
   }
 
   async getAllTemplates(): Promise<string[]> {
-    return Array.from(this.templates.keys());
+    return this.templateRegistry.listTemplates('push');
   }
 
   // Analytics
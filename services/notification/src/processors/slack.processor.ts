@@ -2,6 +2,8 @@ import { Processor, Process } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
 import { WebClient } from '@slack/web-api';
+import { DigestJob } from '../digest/digest.service';
+import { TemplateRegistryService } from '../templates/template-registry.service';
 
 export interface SlackJob {
   id: string;
@@ -11,18 +13,42 @@ export interface SlackJob {
   channel: string;
   message: string;
   priority: string;
+  locale?: string;
   timestamp: Date;
 }
 
+export interface SlackTemplate {
+  text?: string;
+  blocks?: any[];
+}
+
+// Variables the built-in templates cannot render without
+const REQUIRED_VARIABLES: Record<string, string[]> = {
+  'system-alert': ['severity', 'message'],
+  'deployment': ['status', 'serviceName'],
+  'user-activity': ['activityType', 'action'],
+  'simple-message': ['message'],
+  'digest': ['frequency', 'category'],
+  'digest-item': ['link'],
+};
+
+// Slack rejects messages with more blocks than this
+const MAX_BLOCKS = 50;
+
 @Processor('slack-notifications')
 export class SlackProcessor {
   private readonly logger = new Logger(SlackProcessor.name);
   private slackClient: WebClient;
-  private templates = new Map<string, any>();
+  private templates = new Map<string, SlackTemplate>();
 
-  constructor() {
+  constructor(private readonly templateRegistry: TemplateRegistryService) {
     this.initializeSlack();
     this.loadSlackTemplates();
+    this.templateRegistry.registerChannel('slack', {
+      builtIns: this.templates,
+      requiredVariables: REQUIRED_VARIABLES,
+      render: (template: SlackTemplate, data) => this.render(template, { ...data, timestamp: new Date().toISOString() }),
+    });
   }
 
   private initializeSlack(): void {
@@ -177,12 +203,49 @@ export class SlackProcessor {
       text: '{{message}}',
     });
 
+    // Digest templates; one item block is rendered per DigestJob item
+    this.templates.set('digest', {
+      blocks: [
+        {
+          type: 'header',
+          text: {
+            type: 'plain_text',
+            text: '📬 Your {{frequency}} {{category}} digest',
+          },
+        },
+        {
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: '{{total}} updates since your last digest',
+            },
+          ],
+        },
+        {
+          type: 'divider',
+        },
+      ],
+    });
+
+    this.templates.set('digest-item', {
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: '{{link}}{{repeated}}\n_{{lastAt}}_',
+          },
+        },
+      ],
+    });
+
     this.logger.log(`Loaded ${this.templates.size} Slack templates`);
   }
 
   @Process('send-slack')
   async handleSendSlack(job: Job<SlackJob>): Promise<void> {
-    const { id, userId, template, data, channel, message, priority } = job.data;
+    const { id, userId, template, data, channel, message, priority, locale } = job.data;
     
     this.logger.debug(`Processing Slack job ${id} for user ${userId}`);
 
@@ -197,18 +260,16 @@ export class SlackProcessor {
       };
 
       // Use template if specified
-      if (template && this.templates.has(template)) {
-        const templateContent = this.templates.get(template);
+      const slackTemplate = template ? await this.templateRegistry.resolve<SlackTemplate>('slack', template, locale) : undefined;
+
+      if (slackTemplate) {
         const templateData = {
           ...data,
           timestamp: new Date().toISOString(),
         };
+        this.templateRegistry.validate(slackTemplate, templateData);
 
-        if (templateContent.blocks) {
-          messagePayload.blocks = this.renderBlocks(templateContent.blocks, templateData);
-        } else if (templateContent.text) {
-          messagePayload.text = this.renderTemplate(templateContent.text, templateData);
-        }
+        messagePayload = { ...messagePayload, ...this.render(slackTemplate.content, templateData) };
 
         // Add thread timestamp if this is a reply
         if (data.threadTs) {
@@ -245,6 +306,67 @@ export class SlackProcessor {
     }
   }
 
+  @Process('send-digest')
+  async handleSendDigest(job: Job<DigestJob>): Promise<void> {
+    const { id, userId, category, frequency, items, locale } = job.data;
+
+    this.logger.debug(`Processing ${frequency} Slack digest ${id} for user ${userId} (${items.length} items)`);
+
+    if (!this.slackClient) {
+      throw new Error('Slack client not initialized. Check your configuration.');
+    }
+
+    try {
+      const latest = items[0]?.data || {};
+      const total = items.reduce((sum, item) => sum + item.count, 0);
+
+      const [digestTemplate, itemTemplate] = await Promise.all([
+        this.templateRegistry.resolve<SlackTemplate>('slack', 'digest', locale),
+        this.templateRegistry.resolve<SlackTemplate>('slack', 'digest-item', locale),
+      ]);
+
+      const blocks = this.renderBlocks(digestTemplate.content.blocks, {
+        frequency,
+        category,
+        total,
+      });
+
+      // Leave room for the overflow note
+      const shown = items.slice(0, MAX_BLOCKS - blocks.length - 1);
+      shown.forEach(item => {
+        blocks.push(...this.renderBlocks(itemTemplate.content.blocks, {
+          link: item.actionUrl ? `<${item.actionUrl}|${item.summary}>` : item.summary,
+          repeated: item.count > 1 ? ` ×${item.count}` : '',
+          lastAt: item.lastAt,
+        }));
+      });
+
+      if (items.length > shown.length) {
+        blocks.push({
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: `…and ${items.length - shown.length} more` }],
+        });
+      }
+
+      const result = await this.slackClient.chat.postMessage({
+        channel: latest.slackChannel || '#general',
+        text: `Your ${frequency} ${category} digest: ${total} updates`,
+        blocks,
+      });
+
+      if (result.ok) {
+        this.logger.log(`Slack digest sent successfully: ${id} (ts: ${result.ts})`);
+      } else {
+        throw new Error(`Slack API error: ${result.error}`);
+      }
+
+      job.progress(100);
+    } catch (error) {
+      this.logger.error(`Failed to send Slack digest ${id}:`, error);
+      throw error;
+    }
+  }
+
   @Process('send-bulk-slack')
   async handleBulkSlack(job: Job<{ messages: SlackJob[] }>): Promise<void> {
     const { messages } = job.data;
@@ -314,6 +436,14 @@ export class SlackProcessor {
     }
   }
 
+  // Block templates render to blocks; text-only templates to the message text
+  private render(template: SlackTemplate, data: Record<string, any>): SlackTemplate {
+    if (template.blocks) {
+      return { blocks: this.renderBlocks(template.blocks, data) };
+    }
+    return template.text ? { text: this.renderTemplate(template.text, data) } : {};
+  }
+
   private renderTemplate(template: string, data: Record<string, any>): string {
     let rendered = template;
     
@@ -432,18 +562,23 @@ export class SlackProcessor {
     }
   }
 
-  // Template management
-  async addTemplate(name: string, template: any): Promise<void> {
-    this.templates.set(name, template);
-    this.logger.log(`Added Slack template: ${name}`);
+  // Template management; each change publishes a new template version
+  async addTemplate(
+    name: string,
+    template: SlackTemplate,
+    locale = process.env.DEFAULT_LOCALE || 'en',
+    requiredVariables?: string[],
+  ): Promise<void> {
+    const version = await this.templateRegistry.publishLocale('slack', name, locale, template, { requiredVariables });
+    this.logger.log(`Added Slack template: ${name} (${locale}, v${version.version})`);
   }
 
-  async getTemplate(name: string): Promise<any> {
-    return this.templates.get(name);
+  async getTemplate(name: string, locale?: string): Promise<SlackTemplate | undefined> {
+    return (await this.templateRegistry.resolve<SlackTemplate>('slack', name, locale))?.content;
   }
 
   async getAllTemplates(): Promise<string[]> {
-    return Array.from(this.templates.keys());
+    return this.templateRegistry.listTemplates('slack');
   }
 
   // Slack workspace info
@@ -2,6 +2,9 @@ import { Processor, Process } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
 import { Twilio } from 'twilio';
+import { normalizePhoneNumber, NotificationPreferenceService } from '../preferences/notification-preference.service';
+import { DeliveryTrackingService } from '../delivery/delivery-tracking.service';
+import { TemplateRegistryService } from '../templates/template-registry.service';
 
 export interface SMSJob {
   id: string;
@@ -12,9 +15,22 @@ export interface SMSJob {
   message: string;
   priority: string;
   channel: string;
+  locale?: string;
   timestamp: Date;
 }
 
+// Variables the built-in templates cannot render without
+const REQUIRED_VARIABLES: Record<string, string[]> = {
+  'welcome': ['name'],
+  'password-reset': ['resetUrl'],
+  'verification-code': ['code', 'expiryMinutes'],
+  'alert': ['alertType', 'message'],
+  'notification': ['message'],
+  'order-confirmation': ['orderNumber', 'amount'],
+  'appointment-reminder': ['providerName', 'date', 'time'],
+  'payment-reminder': ['serviceName', 'amount', 'dueDate', 'paymentUrl'],
+};
+
 @Processor('sms-notifications')
 export class SMSProcessor {
   private readonly logger = new Logger(SMSProcessor.name);
@@ -22,9 +38,22 @@ export class SMSProcessor {
   private templates = new Map<string, string>();
   private readonly fromNumber: string;
 
-  constructor() {
+  // Carrier-standard keywords for inbound replies
+  private readonly OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+  private readonly OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+
+  constructor(
+    private readonly preferences: NotificationPreferenceService,
+    private readonly deliveryTracking: DeliveryTrackingService,
+    private readonly templateRegistry: TemplateRegistryService,
+  ) {
     this.initializeTwilio();
     this.loadSMSTemplates();
+    this.templateRegistry.registerChannel('sms', {
+      builtIns: this.templates,
+      requiredVariables: REQUIRED_VARIABLES,
+      render: (template: string, data) => this.renderTemplate(template, this.withDefaults(data)),
+    });
   }
 
   private initializeTwilio(): void {
@@ -91,7 +120,7 @@ export class SMSProcessor {
 
   @Process('send-sms')
   async handleSendSMS(job: Job<SMSJob>): Promise<void> {
-    const { id, userId, template, data, to, message, priority } = job.data;
+    const { id, userId, template, data, to, message, priority, locale } = job.data;
     
     this.logger.debug(`Processing SMS job ${id} for user ${userId}`);
 
@@ -103,12 +132,12 @@ export class SMSProcessor {
       // Get template and render message
       let finalMessage = message;
       
-      if (template && this.templates.has(template)) {
-        const templateContent = this.templates.get(template)!;
-        finalMessage = this.renderTemplate(templateContent, {
-          ...data,
-          companyName: data.companyName || 'Nexus Platform',
-        });
+      const smsTemplate = template ? await this.templateRegistry.resolve<string>('sms', template, locale) : undefined;
+
+      if (smsTemplate) {
+        const templateData = this.withDefaults(data);
+        this.templateRegistry.validate(smsTemplate, templateData);
+        finalMessage = this.renderTemplate(smsTemplate.content, templateData);
       }
 
       // Validate phone number
@@ -117,6 +146,12 @@ export class SMSProcessor {
         throw new Error(`Invalid phone number: ${to}`);
       }
 
+      if (await this.isOptedOut(cleanPhoneNumber)) {
+        this.logger.log(`Skipping SMS ${id}: ${cleanPhoneNumber} has opted out`);
+        await this.deliveryTracking.markState(id, 'sms', 'failed');
+        return;
+      }
+
       // Truncate message if too long (SMS limit is 160 characters for single SMS)
       if (finalMessage.length > 160) {
         this.logger.warn(`SMS message truncated from ${finalMessage.length} to 160 characters`);
@@ -132,6 +167,7 @@ export class SMSProcessor {
       });
 
       this.logger.log(`SMS sent successfully: ${id} (SID: ${result.sid})`);
+      await this.deliveryTracking.markState(id, 'sms', 'sent', result.sid);
       
       // Update job progress
       job.progress(100);
@@ -199,6 +235,13 @@ export class SMSProcessor {
     await this.handleSendSMS({ data: smsJob } as Job<SMSJob>);
   }
 
+  private withDefaults(data: Record<string, any>): Record<string, any> {
+    return {
+      ...data,
+      companyName: data.companyName || 'Nexus Platform',
+    };
+  }
+
   private renderTemplate(template: string, data: Record<string, any>): string {
     let rendered = template;
     
@@ -217,19 +260,7 @@ export class SMSProcessor {
   }
 
   private cleanPhoneNumber(phoneNumber: string): string {
-    // Remove all non-digit characters except +
-    let cleaned = phoneNumber.replace(/[^\d+]/g, '');
-    
-    // Add country code if missing (assuming US +1)
-    if (!cleaned.startsWith('+')) {
-      if (cleaned.length === 10) {
-        cleaned = '+1' + cleaned;
-      } else if (cleaned.length === 11 && cleaned.startsWith('1')) {
-        cleaned = '+' + cleaned;
-      }
-    }
-    
-    return cleaned;
+    return normalizePhoneNumber(phoneNumber);
   }
 
   private isValidPhoneNumber(phoneNumber: string): boolean {
@@ -260,24 +291,28 @@ export class SMSProcessor {
         this.logger.debug(`SMS status: ${messageSid} -> ${status}`);
     }
 
-    // In a real implementation, you would:
-    // 1. Update delivery status in database
-    // 2. Track delivery metrics
-    // 3. Handle failed deliveries (retry, alert, etc.)
+    if (status === 'delivered' || status === 'failed' || status === 'undelivered') {
+      await this.deliveryTracking.markProviderState(messageSid, status === 'delivered' ? 'delivered' : 'failed');
+    }
   }
 
-  // Template management
-  async addTemplate(name: string, template: string): Promise<void> {
-    this.templates.set(name, template);
-    this.logger.log(`Added SMS template: ${name}`);
+  // Template management; each change publishes a new template version
+  async addTemplate(
+    name: string,
+    template: string,
+    locale = process.env.DEFAULT_LOCALE || 'en',
+    requiredVariables?: string[],
+  ): Promise<void> {
+    const version = await this.templateRegistry.publishLocale('sms', name, locale, template, { requiredVariables });
+    this.logger.log(`Added SMS template: ${name} (${locale}, v${version.version})`);
   }
 
-  async getTemplate(name: string): Promise<string | undefined> {
-    return this.templates.get(name);
+  async getTemplate(name: string, locale?: string): Promise<string | undefined> {
+    return (await this.templateRegistry.resolve<string>('sms', name, locale))?.content;
   }
 
   async getAllTemplates(): Promise<string[]> {
-    return Array.from(this.templates.keys());
+    return this.templateRegistry.listTemplates('sms');
   }
 
   // Phone number validation and formatting
@@ -333,31 +368,36 @@ export class SMSProcessor {
     };
   }
 
+  // Inbound replies (Twilio messaging webhook): STOP/START keywords update the opt-out list
+  async handleInboundMessage(from: string, body: string): Promise<'opted-out' | 'opted-in' | 'ignored'> {
+    const keyword = body.trim().split(/\s+/)[0]?.toUpperCase() || '';
+
+    if (this.OPT_OUT_KEYWORDS.includes(keyword)) {
+      await this.handleOptOut(from);
+      return 'opted-out';
+    }
+
+    if (this.OPT_IN_KEYWORDS.includes(keyword)) {
+      await this.handleOptIn(from);
+      return 'opted-in';
+    }
+
+    return 'ignored';
+  }
+
   // Opt-out handling
   async handleOptOut(phoneNumber: string): Promise<void> {
     this.logger.log(`Processing opt-out request for ${phoneNumber}`);
-    
-    // In a real implementation, you would:
-    // 1. Add phone number to opt-out list
-    // 2. Update user preferences
-    // 3. Send confirmation SMS
-    // 4. Update database records
+    await this.preferences.optOutPhone(this.cleanPhoneNumber(phoneNumber));
   }
 
   // Opt-in handling
   async handleOptIn(phoneNumber: string): Promise<void> {
     this.logger.log(`Processing opt-in request for ${phoneNumber}`);
-    
-    // In a real implementation, you would:
-    // 1. Remove phone number from opt-out list
-    // 2. Update user preferences
-    // 3. Send welcome SMS
-    // 4. Update database records
+    await this.preferences.optInPhone(this.cleanPhoneNumber(phoneNumber));
   }
 
-  // Check if phone number is opted out
   async isOptedOut(phoneNumber: string): Promise<boolean> {
-    // In a real implementation, check your opt-out database
-    return false;
+    return this.preferences.isPhoneOptedOut(this.cleanPhoneNumber(phoneNumber));
   }
 }
@@ -0,0 +1,59 @@
+import { WebhookProcessor } from './webhook.processor';
+
+describe('WebhookProcessor', () => {
+  const endpoint = (id: string, userId: string, events: string[] = []) => ({ id, userId, events, enabled: true });
+  const endpoints = {
+    'ep-own': endpoint('ep-own', 'user-1'),
+    'ep-invoices': endpoint('ep-invoices', 'user-1', ['invoice.paid']),
+    'ep-foreign': endpoint('ep-foreign', 'user-2'),
+  };
+
+  let processor: WebhookProcessor;
+  let deliver: jest.Mock;
+
+  const send = (data: Record<string, any>) =>
+    processor.handleSendWebhook({
+      data: {
+        id: 'n1',
+        userId: 'user-1',
+        template: 'password-changed',
+        data: {},
+        channel: 'webhook',
+        priority: 'normal',
+        timestamp: new Date(),
+        ...data,
+      },
+      progress: jest.fn(),
+    } as any);
+
+  beforeEach(() => {
+    const store = {
+      getEndpoint: jest.fn(async (id: string) => endpoints[id] ?? null),
+      getSubscribedEndpoints: jest.fn(async (userId: string, event: string) =>
+        Object.values(endpoints).filter((e) => e.userId === userId && (e.events.length === 0 || e.events.includes(event))),
+      ),
+    };
+
+    processor = new WebhookProcessor({ add: jest.fn() } as any, store as any);
+    deliver = jest.fn();
+    (processor as any).deliver = deliver;
+  });
+
+  it('never delivers to an endpoint id owned by another user', async () => {
+    await send({ data: { endpointId: 'ep-foreign' } });
+
+    expect(deliver).not.toHaveBeenCalled();
+  });
+
+  it('drops named endpoints that do not subscribe to the event', async () => {
+    await send({ metadata: { webhookEndpointIds: ['ep-own', 'ep-invoices', 'ep-foreign'] } });
+
+    expect(deliver.mock.calls.map(([delivery]) => delivery.endpointId)).toEqual(['ep-own']);
+  });
+
+  it('delivers to every subscribed endpoint when none are named', async () => {
+    await send({ template: 'invoice.paid' });
+
+    expect(deliver.mock.calls.map(([delivery]) => delivery.endpointId)).toEqual(['ep-own', 'ep-invoices']);
+  });
+});
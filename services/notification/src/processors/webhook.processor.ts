@@ -0,0 +1,210 @@
+import { Processor, Process, InjectQueue } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job, Queue } from 'bull';
+import { createHmac, randomUUID } from 'crypto';
+import { WebhookEndpoint, WebhookEndpointService } from '../webhooks/webhook-endpoint.service';
+import { assertPublicWebhookUrl } from '../webhooks/webhook-url';
+
+export interface WebhookJob {
+  id: string;
+  userId: string;
+  template: string;
+  data: Record<string, any>;
+  channel: string;
+  priority: string;
+  timestamp: Date;
+  metadata?: Record<string, any>;
+}
+
+export interface WebhookDeliveryJob {
+  deliveryId: string;
+  endpointId: string;
+  notificationId: string;
+  event: string;
+  payload: Record<string, any>;
+  attempt: number;
+}
+
+// Headers sent with every delivery; receivers verify
+// HMAC-SHA256(secret, `${timestamp}.${body}`) against the v1 signature
+export const WEBHOOK_HEADERS = {
+  id: 'X-Nexus-Webhook-Id',
+  event: 'X-Nexus-Webhook-Event',
+  timestamp: 'X-Nexus-Webhook-Timestamp',
+  signature: 'X-Nexus-Webhook-Signature',
+};
+
+@Processor('webhook-notifications')
+export class WebhookProcessor {
+  private readonly logger = new Logger(WebhookProcessor.name);
+  private readonly REQUEST_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+  private readonly MAX_RESPONSE_BODY = 1024;
+
+  constructor(
+    @InjectQueue('webhook-notifications') private webhookQueue: Queue,
+    private readonly endpoints: WebhookEndpointService,
+  ) {}
+
+  @Process('send-webhook')
+  async handleSendWebhook(job: Job<WebhookJob>): Promise<void> {
+    const { id, userId, template, data, metadata, timestamp } = job.data;
+
+    this.logger.debug(`Processing webhook job ${id} for user ${userId}`);
+
+    const targets = await this.resolveEndpoints(job.data);
+    if (targets.length === 0) {
+      this.logger.warn(`No enabled webhook endpoints for notification ${id} (user ${userId}, event ${template})`);
+      return;
+    }
+
+    const payload = {
+      id,
+      event: template,
+      userId,
+      createdAt: new Date(timestamp || Date.now()).toISOString(),
+      data,
+      metadata: metadata || {},
+    };
+
+    // One delivery per endpoint, each retried on its own schedule
+    await Promise.all(
+      targets.map((endpoint) =>
+        this.deliver({
+          deliveryId: randomUUID(),
+          endpointId: endpoint.id,
+          notificationId: id,
+          event: template,
+          payload,
+          attempt: 1,
+        }),
+      ),
+    );
+
+    job.progress(100);
+  }
+
+  @Process('deliver-webhook')
+  async handleDeliverWebhook(job: Job<WebhookDeliveryJob>): Promise<void> {
+    await this.deliver(job.data);
+  }
+
+  private async resolveEndpoints(job: WebhookJob): Promise<WebhookEndpoint[]> {
+    const explicit: string[] = job.data?.endpointId
+      ? [job.data.endpointId]
+      : job.metadata?.webhookEndpointIds || [];
+
+    const subscribed = await this.endpoints.getSubscribedEndpoints(job.userId, job.template);
+    if (explicit.length === 0) {
+      return subscribed;
+    }
+
+    // Named endpoints narrow the user's subscribed ones; another user's endpoint is never a target
+    const targets = subscribed.filter((endpoint) => explicit.includes(endpoint.id));
+    if (targets.length < explicit.length) {
+      this.logger.warn(
+        `Dropped webhook endpoints for notification ${job.id} not owned by user ${job.userId} or not subscribed to ${job.template}`,
+      );
+    }
+    return targets;
+  }
+
+  /**
+   * Sends one signed delivery attempt and records it. Failures schedule the
+   * next attempt from the endpoint's retry schedule instead of failing the
+   * job, so one slow receiver does not hold up others.
+   */
+  private async deliver(delivery: WebhookDeliveryJob): Promise<void> {
+    const endpoint = await this.endpoints.getEndpoint(delivery.endpointId);
+
+    if (!endpoint || !endpoint.enabled) {
+      this.logger.warn(`Skipping delivery ${delivery.deliveryId}: endpoint ${delivery.endpointId} is missing or disabled`);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const startTime = Date.now();
+
+    let responseStatus: number | undefined;
+    let responseBody: string | undefined;
+    let error: string | undefined;
+
+    try {
+      // Re-checked per attempt: the host may have been repointed at an internal address since registration
+      const url = await assertPublicWebhookUrl(endpoint.url);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          ...endpoint.headers,
+          'Content-Type': 'application/json',
+          'User-Agent': 'Nexus-Webhooks/1.0',
+          [WEBHOOK_HEADERS.id]: delivery.deliveryId,
+          [WEBHOOK_HEADERS.event]: delivery.event,
+          [WEBHOOK_HEADERS.timestamp]: timestamp,
+          [WEBHOOK_HEADERS.signature]: `v1=${this.sign(endpoint.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).substring(0, this.MAX_RESPONSE_BODY);
+
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError.name === 'TimeoutError'
+        ? `Timed out after ${this.REQUEST_TIMEOUT_MS}ms`
+        : requestError.message;
+    }
+
+    const success = !error;
+    const retryDelay = success ? undefined : endpoint.retrySchedule[delivery.attempt - 1];
+
+    const updated = await this.endpoints.recordAttempt({
+      id: randomUUID(),
+      deliveryId: delivery.deliveryId,
+      endpointId: endpoint.id,
+      notificationId: delivery.notificationId,
+      event: delivery.event,
+      attempt: delivery.attempt,
+      success,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - startTime,
+      attemptedAt: new Date(startTime),
+      nextRetryAt: retryDelay !== undefined ? new Date(Date.now() + retryDelay) : undefined,
+    });
+
+    if (success) {
+      this.logger.log(`Webhook ${delivery.deliveryId} delivered to ${endpoint.url} (attempt ${delivery.attempt})`);
+      return;
+    }
+
+    this.logger.warn(
+      `Webhook ${delivery.deliveryId} to ${endpoint.url} failed (attempt ${delivery.attempt}): ${error}`,
+    );
+
+    if (!updated?.enabled) {
+      return;
+    }
+
+    if (retryDelay === undefined) {
+      this.logger.error(`Giving up on webhook ${delivery.deliveryId} after ${delivery.attempt} attempts`);
+      return;
+    }
+
+    await this.webhookQueue.add(
+      'deliver-webhook',
+      { ...delivery, attempt: delivery.attempt + 1 },
+      { delay: retryDelay, attempts: 1, removeOnComplete: 100, removeOnFail: 50 },
+    );
+  }
+
+  private sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+}
@@ -0,0 +1,91 @@
+import { TemplateRegistryService } from './template-registry.service';
+
+describe('TemplateRegistryService', () => {
+  let registry: TemplateRegistryService;
+  let strings: Map<string, string>;
+  let sets: Map<string, Set<string>>;
+  let hashes: Map<string, Map<string, string>>;
+
+  const register = (body: string) =>
+    registry.registerChannel('email', {
+      builtIns: new Map([['welcome', { subject: 'Welcome', body }]]),
+      requiredVariables: { welcome: ['name'] },
+      render: (content) => content,
+    });
+
+  const versions = async () => (await registry.getVersions('email', 'welcome')).versions.map((v) => v.version);
+
+  beforeEach(() => {
+    strings = new Map();
+    sets = new Map();
+    hashes = new Map();
+    const hash = (key: string) => hashes.get(key) || hashes.set(key, new Map()).get(key)!;
+
+    const redis = {
+      get: async (key: string) => strings.get(key) ?? null,
+      set: async (key: string, value: string, options?: { GET?: true }) => {
+        const previous = strings.get(key) ?? null;
+        strings.set(key, value);
+        return options?.GET ? previous : 'OK';
+      },
+      incr: async (key: string) => {
+        const next = parseInt(strings.get(key) || '0') + 1;
+        strings.set(key, String(next));
+        return next;
+      },
+      sAdd: async (key: string, member: string) => {
+        const set = sets.get(key) || sets.set(key, new Set()).get(key)!;
+        return set.has(member) ? 0 : (set.add(member), 1);
+      },
+      hGet: async (key: string, field: string) => hash(key).get(field),
+      hVals: async (key: string) => Array.from(hash(key).values()),
+      multi: () => {
+        const chain = {
+          hSet: (key: string, field: string, value: string) => (hash(key).set(field, value), chain),
+          set: (key: string, value: string) => (strings.set(key, value), chain),
+          exec: async () => [],
+        };
+        return chain;
+      },
+    };
+
+    registry = new TemplateRegistryService();
+    (registry as any).redis = redis;
+  });
+
+  describe('onApplicationBootstrap', () => {
+    it('seeds a built-in template once', async () => {
+      register('Hi {{name}}');
+
+      await registry.onApplicationBootstrap();
+      await registry.onApplicationBootstrap();
+
+      expect(await versions()).toEqual([1]);
+    });
+
+    it('publishes a built-in template whose source changed as a new version', async () => {
+      register('Hi {{name}}');
+      await registry.onApplicationBootstrap();
+
+      register('Hello {{name}}');
+      await registry.onApplicationBootstrap();
+
+      expect(await versions()).toEqual([1, 2]);
+      expect((await registry.resolve('email', 'welcome'))?.content.body).toBe('Hello {{name}}');
+    });
+
+    it('compares built-ins seeded without a source hash with their first version', async () => {
+      register('Hi {{name}}');
+      await registry.onApplicationBootstrap();
+      strings.delete('notification:templates:email:welcome:builtin');
+
+      await registry.onApplicationBootstrap();
+      expect(await versions()).toEqual([1]);
+
+      strings.delete('notification:templates:email:welcome:builtin');
+      register('Hello {{name}}');
+      await registry.onApplicationBootstrap();
+      expect(await versions()).toEqual([1, 2]);
+    });
+  });
+});
@@ -0,0 +1,386 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleInit } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { createClient, RedisClientType } from 'redis';
+
+export type TemplateChannel = 'email' | 'sms' | 'push' | 'slack';
+
+export interface TemplateVersion<T = any> {
+  name: string;
+  channel: TemplateChannel;
+  version: number;
+  defaultLocale: string;
+  // Content per locale, e.g. { en: ..., 'pt-BR': ... }
+  locales: Record<string, T>;
+  // Variables that must be present in the send data
+  requiredVariables: string[];
+  // Used by previews when no data is given
+  sampleData?: Record<string, any>;
+  description?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface PublishTemplate<T = any> {
+  locales: Record<string, T>;
+  defaultLocale?: string;
+  requiredVariables?: string[];
+  sampleData?: Record<string, any>;
+  description?: string;
+  createdBy?: string;
+}
+
+export interface ResolvedTemplate<T = any> {
+  name: string;
+  channel: TemplateChannel;
+  // 0 for built-in templates that have not been stored yet
+  version: number;
+  locale: string;
+  content: T;
+  requiredVariables: string[];
+  sampleData?: Record<string, any>;
+}
+
+export interface TemplatePreview {
+  name: string;
+  channel: TemplateChannel;
+  version: number;
+  locale: string;
+  missingVariables: string[];
+  rendered: any;
+}
+
+// Registered by each processor: its hardcoded templates and how it renders them
+export interface ChannelTemplates<T = any> {
+  builtIns: Map<string, T>;
+  requiredVariables: Record<string, string[]>;
+  render: (content: T, data: Record<string, any>) => any;
+}
+
+export class TemplateValidationError extends Error {
+  constructor(
+    public readonly template: string,
+    public readonly missingVariables: string[],
+  ) {
+    super(`Template '${template}' is missing required variables: ${missingVariables.join(', ')}`);
+    this.name = 'TemplateValidationError';
+  }
+}
+
+@Injectable()
+export class TemplateRegistryService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(TemplateRegistryService.name);
+  private redis: RedisClientType;
+  private readonly KEY_PREFIX = 'notification:templates';
+  private readonly DEFAULT_LOCALE = process.env.DEFAULT_LOCALE || 'en';
+  private channels = new Map<TemplateChannel, ChannelTemplates>();
+
+  async onModuleInit() {
+    this.redis = createClient({
+      socket: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+      },
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.error('Redis connection error:', error.message);
+    });
+
+    await this.redis.connect();
+    this.logger.log('Connected to Redis for notification templates');
+  }
+
+  // Processors register in their constructors, before Redis is connected
+  registerChannel<T>(channel: TemplateChannel, templates: ChannelTemplates<T>): void {
+    this.channels.set(channel, templates);
+  }
+
+  /**
+   * Stores every built-in template that has no stored version as version 1,
+   * so edits and rollbacks work the same way for built-in and custom templates.
+   * A built-in whose source changed since it was stored is published as a new
+   * version.
+   */
+  async onApplicationBootstrap() {
+    let seeded = 0;
+    let updated = 0;
+
+    for (const [channel, { builtIns, requiredVariables }] of this.channels) {
+      for (const [name, content] of builtIns) {
+        const template: PublishTemplate = {
+          locales: { [this.DEFAULT_LOCALE]: content },
+          requiredVariables: requiredVariables[name] || [],
+          description: 'Built-in template',
+        };
+        const source = this.sourceHash(template);
+
+        // SADD and SET ... GET are atomic, so only one instance stores each template or change
+        const added = (await this.redis.sAdd(this.namesKey(channel), name)) === 1;
+        const previous = await this.redis.set(this.builtInKey(channel, name), source, { GET: true });
+
+        if (added) {
+          await this.storeVersion(channel, name, template);
+          seeded++;
+          continue;
+        }
+
+        const unchanged =
+          previous === null ? await this.matchesFirstVersion(channel, name, source) : previous === source;
+        if (!unchanged) {
+          await this.storeVersion(channel, name, template);
+          updated++;
+        }
+      }
+    }
+
+    if (seeded > 0 || updated > 0) {
+      this.logger.log(`Seeded ${seeded} and updated ${updated} built-in notification templates`);
+    }
+  }
+
+  async publish<T>(channel: TemplateChannel, name: string, template: PublishTemplate<T>): Promise<TemplateVersion<T>> {
+    if (Object.keys(template.locales || {}).length === 0) {
+      throw new Error(`Template '${name}' needs content for at least one locale`);
+    }
+
+    const defaultLocale = template.defaultLocale || this.DEFAULT_LOCALE;
+    if (!template.locales[defaultLocale]) {
+      throw new Error(`Template '${name}' has no content for its default locale '${defaultLocale}'`);
+    }
+
+    await this.redis.sAdd(this.namesKey(channel), name);
+    const stored = await this.storeVersion(channel, name, template);
+
+    this.logger.log(`Published ${channel} template ${name} v${stored.version}`);
+    return stored;
+  }
+
+  /**
+   * Publishes a new version that adds or replaces one locale's content and
+   * keeps everything else from the active version.
+   */
+  async publishLocale<T>(
+    channel: TemplateChannel,
+    name: string,
+    locale: string,
+    content: T,
+    options: Omit<PublishTemplate<T>, 'locales'> = {},
+  ): Promise<TemplateVersion<T>> {
+    const current = await this.resolve(channel, name);
+    const previous = current?.version ? await this.getVersion(channel, name, current.version) : undefined;
+
+    return this.publish(channel, name, {
+      locales: { ...(previous?.locales || (current ? { [current.locale]: current.content } : {})), [locale]: content },
+      defaultLocale: options.defaultLocale || previous?.defaultLocale || (current ? current.locale : locale),
+      requiredVariables: options.requiredVariables || current?.requiredVariables,
+      sampleData: options.sampleData || current?.sampleData,
+      description: options.description,
+      createdBy: options.createdBy,
+    });
+  }
+
+  // Makes an earlier version active again; later versions are kept
+  async rollback(channel: TemplateChannel, name: string, version: number): Promise<TemplateVersion> {
+    const target = await this.getVersion(channel, name, version);
+    if (!target) {
+      throw new Error(`Template '${name}' has no version ${version}`);
+    }
+
+    await this.redis.set(this.activeKey(channel, name), String(version));
+    this.logger.log(`Rolled back ${channel} template ${name} to v${version}`);
+
+    return target;
+  }
+
+  async getVersion(channel: TemplateChannel, name: string, version: number): Promise<TemplateVersion | undefined> {
+    const raw = await this.redis.hGet(this.versionsKey(channel, name), String(version));
+    return raw ? this.parseVersion(raw) : undefined;
+  }
+
+  async getVersions(channel: TemplateChannel, name: string): Promise<{ active?: number; versions: TemplateVersion[] }> {
+    const [active, raw] = await Promise.all([
+      this.redis.get(this.activeKey(channel, name)),
+      this.redis.hVals(this.versionsKey(channel, name)),
+    ]);
+
+    return {
+      active: active ? parseInt(active) : undefined,
+      versions: raw.map((value) => this.parseVersion(value)).sort((a, b) => a.version - b.version),
+    };
+  }
+
+  async listTemplates(channel: TemplateChannel): Promise<string[]> {
+    const stored = await this.redis.sMembers(this.namesKey(channel));
+    const builtIns = Array.from(this.channels.get(channel)?.builtIns.keys() || []);
+    return Array.from(new Set([...builtIns, ...stored])).sort();
+  }
+
+  /**
+   * Finds the content for `locale`, falling back from 'pt-BR' to 'pt' to the
+   * template's default locale. Uses the active version unless one is given,
+   * and the processor's built-in template when nothing has been stored.
+   */
+  async resolve<T = any>(
+    channel: TemplateChannel,
+    name: string,
+    locale?: string,
+    version?: number,
+  ): Promise<ResolvedTemplate<T> | undefined> {
+    const active = version ?? parseInt((await this.redis.get(this.activeKey(channel, name))) || '0');
+    const stored = active ? await this.getVersion(channel, name, active) : undefined;
+
+    if (!stored) {
+      if (version !== undefined) {
+        return undefined;
+      }
+
+      const builtIn = this.channels.get(channel);
+      const content = builtIn?.builtIns.get(name);
+      return content === undefined
+        ? undefined
+        : {
+            name,
+            channel,
+            version: 0,
+            locale: this.DEFAULT_LOCALE,
+            content,
+            requiredVariables: builtIn.requiredVariables[name] || [],
+          };
+    }
+
+    const resolvedLocale = this.localeChain(locale, stored.defaultLocale).find((candidate) => stored.locales[candidate]);
+
+    return {
+      name,
+      channel,
+      version: stored.version,
+      locale: resolvedLocale,
+      content: stored.locales[resolvedLocale],
+      requiredVariables: stored.requiredVariables,
+      sampleData: stored.sampleData,
+    };
+  }
+
+  // Throws TemplateValidationError when required variables are missing from `data`
+  validate(template: ResolvedTemplate, data: Record<string, any>): void {
+    const missing = this.findMissingVariables(template.requiredVariables, data);
+    if (missing.length > 0) {
+      throw new TemplateValidationError(template.name, missing);
+    }
+  }
+
+  // Renders without sending; missing variables are reported instead of thrown
+  async preview(
+    channel: TemplateChannel,
+    name: string,
+    data?: Record<string, any>,
+    locale?: string,
+    version?: number,
+  ): Promise<TemplatePreview> {
+    const renderer = this.channels.get(channel);
+    if (!renderer) {
+      throw new Error(`No renderer registered for ${channel} templates`);
+    }
+
+    const template = await this.resolve(channel, name, locale, version);
+    if (!template) {
+      throw new Error(`${channel} template '${name}' not found`);
+    }
+
+    const previewData = data || template.sampleData || {};
+
+    return {
+      name,
+      channel,
+      version: template.version,
+      locale: template.locale,
+      missingVariables: this.findMissingVariables(template.requiredVariables, previewData),
+      rendered: renderer.render(template.content, previewData),
+    };
+  }
+
+  private async storeVersion<T>(channel: TemplateChannel, name: string, template: PublishTemplate<T>): Promise<TemplateVersion<T>> {
+    const version = await this.redis.incr(this.sequenceKey(channel, name));
+
+    const stored: TemplateVersion<T> = {
+      name,
+      channel,
+      version,
+      defaultLocale: template.defaultLocale || this.DEFAULT_LOCALE,
+      locales: template.locales,
+      requiredVariables: template.requiredVariables || [],
+      sampleData: template.sampleData,
+      description: template.description,
+      createdBy: template.createdBy,
+      createdAt: new Date(),
+    };
+
+    await this.redis
+      .multi()
+      .hSet(this.versionsKey(channel, name), String(version), JSON.stringify(stored))
+      .set(this.activeKey(channel, name), String(version))
+      .exec();
+
+    return stored;
+  }
+
+  // Built-ins stored before their source hash was recorded were seeded as version 1
+  private async matchesFirstVersion(channel: TemplateChannel, name: string, source: string): Promise<boolean> {
+    const first = await this.getVersion(channel, name, 1);
+    return first !== undefined && this.sourceHash(first) === source;
+  }
+
+  private sourceHash(template: Pick<PublishTemplate, 'locales' | 'requiredVariables'>): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ locales: template.locales, requiredVariables: template.requiredVariables || [] }))
+      .digest('hex');
+  }
+
+  private findMissingVariables(required: string[], data: Record<string, any>): string[] {
+    return required.filter((path) => {
+      const value = path.split('.').reduce((current, key) => current?.[key], data);
+      return value === undefined || value === null || value === '';
+    });
+  }
+
+  private localeChain(locale: string | undefined, defaultLocale: string): string[] {
+    const chain: string[] = [];
+
+    if (locale) {
+      chain.push(locale);
+      const language = locale.split('-')[0];
+      if (language !== locale) {
+        chain.push(language);
+      }
+    }
+
+    chain.push(defaultLocale, this.DEFAULT_LOCALE);
+    return Array.from(new Set(chain));
+  }
+
+  private parseVersion(raw: string): TemplateVersion {
+    const version = JSON.parse(raw);
+    return { ...version, createdAt: new Date(version.createdAt) };
+  }
+
+  private namesKey(channel: TemplateChannel): string {
+    return `${this.KEY_PREFIX}:${channel}`;
+  }
+
+  private versionsKey(channel: TemplateChannel, name: string): string {
+    return `${this.KEY_PREFIX}:${channel}:${name}:versions`;
+  }
+
+  private activeKey(channel: TemplateChannel, name: string): string {
+    return `${this.KEY_PREFIX}:${channel}:${name}:active`;
+  }
+
+  private sequenceKey(channel: TemplateChannel, name: string): string {
+    return `${this.KEY_PREFIX}:${channel}:${name}:sequence`;
+  }
+
+  // Hash of the built-in source last stored
+  private builtInKey(channel: TemplateChannel, name: string): string {
+    return `${this.KEY_PREFIX}:${channel}:${name}:builtin`;
+  }
+}
@@ -0,0 +1,294 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { createClient, RedisClientType } from 'redis';
+import { randomBytes, randomUUID } from 'crypto';
+import { assertPublicWebhookUrl } from './webhook-url';
+
+export interface WebhookEndpoint {
+  id: string;
+  userId: string;
+  url: string;
+  secret: string;
+  // Notification templates (event types) to deliver; empty means all
+  events: string[];
+  // Delay before each retry, in milliseconds
+  retrySchedule: number[];
+  headers?: Record<string, string>;
+  enabled: boolean;
+  consecutiveFailures: number;
+  firstFailureAt?: Date;
+  disabledAt?: Date;
+  disabledReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  endpointId: string;
+  notificationId: string;
+  event: string;
+  attempt: number;
+  success: boolean;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+  attemptedAt: Date;
+  nextRetryAt?: Date;
+}
+
+export interface RegisterWebhookEndpoint {
+  userId: string;
+  url: string;
+  secret?: string;
+  events?: string[];
+  retrySchedule?: number[];
+  headers?: Record<string, string>;
+}
+
+@Injectable()
+export class WebhookEndpointService implements OnModuleInit {
+  private readonly logger = new Logger(WebhookEndpointService.name);
+  private redis: RedisClientType;
+  private readonly KEY_PREFIX = 'notification:webhook';
+  private readonly MAX_ATTEMPTS_KEPT = 1000;
+  private readonly MAX_RETRIES = 10;
+  private readonly MAX_RETRY_DELAY_MS = 7 * 24 * 60 * 60 * 1000;
+
+  // 1m, 5m, 30m, 2h, 6h
+  readonly DEFAULT_RETRY_SCHEDULE = [60000, 300000, 1800000, 7200000, 21600000];
+
+  // An endpoint is disabled once it has failed this many times in a row over at least this long
+  private readonly DISABLE_AFTER_FAILURES = parseInt(process.env.WEBHOOK_DISABLE_AFTER_FAILURES || '15');
+  private readonly DISABLE_AFTER_MS = parseInt(process.env.WEBHOOK_DISABLE_AFTER_MS || '86400000');
+
+  async onModuleInit() {
+    this.redis = createClient({
+      socket: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+      },
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.error('Redis connection error:', error.message);
+    });
+
+    await this.redis.connect();
+    this.logger.log('Connected to Redis for webhook endpoints');
+  }
+
+  async registerEndpoint(request: RegisterWebhookEndpoint): Promise<WebhookEndpoint> {
+    const url = await assertPublicWebhookUrl(request.url);
+    this.validateRetrySchedule(request.retrySchedule);
+
+    const now = new Date();
+    const endpoint: WebhookEndpoint = {
+      id: randomUUID(),
+      userId: request.userId,
+      url: url.toString(),
+      secret: request.secret || `whsec_${randomBytes(24).toString('base64url')}`,
+      events: request.events || [],
+      retrySchedule: request.retrySchedule || this.DEFAULT_RETRY_SCHEDULE,
+      headers: request.headers,
+      enabled: true,
+      consecutiveFailures: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save(endpoint);
+    await this.redis.sAdd(this.userKey(endpoint.userId), endpoint.id);
+
+    this.logger.log(`Registered webhook endpoint ${endpoint.id} for user ${endpoint.userId}: ${endpoint.url}`);
+    return endpoint;
+  }
+
+  async getEndpoint(endpointId: string): Promise<WebhookEndpoint | null> {
+    const [raw, streak] = await Promise.all([
+      this.redis.get(this.endpointKey(endpointId)),
+      this.redis.hGetAll(this.failuresKey(endpointId)),
+    ]);
+    return raw ? this.deserialize(raw, streak) : null;
+  }
+
+  async getUserEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    const ids = await this.redis.sMembers(this.userKey(userId));
+    const endpoints = await Promise.all(ids.map((id) => this.getEndpoint(id)));
+    return endpoints.filter((endpoint): endpoint is WebhookEndpoint => !!endpoint);
+  }
+
+  // Enabled endpoints of the user that subscribe to the given event
+  async getSubscribedEndpoints(userId: string, event: string): Promise<WebhookEndpoint[]> {
+    const endpoints = await this.getUserEndpoints(userId);
+    return endpoints.filter(
+      (endpoint) => endpoint.enabled && (endpoint.events.length === 0 || endpoint.events.includes(event)),
+    );
+  }
+
+  async enableEndpoint(endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.requireEndpoint(endpointId);
+
+    endpoint.enabled = true;
+    endpoint.consecutiveFailures = 0;
+    endpoint.firstFailureAt = undefined;
+    endpoint.disabledAt = undefined;
+    endpoint.disabledReason = undefined;
+    endpoint.updatedAt = new Date();
+
+    await this.redis.del(this.failuresKey(endpointId));
+    await this.save(endpoint);
+    this.logger.log(`Re-enabled webhook endpoint ${endpointId}`);
+    return endpoint;
+  }
+
+  async disableEndpoint(endpointId: string, reason: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.requireEndpoint(endpointId);
+
+    endpoint.enabled = false;
+    endpoint.disabledAt = new Date();
+    endpoint.disabledReason = reason;
+    endpoint.updatedAt = new Date();
+
+    await this.save(endpoint);
+    this.logger.warn(`Disabled webhook endpoint ${endpointId}: ${reason}`);
+    return endpoint;
+  }
+
+  async deleteEndpoint(endpointId: string): Promise<void> {
+    const endpoint = await this.requireEndpoint(endpointId);
+
+    await this.redis.del([this.endpointKey(endpointId), this.failuresKey(endpointId)]);
+    await this.redis.sRem(this.userKey(endpoint.userId), endpointId);
+  }
+
+  /**
+   * Stores a delivery attempt and updates the endpoint's failure streak,
+   * disabling the endpoint once failures have been sustained. The streak
+   * lives in its own hash and is only changed with atomic Redis commands,
+   * so concurrent deliveries to one endpoint cannot lose updates.
+   */
+  async recordAttempt(attempt: WebhookDeliveryAttempt): Promise<WebhookEndpoint | null> {
+    const serialized = JSON.stringify(attempt);
+
+    await this.redis
+      .multi()
+      .lPush(this.attemptsKey(attempt.endpointId), serialized)
+      .lTrim(this.attemptsKey(attempt.endpointId), 0, this.MAX_ATTEMPTS_KEPT - 1)
+      .lPush(this.notificationAttemptsKey(attempt.notificationId), serialized)
+      .expire(this.notificationAttemptsKey(attempt.notificationId), 30 * 24 * 60 * 60)
+      .exec();
+
+    const failuresKey = this.failuresKey(attempt.endpointId);
+
+    if (attempt.success) {
+      await this.redis.del(failuresKey);
+      return this.getEndpoint(attempt.endpointId);
+    }
+
+    await this.redis
+      .multi()
+      .hIncrBy(failuresKey, 'count', 1)
+      .hSetNX(failuresKey, 'firstFailureAt', attempt.attemptedAt.toISOString())
+      .exec();
+
+    const endpoint = await this.getEndpoint(attempt.endpointId);
+    if (!endpoint || !endpoint.enabled) {
+      return endpoint;
+    }
+
+    const firstFailureAt = endpoint.firstFailureAt || attempt.attemptedAt;
+    const failingFor = attempt.attemptedAt.getTime() - firstFailureAt.getTime();
+    if (endpoint.consecutiveFailures >= this.DISABLE_AFTER_FAILURES && failingFor >= this.DISABLE_AFTER_MS) {
+      return this.disableEndpoint(
+        endpoint.id,
+        `${endpoint.consecutiveFailures} consecutive failed deliveries since ${firstFailureAt.toISOString()}`,
+      );
+    }
+
+    return endpoint;
+  }
+
+  async getEndpointAttempts(endpointId: string, limit = 100): Promise<WebhookDeliveryAttempt[]> {
+    const entries = await this.redis.lRange(this.attemptsKey(endpointId), 0, limit - 1);
+    return entries.map((entry) => this.deserializeAttempt(entry));
+  }
+
+  async getNotificationAttempts(notificationId: string): Promise<WebhookDeliveryAttempt[]> {
+    const entries = await this.redis.lRange(this.notificationAttemptsKey(notificationId), 0, -1);
+    return entries.map((entry) => this.deserializeAttempt(entry)).reverse();
+  }
+
+  // Delays are capped so a schedule cannot keep a job parked for months
+  private validateRetrySchedule(schedule?: number[]): void {
+    if (schedule === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(schedule) || schedule.length > this.MAX_RETRIES) {
+      throw new Error(`retrySchedule must be a list of at most ${this.MAX_RETRIES} delays`);
+    }
+
+    for (const delay of schedule) {
+      if (!Number.isInteger(delay) || delay < 1000 || delay > this.MAX_RETRY_DELAY_MS) {
+        throw new Error(`retrySchedule delays must be whole milliseconds between 1000 and ${this.MAX_RETRY_DELAY_MS}`);
+      }
+    }
+  }
+
+  private async requireEndpoint(endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.getEndpoint(endpointId);
+    if (!endpoint) {
+      throw new Error(`Webhook endpoint ${endpointId} not found`);
+    }
+    return endpoint;
+  }
+
+  // The failure streak is kept out of the stored document; see recordAttempt
+  private async save(endpoint: WebhookEndpoint): Promise<void> {
+    const { consecutiveFailures, firstFailureAt, ...stored } = endpoint;
+    await this.redis.set(this.endpointKey(endpoint.id), JSON.stringify(stored));
+  }
+
+  private deserialize(raw: string, streak: Record<string, string>): WebhookEndpoint {
+    const endpoint = JSON.parse(raw);
+    return {
+      ...endpoint,
+      consecutiveFailures: parseInt(streak.count || '0'),
+      firstFailureAt: streak.firstFailureAt ? new Date(streak.firstFailureAt) : undefined,
+      disabledAt: endpoint.disabledAt ? new Date(endpoint.disabledAt) : undefined,
+      createdAt: new Date(endpoint.createdAt),
+      updatedAt: new Date(endpoint.updatedAt),
+    };
+  }
+
+  private deserializeAttempt(raw: string): WebhookDeliveryAttempt {
+    const attempt = JSON.parse(raw);
+    return {
+      ...attempt,
+      attemptedAt: new Date(attempt.attemptedAt),
+      nextRetryAt: attempt.nextRetryAt ? new Date(attempt.nextRetryAt) : undefined,
+    };
+  }
+
+  private endpointKey(endpointId: string): string {
+    return `${this.KEY_PREFIX}:endpoint:${endpointId}`;
+  }
+
+  private userKey(userId: string): string {
+    return `${this.KEY_PREFIX}:user:${userId}`;
+  }
+
+  private failuresKey(endpointId: string): string {
+    return `${this.KEY_PREFIX}:failures:${endpointId}`;
+  }
+
+  private attemptsKey(endpointId: string): string {
+    return `${this.KEY_PREFIX}:attempts:${endpointId}`;
+  }
+
+  private notificationAttemptsKey(notificationId: string): string {
+    return `${this.KEY_PREFIX}:notification:${notificationId}`;
+  }
+}
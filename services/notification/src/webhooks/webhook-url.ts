@@ -0,0 +1,78 @@
+import { BlockList, isIP } from 'net';
+import { promises as dns } from 'dns';
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are judged by the IPv4 address they carry
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Parses a webhook URL and checks it is safe to call from inside the
+ * platform: https only, no embedded credentials, and a host that resolves
+ * exclusively to public addresses. Run again before each delivery, since
+ * DNS answers can change after registration.
+ */
+export async function assertPublicWebhookUrl(raw: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error('Webhook URL is not a valid URL');
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new Error('Webhook endpoints must use https');
+  }
+
+  if (url.username || url.password) {
+    throw new Error('Webhook URLs must not contain credentials');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new Error(`Webhook host ${host} could not be resolved`);
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`Webhook host ${host} resolves to a private or reserved address`);
+  }
+
+  return url;
+}
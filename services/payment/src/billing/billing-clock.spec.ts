@@ -0,0 +1,38 @@
+import { addBillingInterval } from './billing-clock';
+
+describe('addBillingInterval', () => {
+  const monthly = { interval: 'month' as const, intervalCount: 1 };
+
+  it('clamps to the end of shorter months and returns to the anchor day', () => {
+    const anchor = new Date('2026-01-31T12:00:00Z');
+
+    const february = addBillingInterval(anchor, monthly);
+    const march = addBillingInterval(february, monthly, anchor);
+    const april = addBillingInterval(march, monthly, anchor);
+
+    expect(february.toISOString()).toBe('2026-02-28T12:00:00.000Z');
+    expect(march.toISOString()).toBe('2026-03-31T12:00:00.000Z');
+    expect(april.toISOString()).toBe('2026-04-30T12:00:00.000Z');
+  });
+
+  it('renews leap-day yearly plans on Feb 28 and back on Feb 29', () => {
+    const anchor = new Date('2028-02-29T00:00:00Z');
+    const yearly = { interval: 'year' as const, intervalCount: 1 };
+
+    const first = addBillingInterval(anchor, yearly);
+    const leap = addBillingInterval(addBillingInterval(addBillingInterval(first, yearly, anchor), yearly, anchor), yearly, anchor);
+
+    expect(first.toISOString()).toBe('2029-02-28T00:00:00.000Z');
+    expect(leap.toISOString()).toBe('2032-02-29T00:00:00.000Z');
+  });
+
+  it('counts multi-month intervals from the anchor', () => {
+    const anchor = new Date('2026-08-31T00:00:00Z');
+    const quarterly = { interval: 'month' as const, intervalCount: 3 };
+
+    const november = addBillingInterval(anchor, quarterly);
+
+    expect(november.toISOString()).toBe('2026-11-30T00:00:00.000Z');
+    expect(addBillingInterval(november, quarterly, anchor).toISOString()).toBe('2027-02-28T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Plan } from '../payment.service';
+
+export interface ClockAdvance {
+  months?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+}
+
+/**
+ * The time every billing decision is made against. It follows the system
+ * clock unless BILLING_TEST_CLOCK=true, in which case it can be frozen and
+ * moved forward so renewals, trials and proration run deterministically.
+ */
+@Injectable()
+export class BillingClock {
+  private readonly logger = new Logger(BillingClock.name);
+  private readonly testMode = process.env.BILLING_TEST_CLOCK === 'true';
+  private frozenAt?: Date;
+
+  now(): Date {
+    return this.frozenAt ? new Date(this.frozenAt) : new Date();
+  }
+
+  isFrozen(): boolean {
+    return this.frozenAt !== undefined;
+  }
+
+  freeze(at: Date = new Date()): Date {
+    this.assertTestMode();
+    this.frozenAt = new Date(at);
+    this.logger.log(`Billing clock frozen at ${this.frozenAt.toISOString()}`);
+    return this.now();
+  }
+
+  // Moves a frozen clock forward; freezes it at the current time first if needed
+  advance(by: ClockAdvance): Date {
+    this.assertTestMode();
+
+    const next = addMonthsClamped(this.now(), by.months || 0);
+    next.setDate(next.getDate() + (by.days || 0));
+    next.setHours(next.getHours() + (by.hours || 0));
+    next.setMinutes(next.getMinutes() + (by.minutes || 0));
+
+    if (next < this.now()) {
+      throw new Error('The billing clock cannot move backwards');
+    }
+
+    this.frozenAt = next;
+    this.logger.log(`Billing clock advanced to ${next.toISOString()}`);
+    return this.now();
+  }
+
+  unfreeze(): void {
+    this.frozenAt = undefined;
+  }
+
+  private assertTestMode(): void {
+    if (!this.testMode) {
+      throw new Error('The billing clock can only be controlled with BILLING_TEST_CLOCK=true');
+    }
+  }
+}
+
+/**
+ * End of the billing period that starts at `start`. Monthly and yearly
+ * periods are counted from `anchor`, the start of the first period, and land
+ * on the anchor's day of the month, or on the last day of shorter months: a
+ * subscription anchored on Jan 31 renews on Feb 28, then Mar 31.
+ */
+export function addBillingInterval(
+  start: Date,
+  plan: Pick<Plan, 'interval' | 'intervalCount'>,
+  anchor: Date = start,
+): Date {
+  const end = new Date(start);
+
+  switch (plan.interval) {
+    case 'day':
+      end.setDate(end.getDate() + plan.intervalCount);
+      return end;
+    case 'week':
+      end.setDate(end.getDate() + (plan.intervalCount * 7));
+      return end;
+    case 'month':
+    case 'year': {
+      const months = plan.interval === 'year' ? plan.intervalCount * 12 : plan.intervalCount;
+      const elapsed = (start.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + start.getUTCMonth() - anchor.getUTCMonth();
+      return addMonthsClamped(anchor, elapsed + months);
+    }
+  }
+}
+
+// The anchor's day of the month, `months` later, clamped to the end of shorter months
+function addMonthsClamped(anchor: Date, months: number): Date {
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  const result = new Date(anchor);
+  result.setUTCFullYear(year, month, Math.min(anchor.getUTCDate(), lastDay));
+  return result;
+}
@@ -0,0 +1,95 @@
+import Stripe from 'stripe';
+import { DunningService } from './dunning.service';
+
+jest.mock('@nexus/shared-database', () => ({}));
+jest.mock('@nexus/event-bus', () => ({}));
+
+describe('DunningService', () => {
+  let service: DunningService;
+  let create: jest.Mock;
+
+  const customer = { id: 'cus_1', stripeCustomerId: 'cus_stripe', defaultPaymentMethod: 'pm_1' } as any;
+  const payment = { id: 'pay_1', amount: 5000, currency: 'usd', description: 'Invoice inv_1' } as any;
+  const attempt = { id: 'att_1', invoiceId: 'inv_1' } as any;
+  const charge = () => (service as any).charge(customer, payment, attempt);
+
+  beforeEach(() => {
+    service = new DunningService(null as any, null as any, { now: () => new Date() } as any, null as any);
+    create = jest.fn();
+    (service as any).stripe = { paymentIntents: { create } };
+  });
+
+  it('fails the attempt when the card is declined', async () => {
+    create.mockRejectedValue(new Stripe.errors.StripeCardError({
+      message: 'Your card was declined.',
+      payment_intent: { id: 'pi_declined' },
+    } as any));
+
+    await expect(charge()).resolves.toEqual({
+      status: 'failed',
+      paymentIntentId: 'pi_declined',
+      failureReason: 'Your card was declined.',
+    });
+  });
+
+  it.each([
+    new Stripe.errors.StripeConnectionError({ message: 'socket hang up' } as any),
+    new Stripe.errors.StripeAPIError({ message: 'Internal error' } as any),
+    new Error('ETIMEDOUT'),
+  ])('leaves the outcome unknown when Stripe may have charged the card (%s)', async (error) => {
+    create.mockRejectedValue(error);
+
+    await expect(charge()).resolves.toMatchObject({ status: 'unknown' });
+  });
+
+  describe('late fees', () => {
+    const overdue = () => ({
+      id: 'inv_1',
+      number: 'INV-0001',
+      customerId: 'cus_1',
+      subscriptionId: 'sub_1',
+      currency: 'eur',
+      taxBehavior: 'exclusive',
+      amount: 5000,
+      totalAmount: 6000,
+      amountDue: 6000,
+      items: [{ id: 'item_1', description: 'Pro plan', quantity: 1, unitAmount: 5000, totalAmount: 5000, metadata: {} }],
+    }) as any;
+
+    let generateInvoice: jest.Mock;
+    const issueLateFee = (invoice: any) => (service as any).issueLateFee(invoice, new Date('2026-03-01'), {});
+
+    beforeEach(() => {
+      generateInvoice = jest.fn(async (data) => ({ id: 'inv_fee', totalAmount: 600, ...data }));
+      (service as any).paymentService = { generateInvoice };
+      (service as any).repository = {
+        findSubscription: async () => ({ id: 'sub_1', planId: 'plan_1' }),
+        findPlan: async () => ({ id: 'plan_1', lateFee: { amount: 500 } }),
+      };
+    });
+
+    it('issues the fee as a separate invoice, leaving the overdue invoice as issued', async () => {
+      const invoice = overdue();
+
+      const feeInvoice = await issueLateFee(invoice);
+
+      expect(feeInvoice.id).toBe('inv_fee');
+      expect(generateInvoice).toHaveBeenCalledWith(expect.objectContaining({
+        customerId: 'cus_1',
+        subscriptionId: 'sub_1',
+        currency: 'eur',
+        taxBehavior: 'exclusive',
+        status: 'open',
+        items: [expect.objectContaining({ unitAmount: 500, metadata: expect.objectContaining({ type: 'late_fee' }) })],
+      }), {});
+      expect(invoice).toEqual(overdue());
+    });
+
+    it('charges no fee on a fee invoice', async () => {
+      const feeInvoice = { ...overdue(), items: [{ metadata: { type: 'late_fee' } }] };
+
+      await expect(issueLateFee(feeInvoice)).resolves.toBeUndefined();
+      expect(generateInvoice).not.toHaveBeenCalled();
+    });
+  });
+});
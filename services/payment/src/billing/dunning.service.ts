@@ -0,0 +1,638 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import Stripe from 'stripe';
+import { Decimal } from 'decimal.js';
+import { randomUUID } from 'crypto';
+import { DatabaseClient } from '@nexus/shared-database';
+import { EventBusService } from '@nexus/event-bus';
+import { PaymentService, Customer, Invoice, LateFee, Payment, Subscription } from '../payment.service';
+import { PaymentRepository, runQuery } from '../persistence/payment.repository';
+import { BillingClock } from './billing-clock';
+
+export type DunningStage = 'reminder' | 'warning' | 'final';
+
+export interface DunningAttempt {
+  id: string;
+  invoiceId: string;
+  attempt: number;
+  stage: DunningStage;
+  status: 'processing' | 'succeeded' | 'failed';
+  paymentId?: string;
+  amount: number;
+  lateFee: number;
+  failureReason?: string;
+  attemptedAt: Date;
+  completedAt?: Date;
+}
+
+// 'unknown' when Stripe gave no answer, so the charge may or may not have gone through
+interface ChargeOutcome {
+  status: 'processing' | 'succeeded' | 'failed' | 'unknown';
+  paymentIntentId?: string;
+  failureReason?: string;
+}
+
+interface BillingEvent {
+  type: string;
+  aggregateType: string;
+  aggregateId: string;
+  data: Record<string, any>;
+}
+
+const SCHEMA = 'nexus_billing';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETRY_DAYS = [1, 3, 7];
+const STALE_ATTEMPT_MS = 60 * 60 * 1000;
+
+// Days after the due date on which the payment method is retried, e.g. "1,3,7"
+export function parseRetryDays(value: string | undefined): number[] {
+  const days = (value || '')
+    .split(',')
+    .map((day) => parseInt(day.trim()))
+    .filter((day) => Number.isInteger(day) && day >= 0);
+
+  return days.length ? [...new Set(days)].sort((a, b) => a - b) : DEFAULT_RETRY_DAYS;
+}
+
+/**
+ * Collects overdue, locally billed invoices. Each day on the retry schedule
+ * the customer's default payment method is charged again; every failure
+ * sends a notice that escalates from reminder to warning to final, and moves
+ * the subscription to past_due. When the final retry fails the subscription
+ * becomes unpaid and `subscription.suspended` is published so other services
+ * can restrict access; a later successful payment reactivates it. Invoices
+ * billed by Stripe are retried by Stripe and only their status changes are
+ * published here.
+ */
+@Injectable()
+export class DunningService {
+  private readonly logger = new Logger(DunningService.name);
+  private readonly retryDays = parseRetryDays(process.env.DUNNING_RETRY_DAYS);
+  private stripe: Stripe;
+
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly repository: PaymentRepository,
+    private readonly clock: BillingClock,
+    private readonly eventBus: EventBusService,
+  ) {
+    this.initializeStripe();
+  }
+
+  private initializeStripe(): void {
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+    if (!stripeSecretKey) {
+      this.logger.warn('Stripe secret key not configured. Overdue invoices cannot be retried.');
+      return;
+    }
+
+    this.stripe = new Stripe(stripeSecretKey, {
+      apiVersion: '2024-12-18.acacia',
+    });
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async processOverdueInvoices(): Promise<void> {
+    this.logger.debug('Processing overdue invoices');
+
+    const overdueInvoices = await this.repository.findInvoices({ status: 'open', dueBefore: this.clock.now() });
+    let attempted = 0;
+
+    for (const invoice of overdueInvoices) {
+      if (invoice.stripeInvoiceId) {
+        continue;
+      }
+
+      try {
+        if (await this.runDunning(invoice.id)) {
+          attempted++;
+        }
+      } catch (error) {
+        this.logger.error(`Dunning failed for invoice ${invoice.id}:`, error);
+      }
+    }
+
+    this.logger.log(`Made ${attempted} collection attempts on ${overdueInvoices.length} overdue invoices`);
+  }
+
+  /**
+   * Makes the next scheduled collection attempt on an invoice if one is due.
+   * The late fee from the subscription's plan is issued as its own invoice
+   * before the first attempt. Returns undefined when nothing was due.
+   */
+  async runDunning(invoiceId: string): Promise<DunningAttempt | undefined> {
+    const now = this.clock.now();
+
+    const claimed = await this.repository.transaction(async (client) => {
+      const current = await this.repository.findInvoice(invoiceId, client);
+      if (!current) {
+        return undefined;
+      }
+
+      // Customer before invoice, the same lock order as generateInvoice, which issues the late fee
+      const customer = await this.repository.findCustomer(current.customerId, client, { forUpdate: true });
+      if (!customer) {
+        throw new Error(`Customer ${current.customerId} not found for invoice ${invoiceId}`);
+      }
+
+      const invoice = await this.repository.findInvoice(invoiceId, client, { forUpdate: true });
+      if (!invoice || invoice.status !== 'open' || invoice.amountDue <= 0 || invoice.stripeInvoiceId) {
+        return undefined;
+      }
+
+      const attempts = await this.findAttempts(invoiceId, client);
+      const inProgress = attempts.find((attempt) => attempt.status === 'processing');
+      if (inProgress) {
+        // An attempt interrupted before Stripe answered is charged again under the same idempotency key
+        const payment = inProgress.paymentId ? await this.repository.findPayment(inProgress.paymentId, client) : undefined;
+        if (!payment || payment.status !== 'pending' || now.getTime() - inProgress.attemptedAt.getTime() < STALE_ATTEMPT_MS) {
+          this.logger.debug(`Invoice ${invoiceId} still has a collection attempt in progress`);
+          return undefined;
+        }
+        return { attempt: inProgress, customer, payment, invoice };
+      }
+
+      const next = attempts.length + 1;
+      if (next > this.retryDays.length || this.daysOverdue(invoice, now) < this.retryDays[next - 1]) {
+        return undefined;
+      }
+
+      const feeInvoice = next === 1 ? await this.issueLateFee(invoice, now, client) : undefined;
+
+      const attempt: DunningAttempt = {
+        id: this.generateId(),
+        invoiceId,
+        attempt: next,
+        stage: this.stageFor(next),
+        status: 'processing',
+        amount: invoice.amountDue,
+        lateFee: feeInvoice?.totalAmount ?? 0,
+        attemptedAt: now,
+      };
+
+      const payment: Payment = {
+        id: this.generateId(),
+        customerId: invoice.customerId,
+        amount: invoice.amountDue,
+        currency: invoice.currency,
+        status: 'pending',
+        paymentMethod: 'stripe',
+        description: `Invoice ${invoiceId} (collection attempt ${next})`,
+        metadata: { invoiceId, dunningAttemptId: attempt.id },
+        createdAt: now,
+        updatedAt: now,
+      };
+      attempt.paymentId = payment.id;
+
+      await this.repository.savePayment(payment, client);
+      await this.insertAttempt(attempt, client);
+
+      return { attempt, customer, payment, invoice, feeInvoice };
+    });
+
+    if (!claimed) {
+      return undefined;
+    }
+
+    const { attempt, customer, payment, invoice, feeInvoice } = claimed;
+    if (feeInvoice) {
+      await this.paymentService.queueInvoicePdf(feeInvoice);
+    }
+
+    const outcome = await this.charge(customer, payment, attempt);
+
+    if (outcome.status === 'unknown') {
+      // Left pending, so the stale-attempt path repeats it under the same idempotency key
+      this.logger.warn(`Collection attempt ${attempt.attempt} on invoice ${invoiceId} has no outcome yet: ${outcome.failureReason}`);
+      return attempt;
+    }
+
+    await this.paymentService.updatePaymentStatus(payment.id, outcome.status, {
+      paymentIntentId: outcome.paymentIntentId,
+      failureReason: outcome.failureReason,
+    });
+
+    if (outcome.status === 'processing') {
+      this.logger.log(`Collection attempt ${attempt.attempt} on invoice ${invoiceId} is processing`);
+      return attempt;
+    }
+
+    // A webhook may have completed the attempt first
+    return (await this.completeAttempt(attempt.id, outcome)) || this.findAttempt(attempt.id);
+  }
+
+  /**
+   * Finishes a collection attempt whose payment was settled asynchronously,
+   * called by the Stripe webhook handler after a payment changes status.
+   */
+  async handlePaymentUpdate(paymentId: string): Promise<void> {
+    const payment = await this.repository.findPayment(paymentId);
+    const attemptId = payment?.metadata?.dunningAttemptId;
+    if (!payment || !attemptId) {
+      return;
+    }
+
+    if (payment.status === 'succeeded') {
+      await this.completeAttempt(attemptId, { status: 'succeeded' });
+    } else if (payment.status === 'failed' || payment.status === 'canceled') {
+      await this.completeAttempt(attemptId, {
+        status: 'failed',
+        failureReason: payment.failureReason || `Payment ${payment.status}`,
+      });
+    }
+  }
+
+  /**
+   * Publishes a suspension or reactivation when a subscription moves into or
+   * out of unpaid outside the dunning schedule, e.g. when Stripe ends its own
+   * retries.
+   */
+  async handleSubscriptionStatusChange(subscription: Subscription, previousStatus: Subscription['status']): Promise<void> {
+    if (previousStatus === subscription.status) {
+      return;
+    }
+
+    const customer = await this.repository.findCustomer(subscription.customerId);
+    if (!customer) {
+      return;
+    }
+
+    if (subscription.status === 'unpaid') {
+      await this.publish([this.suspendedEvent(subscription, customer)]);
+    } else if (previousStatus === 'unpaid' && subscription.status === 'active') {
+      await this.publish([this.reactivatedEvent(subscription, customer)]);
+    }
+  }
+
+  async getAttempts(invoiceId: string): Promise<DunningAttempt[]> {
+    return this.findAttempts(invoiceId);
+  }
+
+  getSchedule(): number[] {
+    return [...this.retryDays];
+  }
+
+  /**
+   * Charges the default payment method off-session. Declines come back as a
+   * failed outcome; any other error leaves the outcome unknown, since a
+   * timeout or connection error may hide a charge that went through.
+   */
+  private async charge(customer: Customer, payment: Payment, attempt: DunningAttempt): Promise<ChargeOutcome> {
+    if (!this.stripe || !customer.stripeCustomerId || !customer.defaultPaymentMethod) {
+      return { status: 'failed', failureReason: 'No payment method on file' };
+    }
+
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.create({
+        amount: payment.amount,
+        currency: payment.currency,
+        customer: customer.stripeCustomerId,
+        payment_method: customer.defaultPaymentMethod,
+        off_session: true,
+        confirm: true,
+        description: payment.description,
+        metadata: {
+          paymentId: payment.id,
+          customerId: customer.id,
+          invoiceId: attempt.invoiceId,
+        },
+      }, {
+        idempotencyKey: `dunning_${attempt.id}`,
+      });
+
+      if (paymentIntent.status === 'succeeded') {
+        return { status: 'succeeded', paymentIntentId: paymentIntent.id };
+      }
+      if (paymentIntent.status === 'processing') {
+        return { status: 'processing', paymentIntentId: paymentIntent.id };
+      }
+
+      return {
+        status: 'failed',
+        paymentIntentId: paymentIntent.id,
+        failureReason: paymentIntent.last_payment_error?.message || `Payment ${paymentIntent.status}`,
+      };
+    } catch (error) {
+      if (!(error instanceof Stripe.errors.StripeCardError)) {
+        return { status: 'unknown', failureReason: error.message };
+      }
+
+      // Card declines carry the failed payment intent
+      return {
+        status: 'failed',
+        paymentIntentId: error.payment_intent?.id,
+        failureReason: error.message,
+      };
+    }
+  }
+
+  /**
+   * Records the result of an attempt under the invoice lock. Success settles
+   * the invoice and reactivates the subscription once nothing else is
+   * overdue; failure escalates it. Attempts already completed are left alone,
+   * so webhook redeliveries are harmless.
+   */
+  private async completeAttempt(attemptId: string, outcome: ChargeOutcome): Promise<DunningAttempt | undefined> {
+    const now = this.clock.now();
+
+    const completed = await this.repository.transaction(async (client) => {
+      const [row] = await runQuery(`SELECT invoice_id FROM ${SCHEMA}.dunning_attempts WHERE id = $1`, [attemptId], client);
+      if (!row) {
+        return undefined;
+      }
+
+      // Invoice first, then attempt, matching the lock order in runDunning
+      const invoice = await this.repository.findInvoice(row.invoice_id, client, { forUpdate: true });
+      const attempt = await this.findAttempt(attemptId, client, { forUpdate: true });
+      if (!invoice || !attempt || attempt.status !== 'processing') {
+        return undefined;
+      }
+
+      attempt.status = outcome.status === 'succeeded' ? 'succeeded' : 'failed';
+      attempt.failureReason = outcome.failureReason;
+      attempt.completedAt = now;
+      await runQuery(
+        `UPDATE ${SCHEMA}.dunning_attempts SET status = $2, failure_reason = $3, completed_at = $4 WHERE id = $1`,
+        [attempt.id, attempt.status, attempt.failureReason ?? null, now],
+        client,
+      );
+
+      const customer = await this.repository.findCustomer(invoice.customerId, client);
+      const subscription = invoice.subscriptionId
+        ? await this.repository.findSubscription(invoice.subscriptionId, client, { forUpdate: true })
+        : undefined;
+      const events: BillingEvent[] = [];
+
+      if (attempt.status === 'succeeded') {
+        invoice.status = 'paid';
+        invoice.paidAt = now;
+        invoice.amountDue = 0;
+        await this.repository.saveInvoice(invoice, client);
+
+        if (subscription && customer && await this.reinstate(subscription, invoice, now, client)) {
+          events.push(this.reactivatedEvent(subscription, customer));
+        }
+      } else {
+        const final = attempt.stage === 'final';
+
+        if (subscription && ['active', 'past_due'].includes(subscription.status)) {
+          subscription.status = final ? 'unpaid' : 'past_due';
+          subscription.updatedAt = now;
+          await this.repository.saveSubscription(subscription, client);
+
+          if (final && customer) {
+            events.push(this.suspendedEvent(subscription, customer, invoice));
+          }
+        }
+
+        if (customer) {
+          events.unshift(this.noticeEvent(invoice, attempt, customer, subscription));
+        }
+      }
+
+      return { attempt, invoice, events };
+    });
+
+    if (!completed) {
+      return undefined;
+    }
+
+    const { attempt, invoice, events } = completed;
+    this.logger.log(`Collection attempt ${attempt.attempt} on invoice ${invoice.id} ${attempt.status}`);
+    await this.publish(events);
+
+    return attempt;
+  }
+
+  // Back to active when no other invoice on the subscription is still overdue
+  private async reinstate(subscription: Subscription, paid: Invoice, now: Date, client: DatabaseClient): Promise<boolean> {
+    if (subscription.status !== 'past_due' && subscription.status !== 'unpaid') {
+      return false;
+    }
+
+    const [row] = await runQuery(
+      `SELECT COUNT(*) AS count FROM ${SCHEMA}.invoices
+       WHERE subscription_id = $1 AND id <> $2 AND status = 'open' AND due_date < $3`,
+      [subscription.id, paid.id, now],
+      client,
+    );
+    if (Number(row.count) > 0) {
+      return false;
+    }
+
+    const previousStatus = subscription.status;
+    subscription.status = 'active';
+    subscription.updatedAt = now;
+    await this.repository.saveSubscription(subscription, client);
+
+    return previousStatus === 'unpaid';
+  }
+
+  /**
+   * Issues the plan's late fee on an overdue invoice as a new invoice, taxed
+   * like any other and collected by its own dunning run, so the overdue
+   * invoice stays as it was issued. Fee invoices carry no further fee.
+   */
+  private async issueLateFee(invoice: Invoice, now: Date, client: DatabaseClient): Promise<Invoice | undefined> {
+    if (!invoice.subscriptionId || invoice.items.some((item) => item.metadata?.type === 'late_fee')) {
+      return undefined;
+    }
+
+    const subscription = await this.repository.findSubscription(invoice.subscriptionId, client);
+    const plan = subscription ? await this.repository.findPlan(subscription.planId, client) : undefined;
+    if (!plan?.lateFee) {
+      return undefined;
+    }
+
+    const fee = this.calculateLateFee(plan.lateFee, invoice.amountDue);
+    if (fee <= 0) {
+      return undefined;
+    }
+
+    const feeInvoice = await this.paymentService.generateInvoice({
+      customerId: invoice.customerId,
+      subscriptionId: invoice.subscriptionId,
+      items: [{
+        description: `Late payment fee for invoice ${invoice.number || invoice.id}`,
+        quantity: 1,
+        unitAmount: fee,
+        metadata: { type: 'late_fee', planId: plan.id, invoiceId: invoice.id },
+      }],
+      dueDate: now,
+      taxBehavior: invoice.taxBehavior,
+      currency: invoice.currency,
+      status: 'open',
+    }, client);
+
+    this.logger.log(`Late fee of ${fee} ${invoice.currency} on invoice ${invoice.id} issued as invoice ${feeInvoice.id}`);
+    return feeInvoice;
+  }
+
+  // The rate is a fraction of the amount due, like an invoice's taxRate
+  private calculateLateFee(lateFee: LateFee, amountDue: number): number {
+    let fee = new Decimal(lateFee.amount || 0).plus(new Decimal(amountDue).mul(lateFee.rate || 0));
+    if (lateFee.maxAmount !== undefined) {
+      fee = Decimal.min(fee, lateFee.maxAmount);
+    }
+    return fee.toDecimalPlaces(0).toNumber();
+  }
+
+  private stageFor(attempt: number): DunningStage {
+    if (attempt >= this.retryDays.length) {
+      return 'final';
+    }
+    return attempt === 1 ? 'reminder' : 'warning';
+  }
+
+  private daysOverdue(invoice: Invoice, now: Date): number {
+    return Math.floor((now.getTime() - invoice.dueDate.getTime()) / DAY_MS);
+  }
+
+  private noticeEvent(
+    invoice: Invoice,
+    attempt: DunningAttempt,
+    customer: Customer,
+    subscription?: Subscription,
+  ): BillingEvent {
+    const nextRetryDay = this.retryDays[attempt.attempt];
+
+    return {
+      type: 'invoice.payment_overdue',
+      aggregateType: 'invoice',
+      aggregateId: invoice.id,
+      data: {
+        ...this.recipient(customer),
+        invoiceId: invoice.id,
+        subscriptionId: subscription?.id,
+        stage: attempt.stage,
+        attempt: attempt.attempt,
+        attemptsTotal: this.retryDays.length,
+        amountDue: invoice.amountDue,
+        currency: invoice.currency,
+        lateFee: attempt.lateFee,
+        dueDate: invoice.dueDate,
+        failureReason: attempt.failureReason,
+        nextRetryAt: nextRetryDay !== undefined
+          ? new Date(invoice.dueDate.getTime() + nextRetryDay * DAY_MS)
+          : undefined,
+        suspended: attempt.stage === 'final' && subscription?.status === 'unpaid',
+      },
+    };
+  }
+
+  private suspendedEvent(subscription: Subscription, customer: Customer, invoice?: Invoice): BillingEvent {
+    return {
+      type: 'subscription.suspended',
+      aggregateType: 'subscription',
+      aggregateId: subscription.id,
+      data: {
+        ...this.recipient(customer),
+        subscriptionId: subscription.id,
+        planId: subscription.planId,
+        reason: 'payment_failed',
+        invoiceId: invoice?.id,
+        amountDue: invoice?.amountDue,
+        currency: invoice?.currency,
+      },
+    };
+  }
+
+  private reactivatedEvent(subscription: Subscription, customer: Customer): BillingEvent {
+    return {
+      type: 'subscription.reactivated',
+      aggregateType: 'subscription',
+      aggregateId: subscription.id,
+      data: {
+        ...this.recipient(customer),
+        subscriptionId: subscription.id,
+        planId: subscription.planId,
+      },
+    };
+  }
+
+  // Customers created for a platform user carry its id in their metadata
+  private recipient(customer: Customer): Record<string, any> {
+    return {
+      customerId: customer.id,
+      userId: customer.metadata?.userId || customer.id,
+      email: customer.email,
+      name: customer.name,
+    };
+  }
+
+  // Published after the database work commits; a failed publish is logged, not retried
+  private async publish(events: BillingEvent[]): Promise<void> {
+    for (const event of events) {
+      try {
+        await this.eventBus.publishEvent({
+          id: randomUUID(),
+          version: 1,
+          timestamp: new Date(),
+          metadata: { source: 'payment-service' },
+          ...event,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to publish ${event.type} for ${event.aggregateType} ${event.aggregateId}:`, error);
+      }
+    }
+  }
+
+  private async insertAttempt(attempt: DunningAttempt, client: DatabaseClient): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.dunning_attempts
+         (id, invoice_id, attempt, stage, status, payment_id, amount, late_fee, attempted_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        attempt.id,
+        attempt.invoiceId,
+        attempt.attempt,
+        attempt.stage,
+        attempt.status,
+        attempt.paymentId ?? null,
+        attempt.amount,
+        attempt.lateFee,
+        attempt.attemptedAt,
+      ],
+      client,
+    );
+  }
+
+  private async findAttempt(
+    id: string,
+    client?: DatabaseClient,
+    options: { forUpdate?: boolean } = {},
+  ): Promise<DunningAttempt | undefined> {
+    const lock = options.forUpdate ? ' FOR UPDATE' : '';
+    const [row] = await runQuery(`SELECT * FROM ${SCHEMA}.dunning_attempts WHERE id = $1${lock}`, [id], client);
+    return row ? this.toAttempt(row) : undefined;
+  }
+
+  private async findAttempts(invoiceId: string, client?: DatabaseClient): Promise<DunningAttempt[]> {
+    const rows = await runQuery(
+      `SELECT * FROM ${SCHEMA}.dunning_attempts WHERE invoice_id = $1 ORDER BY attempt`,
+      [invoiceId],
+      client,
+    );
+    return rows.map((row) => this.toAttempt(row));
+  }
+
+  private toAttempt(row: any): DunningAttempt {
+    return {
+      id: row.id,
+      invoiceId: row.invoice_id,
+      attempt: row.attempt,
+      stage: row.stage,
+      status: row.status,
+      paymentId: row.payment_id ?? undefined,
+      amount: Number(row.amount),
+      lateFee: Number(row.late_fee),
+      failureReason: row.failure_reason ?? undefined,
+      attemptedAt: new Date(row.attempted_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    };
+  }
+
+  private generateId(): string {
+    return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
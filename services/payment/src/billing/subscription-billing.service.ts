@@ -0,0 +1,544 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import Stripe from 'stripe';
+import { Decimal } from 'decimal.js';
+import { DatabaseClient } from '@nexus/shared-database';
+import {
+  PaymentService,
+  Invoice,
+  InvoiceItem,
+  Plan,
+  Subscription,
+  UsageRecord,
+} from '../payment.service';
+import { PaymentRepository } from '../persistence/payment.repository';
+import { LedgerService } from '../ledger/ledger.service';
+import { BillingClock, ClockAdvance, addBillingInterval } from './billing-clock';
+
+export interface PlanChangeResult {
+  subscription: Subscription;
+  invoice?: Invoice;
+  // Proration owed back to the customer, added to their credit balance
+  creditAmount: number;
+}
+
+export interface SubscriptionAdvanceResult {
+  subscriptionId: string;
+  actions: Array<'resumed' | 'trial_converted' | 'renewed' | 'canceled'>;
+  invoices: Invoice[];
+}
+
+/**
+ * Subscription lifecycle for locally billed subscriptions: plan changes with
+ * proration, trial conversion, pause/resume, renewals and metered usage.
+ * Subscriptions managed in Stripe are changed through the Stripe API and
+ * billed by Stripe; their state comes back through webhooks.
+ */
+@Injectable()
+export class SubscriptionBillingService {
+  private readonly logger = new Logger(SubscriptionBillingService.name);
+  private readonly INVOICE_DUE_DAYS = parseInt(process.env.SUBSCRIPTION_INVOICE_DUE_DAYS || '7');
+  private stripe: Stripe;
+
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly repository: PaymentRepository,
+    private readonly ledger: LedgerService,
+    private readonly clock: BillingClock,
+  ) {
+    this.initializeStripe();
+  }
+
+  private initializeStripe(): void {
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+    if (!stripeSecretKey) {
+      return;
+    }
+
+    this.stripe = new Stripe(stripeSecretKey, {
+      apiVersion: '2024-12-18.acacia',
+    });
+  }
+
+  // Plan Changes
+  /**
+   * Moves a subscription to another plan mid-cycle. With proration the
+   * unused part of the current plan is credited and the rest of the period
+   * on the new plan is charged; a net charge is invoiced, a net credit goes
+   * to the customer's credit balance. Changing to a plan with a different
+   * interval starts a new billing period now. Trialing subscriptions switch
+   * without charge and are billed on the new plan when the trial ends.
+   */
+  async changeSubscriptionPlan(
+    subscriptionId: string,
+    planId: string,
+    options: { prorate?: boolean } = {},
+  ): Promise<PlanChangeResult> {
+    const prorate = options.prorate !== false;
+    const plan = await this.repository.findPlan(planId);
+    if (!plan || !plan.isActive) {
+      throw new BadRequestException('Plan not found');
+    }
+
+    const existing = await this.repository.findSubscription(subscriptionId);
+    if (!existing) {
+      throw new BadRequestException('Subscription not found');
+    }
+    if (existing.stripeSubscriptionId) {
+      return this.changeStripePlan(existing, plan, prorate);
+    }
+
+    const now = this.clock.now();
+    const result = await this.repository.transaction(async (client): Promise<PlanChangeResult> => {
+      const subscription = await this.lockSubscription(subscriptionId, client);
+      if (subscription.planId === plan.id) {
+        throw new BadRequestException('Subscription is already on this plan');
+      }
+      if (subscription.status !== 'active' && subscription.status !== 'trialing') {
+        throw new BadRequestException(`A ${subscription.status} subscription cannot change plan`);
+      }
+
+      const previousPlan = await this.repository.findPlan(subscription.planId, client);
+      if (previousPlan && previousPlan.currency !== plan.currency) {
+        throw new BadRequestException('Plans must share a currency');
+      }
+
+      subscription.planId = plan.id;
+      subscription.updatedAt = now;
+
+      if (subscription.status === 'trialing' || !previousPlan) {
+        await this.repository.saveSubscription(subscription, client);
+        return { subscription, creditAmount: 0 };
+      }
+
+      const sameCycle = previousPlan.interval === plan.interval && previousPlan.intervalCount === plan.intervalCount;
+      const remaining = this.remainingFraction(subscription, now);
+      const credit = prorate ? this.prorate(previousPlan.amount, remaining) : new Decimal(0);
+      let charge: Decimal;
+
+      if (sameCycle) {
+        charge = prorate ? this.prorate(plan.amount, remaining) : new Decimal(0);
+      } else {
+        charge = new Decimal(plan.amount);
+        subscription.currentPeriodStart = now;
+        subscription.currentPeriodEnd = addBillingInterval(now, plan);
+        subscription.billingAnchor = now;
+      }
+
+      await this.repository.saveSubscription(subscription, client);
+
+      const items: Omit<InvoiceItem, 'id' | 'totalAmount'>[] = [];
+      if (credit.gt(0)) {
+        items.push({
+          description: `Unused time on ${previousPlan.name}`,
+          quantity: 1,
+          unitAmount: credit.negated().toNumber(),
+          metadata: { proration: true, planId: previousPlan.id },
+        });
+      }
+      if (charge.gt(0)) {
+        items.push({
+          description: sameCycle ? `Remaining time on ${plan.name}` : plan.name,
+          quantity: 1,
+          unitAmount: charge.toNumber(),
+          metadata: { proration: sameCycle, planId: plan.id },
+        });
+      }
+
+      const net = charge.minus(credit);
+      if (net.gt(0)) {
+        const invoice = await this.paymentService.generateInvoice({
+          customerId: subscription.customerId,
+          subscriptionId: subscription.id,
+          items,
+          dueDate: this.dueDate(now),
+          currency: plan.currency,
+          taxBehavior: plan.taxBehavior,
+          status: 'open',
+        }, client);
+        return { subscription, invoice, creditAmount: 0 };
+      }
+
+      if (net.lt(0)) {
+        await this.ledger.recordCredit({
+          customerId: subscription.customerId,
+          amount: net.negated(),
+          currency: plan.currency,
+          description: `Proration credit: ${previousPlan.name} to ${plan.name}`,
+        }, client);
+      }
+
+      return { subscription, creditAmount: net.lt(0) ? net.negated().toNumber() : 0 };
+    });
+
+    if (result.invoice) {
+      await this.paymentService.queueInvoicePdf(result.invoice);
+    }
+
+    this.logger.log(`Subscription ${subscriptionId} moved to plan ${plan.id}`);
+    return result;
+  }
+
+  private async changeStripePlan(subscription: Subscription, plan: Plan, prorate: boolean): Promise<PlanChangeResult> {
+    if (!this.stripe || !plan.stripePriceId) {
+      throw new BadRequestException('Plan is not available in Stripe');
+    }
+
+    const stripeSubscription = await this.stripe.subscriptions.retrieve(subscription.stripeSubscriptionId!);
+    await this.stripe.subscriptions.update(subscription.stripeSubscriptionId!, {
+      items: [{ id: stripeSubscription.items.data[0].id, price: plan.stripePriceId }],
+      proration_behavior: prorate ? 'create_prorations' : 'none',
+    });
+
+    // Stripe invoices the proration; the webhook brings the rest of the state back
+    subscription.planId = plan.id;
+    subscription.updatedAt = this.clock.now();
+    await this.repository.saveSubscription(subscription);
+
+    this.logger.log(`Stripe subscription ${subscription.stripeSubscriptionId} moved to plan ${plan.id}`);
+    return { subscription, creditAmount: 0 };
+  }
+
+  // Trials
+  // Ends a trial early and bills the first paid period from now
+  async convertTrial(subscriptionId: string): Promise<SubscriptionAdvanceResult> {
+    const existing = await this.repository.findSubscription(subscriptionId);
+    if (!existing) {
+      throw new BadRequestException('Subscription not found');
+    }
+
+    if (existing.stripeSubscriptionId) {
+      if (!this.stripe) {
+        throw new BadRequestException('Stripe not configured');
+      }
+      await this.stripe.subscriptions.update(existing.stripeSubscriptionId, { trial_end: 'now' });
+      return { subscriptionId, actions: ['trial_converted'], invoices: [] };
+    }
+
+    const now = this.clock.now();
+    return this.withLockedSubscription(subscriptionId, async (subscription, client) => {
+      if (subscription.status !== 'trialing') {
+        throw new BadRequestException('Subscription is not trialing');
+      }
+
+      subscription.trialEnd = now;
+      return this.advance(subscription, now, client);
+    });
+  }
+
+  // Pause / Resume
+  async pauseSubscription(subscriptionId: string, options: { resumeAt?: Date } = {}): Promise<Subscription> {
+    const now = this.clock.now();
+    if (options.resumeAt && options.resumeAt <= now) {
+      throw new BadRequestException('resumeAt must be in the future');
+    }
+
+    const subscription = await this.repository.transaction(async (client) => {
+      const locked = await this.lockSubscription(subscriptionId, client);
+      if (locked.status !== 'active') {
+        throw new BadRequestException(`A ${locked.status} subscription cannot be paused`);
+      }
+
+      locked.status = 'paused';
+      locked.pausedAt = now;
+      locked.resumeAt = options.resumeAt;
+      locked.updatedAt = now;
+      await this.repository.saveSubscription(locked, client);
+      return locked;
+    });
+
+    if (this.stripe && subscription.stripeSubscriptionId) {
+      await this.stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+        pause_collection: {
+          behavior: 'void',
+          resumes_at: options.resumeAt ? Math.floor(options.resumeAt.getTime() / 1000) : undefined,
+        },
+      });
+    }
+
+    this.logger.log(`Subscription paused: ${subscriptionId}${options.resumeAt ? ` until ${options.resumeAt.toISOString()}` : ''}`);
+    return subscription;
+  }
+
+  // The period is extended by the time spent paused, so paid time is not lost
+  async resumeSubscription(subscriptionId: string): Promise<Subscription> {
+    const now = this.clock.now();
+
+    const subscription = await this.repository.transaction(async (client) => {
+      const locked = await this.lockSubscription(subscriptionId, client);
+      if (locked.status !== 'paused') {
+        throw new BadRequestException('Subscription is not paused');
+      }
+
+      this.applyResume(locked, now);
+      locked.updatedAt = now;
+      await this.repository.saveSubscription(locked, client);
+      return locked;
+    });
+
+    if (this.stripe && subscription.stripeSubscriptionId) {
+      await this.stripe.subscriptions.update(subscription.stripeSubscriptionId, { pause_collection: '' });
+    }
+
+    this.logger.log(`Subscription resumed: ${subscriptionId}`);
+    return subscription;
+  }
+
+  // Usage
+  async recordUsage(subscriptionId: string, usage: {
+    metric: string;
+    quantity: number;
+    timestamp?: Date;
+    idempotencyKey?: string;
+  }): Promise<{ record: UsageRecord; duplicate: boolean }> {
+    if (!Number.isFinite(usage.quantity) || usage.quantity < 0) {
+      throw new BadRequestException('Usage quantity must be a non-negative number');
+    }
+
+    const subscription = await this.repository.findSubscription(subscriptionId);
+    if (!subscription) {
+      throw new BadRequestException('Subscription not found');
+    }
+    if (subscription.status === 'canceled') {
+      throw new BadRequestException('Subscription is canceled');
+    }
+
+    const plan = await this.repository.findPlan(subscription.planId);
+    if (!plan?.meteredComponents?.some(component => component.metric === usage.metric)) {
+      throw new BadRequestException(`Plan ${subscription.planId} has no metered component "${usage.metric}"`);
+    }
+
+    const record: UsageRecord = {
+      id: this.generateId(),
+      subscriptionId,
+      metric: usage.metric,
+      quantity: usage.quantity,
+      recordedAt: usage.timestamp || this.clock.now(),
+      idempotencyKey: usage.idempotencyKey,
+    };
+
+    const stored = await this.repository.saveUsageRecord(record);
+    return { record, duplicate: !stored };
+  }
+
+  async getUsage(subscriptionId: string, filter: { since?: Date; metric?: string } = {}): Promise<UsageRecord[]> {
+    return this.repository.findUsageRecords(subscriptionId, filter);
+  }
+
+  // Renewals
+  /**
+   * Brings a locally billed subscription up to the billing clock: resumes it
+   * if its pause is over, converts an ended trial, and renews every period
+   * that has ended (or cancels it when cancellation was scheduled). Each
+   * renewal invoices the next period in advance and metered usage in arrears.
+   * Running it again at the same time is a no-op.
+   */
+  async advanceSubscription(subscriptionId: string): Promise<SubscriptionAdvanceResult> {
+    const now = this.clock.now();
+    return this.withLockedSubscription(subscriptionId, (subscription, client) => {
+      if (subscription.stripeSubscriptionId) {
+        return Promise.resolve({ subscriptionId, actions: [], invoices: [] });
+      }
+      return this.advance(subscription, now, client);
+    });
+  }
+
+  // Moves a frozen test clock forward and runs whatever billing became due
+  async advanceBillingClock(by: ClockAdvance): Promise<{ now: Date; results: SubscriptionAdvanceResult[] }> {
+    const now = this.clock.advance(by);
+    const due = await this.repository.findDueSubscriptions(now);
+
+    const results: SubscriptionAdvanceResult[] = [];
+    for (const subscription of due) {
+      results.push(await this.advanceSubscription(subscription.id));
+    }
+
+    return { now, results };
+  }
+
+  private async advance(
+    subscription: Subscription,
+    now: Date,
+    client: DatabaseClient,
+  ): Promise<SubscriptionAdvanceResult> {
+    const plan = await this.repository.findPlan(subscription.planId, client);
+    if (!plan) {
+      throw new Error(`Plan ${subscription.planId} not found for subscription ${subscription.id}`);
+    }
+
+    const result: SubscriptionAdvanceResult = { subscriptionId: subscription.id, actions: [], invoices: [] };
+    const addInvoice = (invoice?: Invoice) => invoice && result.invoices.push(invoice);
+
+    if (subscription.status === 'paused' && subscription.resumeAt && subscription.resumeAt <= now) {
+      this.applyResume(subscription, subscription.resumeAt);
+      result.actions.push('resumed');
+    }
+
+    if (subscription.status === 'trialing' && subscription.trialEnd && subscription.trialEnd <= now) {
+      subscription.status = 'active';
+      subscription.currentPeriodStart = subscription.trialEnd;
+      subscription.currentPeriodEnd = addBillingInterval(subscription.trialEnd, plan);
+      subscription.billingAnchor = subscription.trialEnd;
+      addInvoice(await this.invoicePeriod(subscription, plan, { planFee: true }, client));
+      result.actions.push('trial_converted');
+    }
+
+    // Past-due subscriptions keep renewing while dunning collects the earlier invoice
+    while ((subscription.status === 'active' || subscription.status === 'past_due') && subscription.currentPeriodEnd <= now) {
+      const periodEnd = subscription.currentPeriodEnd;
+
+      if (subscription.cancelAtPeriodEnd) {
+        addInvoice(await this.invoicePeriod(subscription, plan, { usageBefore: periodEnd }, client));
+        subscription.status = 'canceled';
+        result.actions.push('canceled');
+        break;
+      }
+
+      subscription.currentPeriodStart = periodEnd;
+      subscription.currentPeriodEnd = addBillingInterval(periodEnd, plan, subscription.billingAnchor);
+      addInvoice(await this.invoicePeriod(subscription, plan, { planFee: true, usageBefore: periodEnd }, client));
+      result.actions.push('renewed');
+    }
+
+    if (result.actions.length > 0) {
+      subscription.updatedAt = now;
+      await this.repository.saveSubscription(subscription, client);
+      this.logger.log(`Subscription ${subscription.id}: ${result.actions.join(', ')}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Invoices the plan fee for the period that just started and/or metered
+   * usage up to the given time. Usage recorded during a trial is not billed.
+   */
+  private async invoicePeriod(
+    subscription: Subscription,
+    plan: Plan,
+    options: { planFee?: boolean; usageBefore?: Date },
+    client: DatabaseClient,
+  ): Promise<Invoice | undefined> {
+    const items: Omit<InvoiceItem, 'id' | 'totalAmount'>[] = [];
+
+    if (options.planFee && plan.amount > 0) {
+      items.push({
+        description: `${plan.name} (${this.formatDate(subscription.currentPeriodStart)} - ${this.formatDate(subscription.currentPeriodEnd)})`,
+        quantity: 1,
+        unitAmount: plan.amount,
+        metadata: { planId: plan.id, periodStart: subscription.currentPeriodStart, periodEnd: subscription.currentPeriodEnd },
+      });
+    }
+
+    const components = plan.meteredComponents || [];
+    const usageWindow = { since: subscription.trialEnd, before: options.usageBefore || new Date(0) };
+    if (options.usageBefore && components.length > 0) {
+      const usage = await this.repository.sumUnbilledUsage(subscription.id, usageWindow, client);
+
+      for (const component of components) {
+        const total = usage.find(entry => entry.metric === component.metric)?.quantity || 0;
+        const billable = Decimal.max(0, new Decimal(total).minus(component.includedUnits || 0));
+        if (billable.lte(0) || component.unitAmount <= 0) {
+          continue;
+        }
+
+        items.push({
+          description: `${component.description} (${total} ${component.metric})`,
+          quantity: billable.toNumber(),
+          unitAmount: component.unitAmount,
+          metadata: { metric: component.metric, includedUnits: component.includedUnits || 0, totalUsage: total },
+        });
+      }
+    }
+
+    if (items.length === 0) {
+      return undefined;
+    }
+
+    const issuedAt = options.planFee ? subscription.currentPeriodStart : options.usageBefore!;
+    const invoice = await this.paymentService.generateInvoice({
+      customerId: subscription.customerId,
+      subscriptionId: subscription.id,
+      items,
+      dueDate: this.dueDate(issuedAt),
+      currency: plan.currency,
+      taxBehavior: plan.taxBehavior,
+      status: 'open',
+    }, client);
+
+    if (options.usageBefore && components.length > 0) {
+      await this.repository.markUsageInvoiced(
+        subscription.id,
+        { ...usageWindow, metrics: components.map(component => component.metric) },
+        invoice.id,
+        client,
+      );
+    }
+
+    return invoice;
+  }
+
+  private applyResume(subscription: Subscription, at: Date): void {
+    if (subscription.pausedAt) {
+      const pausedFor = Math.max(0, at.getTime() - subscription.pausedAt.getTime());
+      subscription.currentPeriodEnd = new Date(subscription.currentPeriodEnd.getTime() + pausedFor);
+      // Later periods are counted from the shifted period end
+      subscription.billingAnchor = subscription.currentPeriodEnd;
+    }
+
+    subscription.status = 'active';
+    subscription.pausedAt = undefined;
+    subscription.resumeAt = undefined;
+  }
+
+  // Share of the current period still ahead, between 0 and 1
+  private remainingFraction(subscription: Subscription, now: Date): Decimal {
+    const total = subscription.currentPeriodEnd.getTime() - subscription.currentPeriodStart.getTime();
+    if (total <= 0) {
+      return new Decimal(0);
+    }
+
+    const remaining = subscription.currentPeriodEnd.getTime() - now.getTime();
+    return Decimal.min(1, Decimal.max(0, new Decimal(remaining).div(total)));
+  }
+
+  // Prorated amounts are rounded to whole minor units
+  private prorate(amount: number, fraction: Decimal): Decimal {
+    return new Decimal(amount).mul(fraction).toDecimalPlaces(0, Decimal.ROUND_HALF_UP);
+  }
+
+  private dueDate(from: Date): Date {
+    const due = new Date(from);
+    due.setDate(due.getDate() + this.INVOICE_DUE_DAYS);
+    return due;
+  }
+
+  private async withLockedSubscription(
+    subscriptionId: string,
+    callback: (subscription: Subscription, client: DatabaseClient) => Promise<SubscriptionAdvanceResult>,
+  ): Promise<SubscriptionAdvanceResult> {
+    const result = await this.repository.transaction(async (client) => {
+      return callback(await this.lockSubscription(subscriptionId, client), client);
+    });
+
+    for (const invoice of result.invoices) {
+      await this.paymentService.queueInvoicePdf(invoice);
+    }
+    return result;
+  }
+
+  private async lockSubscription(subscriptionId: string, client: DatabaseClient): Promise<Subscription> {
+    const subscription = await this.repository.findSubscription(subscriptionId, client, { forUpdate: true });
+    if (!subscription) {
+      throw new BadRequestException('Subscription not found');
+    }
+    return subscription;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private generateId(): string {
+    return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
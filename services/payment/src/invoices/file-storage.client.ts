@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+export interface StoredFile {
+  id: string;
+  url: string;
+}
+
+/**
+ * Stores generated documents through the file-storage service's internal
+ * upload endpoint, authenticated with FILE_STORAGE_SERVICE_TOKEN.
+ */
+@Injectable()
+export class FileStorageClient {
+  private readonly logger = new Logger(FileStorageClient.name);
+  private readonly baseUrl = process.env.FILE_STORAGE_URL || 'http://localhost:3006';
+  private readonly serviceToken = process.env.FILE_STORAGE_SERVICE_TOKEN || '';
+
+  async upload(file: {
+    filename: string;
+    contentType: string;
+    content: Uint8Array;
+    userId: string;
+    tags?: string[];
+  }): Promise<StoredFile> {
+    if (!this.serviceToken) {
+      throw new Error('FILE_STORAGE_SERVICE_TOKEN is not configured');
+    }
+
+    const response = await fetch(`${this.baseUrl}/internal/files`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Service-Token': this.serviceToken,
+      },
+      body: JSON.stringify({
+        filename: file.filename,
+        contentType: file.contentType,
+        content: Buffer.from(file.content).toString('base64'),
+        userId: file.userId,
+        tags: file.tags,
+      }),
+      signal: AbortSignal.timeout(30000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`File storage rejected ${file.filename}: HTTP ${response.status}`);
+    }
+
+    const stored = await response.json() as StoredFile;
+    this.logger.debug(`Stored ${file.filename} as file ${stored.id}`);
+    return stored;
+  }
+}
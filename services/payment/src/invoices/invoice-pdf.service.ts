@@ -0,0 +1,339 @@
+import { Injectable } from '@nestjs/common';
+import { PDFDocument, PDFFont, PDFPage, PageSizes, StandardFonts, rgb } from 'pdf-lib';
+import type { CreditNote, Customer, Invoice } from '../payment.service';
+
+interface PdfContext {
+  document: PDFDocument;
+  page: PDFPage;
+  font: PDFFont;
+  bold: PDFFont;
+  y: number;
+}
+
+const MARGIN = 50;
+const [PAGE_WIDTH, PAGE_HEIGHT] = PageSizes.A4;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const TEXT_COLOR = rgb(0.2, 0.2, 0.2);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+
+// Table columns: description, then right-aligned quantity, unit price and amount
+const COLUMNS = { description: MARGIN, quantity: 340, unitPrice: 440, amount: CONTENT_RIGHT };
+
+// The standard fonts only cover the Windows-1252 character set
+const UNSUPPORTED_CHARACTERS = /[^\x20-\x7E\xA0-\xFF€–—‘’“”•…]/g;
+
+/**
+ * Renders an issued invoice as an A4 PDF carrying what an invoice legally
+ * needs: the seller's and buyer's details and tax IDs, a sequential number,
+ * issue and due dates, each line, the tax rate and amount per jurisdiction,
+ * and the reverse-charge statement where it applies. Seller details come
+ * from INVOICE_SELLER_NAME, INVOICE_SELLER_ADDRESS (lines separated by "|")
+ * and INVOICE_SELLER_TAX_ID.
+ */
+@Injectable()
+export class InvoicePdfService {
+  private readonly seller = {
+    name: process.env.INVOICE_SELLER_NAME || 'Nexus Platform',
+    address: (process.env.INVOICE_SELLER_ADDRESS || '').split('|').map(line => line.trim()).filter(Boolean),
+    taxId: process.env.INVOICE_SELLER_TAX_ID,
+  };
+
+  async render(invoice: Invoice, customer: Customer, creditNotes: CreditNote[] = []): Promise<Uint8Array> {
+    if (!invoice.number) {
+      throw new Error(`Invoice ${invoice.id} has no number; only issued invoices can be rendered`);
+    }
+
+    const document = await PDFDocument.create();
+    document.setTitle(`Invoice ${invoice.number}`);
+    document.setAuthor(this.seller.name);
+    document.setCreationDate(invoice.issuedAt ?? invoice.createdAt);
+
+    const context: PdfContext = {
+      document,
+      page: document.addPage(PageSizes.A4),
+      font: await document.embedFont(StandardFonts.Helvetica),
+      bold: await document.embedFont(StandardFonts.HelveticaBold),
+      y: PAGE_HEIGHT - MARGIN,
+    };
+
+    this.drawHeader(context, invoice);
+    this.drawParties(context, customer, invoice);
+    this.drawItems(context, invoice);
+    this.drawTotals(context, invoice, creditNotes);
+    this.drawNotes(context, invoice);
+    this.drawPageNumbers(context, invoice);
+
+    return document.save();
+  }
+
+  private drawHeader(context: PdfContext, invoice: Invoice): void {
+    const top = context.y;
+
+    this.text(context, this.seller.name, MARGIN, top, { font: context.bold, size: 16 });
+    let sellerY = top - 18;
+    for (const line of this.seller.address) {
+      this.text(context, line, MARGIN, sellerY, { color: MUTED_COLOR });
+      sellerY -= 13;
+    }
+    if (this.seller.taxId) {
+      this.text(context, `Tax ID: ${this.seller.taxId}`, MARGIN, sellerY, { color: MUTED_COLOR });
+      sellerY -= 13;
+    }
+
+    this.textRight(context, invoice.status === 'paid' ? 'INVOICE (PAID)' : 'INVOICE', CONTENT_RIGHT, top, { font: context.bold, size: 18 });
+    const details = [
+      `Invoice number: ${invoice.number}`,
+      `Issue date: ${this.formatDate(invoice.issuedAt ?? invoice.createdAt)}`,
+      `Due date: ${this.formatDate(invoice.dueDate)}`,
+    ];
+    if (invoice.paidAt) {
+      details.push(`Paid: ${this.formatDate(invoice.paidAt)}`);
+    }
+
+    let detailsY = top - 22;
+    for (const line of details) {
+      this.textRight(context, line, CONTENT_RIGHT, detailsY);
+      detailsY -= 13;
+    }
+
+    context.y = Math.min(sellerY, detailsY) - 20;
+  }
+
+  private drawParties(context: PdfContext, customer: Customer, invoice: Invoice): void {
+    this.text(context, 'Bill to', MARGIN, context.y, { font: context.bold });
+    context.y -= 15;
+
+    const address = customer.address;
+    const lines = [
+      customer.name,
+      customer.email,
+      address?.line1,
+      address?.line2,
+      address ? [address.postalCode, address.city, address.state].filter(Boolean).join(' ') : undefined,
+      address?.country,
+      invoice.tax?.customerTaxId || customer.taxId ? `Tax ID: ${invoice.tax?.customerTaxId || customer.taxId}` : undefined,
+    ].filter((line): line is string => !!line);
+
+    for (const line of lines) {
+      this.text(context, line, MARGIN, context.y);
+      context.y -= 13;
+    }
+
+    context.y -= 20;
+  }
+
+  private drawItems(context: PdfContext, invoice: Invoice): void {
+    this.drawTableHeader(context, invoice);
+
+    for (const item of invoice.items) {
+      const descriptionLines = this.wrap(context.font, item.description || '-', 9, COLUMNS.quantity - COLUMNS.description - 60);
+      this.ensureSpace(context, descriptionLines.length * 12 + 6, () => this.drawTableHeader(context, invoice));
+
+      this.textRight(context, this.formatQuantity(item.quantity), COLUMNS.quantity, context.y, { size: 9 });
+      this.textRight(context, this.formatMoney(item.unitAmount, invoice.currency), COLUMNS.unitPrice, context.y, { size: 9 });
+      this.textRight(context, this.formatMoney(item.totalAmount, invoice.currency), COLUMNS.amount, context.y, { size: 9 });
+      for (const line of descriptionLines) {
+        this.text(context, line, COLUMNS.description, context.y, { size: 9 });
+        context.y -= 12;
+      }
+      context.y -= 6;
+    }
+
+    this.rule(context);
+    context.y -= 15;
+  }
+
+  private drawTableHeader(context: PdfContext, invoice: Invoice): void {
+    const amountLabel = invoice.taxBehavior === 'inclusive' ? 'Amount (incl. tax)' : 'Amount';
+
+    this.text(context, 'Description', COLUMNS.description, context.y, { font: context.bold, size: 9 });
+    this.textRight(context, 'Qty', COLUMNS.quantity, context.y, { font: context.bold, size: 9 });
+    this.textRight(context, 'Unit price', COLUMNS.unitPrice, context.y, { font: context.bold, size: 9 });
+    this.textRight(context, amountLabel, COLUMNS.amount, context.y, { font: context.bold, size: 9 });
+    context.y -= 6;
+    this.rule(context);
+    context.y -= 14;
+  }
+
+  private drawTotals(context: PdfContext, invoice: Invoice, creditNotes: CreditNote[]): void {
+    const rows: Array<{ label: string; amount: string; bold?: boolean }> = [
+      { label: 'Subtotal', amount: this.formatMoney(invoice.amount, invoice.currency) },
+    ];
+
+    if (invoice.discountAmount > 0) {
+      rows.push({ label: 'Discount', amount: `-${this.formatMoney(invoice.discountAmount, invoice.currency)}` });
+    }
+
+    const taxLabel = this.taxLabel(invoice);
+    if (taxLabel) {
+      rows.push({ label: taxLabel, amount: this.formatMoney(invoice.taxAmount, invoice.currency) });
+    }
+
+    rows.push({ label: 'Total', amount: this.formatMoney(invoice.totalAmount, invoice.currency), bold: true });
+
+    if (invoice.creditApplied > 0) {
+      rows.push({ label: 'Account credit applied', amount: `-${this.formatMoney(invoice.creditApplied, invoice.currency)}` });
+    }
+    for (const creditNote of creditNotes.filter(note => note.outcome === 'amount_due')) {
+      rows.push({
+        label: `Credit note ${creditNote.number || creditNote.id}`,
+        amount: `-${this.formatMoney(creditNote.totalAmount, creditNote.currency)}`,
+      });
+    }
+
+    rows.push({ label: 'Amount due', amount: this.formatMoney(invoice.amountDue, invoice.currency), bold: true });
+
+    this.ensureSpace(context, rows.length * 16);
+    for (const row of rows) {
+      const font = row.bold ? context.bold : context.font;
+      this.textRight(context, row.label, COLUMNS.unitPrice, context.y, { font });
+      this.textRight(context, row.amount, COLUMNS.amount, context.y, { font });
+      context.y -= 16;
+    }
+
+    context.y -= 10;
+  }
+
+  private drawNotes(context: PdfContext, invoice: Invoice): void {
+    const notes: string[] = [];
+
+    if (invoice.tax?.note) {
+      notes.push(invoice.tax.note);
+    }
+    if (invoice.taxBehavior === 'inclusive' && invoice.taxAmount > 0) {
+      notes.push('Prices include tax.');
+    }
+    if (invoice.status === 'open') {
+      notes.push(`Please pay the amount due by ${this.formatDate(invoice.dueDate)}, quoting invoice number ${invoice.number}.`);
+    }
+
+    for (const note of notes) {
+      const lines = this.wrap(context.font, note, 9, CONTENT_RIGHT - MARGIN);
+      this.ensureSpace(context, lines.length * 12);
+      for (const line of lines) {
+        this.text(context, line, MARGIN, context.y, { size: 9, color: MUTED_COLOR });
+        context.y -= 12;
+      }
+      context.y -= 4;
+    }
+  }
+
+  private drawPageNumbers(context: PdfContext, invoice: Invoice): void {
+    const pages = context.document.getPages();
+
+    pages.forEach((page, index) => {
+      const label = this.sanitize(`${invoice.number} - page ${index + 1} of ${pages.length}`);
+      const width = context.font.widthOfTextAtSize(label, 8);
+      page.drawText(label, { x: CONTENT_RIGHT - width, y: MARGIN / 2, size: 8, font: context.font, color: MUTED_COLOR });
+    });
+  }
+
+  // e.g. "VAT (19%)", "Includes GST (10%)" or "VAT (reverse charge)"
+  private taxLabel(invoice: Invoice): string | undefined {
+    const tax = invoice.tax;
+    const name = tax?.name || 'Tax';
+
+    if (tax?.reverseCharge) {
+      return `${name} (reverse charge)`;
+    }
+    if (!tax?.rate && invoice.taxAmount === 0) {
+      return undefined;
+    }
+
+    const rate = tax ? ` (${this.formatRate(tax.rate)})` : '';
+    const jurisdiction = tax?.jurisdiction?.includes('-') ? ` ${tax.jurisdiction}` : '';
+    return invoice.taxBehavior === 'inclusive' ? `Includes ${name}${jurisdiction}${rate}` : `${name}${jurisdiction}${rate}`;
+  }
+
+  // Starts a new page when the next block would run into the bottom margin
+  private ensureSpace(context: PdfContext, height: number, onNewPage?: () => void): void {
+    if (context.y - height >= MARGIN) {
+      return;
+    }
+
+    context.page = context.document.addPage(PageSizes.A4);
+    context.y = PAGE_HEIGHT - MARGIN;
+    onNewPage?.();
+  }
+
+  private text(
+    context: PdfContext,
+    value: string,
+    x: number,
+    y: number,
+    options: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb> } = {},
+  ): void {
+    context.page.drawText(this.sanitize(value), {
+      x,
+      y,
+      size: options.size || 10,
+      font: options.font || context.font,
+      color: options.color || TEXT_COLOR,
+    });
+  }
+
+  private textRight(
+    context: PdfContext,
+    value: string,
+    right: number,
+    y: number,
+    options: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb> } = {},
+  ): void {
+    const font = options.font || context.font;
+    const width = font.widthOfTextAtSize(this.sanitize(value), options.size || 10);
+    this.text(context, value, right - width, y, options);
+  }
+
+  private rule(context: PdfContext): void {
+    context.page.drawLine({
+      start: { x: MARGIN, y: context.y },
+      end: { x: CONTENT_RIGHT, y: context.y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    });
+  }
+
+  private wrap(font: PDFFont, value: string, size: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of this.sanitize(value).split(/\s+/)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+
+    if (current) {
+      lines.push(current);
+    }
+    return lines.length ? lines : [''];
+  }
+
+  private sanitize(value: string): string {
+    return value.replace(UNSUPPORTED_CHARACTERS, '?');
+  }
+
+  // Amounts are in the currency's minor unit, which is not always cents
+  private formatMoney(amount: number, currency: string): string {
+    const format = new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() });
+    const digits = format.resolvedOptions().maximumFractionDigits ?? 2;
+    return format.format(amount / Math.pow(10, digits));
+  }
+
+  private formatQuantity(quantity: number): string {
+    return new Intl.NumberFormat('en-US', { maximumFractionDigits: 4 }).format(quantity);
+  }
+
+  private formatRate(rate: number): string {
+    return `${new Intl.NumberFormat('en-US', { maximumFractionDigits: 3 }).format(rate * 100)}%`;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
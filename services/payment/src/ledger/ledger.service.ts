@@ -0,0 +1,360 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Decimal } from 'decimal.js';
+import { DatabaseClient } from '@nexus/shared-database';
+import { PaymentRepository, runQuery } from '../persistence/payment.repository';
+
+/**
+ * Chart of accounts. cash and processing_fees are debit-normal;
+ * revenue and customer_credit are credit-normal. refunds is a contra-revenue
+ * account, so it carries debit balances.
+ */
+export type LedgerAccount = 'cash' | 'revenue' | 'refunds' | 'customer_credit' | 'processing_fees';
+
+export type LedgerTransactionType = 'charge' | 'refund' | 'credit' | 'fee' | 'adjustment';
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  direction: 'debit' | 'credit';
+  amount: Decimal;
+  customerId?: string;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  type: LedgerTransactionType;
+  currency: string;
+  referenceType?: 'payment' | 'invoice' | 'customer';
+  referenceId?: string;
+  description?: string;
+  metadata: Record<string, any>;
+  lines: LedgerLine[];
+  createdAt: Date;
+}
+
+export class UnbalancedLedgerTransactionError extends Error {
+  constructor(public readonly debits: Decimal, public readonly credits: Decimal) {
+    super(`Ledger transaction is not balanced: debits ${debits.toFixed()} != credits ${credits.toFixed()}`);
+    this.name = 'UnbalancedLedgerTransactionError';
+  }
+}
+
+const SCHEMA = 'nexus_billing';
+
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(private readonly repository: PaymentRepository) {}
+
+  /**
+   * Writes a balanced set of lines as one ledger transaction. Pass the client
+   * of an open database transaction to commit it together with the change it
+   * records; otherwise the lines are written in a transaction of their own.
+   */
+  async post(
+    entry: Omit<LedgerTransaction, 'id' | 'createdAt' | 'metadata'> & { metadata?: Record<string, any> },
+    client?: DatabaseClient,
+  ): Promise<LedgerTransaction> {
+    this.assertBalanced(entry.lines);
+
+    if (!client) {
+      return this.repository.transaction((txClient) => this.post(entry, txClient));
+    }
+
+    const transaction: LedgerTransaction = {
+      ...entry,
+      currency: entry.currency.toLowerCase(),
+      metadata: entry.metadata || {},
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.ledger_transactions
+         (id, type, reference_type, reference_id, description, metadata, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        transaction.id,
+        transaction.type,
+        transaction.referenceType ?? null,
+        transaction.referenceId ?? null,
+        transaction.description ?? null,
+        JSON.stringify(transaction.metadata),
+        transaction.createdAt,
+      ],
+      client,
+    );
+
+    for (const line of transaction.lines) {
+      await runQuery(
+        `INSERT INTO ${SCHEMA}.ledger_entries
+           (transaction_id, account, customer_id, direction, amount, currency, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          transaction.id,
+          line.account,
+          line.customerId ?? null,
+          line.direction,
+          line.amount.toFixed(4),
+          transaction.currency,
+          transaction.createdAt,
+        ],
+        client,
+      );
+    }
+
+    this.logger.debug(`Ledger ${transaction.type} ${transaction.id} posted for ${transaction.referenceType}:${transaction.referenceId}`);
+    return transaction;
+  }
+
+  // Money collected from a customer: cash in, revenue earned
+  recordCharge(
+    charge: { paymentId: string; customerId: string; amount: Decimal.Value; currency: string; description?: string },
+    client?: DatabaseClient,
+  ): Promise<LedgerTransaction> {
+    const amount = new Decimal(charge.amount);
+    return this.post({
+      type: 'charge',
+      currency: charge.currency,
+      referenceType: 'payment',
+      referenceId: charge.paymentId,
+      description: charge.description,
+      lines: [
+        { account: 'cash', direction: 'debit', amount, customerId: charge.customerId },
+        { account: 'revenue', direction: 'credit', amount, customerId: charge.customerId },
+      ],
+    }, client);
+  }
+
+  // Money returned to a customer: revenue given back, cash out
+  recordRefund(
+    refund: {
+      paymentId: string;
+      customerId: string;
+      amount: Decimal.Value;
+      currency: string;
+      description?: string;
+      metadata?: Record<string, any>;
+    },
+    client?: DatabaseClient,
+  ): Promise<LedgerTransaction> {
+    const amount = new Decimal(refund.amount);
+    return this.post({
+      type: 'refund',
+      currency: refund.currency,
+      referenceType: 'payment',
+      referenceId: refund.paymentId,
+      description: refund.description,
+      metadata: refund.metadata,
+      lines: [
+        { account: 'refunds', direction: 'debit', amount, customerId: refund.customerId },
+        { account: 'cash', direction: 'credit', amount, customerId: refund.customerId },
+      ],
+    }, client);
+  }
+
+  // Credit granted to a customer; a liability until it is applied to an invoice
+  recordCredit(
+    credit: { customerId: string; amount: Decimal.Value; currency: string; description?: string; invoiceId?: string },
+    client?: DatabaseClient,
+  ): Promise<LedgerTransaction> {
+    const amount = new Decimal(credit.amount);
+    return this.post({
+      type: 'credit',
+      currency: credit.currency,
+      referenceType: credit.invoiceId ? 'invoice' : 'customer',
+      referenceId: credit.invoiceId || credit.customerId,
+      description: credit.description,
+      lines: [
+        { account: 'refunds', direction: 'debit', amount, customerId: credit.customerId },
+        { account: 'customer_credit', direction: 'credit', amount, customerId: credit.customerId },
+      ],
+    }, client);
+  }
+
+  // Credit balance used to settle an invoice, earning revenue without new cash
+  recordCreditApplied(
+    application: { customerId: string; invoiceId: string; amount: Decimal.Value; currency: string },
+    client?: DatabaseClient,
+  ): Promise<LedgerTransaction> {
+    const amount = new Decimal(application.amount);
+    return this.post({
+      type: 'credit',
+      currency: application.currency,
+      referenceType: 'invoice',
+      referenceId: application.invoiceId,
+      description: 'Customer credit applied',
+      lines: [
+        { account: 'customer_credit', direction: 'debit', amount, customerId: application.customerId },
+        { account: 'revenue', direction: 'credit', amount, customerId: application.customerId },
+      ],
+    }, client);
+  }
+
+  // Processor fees withheld from a payment
+  recordFee(
+    fee: {
+      paymentId: string;
+      customerId?: string;
+      amount: Decimal.Value;
+      currency: string;
+      description?: string;
+      metadata?: Record<string, any>;
+    },
+    client?: DatabaseClient,
+  ): Promise<LedgerTransaction> {
+    const amount = new Decimal(fee.amount);
+    return this.post({
+      type: 'fee',
+      currency: fee.currency,
+      referenceType: 'payment',
+      referenceId: fee.paymentId,
+      description: fee.description,
+      metadata: fee.metadata,
+      lines: [
+        { account: 'processing_fees', direction: 'debit', amount, customerId: fee.customerId },
+        { account: 'cash', direction: 'credit', amount, customerId: fee.customerId },
+      ],
+    }, client);
+  }
+
+  /**
+   * Balance of an account rebuilt from its entries, as debits minus credits.
+   * Credit-normal accounts (revenue, customer_credit) therefore come back negative.
+   */
+  async getAccountBalance(
+    account: LedgerAccount,
+    currency: string,
+    options: { customerId?: string; asOf?: Date } = {},
+    client?: DatabaseClient,
+  ): Promise<Decimal> {
+    const params: unknown[] = [account, currency.toLowerCase()];
+    let filter = '';
+
+    if (options.customerId) {
+      params.push(options.customerId);
+      filter += ` AND customer_id = $${params.length}`;
+    }
+    if (options.asOf) {
+      params.push(options.asOf);
+      filter += ` AND created_at <= $${params.length}`;
+    }
+
+    const [row] = await runQuery(
+      `SELECT COALESCE(SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END), 0) AS balance
+       FROM ${SCHEMA}.ledger_entries
+       WHERE account = $1 AND currency = $2${filter}`,
+      params,
+      client,
+    );
+
+    return new Decimal(row.balance);
+  }
+
+  // Unapplied credit a customer holds, as a positive amount
+  async getCustomerCredit(customerId: string, currency: string, client?: DatabaseClient): Promise<Decimal> {
+    const balance = await this.getAccountBalance('customer_credit', currency, { customerId }, client);
+    return balance.negated();
+  }
+
+  async getTransactions(referenceType: string, referenceId: string): Promise<LedgerTransaction[]> {
+    const rows = await runQuery(
+      `SELECT t.*, e.account, e.customer_id, e.direction, e.amount, e.currency
+       FROM ${SCHEMA}.ledger_transactions t
+       JOIN ${SCHEMA}.ledger_entries e ON e.transaction_id = t.id
+       WHERE t.reference_type = $1 AND t.reference_id = $2
+       ORDER BY t.created_at, e.id`,
+      [referenceType, referenceId],
+    );
+
+    const transactions = new Map<string, LedgerTransaction>();
+    for (const row of rows) {
+      let transaction = transactions.get(row.id);
+      if (!transaction) {
+        transaction = {
+          id: row.id,
+          type: row.type,
+          currency: row.currency,
+          referenceType: row.reference_type ?? undefined,
+          referenceId: row.reference_id ?? undefined,
+          description: row.description ?? undefined,
+          metadata: row.metadata || {},
+          lines: [],
+          createdAt: new Date(row.created_at),
+        };
+        transactions.set(row.id, transaction);
+      }
+
+      transaction.lines.push({
+        account: row.account,
+        direction: row.direction,
+        amount: new Decimal(row.amount),
+        customerId: row.customer_id ?? undefined,
+      });
+    }
+
+    return Array.from(transactions.values());
+  }
+
+  /**
+   * Audit check: every transaction must balance per currency, so the trial
+   * balance of the whole ledger is zero
+   */
+  async verify(): Promise<{ balanced: boolean; unbalancedTransactions: string[]; trialBalance: Record<string, string> }> {
+    const unbalanced = await runQuery<{ transaction_id: string }>(
+      `SELECT DISTINCT transaction_id
+       FROM ${SCHEMA}.ledger_entries
+       GROUP BY transaction_id, currency
+       HAVING SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END) <> 0`,
+      [],
+    );
+
+    const totals = await runQuery<{ currency: string; balance: string }>(
+      `SELECT currency, SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END) AS balance
+       FROM ${SCHEMA}.ledger_entries
+       GROUP BY currency`,
+      [],
+    );
+
+    const trialBalance: Record<string, string> = {};
+    for (const total of totals) {
+      trialBalance[total.currency] = new Decimal(total.balance).toFixed(4);
+    }
+
+    const unbalancedTransactions = unbalanced.map((row) => row.transaction_id);
+    if (unbalancedTransactions.length > 0) {
+      this.logger.error(`Ledger audit found ${unbalancedTransactions.length} unbalanced transactions`);
+    }
+
+    return {
+      balanced: unbalancedTransactions.length === 0 && Object.values(trialBalance).every((value) => new Decimal(value).isZero()),
+      unbalancedTransactions,
+      trialBalance,
+    };
+  }
+
+  private assertBalanced(lines: LedgerLine[]): void {
+    let debits = new Decimal(0);
+    let credits = new Decimal(0);
+
+    for (const line of lines) {
+      if (!line.amount.isFinite() || line.amount.lte(0)) {
+        throw new Error(`Ledger line amounts must be positive, got ${line.amount.toString()} on ${line.account}`);
+      }
+
+      if (line.direction === 'debit') {
+        debits = debits.plus(line.amount);
+      } else {
+        credits = credits.plus(line.amount);
+      }
+    }
+
+    if (lines.length < 2 || !debits.equals(credits)) {
+      throw new UnbalancedLedgerTransactionError(debits, credits);
+    }
+  }
+
+  private generateId(): string {
+    return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
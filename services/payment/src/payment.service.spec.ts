@@ -0,0 +1,253 @@
+import { CreditNote, Invoice, Payment, PaymentService, Refund } from './payment.service';
+
+jest.mock('@nexus/shared-database', () => ({}));
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  let payments: Map<string, Payment>;
+  let refunds: Map<string, Refund>;
+  let creditNotes: Map<string, CreditNote>;
+  let invoice: Invoice;
+  let ledger: {
+    transactions: any[];
+    getTransactions: jest.Mock;
+    recordFee: jest.Mock;
+    recordRefund: jest.Mock;
+    getCustomerCredit: jest.Mock;
+    recordCreditApplied: jest.Mock;
+  };
+  let invoiceQueue: { add: jest.Mock };
+  let stripe: { charges: { retrieve: jest.Mock }; refunds: { create: jest.Mock } };
+
+  const copy = <T>(value: T | undefined): T | undefined => (value ? { ...value } : undefined);
+
+  beforeEach(() => {
+    payments = new Map([['pay_1', {
+      id: 'pay_1',
+      customerId: 'cus_1',
+      amount: 5000,
+      currency: 'usd',
+      status: 'succeeded',
+      paymentMethod: 'stripe',
+      paymentIntentId: 'pi_1',
+      description: 'Invoice INV-1',
+      metadata: {},
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }]]);
+    refunds = new Map();
+    creditNotes = new Map();
+    invoice = {
+      id: 'inv_1',
+      customerId: 'cus_1',
+      amount: 5000,
+      currency: 'usd',
+      status: 'paid',
+      dueDate: new Date(),
+      items: [{ id: 'item_1', description: 'Pro plan', quantity: 1, unitAmount: 5000, totalAmount: 5000, metadata: {} }],
+      taxAmount: 0,
+      taxBehavior: 'exclusive',
+      discountAmount: 0,
+      totalAmount: 5000,
+      amountDue: 0,
+      creditApplied: 0,
+      createdAt: new Date(),
+    };
+
+    ledger = {
+      transactions: [],
+      getTransactions: jest.fn(async () => ledger.transactions),
+      recordFee: jest.fn(async (fee) => ledger.transactions.push({ type: 'fee', metadata: fee.metadata })),
+      recordRefund: jest.fn(),
+      getCustomerCredit: jest.fn(async () => 2000),
+      recordCreditApplied: jest.fn(),
+    };
+    invoiceQueue = { add: jest.fn() };
+
+    const repository = {
+      transaction: jest.fn((callback) => callback('client')),
+      findPayment: jest.fn(async (id: string) => copy(payments.get(id))),
+      savePayment: jest.fn(async (payment: Payment) => payments.set(payment.id, { ...payment })),
+      findCustomer: jest.fn(async (id: string) => ({ id, email: 'billing@example.com' })),
+      findInvoice: jest.fn(async () => ({ ...invoice })),
+      saveInvoice: jest.fn(async (saved: Invoice) => {
+        invoice = { ...saved };
+      }),
+      findRefund: jest.fn(async (id: string) => copy(refunds.get(id))),
+      findRefunds: jest.fn(async ({ paymentId }) => [...refunds.values()].filter((refund) => refund.paymentId === paymentId)),
+      saveRefund: jest.fn(async (refund: Refund) => refunds.set(refund.id, { ...refund })),
+      setStripeRefundId: jest.fn(async (id: string, stripeRefundId: string) => {
+        refunds.get(id)!.stripeRefundId = stripeRefundId;
+      }),
+      findCreditNote: jest.fn(async (id: string) => copy(creditNotes.get(id))),
+      findCreditNotes: jest.fn(async () => [...creditNotes.values()]),
+      saveCreditNote: jest.fn(async (note: CreditNote) => creditNotes.set(note.id, { ...note })),
+      nextDocumentNumber: jest.fn(async () => creditNotes.size + 1),
+    };
+
+    const tax = {
+      calculate: jest.fn(async (_customer, { subtotal }) => ({
+        tax: { rate: 0, behavior: 'exclusive', reverseCharge: false },
+        taxAmount: 0,
+        totalAmount: subtotal,
+      })),
+    };
+
+    service = new PaymentService(
+      null as any,
+      invoiceQueue as any,
+      null as any,
+      repository as any,
+      ledger as any,
+      { now: () => new Date() } as any,
+      tax as any,
+    );
+
+    stripe = {
+      charges: { retrieve: jest.fn(async () => ({ balance_transaction: { id: 'txn_1', fee: 175, currency: 'usd' } })) },
+      refunds: { create: jest.fn(async () => ({ id: 're_1', status: 'succeeded' })) },
+    };
+    (service as any).stripe = stripe;
+  });
+
+  describe('recordStripeFee', () => {
+    it('posts the fee withheld from the charge', async () => {
+      await service.recordStripeFee('pay_1', { latest_charge: 'ch_1' } as any);
+
+      expect(stripe.charges.retrieve).toHaveBeenCalledWith('ch_1', { expand: ['balance_transaction'] });
+      expect(ledger.recordFee).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentId: 'pay_1', customerId: 'cus_1', amount: 175, currency: 'usd' }),
+        'client',
+      );
+    });
+
+    it('posts each balance transaction only once', async () => {
+      await service.recordStripeFee('pay_1', { latest_charge: 'ch_1' } as any);
+      await service.recordStripeFee('pay_1', { latest_charge: { id: 'ch_1' } } as any);
+
+      expect(ledger.recordFee).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits for the charge to settle', async () => {
+      stripe.charges.retrieve.mockResolvedValue({ balance_transaction: null });
+
+      await service.recordStripeFee('pay_1', { latest_charge: 'ch_1' } as any);
+
+      expect(ledger.recordFee).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordProcessingFee', () => {
+    it('skips zero fees', async () => {
+      await service.recordProcessingFee('pay_1', { amount: 0, currency: 'usd', balanceTransactionId: 'txn_2' });
+
+      expect(ledger.recordFee).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreDisputedPayment', () => {
+    const refund = (id: string, amount: number, status: Refund['status']) =>
+      refunds.set(id, { id, paymentId: 'pay_1', amount, status } as Refund);
+
+    beforeEach(() => {
+      payments.get('pay_1')!.status = 'disputed';
+    });
+
+    it('returns a payment with part of it refunded to succeeded', async () => {
+      refund('ref_1', 2000, 'succeeded');
+
+      await expect(service.restoreDisputedPayment('pay_1')).resolves.toMatchObject({ status: 'succeeded' });
+    });
+
+    it('returns a fully refunded payment to refunded', async () => {
+      refund('ref_1', 2000, 'succeeded');
+      refund('ref_2', 3000, 'succeeded');
+      refund('ref_3', 1000, 'failed');
+
+      await expect(service.restoreDisputedPayment('pay_1')).resolves.toMatchObject({ status: 'refunded' });
+      expect(payments.get('pay_1')!.status).toBe('refunded');
+    });
+  });
+
+  describe('draft invoices', () => {
+    const draft = {
+      customerId: 'cus_1',
+      items: [{ description: 'Consulting', quantity: 1, unitAmount: 5000, metadata: {} }],
+      dueDate: new Date(),
+    };
+
+    it('spend no credit and post nothing to the ledger until finalized', async () => {
+      const created = await service.generateInvoice(draft);
+
+      expect(created).toMatchObject({ status: 'draft', creditApplied: 0, amountDue: 5000 });
+      expect(created.number).toBeUndefined();
+      expect(ledger.recordCreditApplied).not.toHaveBeenCalled();
+      expect(invoiceQueue.add).not.toHaveBeenCalled();
+
+      const finalized = await service.finalizeInvoice(created.id);
+
+      expect(finalized).toMatchObject({ status: 'open', creditApplied: 2000, amountDue: 3000 });
+      expect(finalized.number).toMatch(/^INV-\d{4}-\d{6}$/);
+      expect(ledger.recordCreditApplied).toHaveBeenCalledTimes(1);
+      expect(invoiceQueue.add).toHaveBeenCalledTimes(1);
+    });
+
+    it('apply credit straight away when issued open', async () => {
+      const created = await service.generateInvoice({ ...draft, status: 'open' });
+
+      expect(created).toMatchObject({ status: 'open', creditApplied: 2000, amountDue: 3000 });
+      expect(ledger.recordCreditApplied).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('issueCreditNote with a refund', () => {
+    const request = {
+      lines: [{ invoiceItemId: 'item_1', amount: 3000 }],
+      reason: 'Outage credit',
+      outcome: 'refund' as const,
+      paymentId: 'pay_1',
+    };
+
+    it('stores the credit note before refunding and issues it once the refund succeeds', async () => {
+      const creditNote = await service.issueCreditNote('inv_1', request);
+
+      const [refund] = refunds.values();
+      expect(refund).toMatchObject({ creditNoteId: creditNote.id, status: 'succeeded', stripeRefundId: 're_1' });
+      expect(creditNotes.get(creditNote.id)).toMatchObject({ status: 'issued', refundId: refund.id });
+      expect(creditNote.status).toBe('issued');
+      expect(ledger.recordRefund).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves the credit note pending while Stripe has not completed the refund', async () => {
+      stripe.refunds.create.mockResolvedValue({ id: 're_1', status: 'pending' });
+
+      const creditNote = await service.issueCreditNote('inv_1', request);
+
+      expect(creditNote.status).toBe('pending');
+      expect([...refunds.values()][0].status).toBe('pending');
+      expect(ledger.recordRefund).not.toHaveBeenCalled();
+
+      await service.settleRefund(creditNote.refundId!, 'succeeded');
+
+      expect(creditNotes.get(creditNote.id)?.status).toBe('issued');
+      expect(ledger.recordRefund).toHaveBeenCalledTimes(1);
+    });
+
+    it('counts pending credit notes so the invoice cannot be over-credited', async () => {
+      stripe.refunds.create.mockResolvedValue({ id: 're_1', status: 'pending' });
+      await service.issueCreditNote('inv_1', request);
+
+      await expect(service.issueCreditNote('inv_1', request)).rejects.toThrow('at most 2000');
+    });
+
+    it('voids the credit note when the refund fails', async () => {
+      stripe.refunds.create.mockResolvedValue({ id: 're_1', status: 'failed', failure_reason: 'expired_or_canceled_card' });
+
+      await expect(service.issueCreditNote('inv_1', request)).rejects.toThrow('expired_or_canceled_card');
+
+      expect([...creditNotes.values()][0].status).toBe('void');
+      expect([...refunds.values()][0].status).toBe('failed');
+      expect(ledger.recordRefund).not.toHaveBeenCalled();
+    });
+  });
+});
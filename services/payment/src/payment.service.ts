@@ -1,16 +1,21 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, OnModuleInit } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import Stripe from 'stripe';
 import { Decimal } from 'decimal.js';
+import { DatabaseClient } from '@nexus/shared-database';
+import { PaymentRepository } from './persistence/payment.repository';
+import { LedgerService, LedgerTransaction } from './ledger/ledger.service';
+import { BillingClock, addBillingInterval } from './billing/billing-clock';
+import { TaxService, TaxBehavior, InvoiceTax } from './tax/tax.service';
 
 export interface Payment {
   id: string;
   customerId: string;
   amount: number;
   currency: string;
-  status: 'pending' | 'processing' | 'succeeded' | 'failed' | 'canceled' | 'refunded';
+  status: 'pending' | 'processing' | 'succeeded' | 'failed' | 'canceled' | 'refunded' | 'disputed';
   paymentMethod: 'stripe' | 'paypal' | 'bank_transfer' | 'crypto';
   paymentIntentId?: string;
   description: string;
@@ -24,11 +29,15 @@ export interface Subscription {
   id: string;
   customerId: string;
   planId: string;
-  status: 'active' | 'canceled' | 'past_due' | 'unpaid' | 'trialing';
+  status: 'active' | 'canceled' | 'past_due' | 'unpaid' | 'trialing' | 'paused';
   currentPeriodStart: Date;
   currentPeriodEnd: Date;
+  // Start of the first period; monthly and yearly periods are counted from it
+  billingAnchor?: Date;
   trialEnd?: Date;
   cancelAtPeriodEnd: boolean;
+  pausedAt?: Date;
+  resumeAt?: Date;
   stripeSubscriptionId?: string;
   metadata: Record<string, any>;
   createdAt: Date;
@@ -45,14 +54,48 @@ export interface Plan {
   intervalCount: number;
   trialPeriodDays?: number;
   features: string[];
+  // Usage billed in arrears at the end of each period, on top of the flat amount
+  meteredComponents?: MeteredComponent[];
+  // Charged once on an invoice that goes unpaid past its due date
+  lateFee?: LateFee;
+  // Whether the plan's prices include tax; defaults to TAX_DEFAULT_BEHAVIOR
+  taxBehavior?: TaxBehavior;
   isActive: boolean;
   stripePriceId?: string;
   metadata: Record<string, any>;
   createdAt: Date;
 }
 
+export interface MeteredComponent {
+  metric: string;
+  description: string;
+  unitAmount: number;
+  includedUnits?: number;
+}
+
+// A fixed amount, a rate applied to the amount due, or both, optionally capped
+export interface LateFee {
+  amount?: number;
+  rate?: number;
+  maxAmount?: number;
+}
+
+export interface UsageRecord {
+  id: string;
+  subscriptionId: string;
+  metric: string;
+  quantity: number;
+  recordedAt: Date;
+  idempotencyKey?: string;
+  invoiceId?: string;
+}
+
 export interface Invoice {
   id: string;
+  // Sequential number, assigned when the invoice is issued; drafts have none
+  number?: string;
+  // When the invoice was issued; the legal issue date printed on it
+  issuedAt?: Date;
   customerId: string;
   subscriptionId?: string;
   amount: number;
@@ -62,8 +105,14 @@ export interface Invoice {
   paidAt?: Date;
   items: InvoiceItem[];
   taxAmount: number;
+  // Inclusive invoices have the tax inside the item amounts, so it is not added to the total
+  taxBehavior: TaxBehavior;
+  tax?: InvoiceTax;
   discountAmount: number;
   totalAmount: number;
+  // What is left to collect after credit notes and applied customer credit
+  amountDue: number;
+  creditApplied: number;
   stripeInvoiceId?: string;
   pdfUrl?: string;
   createdAt: Date;
@@ -78,6 +127,57 @@ export interface InvoiceItem {
   metadata: Record<string, any>;
 }
 
+export type RefundReason =
+  | 'duplicate'
+  | 'fraudulent'
+  | 'requested_by_customer'
+  | 'service_issue'
+  | 'credit_note'
+  | 'other';
+
+export interface Refund {
+  id: string;
+  paymentId: string;
+  customerId: string;
+  amount: number;
+  currency: string;
+  reason: RefundReason;
+  status: 'pending' | 'succeeded' | 'failed';
+  stripeRefundId?: string;
+  creditNoteId?: string;
+  notes?: string;
+  failureReason?: string;
+  metadata: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreditNoteLine {
+  invoiceItemId: string;
+  description: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface CreditNote {
+  id: string;
+  number?: string;
+  invoiceId: string;
+  customerId: string;
+  amount: number;
+  taxAmount: number;
+  totalAmount: number;
+  currency: string;
+  reason: string;
+  // amount_due lowers what an unpaid invoice still owes; paid invoices go to credit balance or refund
+  outcome: 'amount_due' | 'credit_balance' | 'refund';
+  // Refund credit notes stay pending until their refund settles, and are voided if it fails
+  status: 'pending' | 'issued' | 'void';
+  lines: CreditNoteLine[];
+  refundId?: string;
+  createdAt: Date;
+}
+
 export interface Customer {
   id: string;
   email: string;
@@ -91,6 +191,8 @@ export interface Customer {
     postalCode: string;
     country: string;
   };
+  // VAT/GST registration number; business customers abroad are reverse-charged
+  taxId?: string;
   stripeCustomerId?: string;
   paypalCustomerId?: string;
   defaultPaymentMethod?: string;
@@ -99,25 +201,43 @@ export interface Customer {
   updatedAt: Date;
 }
 
+// Status changes a payment may make; anything else is a stale or out-of-order update
+const PAYMENT_TRANSITIONS: Record<Payment['status'], Payment['status'][]> = {
+  pending: ['processing', 'succeeded', 'failed', 'canceled'],
+  processing: ['succeeded', 'failed', 'canceled'],
+  failed: ['processing', 'succeeded', 'canceled'],
+  succeeded: ['refunded', 'disputed'],
+  disputed: ['succeeded', 'refunded'],
+  refunded: [],
+  canceled: [],
+};
+
+// Stripe only accepts its own reasons; ours are kept in the refund metadata
+const STRIPE_REFUND_REASONS: Partial<Record<RefundReason, Stripe.RefundCreateParams.Reason>> = {
+  duplicate: 'duplicate',
+  fraudulent: 'fraudulent',
+  requested_by_customer: 'requested_by_customer',
+};
+
 @Injectable()
-export class PaymentService {
+export class PaymentService implements OnModuleInit {
   private readonly logger = new Logger(PaymentService.name);
   private stripe: Stripe;
-  
-  // In-memory storage (replace with database in production)
-  private payments = new Map<string, Payment>();
-  private subscriptions = new Map<string, Subscription>();
-  private plans = new Map<string, Plan>();
-  private invoices = new Map<string, Invoice>();
-  private customers = new Map<string, Customer>();
 
   constructor(
     @InjectQueue('payment-processing') private paymentQueue: Queue,
     @InjectQueue('invoice-generation') private invoiceQueue: Queue,
     @InjectQueue('subscription-management') private subscriptionQueue: Queue,
+    private readonly repository: PaymentRepository,
+    private readonly ledger: LedgerService,
+    private readonly clock: BillingClock,
+    private readonly tax: TaxService,
   ) {
     this.initializeStripe();
-    this.initializeDefaultPlans();
+  }
+
+  async onModuleInit() {
+    await this.initializeDefaultPlans();
   }
 
   private initializeStripe(): void {
@@ -135,7 +255,7 @@ export class PaymentService {
     this.logger.log('Stripe client initialized');
   }
 
-  private initializeDefaultPlans(): void {
+  private async initializeDefaultPlans(): Promise<void> {
     const defaultPlans: Plan[] = [
       {
         id: 'basic',
@@ -198,11 +318,14 @@ export class PaymentService {
       },
     ];
 
-    defaultPlans.forEach(plan => {
-      this.plans.set(plan.id, plan);
-    });
+    let created = 0;
+    for (const plan of defaultPlans) {
+      if (await this.repository.insertPlanIfMissing(plan)) {
+        created++;
+      }
+    }
 
-    this.logger.log(`Initialized ${defaultPlans.length} default plans`);
+    this.logger.log(`Initialized ${created} of ${defaultPlans.length} default plans`);
   }
 
   // Customer Management
@@ -211,6 +334,7 @@ export class PaymentService {
     name: string;
     phone?: string;
     address?: Customer['address'];
+    taxId?: string;
     metadata?: Record<string, any>;
   }): Promise<Customer> {
     const customerId = this.generateId();
@@ -238,13 +362,14 @@ export class PaymentService {
       name: customerData.name,
       phone: customerData.phone,
       address: customerData.address,
+      taxId: this.tax.normalizeTaxId(customerData.taxId),
       stripeCustomerId,
       metadata: customerData.metadata || {},
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    this.customers.set(customerId, customer);
+    await this.repository.saveCustomer(customer);
     this.logger.log(`Customer created: ${customerData.email} (${customerId})`);
 
     return customer;
@@ -259,7 +384,7 @@ export class PaymentService {
     description: string;
     metadata?: Record<string, any>;
   }): Promise<Payment> {
-    const customer = this.customers.get(paymentData.customerId);
+    const customer = await this.repository.findCustomer(paymentData.customerId);
     if (!customer) {
       throw new BadRequestException('Customer not found');
     }
@@ -279,7 +404,7 @@ export class PaymentService {
       updatedAt: new Date(),
     };
 
-    this.payments.set(paymentId, payment);
+    await this.repository.savePayment(payment);
 
     // Queue for processing
     await this.paymentQueue.add('process-payment', {
@@ -304,16 +429,15 @@ export class PaymentService {
       throw new Error('Stripe not configured');
     }
 
-    const payment = this.payments.get(paymentId);
-    const customer = this.customers.get(customerId);
+    const payment = await this.repository.findPayment(paymentId);
+    const customer = await this.repository.findCustomer(customerId);
 
     if (!payment || !customer) {
       throw new Error('Payment or customer not found');
     }
 
     try {
-      payment.status = 'processing';
-      this.payments.set(paymentId, payment);
+      await this.updatePaymentStatus(paymentId, 'processing');
 
       // Create payment intent
       const paymentIntent = await this.stripe.paymentIntents.create({
@@ -327,25 +451,161 @@ export class PaymentService {
         },
       });
 
-      payment.paymentIntentId = paymentIntent.id;
-      payment.status = paymentIntent.status === 'succeeded' ? 'succeeded' : 'processing';
-      payment.updatedAt = new Date();
-      
-      this.payments.set(paymentId, payment);
+      await this.updatePaymentStatus(
+        paymentId,
+        paymentIntent.status === 'succeeded' ? 'succeeded' : 'processing',
+        { paymentIntentId: paymentIntent.id },
+      );
+
+      // payment_intent.succeeded records the fee as well, so a failure here must not fail the payment
+      if (paymentIntent.status === 'succeeded') {
+        await this.recordStripeFee(paymentId, paymentIntent).catch((error) => {
+          this.logger.warn(`Could not record Stripe fee for payment ${paymentId}: ${error.message}`);
+        });
+      }
 
       this.logger.log(`Stripe payment processed: ${paymentId} (${paymentIntent.id})`);
 
     } catch (error) {
-      payment.status = 'failed';
-      payment.failureReason = error.message;
-      payment.updatedAt = new Date();
-      this.payments.set(paymentId, payment);
+      await this.updatePaymentStatus(paymentId, 'failed', { failureReason: error.message });
 
       this.logger.error(`Stripe payment failed: ${paymentId}`, error);
       throw error;
     }
   }
 
+  /**
+   * Moves a payment to a new status under a row lock, so the API call and
+   * Stripe webhooks can race safely. Transitions not allowed from the current
+   * status are ignored, and the ledger charge is posted with the status change
+   * the first time a payment succeeds.
+   */
+  async updatePaymentStatus(
+    paymentId: string,
+    status: Payment['status'],
+    changes: { paymentIntentId?: string; failureReason?: string } = {},
+  ): Promise<Payment | undefined> {
+    return this.repository.transaction(async (client) => {
+      const payment = await this.repository.findPayment(paymentId, client, { forUpdate: true });
+      if (!payment) {
+        return undefined;
+      }
+
+      if (changes.paymentIntentId) {
+        payment.paymentIntentId = changes.paymentIntentId;
+      }
+
+      const previousStatus = payment.status;
+      if (status !== previousStatus && !PAYMENT_TRANSITIONS[previousStatus].includes(status)) {
+        this.logger.debug(`Ignoring payment ${paymentId} transition ${previousStatus} -> ${status}`);
+        await this.repository.savePayment(payment, client);
+        return payment;
+      }
+
+      payment.status = status;
+      payment.failureReason = status === 'failed' ? changes.failureReason : undefined;
+      payment.updatedAt = new Date();
+      await this.repository.savePayment(payment, client);
+
+      if (status === 'succeeded' && previousStatus !== 'succeeded' && previousStatus !== 'disputed') {
+        await this.ledger.recordCharge({
+          paymentId: payment.id,
+          customerId: payment.customerId,
+          amount: payment.amount,
+          currency: payment.currency,
+          description: payment.description,
+        }, client);
+      }
+
+      return payment;
+    });
+  }
+
+  /**
+   * Ends a dispute decided in our favour: the payment goes back to 'refunded'
+   * when succeeded refunds already return all of it, and to 'succeeded'
+   * otherwise. Refunds are refused while disputed, so any that settled during
+   * the dispute were made before it.
+   */
+  async restoreDisputedPayment(paymentId: string): Promise<Payment | undefined> {
+    return this.repository.transaction(async (client) => {
+      const payment = await this.repository.findPayment(paymentId, client, { forUpdate: true });
+      if (!payment || payment.status !== 'disputed') {
+        return payment;
+      }
+
+      const refunds = await this.repository.findRefunds({ paymentId }, client);
+      const refunded = Decimal.sum(0, ...refunds.filter(refund => refund.status === 'succeeded').map(refund => refund.amount));
+
+      payment.status = refunded.gte(payment.amount) ? 'refunded' : 'succeeded';
+      payment.updatedAt = new Date();
+      await this.repository.savePayment(payment, client);
+      return payment;
+    });
+  }
+
+  /**
+   * Posts the processing fee Stripe withheld from a succeeded payment intent's
+   * charge. Both the API call and the webhook report it; see recordProcessingFee.
+   */
+  async recordStripeFee(paymentId: string, paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    const chargeId = typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id;
+    if (!this.stripe || !chargeId) {
+      return;
+    }
+
+    const charge = await this.stripe.charges.retrieve(chargeId, { expand: ['balance_transaction'] });
+    const balanceTransaction = charge.balance_transaction;
+    if (!balanceTransaction || typeof balanceTransaction === 'string') {
+      this.logger.debug(`Charge ${chargeId} has no balance transaction yet; fee not recorded`);
+      return;
+    }
+
+    await this.recordProcessingFee(paymentId, {
+      amount: balanceTransaction.fee,
+      currency: balanceTransaction.currency,
+      balanceTransactionId: balanceTransaction.id,
+      description: `Stripe fee for charge ${chargeId}`,
+    });
+  }
+
+  /**
+   * Posts a processor fee against a payment once per balance transaction.
+   * The payment row is locked so concurrent reports of the same fee cannot
+   * both post it.
+   */
+  async recordProcessingFee(
+    paymentId: string,
+    fee: { amount: number; currency: string; balanceTransactionId: string; description?: string; metadata?: Record<string, any> },
+  ): Promise<void> {
+    if (fee.amount <= 0) {
+      return;
+    }
+
+    await this.repository.transaction(async (client) => {
+      const payment = await this.repository.findPayment(paymentId, client, { forUpdate: true });
+      if (!payment) {
+        return;
+      }
+
+      const transactions = await this.ledger.getTransactions('payment', payment.id);
+      if (transactions.some((transaction) => transaction.metadata.balanceTransactionId === fee.balanceTransactionId)) {
+        return;
+      }
+
+      await this.ledger.recordFee({
+        paymentId: payment.id,
+        customerId: payment.customerId,
+        amount: fee.amount,
+        currency: fee.currency,
+        description: fee.description,
+        metadata: { ...fee.metadata, balanceTransactionId: fee.balanceTransactionId },
+      }, client);
+    });
+  }
+
   // Subscription Management
   async createSubscription(subscriptionData: {
     customerId: string;
@@ -353,32 +613,16 @@ export class PaymentService {
     trialEnd?: Date;
     metadata?: Record<string, any>;
   }): Promise<Subscription> {
-    const customer = this.customers.get(subscriptionData.customerId);
-    const plan = this.plans.get(subscriptionData.planId);
+    const customer = await this.repository.findCustomer(subscriptionData.customerId);
+    const plan = await this.repository.findPlan(subscriptionData.planId);
 
     if (!customer || !plan) {
       throw new BadRequestException('Customer or plan not found');
     }
 
     const subscriptionId = this.generateId();
-    const now = new Date();
-    const periodEnd = new Date(now);
-    
-    // Calculate period end based on plan interval
-    switch (plan.interval) {
-      case 'day':
-        periodEnd.setDate(periodEnd.getDate() + plan.intervalCount);
-        break;
-      case 'week':
-        periodEnd.setDate(periodEnd.getDate() + (plan.intervalCount * 7));
-        break;
-      case 'month':
-        periodEnd.setMonth(periodEnd.getMonth() + plan.intervalCount);
-        break;
-      case 'year':
-        periodEnd.setFullYear(periodEnd.getFullYear() + plan.intervalCount);
-        break;
-    }
+    const now = this.clock.now();
+    const periodEnd = addBillingInterval(now, plan);
 
     let stripeSubscriptionId: string | undefined;
 
@@ -403,22 +647,23 @@ export class PaymentService {
       status: subscriptionData.trialEnd ? 'trialing' : 'active',
       currentPeriodStart: now,
       currentPeriodEnd: periodEnd,
+      billingAnchor: now,
       trialEnd: subscriptionData.trialEnd,
       cancelAtPeriodEnd: false,
       stripeSubscriptionId,
       metadata: subscriptionData.metadata || {},
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt: now,
+      updatedAt: now,
     };
 
-    this.subscriptions.set(subscriptionId, subscription);
+    await this.repository.saveSubscription(subscription);
     this.logger.log(`Subscription created: ${subscriptionId} for plan ${subscriptionData.planId}`);
 
     return subscription;
   }
 
   async cancelSubscription(subscriptionId: string, cancelAtPeriodEnd: boolean = true): Promise<Subscription> {
-    const subscription = this.subscriptions.get(subscriptionId);
+    const subscription = await this.repository.findSubscription(subscriptionId);
     if (!subscription) {
       throw new BadRequestException('Subscription not found');
     }
@@ -430,8 +675,8 @@ export class PaymentService {
       subscription.status = 'canceled';
     }
 
-    subscription.updatedAt = new Date();
-    this.subscriptions.set(subscriptionId, subscription);
+    subscription.updatedAt = this.clock.now();
+    await this.repository.saveSubscription(subscription);
 
     // Cancel in Stripe if applicable
     if (this.stripe && subscription.stripeSubscriptionId) {
@@ -449,15 +694,25 @@ export class PaymentService {
   }
 
   // Invoice Management
+  /**
+   * Creates an invoice, works out its tax from the customer's address (or
+   * the given taxRate) and applies any customer credit to it. Open invoices
+   * are numbered straight away; drafts get their number from finalizeInvoice.
+   * Callers that pass their own transaction client queue the PDF themselves
+   * with queueInvoicePdf once that transaction has committed.
+   */
   async generateInvoice(invoiceData: {
     customerId: string;
     subscriptionId?: string;
     items: Omit<InvoiceItem, 'id' | 'totalAmount'>[];
     dueDate: Date;
     taxRate?: number;
+    taxBehavior?: TaxBehavior;
     discountAmount?: number;
-  }): Promise<Invoice> {
-    const customer = this.customers.get(invoiceData.customerId);
+    currency?: string;
+    status?: 'draft' | 'open';
+  }, client?: DatabaseClient): Promise<Invoice> {
+    const customer = await this.repository.findCustomer(invoiceData.customerId, client);
     if (!customer) {
       throw new BadRequestException('Customer not found');
     }
@@ -471,50 +726,443 @@ export class PaymentService {
       totalAmount: new Decimal(item.quantity).mul(item.unitAmount).toNumber(),
     }));
 
-    const subtotal = items.reduce((sum, item) => sum + item.totalAmount, 0);
-    const taxAmount = new Decimal(subtotal).mul(invoiceData.taxRate || 0).toNumber();
+    const subtotal = Decimal.sum(0, ...items.map(item => item.totalAmount)).toNumber();
     const discountAmount = invoiceData.discountAmount || 0;
-    const totalAmount = subtotal + taxAmount - discountAmount;
+    const { tax, taxAmount, totalAmount } = await this.tax.calculate(
+      customer,
+      { subtotal, discountAmount },
+      { behavior: invoiceData.taxBehavior, rate: invoiceData.taxRate },
+      client,
+    );
 
     const invoice: Invoice = {
       id: invoiceId,
       customerId: invoiceData.customerId,
       subscriptionId: invoiceData.subscriptionId,
       amount: subtotal,
-      currency: 'usd', // Default currency
-      status: 'draft',
+      currency: invoiceData.currency || 'usd',
+      status: invoiceData.status || 'draft',
       dueDate: invoiceData.dueDate,
       items,
       taxAmount,
+      taxBehavior: tax.behavior,
+      tax,
       discountAmount,
       totalAmount,
-      createdAt: new Date(),
+      amountDue: totalAmount,
+      creditApplied: 0,
+      createdAt: this.clock.now(),
     };
 
-    this.invoices.set(invoiceId, invoice);
+    // Drafts spend no credit and post nothing to the ledger until they are finalized
+    const save = async (txClient: DatabaseClient) => {
+      if (invoice.status !== 'draft') {
+        // Lock the customer so concurrent invoices cannot spend the same credit
+        await this.repository.findCustomer(invoice.customerId, txClient, { forUpdate: true });
+        await this.applyCustomerCredit(invoice, txClient);
+        invoice.number = await this.nextDocumentNumber('invoice', txClient);
+        invoice.issuedAt = invoice.createdAt;
+      }
+      await this.repository.saveInvoice(invoice, txClient);
+    };
 
-    // Queue for PDF generation
-    await this.invoiceQueue.add('generate-invoice-pdf', {
-      invoiceId,
-      customerId: invoiceData.customerId,
-    });
+    if (client) {
+      await save(client);
+    } else {
+      await this.repository.transaction(save);
+      await this.queueInvoicePdf(invoice);
+    }
 
     this.logger.log(`Invoice generated: ${invoiceId} for customer ${invoiceData.customerId}`);
     return invoice;
   }
 
+  /**
+   * Issues a draft: the customer's credit is applied, it gets the next
+   * invoice number and its PDF is produced.
+   */
+  async finalizeInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.repository.transaction(async (client) => {
+      const draft = await this.repository.findInvoice(invoiceId, client);
+      if (!draft) {
+        throw new BadRequestException('Invoice not found');
+      }
+
+      // Customer before invoice, the same lock order as generateInvoice
+      await this.repository.findCustomer(draft.customerId, client, { forUpdate: true });
+      const locked = await this.repository.findInvoice(invoiceId, client, { forUpdate: true });
+      if (!locked || locked.status !== 'draft') {
+        throw new BadRequestException(`A ${locked?.status} invoice is already issued`);
+      }
+
+      locked.status = 'open';
+      await this.applyCustomerCredit(locked, client);
+      if (locked.amountDue === 0) {
+        locked.status = 'paid';
+        locked.paidAt = this.clock.now();
+      }
+      locked.number = await this.nextDocumentNumber('invoice', client);
+      locked.issuedAt = this.clock.now();
+      await this.repository.saveInvoice(locked, client);
+      return locked;
+    });
+
+    await this.queueInvoicePdf(invoice);
+    this.logger.log(`Invoice ${invoice.id} finalized as ${invoice.number}`);
+    return invoice;
+  }
+
+  // Drafts have no number yet, so their PDF waits for finalizeInvoice
+  async queueInvoicePdf(invoice: Invoice): Promise<void> {
+    if (invoice.status === 'draft') {
+      return;
+    }
+
+    await this.invoiceQueue.add('generate-invoice-pdf', {
+      invoiceId: invoice.id,
+      customerId: invoice.customerId,
+    });
+  }
+
+  // Spends the customer's credit balance on a new invoice, settling it outright if the credit covers it
+  private async applyCustomerCredit(invoice: Invoice, client: DatabaseClient): Promise<void> {
+    const credit = await this.ledger.getCustomerCredit(invoice.customerId, invoice.currency, client);
+    const applied = Decimal.min(credit, invoice.amountDue);
+    if (applied.lte(0)) {
+      return;
+    }
+
+    invoice.creditApplied = applied.toNumber();
+    invoice.amountDue = new Decimal(invoice.amountDue).minus(applied).toNumber();
+    if (invoice.amountDue === 0) {
+      invoice.status = 'paid';
+      invoice.paidAt = this.clock.now();
+    }
+
+    await this.ledger.recordCreditApplied({
+      customerId: invoice.customerId,
+      invoiceId: invoice.id,
+      amount: applied,
+      currency: invoice.currency,
+    }, client);
+
+    this.logger.log(`Applied ${invoice.creditApplied} ${invoice.currency} customer credit to invoice ${invoice.id}`);
+  }
+
+  // Refunds
+  /**
+   * Refunds all or part of a succeeded payment, through Stripe when the
+   * payment went through Stripe. Omitting the amount refunds whatever has not
+   * been refunded yet; the payment becomes 'refunded' once nothing is left.
+   * A refund Stripe has not completed yet is returned as pending and settled
+   * by the refund webhooks.
+   */
+  async refundPayment(paymentId: string, refundData: {
+    amount?: number;
+    reason: RefundReason;
+    notes?: string;
+    metadata?: Record<string, any>;
+  }): Promise<Refund> {
+    const refund = await this.repository.transaction((client) => this.reserveRefund(paymentId, refundData, client));
+    return this.executeRefund(refund);
+  }
+
+  /**
+   * Moves a pending refund to its final status, once. Success posts the
+   * ledger refund and marks the payment refunded when nothing is left; a
+   * credit note paid out by the refund is issued on success and voided on
+   * failure.
+   */
+  async settleRefund(refundId: string, status: 'succeeded' | 'failed', failureReason?: string): Promise<Refund | undefined> {
+    return this.repository.transaction(async (client) => {
+      const current = await this.repository.findRefund(refundId, client);
+      if (!current) {
+        return undefined;
+      }
+
+      // Read again under the payment lock, so the API call and the webhook settle it once
+      const payment = await this.repository.findPayment(current.paymentId, client, { forUpdate: true });
+      const refund = await this.repository.findRefund(refundId, client);
+      if (!refund || refund.status !== 'pending') {
+        return refund;
+      }
+
+      refund.status = status;
+      refund.failureReason = status === 'failed' ? failureReason : undefined;
+      refund.updatedAt = new Date();
+      await this.repository.saveRefund(refund, client);
+
+      if (status === 'succeeded') {
+        await this.ledger.recordRefund({
+          paymentId: refund.paymentId,
+          customerId: refund.customerId,
+          amount: refund.amount,
+          currency: refund.currency,
+          description: `Refund (${refund.reason})`,
+          metadata: { refundId: refund.id },
+        }, client);
+
+        if (payment && payment.status === 'succeeded' && (await this.getRefundableAmount(payment, client)) === 0) {
+          payment.status = 'refunded';
+          payment.updatedAt = new Date();
+          await this.repository.savePayment(payment, client);
+        }
+      }
+
+      if (refund.creditNoteId) {
+        const creditNote = await this.repository.findCreditNote(refund.creditNoteId, client);
+        if (creditNote && creditNote.status === 'pending') {
+          creditNote.status = status === 'succeeded' ? 'issued' : 'void';
+          await this.repository.saveCreditNote(creditNote, client);
+        }
+      }
+
+      this.logger.log(`Refund ${refund.id} ${status}: ${refund.amount} ${refund.currency} on payment ${refund.paymentId}`);
+      return refund;
+    });
+  }
+
+  // Records a pending refund under the payment's row lock, so concurrent refunds cannot exceed what was paid
+  private async reserveRefund(
+    paymentId: string,
+    refundData: { amount?: number; reason: RefundReason; notes?: string; creditNoteId?: string; metadata?: Record<string, any> },
+    client: DatabaseClient,
+  ): Promise<Refund> {
+    const payment = await this.repository.findPayment(paymentId, client, { forUpdate: true });
+    if (!payment) {
+      throw new BadRequestException('Payment not found');
+    }
+    if (payment.status !== 'succeeded') {
+      throw new BadRequestException(`A ${payment.status} payment cannot be refunded`);
+    }
+    if (payment.paymentMethod === 'stripe' && payment.paymentIntentId && !this.stripe) {
+      throw new BadRequestException('Stripe not configured');
+    }
+
+    const refundable = await this.getRefundableAmount(payment, client);
+    const amount = refundData.amount ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      throw new BadRequestException(`Refund amount must be greater than 0 and at most ${refundable}`);
+    }
+
+    const pending: Refund = {
+      id: this.generateId(),
+      paymentId,
+      customerId: payment.customerId,
+      amount,
+      currency: payment.currency,
+      reason: refundData.reason,
+      status: 'pending',
+      creditNoteId: refundData.creditNoteId,
+      notes: refundData.notes,
+      metadata: refundData.metadata || {},
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await this.repository.saveRefund(pending, client);
+    return pending;
+  }
+
+  // Sends a reserved refund to Stripe and settles it if Stripe has already completed it
+  private async executeRefund(refund: Refund): Promise<Refund> {
+    const payment = await this.repository.findPayment(refund.paymentId);
+    if (payment?.paymentMethod !== 'stripe' || !payment.paymentIntentId) {
+      return (await this.settleRefund(refund.id, 'succeeded')) || refund;
+    }
+
+    let stripeRefund: Stripe.Refund;
+    try {
+      stripeRefund = await this.stripe.refunds.create({
+        payment_intent: payment.paymentIntentId,
+        amount: refund.amount,
+        reason: STRIPE_REFUND_REASONS[refund.reason],
+        metadata: {
+          refundId: refund.id,
+          paymentId: refund.paymentId,
+          reason: refund.reason,
+        },
+      }, { idempotencyKey: `refund_${refund.id}` });
+    } catch (error) {
+      await this.settleRefund(refund.id, 'failed', error.message);
+      this.logger.error(`Refund failed: ${refund.id} for payment ${refund.paymentId}`, error);
+      throw error;
+    }
+
+    // Only the Stripe id is written here; the refund webhook may already have settled the refund
+    refund.stripeRefundId = stripeRefund.id;
+    await this.repository.setStripeRefundId(refund.id, stripeRefund.id);
+
+    if (stripeRefund.status === 'failed' || stripeRefund.status === 'canceled') {
+      const reason = stripeRefund.failure_reason || `Stripe refund ${stripeRefund.status}`;
+      await this.settleRefund(refund.id, 'failed', reason);
+      throw new BadRequestException(`Refund failed: ${reason}`);
+    }
+
+    if (stripeRefund.status !== 'succeeded') {
+      this.logger.log(`Refund ${refund.id} is ${stripeRefund.status} at Stripe; the refund webhook will settle it`);
+      return refund;
+    }
+
+    return (await this.settleRefund(refund.id, 'succeeded')) || refund;
+  }
+
+  // Pending refunds count against the payment so two requests cannot both refund the same money
+  private async getRefundableAmount(payment: Payment, client?: DatabaseClient): Promise<number> {
+    const refunds = await this.repository.findRefunds({ paymentId: payment.id }, client);
+    const refunded = Decimal.sum(0, ...refunds.filter(refund => refund.status !== 'failed').map(refund => refund.amount));
+    return Decimal.max(0, new Decimal(payment.amount).minus(refunded)).toNumber();
+  }
+
+  // Credit Notes
+  /**
+   * Credits invoice lines, by quantity or by amount, with tax credited at the
+   * invoice's own rate. An unpaid invoice has its amount due lowered. A paid
+   * invoice is credited to the customer's balance, which the next invoice
+   * uses automatically, or refunded against the given payment.
+   */
+  async issueCreditNote(invoiceId: string, creditData: {
+    lines: Array<{ invoiceItemId: string; quantity?: number; amount?: number }>;
+    reason: string;
+    outcome?: 'credit_balance' | 'refund';
+    paymentId?: string;
+  }): Promise<CreditNote> {
+    const reserved = await this.repository.transaction(async (client) => {
+      const locked = await this.repository.findInvoice(invoiceId, client, { forUpdate: true });
+      if (!locked) {
+        throw new BadRequestException('Invoice not found');
+      }
+
+      const creditNote = this.buildCreditNote(locked, await this.repository.findCreditNotes(invoiceId, client), creditData);
+      creditNote.number = await this.nextDocumentNumber('credit_note', client);
+
+      if (creditNote.outcome === 'refund') {
+        if (!creditData.paymentId) {
+          throw new BadRequestException('A payment is required to refund a credit note');
+        }
+        const payment = await this.repository.findPayment(creditData.paymentId, client);
+        if (!payment || payment.customerId !== locked.customerId) {
+          throw new BadRequestException('Payment not found for this customer');
+        }
+
+        // Saved as pending before any money moves: it counts against the invoice
+        // straight away, and the refund only ever points at a stored credit note
+        creditNote.status = 'pending';
+        await this.repository.saveCreditNote(creditNote, client);
+
+        const refund = await this.reserveRefund(creditData.paymentId, {
+          amount: creditNote.totalAmount,
+          reason: 'credit_note',
+          notes: creditData.reason,
+          creditNoteId: creditNote.id,
+        }, client);
+        creditNote.refundId = refund.id;
+        await this.repository.saveCreditNote(creditNote, client);
+
+        return { creditNote, refund };
+      }
+
+      if (creditNote.outcome === 'amount_due') {
+        if (creditNote.totalAmount > locked.amountDue) {
+          throw new BadRequestException(`Credit exceeds the ${locked.amountDue} still due on the invoice`);
+        }
+
+        locked.amountDue = new Decimal(locked.amountDue).minus(creditNote.totalAmount).toNumber();
+        if (locked.amountDue === 0) {
+          locked.status = 'paid';
+          locked.paidAt = new Date();
+        }
+        await this.repository.saveInvoice(locked, client);
+      } else {
+        await this.ledger.recordCredit({
+          customerId: locked.customerId,
+          amount: creditNote.totalAmount,
+          currency: creditNote.currency,
+          description: `Credit note ${creditNote.id}: ${creditNote.reason}`,
+          invoiceId,
+        }, client);
+      }
+
+      await this.repository.saveCreditNote(creditNote, client);
+      return { creditNote };
+    });
+
+    const { creditNote, refund } = reserved;
+    if (refund) {
+      // A failed refund voids the credit note and throws; a pending one leaves it pending
+      const settled = await this.executeRefund(refund);
+      creditNote.status = settled.status === 'succeeded' ? 'issued' : 'pending';
+    }
+
+    this.logger.log(`Credit note ${creditNote.id} (${creditNote.status}) for ${creditNote.totalAmount} on invoice ${invoiceId} (${creditNote.outcome})`);
+    return creditNote;
+  }
+
+  private buildCreditNote(
+    invoice: Invoice,
+    previous: CreditNote[],
+    creditData: { lines: Array<{ invoiceItemId: string; quantity?: number; amount?: number }>; reason: string; outcome?: string },
+  ): CreditNote {
+    if (invoice.status === 'void' || invoice.status === 'uncollectible') {
+      throw new BadRequestException(`A ${invoice.status} invoice cannot be credited`);
+    }
+    if (!creditData.lines.length) {
+      throw new BadRequestException('A credit note needs at least one line');
+    }
+
+    // What earlier credit notes already took off each item; pending refunds count until they fail
+    const credited = new Map<string, Decimal>();
+    for (const line of previous.filter(note => note.status !== 'void').flatMap(note => note.lines)) {
+      credited.set(line.invoiceItemId, (credited.get(line.invoiceItemId) || new Decimal(0)).plus(line.amount));
+    }
+
+    const lines: CreditNoteLine[] = creditData.lines.map(line => {
+      const item = invoice.items.find(candidate => candidate.id === line.invoiceItemId);
+      if (!item) {
+        throw new BadRequestException(`Invoice item ${line.invoiceItemId} not found`);
+      }
+
+      const quantity = line.quantity ?? item.quantity;
+      const amount = new Decimal(line.amount ?? new Decimal(quantity).mul(item.unitAmount));
+      const remaining = new Decimal(item.totalAmount).minus(credited.get(item.id) || 0);
+      if (amount.lte(0) || amount.gt(remaining)) {
+        throw new BadRequestException(`Credit for item ${item.id} must be greater than 0 and at most ${remaining.toNumber()}`);
+      }
+      credited.set(item.id, (credited.get(item.id) || new Decimal(0)).plus(amount));
+
+      return { invoiceItemId: item.id, description: item.description, quantity, amount: amount.toNumber() };
+    });
+
+    const lineTotal = Decimal.sum(0, ...lines.map(line => line.amount));
+    const taxAmount = invoice.amount > 0
+      ? lineTotal.mul(invoice.taxAmount).div(invoice.amount).toDecimalPlaces(0, Decimal.ROUND_HALF_UP)
+      : new Decimal(0);
+    // Inclusive line amounts already contain their share of the tax
+    const inclusive = invoice.taxBehavior === 'inclusive';
+
+    return {
+      id: this.generateId(),
+      invoiceId: invoice.id,
+      customerId: invoice.customerId,
+      amount: (inclusive ? lineTotal.minus(taxAmount) : lineTotal).toNumber(),
+      taxAmount: taxAmount.toNumber(),
+      totalAmount: (inclusive ? lineTotal : lineTotal.plus(taxAmount)).toNumber(),
+      currency: invoice.currency,
+      reason: creditData.reason,
+      outcome: invoice.status === 'paid' ? (creditData.outcome === 'refund' ? 'refund' : 'credit_balance') : 'amount_due',
+      status: 'issued',
+      lines,
+      createdAt: new Date(),
+    };
+  }
+
   // Scheduled Tasks
   @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
   async processSubscriptionRenewals(): Promise<void> {
     this.logger.debug('Processing subscription renewals');
 
-    const now = new Date();
-    const subscriptionsToRenew = Array.from(this.subscriptions.values())
-      .filter(sub => 
-        sub.status === 'active' && 
-        sub.currentPeriodEnd <= now &&
-        !sub.cancelAtPeriodEnd
-      );
+    // Period ends, trial ends and scheduled resumes; SubscriptionBillingService decides which applies
+    const subscriptionsToRenew = await this.repository.findDueSubscriptions(this.clock.now());
 
     for (const subscription of subscriptionsToRenew) {
       await this.subscriptionQueue.add('renew-subscription', {
@@ -525,29 +1173,6 @@ export class PaymentService {
     this.logger.log(`Queued ${subscriptionsToRenew.length} subscriptions for renewal`);
   }
 
-  @Cron(CronExpression.EVERY_DAY_AT_1AM)
-  async processOverdueInvoices(): Promise<void> {
-    this.logger.debug('Processing overdue invoices');
-
-    const now = new Date();
-    const overdueInvoices = Array.from(this.invoices.values())
-      .filter(invoice => 
-        invoice.status === 'open' && 
-        invoice.dueDate < now
-      );
-
-    for (const invoice of overdueInvoices) {
-      // Send overdue notice
-      this.logger.warn(`Invoice overdue: ${invoice.id}`);
-      
-      // In a real implementation, you would:
-      // 1. Send overdue notification
-      // 2. Apply late fees
-      // 3. Suspend services if needed
-      // 4. Start collection process
-    }
-  }
-
   // Analytics and Reporting
   async getPaymentAnalytics(period: 'day' | 'week' | 'month' | 'year' = 'month'): Promise<{
     totalRevenue: number;
@@ -556,10 +1181,15 @@ export class PaymentService {
     successRate: number;
     topPaymentMethods: Array<{ method: string; count: number; revenue: number }>;
     revenueByDay: Array<{ date: string; revenue: number }>;
+    totalRefunded: number;
+    netRevenue: number;
+    refundsByReason: Array<{ reason: RefundReason; count: number; amount: number }>;
   }> {
-    const payments = Array.from(this.payments.values());
-    const successfulPayments = payments.filter(p => p.status === 'succeeded');
-    
+    const since = this.getPeriodStart(period);
+    const payments = await this.repository.findPayments({ since });
+    // Refunded payments were still collected; refunds are reported separately below
+    const successfulPayments = payments.filter(p => p.status === 'succeeded' || p.status === 'refunded');
+
     const totalRevenue = successfulPayments.reduce((sum, p) => sum + p.amount, 0);
     const totalTransactions = payments.length;
     const averageTransactionValue = totalRevenue / (successfulPayments.length || 1);
@@ -581,6 +1211,21 @@ export class PaymentService {
     // Revenue by day (mock data for now)
     const revenueByDay = this.generateRevenueByDay(period);
 
+    const refunds = await this.repository.findRefunds({ status: 'succeeded', since });
+    const totalRefunded = refunds.reduce((sum, refund) => sum + refund.amount, 0);
+
+    const reasonStats = new Map<RefundReason, { count: number; amount: number }>();
+    refunds.forEach(refund => {
+      const existing = reasonStats.get(refund.reason) || { count: 0, amount: 0 };
+      existing.count++;
+      existing.amount += refund.amount;
+      reasonStats.set(refund.reason, existing);
+    });
+
+    const refundsByReason = Array.from(reasonStats.entries())
+      .map(([reason, stats]) => ({ reason, ...stats }))
+      .sort((a, b) => b.amount - a.amount);
+
     return {
       totalRevenue,
       totalTransactions,
@@ -588,9 +1233,31 @@ export class PaymentService {
       successRate,
       topPaymentMethods,
       revenueByDay,
+      totalRefunded,
+      netRevenue: totalRevenue - totalRefunded,
+      refundsByReason,
     };
   }
 
+  private getPeriodStart(period: 'day' | 'week' | 'month' | 'year'): Date {
+    const start = new Date();
+    switch (period) {
+      case 'day':
+        start.setDate(start.getDate() - 1);
+        break;
+      case 'week':
+        start.setDate(start.getDate() - 7);
+        break;
+      case 'month':
+        start.setMonth(start.getMonth() - 1);
+        break;
+      case 'year':
+        start.setFullYear(start.getFullYear() - 1);
+        break;
+    }
+    return start;
+  }
+
   private generateRevenueByDay(period: string): Array<{ date: string; revenue: number }> {
     const days = period === 'week' ? 7 : period === 'month' ? 30 : 365;
     const data = [];
@@ -609,46 +1276,71 @@ export class PaymentService {
   }
 
   // Helper methods
+  // e.g. INV-2026-000042; the prefixes are configurable per legal entity
+  private async nextDocumentNumber(series: 'invoice' | 'credit_note', client: DatabaseClient): Promise<string> {
+    const prefix = series === 'invoice'
+      ? process.env.INVOICE_NUMBER_PREFIX || 'INV'
+      : process.env.CREDIT_NOTE_NUMBER_PREFIX || 'CN';
+    const year = this.clock.now().getFullYear();
+    const value = await this.repository.nextDocumentNumber(series, year, client);
+
+    return `${prefix}-${year}-${String(value).padStart(6, '0')}`;
+  }
+
   private generateId(): string {
     return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   // Public API methods
   async getPayment(paymentId: string): Promise<Payment | undefined> {
-    return this.payments.get(paymentId);
+    return this.repository.findPayment(paymentId);
   }
 
   async getSubscription(subscriptionId: string): Promise<Subscription | undefined> {
-    return this.subscriptions.get(subscriptionId);
+    return this.repository.findSubscription(subscriptionId);
   }
 
   async getCustomer(customerId: string): Promise<Customer | undefined> {
-    return this.customers.get(customerId);
+    return this.repository.findCustomer(customerId);
   }
 
   async getInvoice(invoiceId: string): Promise<Invoice | undefined> {
-    return this.invoices.get(invoiceId);
+    return this.repository.findInvoice(invoiceId);
   }
 
   async getAllPlans(): Promise<Plan[]> {
-    return Array.from(this.plans.values()).filter(plan => plan.isActive);
+    return this.repository.findActivePlans();
   }
 
   async getCustomerPayments(customerId: string): Promise<Payment[]> {
-    return Array.from(this.payments.values())
-      .filter(payment => payment.customerId === customerId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return this.repository.findPayments({ customerId });
   }
 
   async getCustomerSubscriptions(customerId: string): Promise<Subscription[]> {
-    return Array.from(this.subscriptions.values())
-      .filter(subscription => subscription.customerId === customerId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return this.repository.findSubscriptions({ customerId });
   }
 
   async getCustomerInvoices(customerId: string): Promise<Invoice[]> {
-    return Array.from(this.invoices.values())
-      .filter(invoice => invoice.customerId === customerId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return this.repository.findInvoices({ customerId });
+  }
+
+  async getCustomerCredit(customerId: string, currency: string = 'usd'): Promise<number> {
+    return (await this.ledger.getCustomerCredit(customerId, currency)).toNumber();
+  }
+
+  async getPaymentRefunds(paymentId: string): Promise<Refund[]> {
+    return this.repository.findRefunds({ paymentId });
+  }
+
+  async getInvoiceCreditNotes(invoiceId: string): Promise<CreditNote[]> {
+    return this.repository.findCreditNotes(invoiceId);
+  }
+
+  async getPaymentLedger(paymentId: string): Promise<LedgerTransaction[]> {
+    return this.ledger.getTransactions('payment', paymentId);
+  }
+
+  async verifyLedger(): Promise<{ balanced: boolean; unbalancedTransactions: string[]; trialBalance: Record<string, string> }> {
+    return this.ledger.verify();
   }
 }
@@ -0,0 +1,753 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  DatabaseClient,
+  executeQuery,
+  executeTransaction,
+  initializePostgreSQL,
+} from '@nexus/shared-database';
+import type {
+  CreditNote,
+  Customer,
+  Invoice,
+  Payment,
+  Plan,
+  Refund,
+  Subscription,
+  UsageRecord,
+} from '../payment.service';
+
+const SCHEMA = 'nexus_billing';
+
+/**
+ * Runs a query on the given transaction client, or on the shared pool when
+ * the caller is not inside a transaction
+ */
+export async function runQuery<T = any>(text: string, params: any[], client?: DatabaseClient): Promise<T[]> {
+  const result = client ? await client.query(text, params) : await executeQuery(text, params);
+  return result.rows as T[];
+}
+
+@Injectable()
+export class PaymentRepository implements OnModuleInit {
+  private readonly logger = new Logger(PaymentRepository.name);
+
+  async onModuleInit() {
+    await initializePostgreSQL();
+    this.logger.log('Connected to PostgreSQL for billing data');
+  }
+
+  transaction<T>(callback: (client: DatabaseClient) => Promise<T>): Promise<T> {
+    return executeTransaction(callback);
+  }
+
+  // Customers
+  async saveCustomer(customer: Customer, client?: DatabaseClient): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.customers
+         (id, email, name, phone, address, stripe_customer_id, paypal_customer_id,
+          default_payment_method, metadata, created_at, updated_at, tax_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (id) DO UPDATE SET
+         email = EXCLUDED.email,
+         name = EXCLUDED.name,
+         phone = EXCLUDED.phone,
+         address = EXCLUDED.address,
+         stripe_customer_id = EXCLUDED.stripe_customer_id,
+         paypal_customer_id = EXCLUDED.paypal_customer_id,
+         default_payment_method = EXCLUDED.default_payment_method,
+         metadata = EXCLUDED.metadata,
+         tax_id = EXCLUDED.tax_id`,
+      [
+        customer.id,
+        customer.email,
+        customer.name,
+        customer.phone ?? null,
+        customer.address ? JSON.stringify(customer.address) : null,
+        customer.stripeCustomerId ?? null,
+        customer.paypalCustomerId ?? null,
+        customer.defaultPaymentMethod ?? null,
+        JSON.stringify(customer.metadata || {}),
+        customer.createdAt,
+        customer.updatedAt,
+        customer.taxId ?? null,
+      ],
+      client,
+    );
+  }
+
+  async findCustomer(
+    id: string,
+    client?: DatabaseClient,
+    options: { forUpdate?: boolean } = {},
+  ): Promise<Customer | undefined> {
+    const lock = options.forUpdate ? ' FOR UPDATE' : '';
+    const [row] = await runQuery(`SELECT * FROM ${SCHEMA}.customers WHERE id = $1${lock}`, [id], client);
+    return row ? this.toCustomer(row) : undefined;
+  }
+
+  async findCustomerByStripeId(stripeCustomerId: string, client?: DatabaseClient): Promise<Customer | undefined> {
+    const [row] = await runQuery(
+      `SELECT * FROM ${SCHEMA}.customers WHERE stripe_customer_id = $1`,
+      [stripeCustomerId],
+      client,
+    );
+    return row ? this.toCustomer(row) : undefined;
+  }
+
+  // Plans
+  async savePlan(plan: Plan, client?: DatabaseClient): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.plans
+         (id, name, description, amount, currency, interval, interval_count, trial_period_days,
+          features, is_active, stripe_price_id, metadata, created_at, metered_components, late_fee,
+          tax_behavior)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       ON CONFLICT (id) DO UPDATE SET
+         name = EXCLUDED.name,
+         description = EXCLUDED.description,
+         amount = EXCLUDED.amount,
+         currency = EXCLUDED.currency,
+         interval = EXCLUDED.interval,
+         interval_count = EXCLUDED.interval_count,
+         trial_period_days = EXCLUDED.trial_period_days,
+         features = EXCLUDED.features,
+         is_active = EXCLUDED.is_active,
+         stripe_price_id = EXCLUDED.stripe_price_id,
+         metadata = EXCLUDED.metadata,
+         metered_components = EXCLUDED.metered_components,
+         late_fee = EXCLUDED.late_fee,
+         tax_behavior = EXCLUDED.tax_behavior`,
+      this.planParams(plan),
+      client,
+    );
+  }
+
+  // Leaves an existing plan untouched, so seeding never overwrites edits
+  async insertPlanIfMissing(plan: Plan, client?: DatabaseClient): Promise<boolean> {
+    const rows = await runQuery(
+      `INSERT INTO ${SCHEMA}.plans
+         (id, name, description, amount, currency, interval, interval_count, trial_period_days,
+          features, is_active, stripe_price_id, metadata, created_at, metered_components, late_fee,
+          tax_behavior)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       ON CONFLICT (id) DO NOTHING
+       RETURNING id`,
+      this.planParams(plan),
+      client,
+    );
+    return rows.length > 0;
+  }
+
+  async findPlan(id: string, client?: DatabaseClient): Promise<Plan | undefined> {
+    const [row] = await runQuery(`SELECT * FROM ${SCHEMA}.plans WHERE id = $1`, [id], client);
+    return row ? this.toPlan(row) : undefined;
+  }
+
+  async findPlanByStripePriceId(stripePriceId: string, client?: DatabaseClient): Promise<Plan | undefined> {
+    const [row] = await runQuery(`SELECT * FROM ${SCHEMA}.plans WHERE stripe_price_id = $1`, [stripePriceId], client);
+    return row ? this.toPlan(row) : undefined;
+  }
+
+  async findActivePlans(): Promise<Plan[]> {
+    const rows = await runQuery(`SELECT * FROM ${SCHEMA}.plans WHERE is_active ORDER BY amount`, []);
+    return rows.map((row) => this.toPlan(row));
+  }
+
+  // Payments
+  async savePayment(payment: Payment, client?: DatabaseClient): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.payments
+         (id, customer_id, amount, currency, status, payment_method, payment_intent_id,
+          description, metadata, failure_reason, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         payment_intent_id = EXCLUDED.payment_intent_id,
+         description = EXCLUDED.description,
+         metadata = EXCLUDED.metadata,
+         failure_reason = EXCLUDED.failure_reason`,
+      [
+        payment.id,
+        payment.customerId,
+        payment.amount,
+        payment.currency,
+        payment.status,
+        payment.paymentMethod,
+        payment.paymentIntentId ?? null,
+        payment.description,
+        JSON.stringify(payment.metadata || {}),
+        payment.failureReason ?? null,
+        payment.createdAt,
+        payment.updatedAt,
+      ],
+      client,
+    );
+  }
+
+  async findPayment(
+    id: string,
+    client?: DatabaseClient,
+    options: { forUpdate?: boolean } = {},
+  ): Promise<Payment | undefined> {
+    const lock = options.forUpdate ? ' FOR UPDATE' : '';
+    const [row] = await runQuery(`SELECT * FROM ${SCHEMA}.payments WHERE id = $1${lock}`, [id], client);
+    return row ? this.toPayment(row) : undefined;
+  }
+
+  async findPaymentByIntentId(paymentIntentId: string, client?: DatabaseClient): Promise<Payment | undefined> {
+    const [row] = await runQuery(
+      `SELECT * FROM ${SCHEMA}.payments WHERE payment_intent_id = $1`,
+      [paymentIntentId],
+      client,
+    );
+    return row ? this.toPayment(row) : undefined;
+  }
+
+  async findPayments(filter: { customerId?: string; since?: Date } = {}): Promise<Payment[]> {
+    const { where, params } = this.buildWhere([
+      ['customer_id =', filter.customerId],
+      ['created_at >=', filter.since],
+    ]);
+    const rows = await runQuery(`SELECT * FROM ${SCHEMA}.payments ${where} ORDER BY created_at DESC`, params);
+    return rows.map((row) => this.toPayment(row));
+  }
+
+  // Subscriptions
+  async saveSubscription(subscription: Subscription, client?: DatabaseClient): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.subscriptions
+         (id, customer_id, plan_id, status, current_period_start, current_period_end, trial_end,
+          cancel_at_period_end, stripe_subscription_id, metadata, created_at, updated_at,
+          paused_at, resume_at, billing_anchor)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       ON CONFLICT (id) DO UPDATE SET
+         plan_id = EXCLUDED.plan_id,
+         status = EXCLUDED.status,
+         current_period_start = EXCLUDED.current_period_start,
+         current_period_end = EXCLUDED.current_period_end,
+         trial_end = EXCLUDED.trial_end,
+         cancel_at_period_end = EXCLUDED.cancel_at_period_end,
+         stripe_subscription_id = EXCLUDED.stripe_subscription_id,
+         metadata = EXCLUDED.metadata,
+         paused_at = EXCLUDED.paused_at,
+         resume_at = EXCLUDED.resume_at,
+         billing_anchor = EXCLUDED.billing_anchor`,
+      [
+        subscription.id,
+        subscription.customerId,
+        subscription.planId,
+        subscription.status,
+        subscription.currentPeriodStart,
+        subscription.currentPeriodEnd,
+        subscription.trialEnd ?? null,
+        subscription.cancelAtPeriodEnd,
+        subscription.stripeSubscriptionId ?? null,
+        JSON.stringify(subscription.metadata || {}),
+        subscription.createdAt,
+        subscription.updatedAt,
+        subscription.pausedAt ?? null,
+        subscription.resumeAt ?? null,
+        subscription.billingAnchor ?? null,
+      ],
+      client,
+    );
+  }
+
+  async findSubscription(
+    id: string,
+    client?: DatabaseClient,
+    options: { forUpdate?: boolean } = {},
+  ): Promise<Subscription | undefined> {
+    const lock = options.forUpdate ? ' FOR UPDATE' : '';
+    const [row] = await runQuery(`SELECT * FROM ${SCHEMA}.subscriptions WHERE id = $1${lock}`, [id], client);
+    return row ? this.toSubscription(row) : undefined;
+  }
+
+  async findSubscriptionByStripeId(
+    stripeSubscriptionId: string,
+    client?: DatabaseClient,
+  ): Promise<Subscription | undefined> {
+    const [row] = await runQuery(
+      `SELECT * FROM ${SCHEMA}.subscriptions WHERE stripe_subscription_id = $1`,
+      [stripeSubscriptionId],
+      client,
+    );
+    return row ? this.toSubscription(row) : undefined;
+  }
+
+  async findSubscriptions(filter: {
+    customerId?: string;
+    status?: Subscription['status'];
+    periodEndBefore?: Date;
+  } = {}): Promise<Subscription[]> {
+    const { where, params } = this.buildWhere([
+      ['customer_id =', filter.customerId],
+      ['status =', filter.status],
+      ['current_period_end <=', filter.periodEndBefore],
+    ]);
+    const rows = await runQuery(`SELECT * FROM ${SCHEMA}.subscriptions ${where} ORDER BY created_at DESC`, params);
+    return rows.map((row) => this.toSubscription(row));
+  }
+
+  // Locally billed subscriptions with a period end, trial end or scheduled resume that has passed
+  async findDueSubscriptions(now: Date): Promise<Subscription[]> {
+    const rows = await runQuery(
+      `SELECT * FROM ${SCHEMA}.subscriptions
+       WHERE stripe_subscription_id IS NULL
+         AND ((status IN ('active', 'past_due') AND current_period_end <= $1)
+           OR (status = 'trialing' AND trial_end <= $1)
+           OR (status = 'paused' AND resume_at <= $1))
+       ORDER BY current_period_end`,
+      [now],
+    );
+    return rows.map((row) => this.toSubscription(row));
+  }
+
+  // Usage
+  // Returns false when a record with the same idempotency key was already stored
+  async saveUsageRecord(record: UsageRecord, client?: DatabaseClient): Promise<boolean> {
+    const rows = await runQuery(
+      `INSERT INTO ${SCHEMA}.usage_records (id, subscription_id, metric, quantity, recorded_at, idempotency_key)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (idempotency_key) DO NOTHING
+       RETURNING id`,
+      [record.id, record.subscriptionId, record.metric, record.quantity, record.recordedAt, record.idempotencyKey ?? null],
+      client,
+    );
+    return rows.length > 0;
+  }
+
+  // Usage not yet invoiced, including late records from earlier periods
+  async sumUnbilledUsage(
+    subscriptionId: string,
+    window: { since?: Date; before: Date },
+    client?: DatabaseClient,
+  ): Promise<Array<{ metric: string; quantity: number }>> {
+    const rows = await runQuery(
+      `SELECT metric, SUM(quantity) AS quantity
+       FROM ${SCHEMA}.usage_records
+       WHERE subscription_id = $1 AND recorded_at >= $2 AND recorded_at < $3 AND invoice_id IS NULL
+       GROUP BY metric`,
+      [subscriptionId, window.since || new Date(0), window.before],
+      client,
+    );
+    return rows.map((row) => ({ metric: row.metric, quantity: Number(row.quantity) }));
+  }
+
+  async markUsageInvoiced(
+    subscriptionId: string,
+    window: { since?: Date; before: Date; metrics: string[] },
+    invoiceId: string,
+    client?: DatabaseClient,
+  ): Promise<void> {
+    await runQuery(
+      `UPDATE ${SCHEMA}.usage_records
+       SET invoice_id = $5
+       WHERE subscription_id = $1 AND recorded_at >= $2 AND recorded_at < $3
+         AND metric = ANY($4) AND invoice_id IS NULL`,
+      [subscriptionId, window.since || new Date(0), window.before, window.metrics, invoiceId],
+      client,
+    );
+  }
+
+  async findUsageRecords(subscriptionId: string, filter: { since?: Date; metric?: string } = {}): Promise<UsageRecord[]> {
+    const { where, params } = this.buildWhere([
+      ['subscription_id =', subscriptionId],
+      ['recorded_at >=', filter.since],
+      ['metric =', filter.metric],
+    ]);
+    const rows = await runQuery(`SELECT * FROM ${SCHEMA}.usage_records ${where} ORDER BY recorded_at DESC`, params);
+    return rows.map((row) => ({
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      metric: row.metric,
+      quantity: Number(row.quantity),
+      recordedAt: new Date(row.recorded_at),
+      idempotencyKey: row.idempotency_key ?? undefined,
+      invoiceId: row.invoice_id ?? undefined,
+    }));
+  }
+
+  // Invoices
+  async saveInvoice(invoice: Invoice, client?: DatabaseClient): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.invoices
+         (id, customer_id, subscription_id, amount, currency, status, due_date, paid_at, items,
+          tax_amount, discount_amount, total_amount, amount_due, credit_applied, stripe_invoice_id,
+          pdf_url, created_at, number, tax_behavior, tax, issued_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
+       ON CONFLICT (id) DO UPDATE SET
+         amount = EXCLUDED.amount,
+         status = EXCLUDED.status,
+         due_date = EXCLUDED.due_date,
+         paid_at = EXCLUDED.paid_at,
+         items = EXCLUDED.items,
+         tax_amount = EXCLUDED.tax_amount,
+         discount_amount = EXCLUDED.discount_amount,
+         total_amount = EXCLUDED.total_amount,
+         amount_due = EXCLUDED.amount_due,
+         credit_applied = EXCLUDED.credit_applied,
+         stripe_invoice_id = EXCLUDED.stripe_invoice_id,
+         pdf_url = EXCLUDED.pdf_url,
+         number = EXCLUDED.number,
+         tax_behavior = EXCLUDED.tax_behavior,
+         tax = EXCLUDED.tax,
+         issued_at = EXCLUDED.issued_at`,
+      [
+        invoice.id,
+        invoice.customerId,
+        invoice.subscriptionId ?? null,
+        invoice.amount,
+        invoice.currency,
+        invoice.status,
+        invoice.dueDate,
+        invoice.paidAt ?? null,
+        JSON.stringify(invoice.items),
+        invoice.taxAmount,
+        invoice.discountAmount,
+        invoice.totalAmount,
+        invoice.amountDue,
+        invoice.creditApplied,
+        invoice.stripeInvoiceId ?? null,
+        invoice.pdfUrl ?? null,
+        invoice.createdAt,
+        invoice.number ?? null,
+        invoice.taxBehavior,
+        invoice.tax ? JSON.stringify(invoice.tax) : null,
+        invoice.issuedAt ?? null,
+      ],
+      client,
+    );
+  }
+
+  async findInvoice(
+    id: string,
+    client?: DatabaseClient,
+    options: { forUpdate?: boolean } = {},
+  ): Promise<Invoice | undefined> {
+    const lock = options.forUpdate ? ' FOR UPDATE' : '';
+    const [row] = await runQuery(`SELECT * FROM ${SCHEMA}.invoices WHERE id = $1${lock}`, [id], client);
+    return row ? this.toInvoice(row) : undefined;
+  }
+
+  async findInvoiceByStripeId(stripeInvoiceId: string, client?: DatabaseClient): Promise<Invoice | undefined> {
+    const [row] = await runQuery(
+      `SELECT * FROM ${SCHEMA}.invoices WHERE stripe_invoice_id = $1`,
+      [stripeInvoiceId],
+      client,
+    );
+    return row ? this.toInvoice(row) : undefined;
+  }
+
+  async findInvoices(filter: {
+    customerId?: string;
+    status?: Invoice['status'];
+    dueBefore?: Date;
+  } = {}): Promise<Invoice[]> {
+    const { where, params } = this.buildWhere([
+      ['customer_id =', filter.customerId],
+      ['status =', filter.status],
+      ['due_date <', filter.dueBefore],
+    ]);
+    const rows = await runQuery(`SELECT * FROM ${SCHEMA}.invoices ${where} ORDER BY created_at DESC`, params);
+    return rows.map((row) => this.toInvoice(row));
+  }
+
+  // Refunds
+  async saveRefund(refund: Refund, client?: DatabaseClient): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.refunds
+         (id, payment_id, customer_id, amount, currency, reason, status, stripe_refund_id,
+          credit_note_id, notes, failure_reason, metadata, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         stripe_refund_id = EXCLUDED.stripe_refund_id,
+         credit_note_id = EXCLUDED.credit_note_id,
+         failure_reason = EXCLUDED.failure_reason,
+         metadata = EXCLUDED.metadata`,
+      [
+        refund.id,
+        refund.paymentId,
+        refund.customerId,
+        refund.amount,
+        refund.currency,
+        refund.reason,
+        refund.status,
+        refund.stripeRefundId ?? null,
+        refund.creditNoteId ?? null,
+        refund.notes ?? null,
+        refund.failureReason ?? null,
+        JSON.stringify(refund.metadata || {}),
+        refund.createdAt,
+        refund.updatedAt,
+      ],
+      client,
+    );
+  }
+
+  async setStripeRefundId(refundId: string, stripeRefundId: string, client?: DatabaseClient): Promise<void> {
+    await runQuery(
+      `UPDATE ${SCHEMA}.refunds SET stripe_refund_id = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [refundId, stripeRefundId],
+      client,
+    );
+  }
+
+  async findRefund(refundId: string, client?: DatabaseClient): Promise<Refund | undefined> {
+    const [row] = await runQuery(`SELECT * FROM ${SCHEMA}.refunds WHERE id = $1`, [refundId], client);
+    return row ? this.toRefund(row) : undefined;
+  }
+
+  async findRefunds(
+    filter: { paymentId?: string; status?: Refund['status']; since?: Date } = {},
+    client?: DatabaseClient,
+  ): Promise<Refund[]> {
+    const { where, params } = this.buildWhere([
+      ['payment_id =', filter.paymentId],
+      ['status =', filter.status],
+      ['created_at >=', filter.since],
+    ]);
+    const rows = await runQuery(`SELECT * FROM ${SCHEMA}.refunds ${where} ORDER BY created_at DESC`, params, client);
+    return rows.map((row) => this.toRefund(row));
+  }
+
+  // Credit notes
+  async saveCreditNote(creditNote: CreditNote, client?: DatabaseClient): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.credit_notes
+         (id, invoice_id, customer_id, amount, tax_amount, total_amount, currency, reason, outcome,
+          lines, refund_id, created_at, number, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (id) DO UPDATE SET
+         refund_id = EXCLUDED.refund_id,
+         status = EXCLUDED.status`,
+      [
+        creditNote.id,
+        creditNote.invoiceId,
+        creditNote.customerId,
+        creditNote.amount,
+        creditNote.taxAmount,
+        creditNote.totalAmount,
+        creditNote.currency,
+        creditNote.reason,
+        creditNote.outcome,
+        JSON.stringify(creditNote.lines),
+        creditNote.refundId ?? null,
+        creditNote.createdAt,
+        creditNote.number ?? null,
+        creditNote.status,
+      ],
+      client,
+    );
+  }
+
+  async findCreditNote(creditNoteId: string, client?: DatabaseClient): Promise<CreditNote | undefined> {
+    const [row] = await runQuery(`SELECT * FROM ${SCHEMA}.credit_notes WHERE id = $1`, [creditNoteId], client);
+    return row ? this.toCreditNote(row) : undefined;
+  }
+
+  async findCreditNotes(invoiceId: string, client?: DatabaseClient): Promise<CreditNote[]> {
+    const rows = await runQuery(
+      `SELECT * FROM ${SCHEMA}.credit_notes WHERE invoice_id = $1 ORDER BY created_at`,
+      [invoiceId],
+      client,
+    );
+    return rows.map((row) => this.toCreditNote(row));
+  }
+
+  // Document numbering
+  /**
+   * Takes the next number in a yearly series. Must run inside the transaction
+   * that issues the document: the counter row stays locked until it commits,
+   * and a rollback hands the number back, so the series has no gaps.
+   */
+  async nextDocumentNumber(series: string, year: number, client: DatabaseClient): Promise<number> {
+    const [row] = await runQuery(
+      `INSERT INTO ${SCHEMA}.document_sequences (series, year, next_value)
+       VALUES ($1, $2, 2)
+       ON CONFLICT (series, year) DO UPDATE SET next_value = ${SCHEMA}.document_sequences.next_value + 1
+       RETURNING next_value - 1 AS value`,
+      [series, year],
+      client,
+    );
+    return Number(row.value);
+  }
+
+  // Builds a WHERE clause from the conditions whose value is set
+  private buildWhere(conditions: Array<[string, unknown]>): { where: string; params: unknown[] } {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    for (const [condition, value] of conditions) {
+      if (value === undefined) {
+        continue;
+      }
+      params.push(value);
+      clauses.push(`${condition} $${params.length}`);
+    }
+
+    return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+
+  private planParams(plan: Plan): unknown[] {
+    return [
+      plan.id,
+      plan.name,
+      plan.description,
+      plan.amount,
+      plan.currency,
+      plan.interval,
+      plan.intervalCount,
+      plan.trialPeriodDays ?? null,
+      JSON.stringify(plan.features),
+      plan.isActive,
+      plan.stripePriceId ?? null,
+      JSON.stringify(plan.metadata || {}),
+      plan.createdAt,
+      JSON.stringify(plan.meteredComponents || []),
+      plan.lateFee ? JSON.stringify(plan.lateFee) : null,
+      plan.taxBehavior ?? null,
+    ];
+  }
+
+  // NUMERIC columns come back from pg as strings
+  private toCustomer(row: any): Customer {
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      phone: row.phone ?? undefined,
+      address: row.address ?? undefined,
+      taxId: row.tax_id ?? undefined,
+      stripeCustomerId: row.stripe_customer_id ?? undefined,
+      paypalCustomerId: row.paypal_customer_id ?? undefined,
+      defaultPaymentMethod: row.default_payment_method ?? undefined,
+      metadata: row.metadata || {},
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private toPlan(row: any): Plan {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? '',
+      amount: Number(row.amount),
+      currency: row.currency,
+      interval: row.interval,
+      intervalCount: row.interval_count,
+      trialPeriodDays: row.trial_period_days ?? undefined,
+      features: row.features || [],
+      meteredComponents: row.metered_components?.length ? row.metered_components : undefined,
+      lateFee: row.late_fee ?? undefined,
+      taxBehavior: row.tax_behavior ?? undefined,
+      isActive: row.is_active,
+      stripePriceId: row.stripe_price_id ?? undefined,
+      metadata: row.metadata || {},
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private toPayment(row: any): Payment {
+    return {
+      id: row.id,
+      customerId: row.customer_id,
+      amount: Number(row.amount),
+      currency: row.currency,
+      status: row.status,
+      paymentMethod: row.payment_method,
+      paymentIntentId: row.payment_intent_id ?? undefined,
+      description: row.description ?? '',
+      metadata: row.metadata || {},
+      failureReason: row.failure_reason ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private toSubscription(row: any): Subscription {
+    return {
+      id: row.id,
+      customerId: row.customer_id,
+      planId: row.plan_id,
+      status: row.status,
+      currentPeriodStart: new Date(row.current_period_start),
+      currentPeriodEnd: new Date(row.current_period_end),
+      billingAnchor: row.billing_anchor ? new Date(row.billing_anchor) : undefined,
+      trialEnd: row.trial_end ? new Date(row.trial_end) : undefined,
+      cancelAtPeriodEnd: row.cancel_at_period_end,
+      pausedAt: row.paused_at ? new Date(row.paused_at) : undefined,
+      resumeAt: row.resume_at ? new Date(row.resume_at) : undefined,
+      stripeSubscriptionId: row.stripe_subscription_id ?? undefined,
+      metadata: row.metadata || {},
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private toInvoice(row: any): Invoice {
+    return {
+      id: row.id,
+      number: row.number ?? undefined,
+      issuedAt: row.issued_at ? new Date(row.issued_at) : undefined,
+      customerId: row.customer_id,
+      subscriptionId: row.subscription_id ?? undefined,
+      amount: Number(row.amount),
+      currency: row.currency,
+      status: row.status,
+      dueDate: new Date(row.due_date),
+      paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
+      items: row.items || [],
+      taxAmount: Number(row.tax_amount),
+      taxBehavior: row.tax_behavior,
+      tax: row.tax ?? undefined,
+      discountAmount: Number(row.discount_amount),
+      totalAmount: Number(row.total_amount),
+      amountDue: Number(row.amount_due),
+      creditApplied: Number(row.credit_applied),
+      stripeInvoiceId: row.stripe_invoice_id ?? undefined,
+      pdfUrl: row.pdf_url ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private toRefund(row: any): Refund {
+    return {
+      id: row.id,
+      paymentId: row.payment_id,
+      customerId: row.customer_id,
+      amount: Number(row.amount),
+      currency: row.currency,
+      reason: row.reason,
+      status: row.status,
+      stripeRefundId: row.stripe_refund_id ?? undefined,
+      creditNoteId: row.credit_note_id ?? undefined,
+      notes: row.notes ?? undefined,
+      failureReason: row.failure_reason ?? undefined,
+      metadata: row.metadata || {},
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private toCreditNote(row: any): CreditNote {
+    return {
+      id: row.id,
+      number: row.number ?? undefined,
+      invoiceId: row.invoice_id,
+      customerId: row.customer_id,
+      amount: Number(row.amount),
+      taxAmount: Number(row.tax_amount),
+      totalAmount: Number(row.total_amount),
+      currency: row.currency,
+      reason: row.reason,
+      outcome: row.outcome,
+      status: row.status,
+      lines: row.lines || [],
+      refundId: row.refund_id ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { PaymentRepository } from '../persistence/payment.repository';
+import { InvoicePdfService } from '../invoices/invoice-pdf.service';
+import { FileStorageClient } from '../invoices/file-storage.client';
+
+export interface GenerateInvoicePdfJob {
+  invoiceId: string;
+  customerId: string;
+}
+
+@Processor('invoice-generation')
+export class InvoiceProcessor {
+  private readonly logger = new Logger(InvoiceProcessor.name);
+
+  constructor(
+    private readonly repository: PaymentRepository,
+    private readonly pdf: InvoicePdfService,
+    private readonly fileStorage: FileStorageClient,
+  ) {}
+
+  @Process('generate-invoice-pdf')
+  async handleGenerateInvoicePdf(job: Job<GenerateInvoicePdfJob>): Promise<void> {
+    const { invoiceId, customerId } = job.data;
+
+    const invoice = await this.repository.findInvoice(invoiceId);
+    if (!invoice) {
+      this.logger.warn(`Invoice ${invoiceId} not found, skipping PDF generation`);
+      return;
+    }
+
+    // Drafts have no number yet, and Stripe renders its own invoices
+    if (invoice.status === 'draft' || invoice.stripeInvoiceId) {
+      this.logger.debug(`Invoice ${invoiceId} does not need a PDF`);
+      return;
+    }
+
+    const customer = await this.repository.findCustomer(customerId);
+    if (!customer) {
+      throw new Error(`Customer ${customerId} not found for invoice ${invoiceId}`);
+    }
+
+    const content = await this.pdf.render(invoice, customer, await this.repository.findCreditNotes(invoiceId));
+    const stored = await this.fileStorage.upload({
+      filename: `${invoice.number}.pdf`,
+      contentType: 'application/pdf',
+      content,
+      userId: customer.metadata.userId || customer.id,
+      tags: ['invoice', invoice.number!],
+    });
+
+    // Re-read under lock so the URL never overwrites a payment or credit note recorded meanwhile
+    await this.repository.transaction(async (client) => {
+      const locked = await this.repository.findInvoice(invoiceId, client, { forUpdate: true });
+      if (!locked) {
+        return;
+      }
+
+      locked.pdfUrl = stored.url;
+      await this.repository.saveInvoice(locked, client);
+    });
+
+    this.logger.log(`Invoice ${invoice.number} PDF stored as file ${stored.id}`);
+  }
+}
@@ -0,0 +1,27 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { SubscriptionBillingService } from '../billing/subscription-billing.service';
+
+export interface RenewSubscriptionJob {
+  subscriptionId: string;
+}
+
+@Processor('subscription-management')
+export class SubscriptionProcessor {
+  private readonly logger = new Logger(SubscriptionProcessor.name);
+
+  constructor(private readonly subscriptionBilling: SubscriptionBillingService) {}
+
+  @Process('renew-subscription')
+  async handleRenewSubscription(job: Job<RenewSubscriptionJob>): Promise<void> {
+    const { subscriptionId } = job.data;
+
+    this.logger.debug(`Processing renewal job for subscription ${subscriptionId}`);
+
+    const result = await this.subscriptionBilling.advanceSubscription(subscriptionId);
+    if (result.actions.length === 0) {
+      this.logger.debug(`Subscription ${subscriptionId} had nothing due`);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { TaxRate, TaxService } from './tax.service';
+
+jest.mock('@nexus/shared-database', () => ({}));
+
+describe('TaxService', () => {
+  let service: TaxService;
+
+  const germany: TaxRate = { id: 'DE', country: 'DE', type: 'vat', name: 'VAT', rate: 0.19, reverseCharge: true, isActive: true };
+  const customer = (taxId?: string) => ({ address: { line1: 'Hauptstr. 1', city: 'Berlin', state: 'BE', postalCode: '10115', country: 'DE' }, taxId });
+
+  beforeEach(() => {
+    service = new TaxService();
+    jest.spyOn(service as any, 'findRate').mockResolvedValue(germany);
+  });
+
+  it('applies reverse charge for a valid foreign VAT number', async () => {
+    const { tax, taxAmount } = await service.calculate(customer('DE 123 456 789'), { subtotal: 10000 });
+
+    expect(tax).toMatchObject({ reverseCharge: true, rate: 0, customerTaxId: 'DE123456789' });
+    expect(taxAmount).toBe(0);
+  });
+
+  it.each(['DE12345', 'FR12345678901', 'anything'])('charges VAT when the tax ID %s is not a valid German VAT number', async (taxId) => {
+    const { tax, taxAmount } = await service.calculate(customer(taxId), { subtotal: 10000 });
+
+    expect(tax.reverseCharge).toBe(false);
+    expect(taxAmount).toBe(1900);
+  });
+
+  it('never accepts tax IDs for countries without a known format', () => {
+    expect(service.isValidTaxId('XX', 'XX123456789')).toBe(false);
+  });
+});
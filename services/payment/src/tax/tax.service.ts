@@ -0,0 +1,286 @@
+import { Injectable, Logger, OnModuleInit, BadRequestException } from '@nestjs/common';
+import { Decimal } from 'decimal.js';
+import { DatabaseClient } from '@nexus/shared-database';
+import { runQuery } from '../persistence/payment.repository';
+import type { Customer } from '../payment.service';
+
+// Whether line amounts already include tax (common for consumer prices) or tax is added on top
+export type TaxBehavior = 'inclusive' | 'exclusive';
+
+export type TaxType = 'vat' | 'gst' | 'sales_tax';
+
+export interface TaxRate {
+  // Country code, or country and region, e.g. 'DE' or 'US-CA'
+  id: string;
+  country: string;
+  region?: string;
+  type: TaxType;
+  name: string;
+  rate: number;
+  // Business customers abroad with a tax ID account for the tax themselves
+  reverseCharge: boolean;
+  isActive: boolean;
+}
+
+// How tax was worked out for an invoice, kept with it for the PDF and audits
+export interface InvoiceTax {
+  type?: TaxType;
+  name?: string;
+  jurisdiction?: string;
+  rate: number;
+  behavior: TaxBehavior;
+  reverseCharge: boolean;
+  customerTaxId?: string;
+  note?: string;
+}
+
+export interface TaxCalculation {
+  tax: InvoiceTax;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+const SCHEMA = 'nexus_billing';
+
+// Standard rates at the time of writing; review them and keep only US states where there is nexus
+const DEFAULT_TAX_RATES: Array<Omit<TaxRate, 'isActive'>> = [
+  { id: 'AT', country: 'AT', type: 'vat', name: 'VAT', rate: 0.2, reverseCharge: true },
+  { id: 'BE', country: 'BE', type: 'vat', name: 'VAT', rate: 0.21, reverseCharge: true },
+  { id: 'DE', country: 'DE', type: 'vat', name: 'VAT', rate: 0.19, reverseCharge: true },
+  { id: 'DK', country: 'DK', type: 'vat', name: 'VAT', rate: 0.25, reverseCharge: true },
+  { id: 'ES', country: 'ES', type: 'vat', name: 'VAT', rate: 0.21, reverseCharge: true },
+  { id: 'FI', country: 'FI', type: 'vat', name: 'VAT', rate: 0.255, reverseCharge: true },
+  { id: 'FR', country: 'FR', type: 'vat', name: 'VAT', rate: 0.2, reverseCharge: true },
+  { id: 'IE', country: 'IE', type: 'vat', name: 'VAT', rate: 0.23, reverseCharge: true },
+  { id: 'IT', country: 'IT', type: 'vat', name: 'VAT', rate: 0.22, reverseCharge: true },
+  { id: 'NL', country: 'NL', type: 'vat', name: 'VAT', rate: 0.21, reverseCharge: true },
+  { id: 'PL', country: 'PL', type: 'vat', name: 'VAT', rate: 0.23, reverseCharge: true },
+  { id: 'PT', country: 'PT', type: 'vat', name: 'VAT', rate: 0.23, reverseCharge: true },
+  { id: 'SE', country: 'SE', type: 'vat', name: 'VAT', rate: 0.25, reverseCharge: true },
+  { id: 'GB', country: 'GB', type: 'vat', name: 'VAT', rate: 0.2, reverseCharge: true },
+  { id: 'CH', country: 'CH', type: 'vat', name: 'VAT', rate: 0.081, reverseCharge: true },
+  { id: 'NO', country: 'NO', type: 'vat', name: 'VAT', rate: 0.25, reverseCharge: true },
+  { id: 'AU', country: 'AU', type: 'gst', name: 'GST', rate: 0.1, reverseCharge: true },
+  { id: 'NZ', country: 'NZ', type: 'gst', name: 'GST', rate: 0.15, reverseCharge: true },
+  { id: 'SG', country: 'SG', type: 'gst', name: 'GST', rate: 0.09, reverseCharge: true },
+  { id: 'IN', country: 'IN', type: 'gst', name: 'GST', rate: 0.18, reverseCharge: true },
+  { id: 'CA', country: 'CA', type: 'gst', name: 'GST', rate: 0.05, reverseCharge: false },
+  { id: 'US-CA', country: 'US', region: 'CA', type: 'sales_tax', name: 'California sales tax', rate: 0.0725, reverseCharge: false },
+  { id: 'US-NY', country: 'US', region: 'NY', type: 'sales_tax', name: 'New York sales tax', rate: 0.04, reverseCharge: false },
+  { id: 'US-TX', country: 'US', region: 'TX', type: 'sales_tax', name: 'Texas sales tax', rate: 0.0625, reverseCharge: false },
+  { id: 'US-WA', country: 'US', region: 'WA', type: 'sales_tax', name: 'Washington sales tax', rate: 0.065, reverseCharge: false },
+];
+
+// Shape of a normalized business tax ID by country; EU-style VAT numbers carry their country prefix
+const TAX_ID_FORMATS: Record<string, RegExp> = {
+  AT: /^ATU\d{8}$/,
+  BE: /^BE[01]\d{9}$/,
+  DE: /^DE\d{9}$/,
+  DK: /^DK\d{8}$/,
+  ES: /^ES[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^FI\d{8}$/,
+  FR: /^FR[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  IE: /^IE(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^IT\d{11}$/,
+  NL: /^NL\d{9}B\d{2}$/,
+  PL: /^PL\d{10}$/,
+  PT: /^PT\d{9}$/,
+  SE: /^SE\d{10}01$/,
+  GB: /^GB(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+  CH: /^CHE\d{9}(MWST|TVA|IVA)?$/,
+  NO: /^NO\d{9}(MVA)?$/,
+  AU: /^\d{11}$/,
+  NZ: /^\d{8,9}$/,
+  SG: /^([A-Z]\d{8}|\d{9})[A-Z]$/,
+  IN: /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/,
+};
+
+/**
+ * Works out the tax on an invoice from the customer's billing address and
+ * the configured rate table: VAT and GST by country, US sales tax by state.
+ * Business customers in another country who give a valid tax ID are invoiced
+ * without tax under the reverse-charge rule where the rate allows it.
+ */
+@Injectable()
+export class TaxService implements OnModuleInit {
+  private readonly logger = new Logger(TaxService.name);
+  // Where the seller is established; reverse charge only applies to customers elsewhere
+  private readonly originCountry = (process.env.TAX_ORIGIN_COUNTRY || 'US').toUpperCase();
+  readonly defaultBehavior: TaxBehavior = process.env.TAX_DEFAULT_BEHAVIOR === 'inclusive' ? 'inclusive' : 'exclusive';
+
+  async onModuleInit() {
+    await this.initializeDefaultRates();
+  }
+
+  // Leaves existing rows untouched, so seeding never overwrites configured rates
+  private async initializeDefaultRates(): Promise<void> {
+    let created = 0;
+
+    for (const rate of DEFAULT_TAX_RATES) {
+      const rows = await runQuery(
+        `INSERT INTO ${SCHEMA}.tax_rates (id, country, region, tax_type, name, rate, reverse_charge)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (id) DO NOTHING
+         RETURNING id`,
+        [rate.id, rate.country, rate.region ?? null, rate.type, rate.name, rate.rate, rate.reverseCharge],
+      );
+      created += rows.length;
+    }
+
+    this.logger.log(`Initialized ${created} of ${DEFAULT_TAX_RATES.length} default tax rates`);
+  }
+
+  /**
+   * Tax on an amount after discount. Exclusive amounts have the tax added;
+   * inclusive amounts already contain it, so the total stays the same and
+   * the tax is the part of it above the net price. A rate passed explicitly
+   * replaces the rate table.
+   */
+  async calculate(
+    customer: Pick<Customer, 'address' | 'taxId'>,
+    amounts: { subtotal: number; discountAmount?: number },
+    options: { behavior?: TaxBehavior; rate?: number } = {},
+    client?: DatabaseClient,
+  ): Promise<TaxCalculation> {
+    const behavior = options.behavior || this.defaultBehavior;
+    const tax = options.rate !== undefined
+      ? { name: 'Tax', rate: options.rate, behavior, reverseCharge: false }
+      : await this.resolve(customer, behavior, client);
+
+    const base = Decimal.max(new Decimal(amounts.subtotal).minus(amounts.discountAmount || 0), 0);
+    const taxAmount = behavior === 'inclusive'
+      ? base.mul(tax.rate).div(new Decimal(1).plus(tax.rate))
+      : base.mul(tax.rate);
+    const rounded = taxAmount.toDecimalPlaces(0, Decimal.ROUND_HALF_UP);
+
+    return {
+      tax,
+      taxAmount: rounded.toNumber(),
+      totalAmount: behavior === 'inclusive' ? base.toNumber() : base.plus(rounded).toNumber(),
+    };
+  }
+
+  async getRates(): Promise<TaxRate[]> {
+    const rows = await runQuery(`SELECT * FROM ${SCHEMA}.tax_rates ORDER BY country, region NULLS FIRST`, []);
+    return rows.map((row) => this.toTaxRate(row));
+  }
+
+  async setRate(rate: Omit<TaxRate, 'id' | 'isActive'> & { isActive?: boolean }): Promise<TaxRate> {
+    const country = rate.country.toUpperCase();
+    const region = rate.region?.toUpperCase();
+
+    if (!/^[A-Z]{2}$/.test(country)) {
+      throw new BadRequestException(`Invalid country code ${rate.country}`);
+    }
+    if (rate.rate < 0 || rate.rate >= 1) {
+      throw new BadRequestException('Tax rates are fractions between 0 and 1');
+    }
+
+    const [row] = await runQuery(
+      `INSERT INTO ${SCHEMA}.tax_rates (id, country, region, tax_type, name, rate, reverse_charge, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (id) DO UPDATE SET
+         tax_type = EXCLUDED.tax_type,
+         name = EXCLUDED.name,
+         rate = EXCLUDED.rate,
+         reverse_charge = EXCLUDED.reverse_charge,
+         is_active = EXCLUDED.is_active
+       RETURNING *`,
+      [
+        region ? `${country}-${region}` : country,
+        country,
+        region ?? null,
+        rate.type,
+        rate.name,
+        rate.rate,
+        rate.reverseCharge,
+        rate.isActive !== false,
+      ],
+    );
+
+    this.logger.log(`Tax rate ${row.id} set to ${rate.rate}`);
+    return this.toTaxRate(row);
+  }
+
+  // VAT numbers and similar IDs are compared without spacing or punctuation
+  normalizeTaxId(taxId: string | undefined): string | undefined {
+    const normalized = taxId?.replace(/[\s.\-]/g, '').toUpperCase();
+    return normalized || undefined;
+  }
+
+  // Only the format is checked; countries without a known format never qualify
+  isValidTaxId(country: string, taxId: string | undefined): boolean {
+    const normalized = this.normalizeTaxId(taxId);
+    const format = TAX_ID_FORMATS[country.toUpperCase()];
+    return !!normalized && !!format && format.test(normalized);
+  }
+
+  private async resolve(
+    customer: Pick<Customer, 'address' | 'taxId'>,
+    behavior: TaxBehavior,
+    client?: DatabaseClient,
+  ): Promise<InvoiceTax> {
+    const country = customer.address?.country?.toUpperCase();
+    if (!country) {
+      return { rate: 0, behavior, reverseCharge: false };
+    }
+
+    const rate = await this.findRate(country, customer.address?.state?.toUpperCase(), client);
+    if (!rate) {
+      return { rate: 0, behavior, reverseCharge: false, jurisdiction: country };
+    }
+
+    const taxId = this.normalizeTaxId(customer.taxId);
+    const tax: InvoiceTax = {
+      type: rate.type,
+      name: rate.name,
+      jurisdiction: rate.id,
+      rate: rate.rate,
+      behavior,
+      reverseCharge: false,
+      customerTaxId: taxId,
+    };
+
+    if (rate.reverseCharge && taxId && country !== this.originCountry) {
+      if (!this.isValidTaxId(country, taxId)) {
+        this.logger.warn(`Tax ID ${taxId} is not a valid ${country} tax ID; charging ${rate.name}`);
+        return tax;
+      }
+
+      return {
+        ...tax,
+        rate: 0,
+        reverseCharge: true,
+        note: `Reverse charge: ${rate.name} to be accounted for by the recipient`,
+      };
+    }
+
+    return tax;
+  }
+
+  // A region's own rate wins over the country-wide one
+  private async findRate(country: string, region: string | undefined, client?: DatabaseClient): Promise<TaxRate | undefined> {
+    const rows = await runQuery(
+      `SELECT * FROM ${SCHEMA}.tax_rates
+       WHERE country = $1 AND (region IS NULL OR region = $2) AND is_active
+       ORDER BY region NULLS LAST
+       LIMIT 1`,
+      [country, region ?? null],
+      client,
+    );
+    return rows[0] ? this.toTaxRate(rows[0]) : undefined;
+  }
+
+  private toTaxRate(row: any): TaxRate {
+    return {
+      id: row.id,
+      country: row.country,
+      region: row.region ?? undefined,
+      type: row.tax_type,
+      name: row.name,
+      rate: Number(row.rate),
+      reverseCharge: row.reverse_charge,
+      isActive: row.is_active,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  InternalServerErrorException,
+  Post,
+  Query,
+  RawBodyRequest,
+  Req,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+import {
+  StoredStripeEvent,
+  StripeEventResult,
+  StripeEventStatus,
+  StripeSignatureError,
+  StripeWebhookService,
+} from './stripe-webhook.service';
+
+@ApiTags('Stripe Webhooks')
+@Controller('webhooks/stripe')
+export class StripeWebhookController {
+  private readonly adminToken = process.env.STRIPE_WEBHOOK_ADMIN_TOKEN || '';
+
+  constructor(private readonly stripeWebhooks: StripeWebhookService) {}
+
+  // Needs the app created with `rawBody: true`; the signature covers the exact bytes Stripe sent
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Receive Stripe webhook events' })
+  @ApiResponse({ status: 200, description: 'Event handled or already handled' })
+  @ApiResponse({ status: 400, description: 'Missing or invalid Stripe-Signature' })
+  @ApiResponse({ status: 500, description: 'Handling failed; Stripe will redeliver' })
+  async receive(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('stripe-signature') signature?: string,
+  ): Promise<StripeEventResult> {
+    if (!req.rawBody) {
+      throw new BadRequestException('Raw request body unavailable');
+    }
+
+    let event;
+    try {
+      event = this.stripeWebhooks.constructEvent(req.rawBody, signature);
+    } catch (error) {
+      if (error instanceof StripeSignatureError) {
+        throw new BadRequestException(`Webhook signature verification failed: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const result = await this.stripeWebhooks.ingest(event);
+    if (result.status === 'failed') {
+      throw new InternalServerErrorException(`Event ${event.id} could not be handled`);
+    }
+
+    return result;
+  }
+
+  @Get('events')
+  @ApiOperation({ summary: 'List stored Stripe events' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid admin token' })
+  async listEvents(
+    @Headers('x-admin-token') token: string,
+    @Query('status') status?: StripeEventStatus,
+    @Query('type') type?: string,
+    @Query('limit') limit?: string,
+  ): Promise<StoredStripeEvent[]> {
+    this.verifyAdminToken(token);
+    return this.stripeWebhooks.getEvents({ status, type, limit: limit ? parseInt(limit) : undefined });
+  }
+
+  @Post('replay')
+  @ApiOperation({ summary: 'Reprocess stored Stripe events' })
+  @ApiResponse({ status: 201, description: 'Per-event replay results' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid admin token' })
+  async replay(
+    @Headers('x-admin-token') token: string,
+    @Body() body: { eventIds?: string[]; type?: string; status?: StripeEventStatus; since?: string; limit?: number },
+  ): Promise<StripeEventResult[]> {
+    this.verifyAdminToken(token);
+
+    if (!body.eventIds?.length && !body.type && !body.status && !body.since) {
+      throw new BadRequestException('Narrow the replay with eventIds, type, status or since');
+    }
+
+    return this.stripeWebhooks.replay({
+      eventIds: body.eventIds,
+      type: body.type,
+      status: body.status,
+      since: body.since ? new Date(body.since) : undefined,
+      limit: body.limit,
+    });
+  }
+
+  // Event inspection and replay stay closed unless an admin token is configured
+  private verifyAdminToken(token?: string): void {
+    const expected = Buffer.from(this.adminToken);
+    const actual = Buffer.from(token || '');
+    if (!this.adminToken || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new UnauthorizedException('Invalid admin token');
+    }
+  }
+}
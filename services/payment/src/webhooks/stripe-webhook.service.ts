@@ -0,0 +1,546 @@
+import { Injectable, Logger } from '@nestjs/common';
+import Stripe from 'stripe';
+import { PaymentService, Invoice, Subscription } from '../payment.service';
+import { PaymentRepository, runQuery } from '../persistence/payment.repository';
+import { LedgerService } from '../ledger/ledger.service';
+import { DunningService } from '../billing/dunning.service';
+
+export type StripeEventStatus = 'received' | 'processing' | 'processed' | 'failed' | 'ignored';
+
+export interface StoredStripeEvent {
+  id: string;
+  type: string;
+  status: StripeEventStatus;
+  attempts: number;
+  lastError?: string;
+  stripeCreatedAt: Date;
+  receivedAt: Date;
+  processedAt?: Date;
+}
+
+export interface StripeEventResult {
+  eventId: string;
+  type: string;
+  status: StripeEventStatus | 'duplicate';
+  error?: string;
+}
+
+export class StripeSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StripeSignatureError';
+  }
+}
+
+const SCHEMA = 'nexus_billing';
+
+const SUBSCRIPTION_STATUSES: Partial<Record<Stripe.Subscription.Status, Subscription['status']>> = {
+  active: 'active',
+  trialing: 'trialing',
+  past_due: 'past_due',
+  unpaid: 'unpaid',
+  incomplete: 'unpaid',
+  canceled: 'canceled',
+  incomplete_expired: 'canceled',
+  paused: 'paused',
+};
+
+@Injectable()
+export class StripeWebhookService {
+  private readonly logger = new Logger(StripeWebhookService.name);
+  private readonly webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || '';
+  // How long a handling attempt may run before a redelivery is allowed to take it over
+  private readonly processingLeaseMs = parseInt(process.env.STRIPE_EVENT_LEASE_MS || '300000');
+  private stripe: Stripe;
+
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly repository: PaymentRepository,
+    private readonly ledger: LedgerService,
+    private readonly dunning: DunningService,
+  ) {
+    this.initializeStripe();
+  }
+
+  private initializeStripe(): void {
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+
+    if (!stripeSecretKey || !this.webhookSecret) {
+      this.logger.warn('Stripe secret key or webhook secret not configured. Stripe webhooks will be rejected.');
+      return;
+    }
+
+    this.stripe = new Stripe(stripeSecretKey, {
+      apiVersion: '2024-12-18.acacia',
+    });
+  }
+
+  /**
+   * Verifies the Stripe-Signature header against the raw request body and
+   * returns the parsed event
+   */
+  constructEvent(rawBody: Buffer | string, signature: string | undefined): Stripe.Event {
+    if (!this.stripe) {
+      throw new StripeSignatureError('Stripe webhooks are not configured');
+    }
+    if (!signature) {
+      throw new StripeSignatureError('Missing Stripe-Signature header');
+    }
+
+    try {
+      return this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
+    } catch (error) {
+      throw new StripeSignatureError(error.message);
+    }
+  }
+
+  /**
+   * Stores a verified event and handles it once. Redeliveries of an event
+   * that was handled, or is being handled, are acknowledged without being
+   * applied again; events that failed, or whose handling stalled past the
+   * processing lease (e.g. the instance died), are retried when Stripe
+   * redelivers.
+   */
+  async ingest(event: Stripe.Event): Promise<StripeEventResult> {
+    await runQuery(
+      `INSERT INTO ${SCHEMA}.stripe_events (id, type, payload, stripe_created_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (id) DO NOTHING`,
+      [event.id, event.type, JSON.stringify(event), new Date(event.created * 1000)],
+    );
+
+    const claimed = await runQuery(
+      `UPDATE ${SCHEMA}.stripe_events
+       SET status = 'processing', attempts = attempts + 1, processing_started_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+         AND (status IN ('received', 'failed')
+           OR (status = 'processing'
+             AND (processing_started_at IS NULL
+               OR processing_started_at < CURRENT_TIMESTAMP - $2 * INTERVAL '1 millisecond')))
+       RETURNING id`,
+      [event.id, this.processingLeaseMs],
+    );
+
+    if (claimed.length === 0) {
+      this.logger.debug(`Duplicate Stripe event ${event.id} (${event.type}) acknowledged`);
+      return { eventId: event.id, type: event.type, status: 'duplicate' };
+    }
+
+    return this.process(event);
+  }
+
+  /**
+   * Re-runs stored events through their handlers, oldest first, whatever
+   * their current status. Handlers are idempotent, so replaying an event that
+   * was already applied leaves local state unchanged.
+   */
+  async replay(filter: {
+    eventIds?: string[];
+    type?: string;
+    status?: StripeEventStatus;
+    since?: Date;
+    limit?: number;
+  } = {}): Promise<StripeEventResult[]> {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.eventIds?.length) {
+      params.push(filter.eventIds);
+      clauses.push(`id = ANY($${params.length})`);
+    }
+    if (filter.type) {
+      params.push(filter.type);
+      clauses.push(`type = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      clauses.push(`status = $${params.length}`);
+    }
+    if (filter.since) {
+      params.push(filter.since);
+      clauses.push(`stripe_created_at >= $${params.length}`);
+    }
+    params.push(Math.min(filter.limit || 100, 1000));
+
+    const rows = await runQuery<{ payload: Stripe.Event }>(
+      `SELECT payload FROM ${SCHEMA}.stripe_events
+       ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+       ORDER BY stripe_created_at, received_at
+       LIMIT $${params.length}`,
+      params,
+    );
+
+    const results: StripeEventResult[] = [];
+    for (const { payload } of rows) {
+      await runQuery(
+        `UPDATE ${SCHEMA}.stripe_events
+         SET status = 'processing', attempts = attempts + 1, processing_started_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [payload.id],
+      );
+      results.push(await this.process(payload));
+    }
+
+    this.logger.log(`Replayed ${results.length} Stripe events`);
+    return results;
+  }
+
+  async getEvents(filter: { status?: StripeEventStatus; type?: string; limit?: number } = {}): Promise<StoredStripeEvent[]> {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.status) {
+      params.push(filter.status);
+      clauses.push(`status = $${params.length}`);
+    }
+    if (filter.type) {
+      params.push(filter.type);
+      clauses.push(`type = $${params.length}`);
+    }
+    params.push(Math.min(filter.limit || 100, 1000));
+
+    const rows = await runQuery(
+      `SELECT id, type, status, attempts, last_error, stripe_created_at, received_at, processed_at
+       FROM ${SCHEMA}.stripe_events
+       ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+       ORDER BY received_at DESC
+       LIMIT $${params.length}`,
+      params,
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error ?? undefined,
+      stripeCreatedAt: new Date(row.stripe_created_at),
+      receivedAt: new Date(row.received_at),
+      processedAt: row.processed_at ? new Date(row.processed_at) : undefined,
+    }));
+  }
+
+  private async process(event: Stripe.Event): Promise<StripeEventResult> {
+    try {
+      const handled = await this.handle(event);
+      const status: StripeEventStatus = handled ? 'processed' : 'ignored';
+
+      await runQuery(
+        `UPDATE ${SCHEMA}.stripe_events
+         SET status = $2, last_error = NULL, processed_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [event.id, status],
+      );
+
+      return { eventId: event.id, type: event.type, status };
+    } catch (error) {
+      await runQuery(
+        `UPDATE ${SCHEMA}.stripe_events SET status = 'failed', last_error = $2 WHERE id = $1`,
+        [event.id, error.message],
+      );
+
+      this.logger.error(`Stripe event ${event.id} (${event.type}) failed: ${error.message}`);
+      return { eventId: event.id, type: event.type, status: 'failed', error: error.message };
+    }
+  }
+
+  // Returns false for event types this service does not act on
+  private async handle(event: Stripe.Event): Promise<boolean> {
+    switch (event.type) {
+      case 'payment_intent.processing':
+      case 'payment_intent.succeeded':
+      case 'payment_intent.payment_failed':
+      case 'payment_intent.canceled':
+        await this.handlePaymentIntent(event.data.object);
+        return true;
+
+      case 'invoice.created':
+      case 'invoice.finalized':
+      case 'invoice.updated':
+      case 'invoice.paid':
+      case 'invoice.payment_succeeded':
+      case 'invoice.payment_failed':
+      case 'invoice.voided':
+      case 'invoice.marked_uncollectible':
+        if (await this.isSuperseded(event)) {
+          return true;
+        }
+        await this.handleInvoice(event.data.object);
+        return true;
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        if (await this.isSuperseded(event)) {
+          return true;
+        }
+        await this.handleSubscription(event.data.object);
+        return true;
+
+      case 'refund.updated':
+      case 'charge.refund.updated':
+        await this.handleRefund(event.data.object);
+        return true;
+
+      case 'charge.dispute.created':
+      case 'charge.dispute.closed':
+        await this.handleDispute(event.data.object);
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  private async handlePaymentIntent(intent: Stripe.PaymentIntent): Promise<void> {
+    const payment = await this.repository.findPaymentByIntentId(intent.id)
+      || (intent.metadata?.paymentId ? await this.repository.findPayment(intent.metadata.paymentId) : undefined);
+
+    if (!payment) {
+      this.logger.debug(`No local payment for payment intent ${intent.id}`);
+      return;
+    }
+
+    switch (intent.status) {
+      case 'succeeded':
+        await this.paymentService.updatePaymentStatus(payment.id, 'succeeded', { paymentIntentId: intent.id });
+        await this.paymentService.recordStripeFee(payment.id, intent);
+        break;
+      case 'canceled':
+        await this.paymentService.updatePaymentStatus(payment.id, 'canceled', { paymentIntentId: intent.id });
+        break;
+      case 'requires_payment_method':
+        // A failed attempt sends the intent back to requires_payment_method
+        if (intent.last_payment_error) {
+          await this.paymentService.updatePaymentStatus(payment.id, 'failed', {
+            paymentIntentId: intent.id,
+            failureReason: intent.last_payment_error.message,
+          });
+        }
+        break;
+      default:
+        await this.paymentService.updatePaymentStatus(payment.id, 'processing', { paymentIntentId: intent.id });
+    }
+
+    // Collection attempts on overdue invoices settle here when the charge did not complete immediately
+    await this.dunning.handlePaymentUpdate(payment.id);
+  }
+
+  private async handleInvoice(stripeInvoice: Stripe.Invoice): Promise<void> {
+    const stripeCustomerId = this.objectId(stripeInvoice.customer);
+    const customer = stripeCustomerId ? await this.repository.findCustomerByStripeId(stripeCustomerId) : undefined;
+    if (!customer) {
+      this.logger.debug(`No local customer for Stripe invoice ${stripeInvoice.id}`);
+      return;
+    }
+
+    const existing = await this.repository.findInvoiceByStripeId(stripeInvoice.id);
+    const stripeSubscriptionId = this.objectId(stripeInvoice.subscription);
+    const subscription = stripeSubscriptionId
+      ? await this.repository.findSubscriptionByStripeId(stripeSubscriptionId)
+      : undefined;
+    const paidAt = stripeInvoice.status_transitions?.paid_at;
+
+    const invoice: Invoice = {
+      id: existing?.id || this.generateId(),
+      number: stripeInvoice.number || existing?.number,
+      customerId: customer.id,
+      subscriptionId: subscription?.id || existing?.subscriptionId,
+      amount: stripeInvoice.subtotal,
+      currency: stripeInvoice.currency,
+      status: stripeInvoice.status || existing?.status || 'draft',
+      dueDate: new Date((stripeInvoice.due_date || stripeInvoice.created) * 1000),
+      paidAt: paidAt ? new Date(paidAt * 1000) : undefined,
+      items: stripeInvoice.lines.data.map((line) => ({
+        id: line.id,
+        description: line.description || '',
+        quantity: line.quantity || 1,
+        unitAmount: Math.round(line.amount / (line.quantity || 1)),
+        totalAmount: line.amount,
+        metadata: line.metadata || {},
+      })),
+      taxAmount: stripeInvoice.tax || 0,
+      // Stripe reports a lower pre-tax subtotal when its prices include tax
+      taxBehavior: stripeInvoice.subtotal_excluding_tax !== null && stripeInvoice.subtotal_excluding_tax < stripeInvoice.subtotal
+        ? 'inclusive'
+        : 'exclusive',
+      tax: existing?.tax,
+      discountAmount: (stripeInvoice.total_discount_amounts || []).reduce((sum, discount) => sum + discount.amount, 0),
+      totalAmount: stripeInvoice.total,
+      amountDue: stripeInvoice.amount_remaining,
+      creditApplied: existing?.creditApplied || 0,
+      stripeInvoiceId: stripeInvoice.id,
+      pdfUrl: stripeInvoice.invoice_pdf || existing?.pdfUrl,
+      createdAt: existing?.createdAt || new Date(stripeInvoice.created * 1000),
+    };
+
+    await this.repository.saveInvoice(invoice);
+    this.logger.log(`Invoice ${invoice.id} synced from Stripe (${invoice.status})`);
+  }
+
+  private async handleSubscription(stripeSubscription: Stripe.Subscription): Promise<void> {
+    const existing = await this.repository.findSubscriptionByStripeId(stripeSubscription.id);
+    // Paused collection leaves the Stripe status active
+    const status = stripeSubscription.pause_collection
+      ? 'paused'
+      : SUBSCRIPTION_STATUSES[stripeSubscription.status] || existing?.status;
+
+    if (!existing) {
+      const stripeCustomerId = this.objectId(stripeSubscription.customer);
+      const customer = stripeCustomerId ? await this.repository.findCustomerByStripeId(stripeCustomerId) : undefined;
+      const priceId = stripeSubscription.items.data[0]?.price.id;
+      const plan = priceId ? await this.repository.findPlanByStripePriceId(priceId) : undefined;
+
+      if (!customer || !plan || !status) {
+        this.logger.debug(`Stripe subscription ${stripeSubscription.id} does not map to a local customer and plan`);
+        return;
+      }
+
+      await this.repository.saveSubscription({
+        id: this.generateId(),
+        customerId: customer.id,
+        planId: plan.id,
+        status,
+        currentPeriodStart: new Date(stripeSubscription.current_period_start * 1000),
+        currentPeriodEnd: new Date(stripeSubscription.current_period_end * 1000),
+        billingAnchor: new Date(stripeSubscription.billing_cycle_anchor * 1000),
+        trialEnd: stripeSubscription.trial_end ? new Date(stripeSubscription.trial_end * 1000) : undefined,
+        cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+        stripeSubscriptionId: stripeSubscription.id,
+        metadata: stripeSubscription.metadata || {},
+        createdAt: new Date(stripeSubscription.created * 1000),
+        updatedAt: new Date(),
+      });
+      this.logger.log(`Subscription created from Stripe: ${stripeSubscription.id}`);
+      return;
+    }
+
+    if (!status) {
+      this.logger.warn(`Unmapped Stripe subscription status ${stripeSubscription.status} for ${existing.id}`);
+    }
+
+    const priceId = stripeSubscription.items.data[0]?.price.id;
+    const plan = priceId ? await this.repository.findPlanByStripePriceId(priceId) : undefined;
+
+    const updated: Subscription = {
+      ...existing,
+      planId: plan?.id || existing.planId,
+      status: status || existing.status,
+      currentPeriodStart: new Date(stripeSubscription.current_period_start * 1000),
+      currentPeriodEnd: new Date(stripeSubscription.current_period_end * 1000),
+      billingAnchor: new Date(stripeSubscription.billing_cycle_anchor * 1000),
+      trialEnd: stripeSubscription.trial_end ? new Date(stripeSubscription.trial_end * 1000) : undefined,
+      cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+      pausedAt: status === 'paused' ? existing.pausedAt || new Date() : undefined,
+      resumeAt: stripeSubscription.pause_collection?.resumes_at
+        ? new Date(stripeSubscription.pause_collection.resumes_at * 1000)
+        : undefined,
+      updatedAt: new Date(),
+    };
+
+    await this.repository.saveSubscription(updated);
+    this.logger.log(`Subscription ${existing.id} synced from Stripe (${updated.status})`);
+
+    // Stripe runs its own retries; access follows the status it ends up in
+    await this.dunning.handleSubscriptionStatusChange(updated, existing.status);
+  }
+
+  // Settles refunds Stripe reported as pending when they were created
+  private async handleRefund(stripeRefund: Stripe.Refund): Promise<void> {
+    const refundId = stripeRefund.metadata?.refundId;
+    if (!refundId) {
+      this.logger.debug(`No local refund for Stripe refund ${stripeRefund.id}`);
+      return;
+    }
+
+    if (stripeRefund.status === 'succeeded') {
+      await this.paymentService.settleRefund(refundId, 'succeeded');
+    } else if (stripeRefund.status === 'failed' || stripeRefund.status === 'canceled') {
+      await this.paymentService.settleRefund(
+        refundId,
+        'failed',
+        stripeRefund.failure_reason || `Stripe refund ${stripeRefund.status}`,
+      );
+    }
+  }
+
+  private async handleDispute(dispute: Stripe.Dispute): Promise<void> {
+    const paymentIntentId = this.objectId(dispute.payment_intent);
+    const payment = paymentIntentId ? await this.repository.findPaymentByIntentId(paymentIntentId) : undefined;
+    if (!payment) {
+      this.logger.warn(`No local payment for dispute ${dispute.id} on charge ${this.objectId(dispute.charge)}`);
+      return;
+    }
+
+    if (dispute.status === 'won' || dispute.status === 'warning_closed') {
+      const restored = await this.paymentService.restoreDisputedPayment(payment.id);
+      this.logger.log(`Dispute ${dispute.id} on payment ${payment.id} closed in our favour; payment is ${restored?.status}`);
+      return;
+    }
+
+    await this.paymentService.updatePaymentStatus(payment.id, 'disputed');
+
+    if (dispute.status === 'lost') {
+      // The disputed amount is withdrawn for good; record it once per dispute
+      const transactions = await this.ledger.getTransactions('payment', payment.id);
+      const recorded = transactions.some(
+        (transaction) => transaction.type === 'refund' && transaction.metadata.disputeId === dispute.id,
+      );
+      if (!recorded) {
+        await this.ledger.recordRefund({
+          paymentId: payment.id,
+          customerId: payment.customerId,
+          amount: dispute.amount,
+          currency: dispute.currency,
+          description: `Dispute lost: ${dispute.reason}`,
+          metadata: { disputeId: dispute.id },
+        });
+      }
+
+      // Stripe's dispute fee is withheld with the disputed amount
+      for (const balanceTransaction of dispute.balance_transactions || []) {
+        await this.paymentService.recordProcessingFee(payment.id, {
+          amount: balanceTransaction.fee,
+          currency: balanceTransaction.currency,
+          balanceTransactionId: balanceTransaction.id,
+          description: `Stripe dispute fee for ${dispute.id}`,
+          metadata: { disputeId: dispute.id },
+        });
+      }
+      this.logger.warn(`Dispute ${dispute.id} on payment ${payment.id} lost`);
+      return;
+    }
+
+    this.logger.warn(`Payment ${payment.id} disputed (${dispute.reason}, ${dispute.status})`);
+  }
+
+  // Stripe does not guarantee delivery order; skip an event if a newer one for the same object was applied
+  private async isSuperseded(event: Stripe.Event): Promise<boolean> {
+    const objectId = (event.data.object as { id?: string }).id;
+    const newer = await runQuery(
+      `SELECT 1 FROM ${SCHEMA}.stripe_events
+       WHERE payload->'data'->'object'->>'id' = $1
+         AND stripe_created_at > $2
+         AND status = 'processed'
+       LIMIT 1`,
+      [objectId, new Date(event.created * 1000)],
+    );
+
+    if (newer.length > 0) {
+      this.logger.debug(`Stripe event ${event.id} superseded by a newer event for ${objectId}`);
+      return true;
+    }
+    return false;
+  }
+
+  private objectId(value: string | { id: string } | null | undefined): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    return typeof value === 'string' ? value : value.id;
+  }
+
+  private generateId(): string {
+    return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}